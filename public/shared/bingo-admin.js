@@ -0,0 +1,183 @@
+// ── Query param flags ────────────────────────────────────────────────────────
+const params = new URLSearchParams(location.search);
+const DEBUG_MODE = params.get('debug') === 'true';
+
+const PRIZE_LABELS = { line: 'a line', full_house: 'a full house' };
+
+// ── State ────────────────────────────────────────────────────────────────────
+let ws = null;
+let playerCount = 0;
+
+// ── DOM refs ─────────────────────────────────────────────────────────────────
+const setupSection = document.getElementById('setupSection');
+const controllerSection = document.getElementById('controllerSection');
+const wordList = document.getElementById('wordList');
+const startSessionBtn = document.getElementById('startSessionBtn');
+const sessionIdEl = document.getElementById('sessionId');
+const playerCountEl = document.getElementById('playerCount');
+const prizeEl = document.getElementById('prize');
+const startBingoBtn = document.getElementById('startBingoBtn');
+const restartBtn = document.getElementById('restartBtn');
+const noClaims = document.getElementById('noClaims');
+const claimList = document.getElementById('claimList');
+const winnerList = document.getElementById('winnerList');
+const debugPanel = document.getElementById('debugPanel');
+const debugJson = document.getElementById('debugJson');
+
+// ── Debug panel ──────────────────────────────────────────────────────────────
+if (DEBUG_MODE) {
+    debugPanel.classList.remove('hidden');
+}
+
+function updateDebug(msg) {
+    if (DEBUG_MODE) {
+        debugJson.textContent = JSON.stringify(msg, null, 2);
+    }
+}
+
+// ── WebSocket connection ─────────────────────────────────────────────────────
+function connect() {
+    const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+    ws = new WebSocket(protocol + '//' + location.host);
+
+    ws.onmessage = (e) => {
+        const msg = JSON.parse(e.data);
+        updateDebug(msg);
+        handleMessage(msg);
+    };
+
+    ws.onclose = () => {
+        setTimeout(connect, 2000);
+    };
+}
+
+function send(cmd) {
+    if (ws && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(cmd));
+}
+
+// ── Start Session ────────────────────────────────────────────────────────────
+startSessionBtn.addEventListener('click', () => {
+    const words = wordList.value.split('\n').map(w => w.trim()).filter(Boolean);
+    const cmd = { type: 'create_session', gameMode: 'bingo' };
+    if (words.length > 0) cmd.words = words;
+    send(cmd);
+});
+
+// ── Message handlers ─────────────────────────────────────────────────────────
+function handleMessage(msg) {
+    switch (msg.type) {
+        case 'relay_status':     onRelayStatus(msg);     break;
+        case 'session_created':  onSessionCreated(msg);  break;
+        case 'session_restored': onSessionRestored(msg); break;
+        case 'player_joined':
+        case 'player_left':      setPlayerCount(msg.playerCount); break;
+        case 'bingo_started':    onBingoStarted(msg);    break;
+        case 'bingo_claimed':    onBingoClaimed(msg);    break;
+        case 'claim_result':     onClaimResult(msg);     break;
+        case 'game_over':        onGameOver();           break;
+        case 'error':
+            alert('Server error: ' + msg.message);
+            break;
+    }
+}
+
+// ── Join code (relay deployments) ───────────────────────────────────────────
+function onRelayStatus(msg) {
+    if (msg.role === 'standby') showHostRole('Standby host — this laptop takes over if the primary host drops.');
+    if (!msg.joinCode) return;
+    document.getElementById('joinCode').textContent = msg.joinCode;
+    document.getElementById('joinPath').textContent = '/play?session=' + msg.joinCode;
+    document.getElementById('screenPath').textContent = '/broadcast/bingo?session=' + msg.joinCode + (msg.screenKey ? '&screen=' + msg.screenKey : '');
+    document.getElementById('joinCodeLine').classList.remove('hidden');
+}
+
+function showHostRole(text) {
+    const hostRole = document.getElementById('hostRole');
+    hostRole.textContent = text;
+    hostRole.classList.remove('hidden');
+}
+
+/** This laptop was the standby and now runs the session the primary host started. */
+function onSessionRestored(msg) {
+    onSessionCreated(msg);
+    showHostRole('Took over hosting from the primary host. The game carries on from where it was.');
+}
+
+function onSessionCreated(msg) {
+    sessionIdEl.textContent = msg.sessionId;
+    setupSection.classList.add('hidden');
+    controllerSection.classList.remove('hidden');
+    startBingoBtn.disabled = false;
+    claimList.innerHTML = '';
+    winnerList.innerHTML = '';
+    noClaims.classList.remove('hidden');
+    setPlayerCount(0);
+    prizeEl.textContent = PRIZE_LABELS.line;
+}
+
+function setPlayerCount(count) {
+    playerCount = count;
+    playerCountEl.textContent = playerCount;
+}
+
+function onBingoStarted(msg) {
+    startBingoBtn.disabled = true;
+    prizeEl.textContent = PRIZE_LABELS[msg.prize];
+}
+
+// ── Claims ───────────────────────────────────────────────────────────────────
+function onBingoClaimed(msg) {
+    const li = document.createElement('li');
+    li.dataset.playerId = msg.playerId;
+
+    const title = document.createElement('strong');
+    title.textContent = `${msg.screenName} claims ${PRIZE_LABELS[msg.pattern]}`;
+    const words = document.createElement('p');
+    words.className = 'claim-words';
+    words.textContent = 'Marked: ' + msg.markedWords.join(', ');
+
+    const row = document.createElement('div');
+    row.className = 'btn-row';
+    const accept = document.createElement('button');
+    accept.textContent = 'Accept';
+    accept.addEventListener('click', () => send({ type: 'verify_claim', playerId: msg.playerId, accept: true }));
+    const reject = document.createElement('button');
+    reject.textContent = 'Reject';
+    reject.addEventListener('click', () => send({ type: 'verify_claim', playerId: msg.playerId, accept: false }));
+    row.appendChild(accept);
+    row.appendChild(reject);
+
+    li.appendChild(title);
+    li.appendChild(words);
+    li.appendChild(row);
+    claimList.appendChild(li);
+    noClaims.classList.add('hidden');
+}
+
+function onClaimResult(msg) {
+    const li = claimList.querySelector(`li[data-player-id="${CSS.escape(msg.playerId)}"]`);
+    if (li) li.remove();
+    if (claimList.children.length === 0) noClaims.classList.remove('hidden');
+    prizeEl.textContent = PRIZE_LABELS[msg.prize];
+    if (msg.accepted) {
+        const winner = document.createElement('li');
+        winner.textContent = `${msg.screenName} — ${PRIZE_LABELS[msg.pattern]}`;
+        winnerList.appendChild(winner);
+    }
+}
+
+function onGameOver() {
+    prizeEl.textContent = 'game over';
+    claimList.innerHTML = '';
+    noClaims.classList.remove('hidden');
+}
+
+// ── Restart Game ─────────────────────────────────────────────────────────────
+restartBtn.addEventListener('click', () => {
+    send({ type: 'restart_game' });
+    controllerSection.classList.add('hidden');
+    setupSection.classList.remove('hidden');
+});
+
+// ── Start ────────────────────────────────────────────────────────────────────
+connect();
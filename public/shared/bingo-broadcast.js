@@ -0,0 +1,101 @@
+import { connect, send, spectatorRegistration } from './ws-client.js';
+
+// ── Config ────────────────────────────────────────────────────────────────────
+const DEBUG_MODE = new URLSearchParams(location.search).get('debug') === 'true';
+const PRIZE_LABELS = { line: 'a line', full_house: 'a full house' };
+
+// ── DOM ───────────────────────────────────────────────────────────────────────
+const headerSub        = document.getElementById('headerSub');
+const playerCountBadge = document.getElementById('playerCountBadge');
+const noClaims         = document.getElementById('noClaims');
+const claimList        = document.getElementById('claimList');
+const noWinners        = document.getElementById('noWinners');
+const winnerList       = document.getElementById('winnerList');
+const winnerScreen     = document.getElementById('winnerScreen');
+const winnerLabel      = document.getElementById('winnerLabel');
+const winnerNames      = document.getElementById('winnerNames');
+const debugPanel       = document.getElementById('debugPanel');
+const debugJson        = document.getElementById('debugJson');
+
+if (DEBUG_MODE) debugPanel.style.display = 'block';
+
+// ── State ─────────────────────────────────────────────────────────────────────
+let playerCount = 0;
+let prize = 'line';
+let started = false;
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+function updateHeader() {
+    headerSub.textContent = started
+        ? `Playing for ${PRIZE_LABELS[prize]} · `
+        : 'Waiting for players · ';
+    playerCountBadge.textContent = `${playerCount} player${playerCount === 1 ? '' : 's'}`;
+    headerSub.appendChild(playerCountBadge);
+}
+
+function claimItem(playerId) {
+    return claimList.querySelector(`li[data-player-id="${CSS.escape(playerId)}"]`);
+}
+
+// ── Event handlers ────────────────────────────────────────────────────────────
+function onBingoClaimed(msg) {
+    const li = document.createElement('li');
+    li.dataset.playerId = msg.playerId;
+    li.textContent = `${msg.screenName} claims ${PRIZE_LABELS[msg.pattern]}!`;
+    claimList.appendChild(li);
+    noClaims.style.display = 'none';
+}
+
+function onClaimResult(msg) {
+    const li = claimItem(msg.playerId);
+    if (msg.accepted) {
+        if (li) li.remove();
+        const winner = document.createElement('li');
+        winner.textContent = `${msg.screenName} — ${PRIZE_LABELS[msg.pattern]}`;
+        winnerList.appendChild(winner);
+        noWinners.style.display = 'none';
+    } else if (li) {
+        li.classList.add('rejected');
+        setTimeout(() => li.remove(), 3000);
+    }
+    prize = msg.prize;
+    updateHeader();
+}
+
+function onGameOver(msg) {
+    winnerLabel.textContent = msg.winners.length === 1 ? 'Full house — winner' : 'Full house — winners';
+    winnerNames.textContent = msg.winners.join(' & ') || '—';
+    winnerScreen.classList.add('visible');
+}
+
+// ── Reset ─────────────────────────────────────────────────────────────────────
+function resetToLobby() {
+    playerCount = 0;
+    prize = 'line';
+    started = false;
+    claimList.innerHTML = '';
+    winnerList.innerHTML = '';
+    noClaims.style.display = '';
+    noWinners.style.display = '';
+    winnerScreen.classList.remove('visible');
+    updateHeader();
+}
+
+// ── Router ────────────────────────────────────────────────────────────────────
+function handleMessage(msg) {
+    if (DEBUG_MODE) debugJson.textContent = JSON.stringify(msg, null, 2);
+    switch (msg.type) {
+        case 'game_reset':
+        case 'session_created': resetToLobby();                                    break;
+        case 'player_joined':
+        case 'player_left':     playerCount = msg.playerCount; updateHeader();     break;
+        case 'bingo_started':   started = true; prize = msg.prize; updateHeader(); break;
+        case 'bingo_claimed':   onBingoClaimed(msg);                               break;
+        case 'claim_result':    onClaimResult(msg);                                break;
+        case 'game_over':       onGameOver(msg);                                   break;
+    }
+}
+
+// ── Boot ──────────────────────────────────────────────────────────────────────
+resetToLobby();
+connect(handleMessage, () => send(spectatorRegistration()));
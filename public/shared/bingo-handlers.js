@@ -0,0 +1,98 @@
+import { send } from './ws-client.js';
+import { show, hide, showNotification } from './ui.js';
+import { state } from './state.js';
+const PRIZE_LABELS = { line: 'a line', full_house: 'a full house' };
+let started = false;
+let prize = 'line';
+let pattern = null;
+function setStatus(text) {
+    document.getElementById('bingoStatus').textContent = text;
+}
+/** A card showing a full house also covers a line, so it can claim either prize. */
+function canClaim() {
+    return started && pattern !== null && (prize === 'line' || pattern === 'full_house');
+}
+function updateClaimButton() {
+    document.getElementById('claimBtn').disabled = !canClaim();
+}
+function renderCard(words, marked) {
+    const grid = document.getElementById('bingoGrid');
+    grid.innerHTML = '';
+    words.forEach((word, i) => {
+        const cell = document.createElement('button');
+        cell.className = 'bingo-cell' + (marked[i] ? ' marked' : '');
+        cell.dataset.index = String(i);
+        cell.textContent = word;
+        cell.disabled = !started;
+        grid.appendChild(cell);
+    });
+}
+function setCellsEnabled(enabled) {
+    document.querySelectorAll('.bingo-cell').forEach(c => { c.disabled = !enabled; });
+}
+export const bingoHandlers = {
+    card_dealt(msg) {
+        pattern = null;
+        renderCard(msg.words, msg.marked);
+        hide('waitingSection');
+        show('bingoSection');
+        setStatus(started ? 'Playing for ' + PRIZE_LABELS[prize] : 'Waiting for the host to start…');
+        updateClaimButton();
+    },
+    bingo_started(msg) {
+        started = true;
+        prize = msg.prize;
+        setCellsEnabled(true);
+        setStatus('Playing for ' + PRIZE_LABELS[prize]);
+        updateClaimButton();
+    },
+    cell_marked(msg) {
+        const cell = document.querySelector(`.bingo-cell[data-index="${msg.index}"]`);
+        if (cell)
+            cell.classList.toggle('marked', msg.marked);
+        pattern = msg.pattern;
+        updateClaimButton();
+    },
+    bingo_claimed(msg) {
+        if (msg.playerId !== state.playerId)
+            return;
+        document.getElementById('claimBtn').disabled = true;
+        setStatus('Claim sent — the host is checking your card…');
+    },
+    claim_result(msg) {
+        prize = msg.prize;
+        if (msg.playerId === state.playerId) {
+            showNotification(msg.accepted ? 'Bingo! Your ' + (msg.pattern === 'line' ? 'line' : 'full house') + ' was accepted' : 'Claim rejected — keep listening', msg.accepted ? 'info' : 'error');
+        }
+        else if (msg.accepted) {
+            showNotification(msg.screenName + ' won ' + PRIZE_LABELS[msg.pattern], 'info');
+        }
+        setStatus('Playing for ' + PRIZE_LABELS[prize]);
+        updateClaimButton();
+    },
+    game_reset(_msg) {
+        started = false;
+        prize = 'line';
+        pattern = null;
+        hide('bingoSection');
+    },
+};
+// Register card cell and claim button click handlers
+export function initBingoCard() {
+    const grid = document.getElementById('bingoGrid');
+    if (grid) {
+        grid.addEventListener('click', (e) => {
+            const cell = e.target.closest('.bingo-cell');
+            if (!cell || cell.disabled)
+                return;
+            send({ type: 'mark_cell', index: Number(cell.dataset.index) });
+        });
+    }
+    const claimBtn = document.getElementById('claimBtn');
+    if (claimBtn) {
+        claimBtn.addEventListener('click', () => {
+            if (canClaim())
+                send({ type: 'claim_bingo' });
+        });
+    }
+}
@@ -0,0 +1,31 @@
+// Estimates the offset between this device's clock and the server's, so
+// countdowns end at the server's deadline however wrong the local clock is.
+/** Samples sent per connection; the one with the shortest round trip wins. */
+export const CLOCK_SYNC_SAMPLES = 3;
+let offsetMs = 0;
+let bestRttMs = Infinity;
+export function clockSyncRequest() {
+    return { type: 'clock_sync', clientTime: Date.now() };
+}
+/** Folds a clock_sync reply into the estimate, assuming the server stamped it halfway through the round trip. */
+export function handleClockSync(msg) {
+    const now = Date.now();
+    const rtt = now - msg.clientTime;
+    if (rtt < 0 || rtt >= bestRttMs)
+        return;
+    bestRttMs = rtt;
+    offsetMs = msg.serverTime + rtt / 2 - now;
+}
+/** The current time on the server's clock. */
+export function serverNow() {
+    return Date.now() + offsetMs;
+}
+/** Milliseconds until a server-clock deadline, never negative. */
+export function msUntil(deadline) {
+    return Math.max(0, deadline - serverNow());
+}
+/** Forgets the estimate; a new connection may reach a different server. */
+export function resetClock() {
+    offsetMs = 0;
+    bestRttMs = Infinity;
+}
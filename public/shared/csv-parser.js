@@ -1,96 +1,169 @@
-// Browser-side CSV parser — mirrors server CsvParser validation rules.
-// Returns { questions, errors } instead of throwing, for immediate UI feedback.
-
-const VALID_ANSWERS = new Set(['A', 'B', 'C', 'D']);
+// Trivia question CSV validation, shared by the server's CsvParser and the
+// admin page, which checks a file before anything is sent.
+import { columnLetter, describeCell, readCsv } from './csv-reader.js';
+import { DEFAULT_MAX_QUESTIONS, MIN_QUESTIONS, OPTION_FIELDS, QUESTION_TYPES, RULES, got, isOpinionType, isValidImage, isValidPoints, isValidTimeLimit, optionCountOf, optionProblems, readCorrect, } from './question-rules.js';
 const REQUIRED_HEADERS = ['question', 'a', 'b', 'c', 'd', 'correct'];
-
-function splitRow(line) {
-    const cols = [];
-    let current = '';
-    let inQuotes = false;
-    for (let i = 0; i < line.length; i++) {
-        const ch = line[i];
-        if (ch === '"') {
-            inQuotes = !inQuotes;
-        } else if (ch === ',' && !inQuotes) {
-            cols.push(current);
-            current = '';
-        } else {
-            current += ch;
-        }
-    }
-    cols.push(current);
-    return cols;
+/** May follow the required columns, in any order. */
+export const OPTIONAL_HEADERS = ['type', 'e', 'f', 'tolerance', 'time_limit', 'category', 'round', 'points', 'explanation', 'image'];
+function isBlank(record) {
+    return record.cells.every(c => c.trim() === '');
 }
-
-/**
- * Parse a CSV string of trivia questions.
- * @param {string} csv
- * @returns {{ questions: object[], errors: string[] }}
- */
-export function parseCsv(csv) {
-    const errors = [];
-    const lines = csv.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
-
-    // Strip BOM
-    if (lines.length > 0 && lines[0].charCodeAt(0) === 0xFEFF) {
-        lines[0] = lines[0].slice(1);
+/** Parses a whole file, collecting every problem rather than stopping at the first. */
+export function parseCsv(csv, options = {}) {
+    const maxQuestions = options.maxQuestions ?? DEFAULT_MAX_QUESTIONS;
+    const { records, issues: errors } = readCsv(csv);
+    while (records.length > 0 && isBlank(records[records.length - 1]))
+        records.pop();
+    if (records.length === 0) {
+        return { questions: [], errors: errors.length > 0 ? errors : [{ message: 'File is empty' }] };
     }
-
-    // Remove trailing blank lines
-    while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
-        lines.pop();
+    // ── Header ──────────────────────────────────────────────────────────────────
+    // Spreadsheets often export empty columns past the last heading
+    const headings = records[0].cells.map(h => h.trim().toLowerCase());
+    while (headings.length > REQUIRED_HEADERS.length && headings[headings.length - 1] === '')
+        headings.pop();
+    function headerIssue(column, message) {
+        errors.push({ row: 1, column, message: `${column === undefined ? 'Row 1 (header)' : describeCell(1, column)}: ${message}` });
     }
-
-    if (lines.length === 0) {
-        return { questions: [], errors: ['File is empty'] };
+    if (!REQUIRED_HEADERS.every((h, i) => headings[i] === h)) {
+        headerIssue(undefined, `must start with "${REQUIRED_HEADERS.join(',')}" — got "${records[0].cells.join(',').trim()}"`);
     }
-
-    // Validate header
-    const headerCols = splitRow(lines[0]).map(h => h.trim().toLowerCase());
-    if (headerCols.join(',') !== REQUIRED_HEADERS.join(',')) {
-        errors.push(`Row 1 (header): must be exactly "question,a,b,c,d,correct" — got "${lines[0].trim()}"`);
+    else {
+        headings.slice(REQUIRED_HEADERS.length).forEach((h, i) => {
+            const column = REQUIRED_HEADERS.length + i + 1;
+            const first = headings.indexOf(h) + 1;
+            if (!OPTIONAL_HEADERS.includes(h)) {
+                headerIssue(column, `unknown column "${h}" — columns after "correct" may be any of ${OPTIONAL_HEADERS.join(', ')}`);
+            }
+            else if (first !== column) {
+                headerIssue(column, `"${h}" is already column ${columnLetter(first)}`);
+            }
+        });
     }
-
-    const dataLines = lines.slice(1);
-
-    if (dataLines.length < 3) {
-        errors.push(`Too few questions: minimum is 3, found ${dataLines.length}`);
-    } else if (dataLines.length > 15) {
-        errors.push(`Too many questions: maximum is 15, found ${dataLines.length}`);
+    // Rows are still checked under a bad header, reading the required columns by position
+    const columnOf = new Map(REQUIRED_HEADERS.map((h, i) => [h, i]));
+    headings.forEach((h, i) => {
+        if (i >= REQUIRED_HEADERS.length && OPTIONAL_HEADERS.includes(h) && !columnOf.has(h))
+            columnOf.set(h, i);
+    });
+    const dataRecords = records.slice(1).filter(r => !isBlank(r));
+    if (dataRecords.length < MIN_QUESTIONS) {
+        errors.push({ message: `Too few questions: minimum is ${MIN_QUESTIONS}, found ${dataRecords.length}` });
     }
-
-    const seenQuestions = new Map();
+    else if (dataRecords.length > maxQuestions) {
+        errors.push({ message: `Too many questions: maximum is ${maxQuestions}, found ${dataRecords.length}` });
+    }
+    // ── Rows ────────────────────────────────────────────────────────────────────
+    const seenQuestions = new Map(); // normalised text → first row number
+    const endedRounds = new Map(); // round name → its last row
+    let currentRound = null;
+    let currentRoundLastRow = 0;
     const questions = [];
-
-    for (let i = 0; i < dataLines.length; i++) {
-        const rowNum = i + 2;
-        const line = dataLines[i];
-        if (line.trim() === '') continue;
-
-        const cols = splitRow(line).map(c => c.trim());
-
-        if (cols.length < 6 || cols.slice(0, 6).some(c => c === '')) {
-            errors.push(`Row ${rowNum}: all 6 columns (question, a, b, c, d, correct) must be populated`);
+    for (const { row, cells: raw } of dataRecords) {
+        const cells = raw.map(c => c.trim());
+        const cell = (name) => {
+            const index = columnOf.get(name);
+            return index === undefined ? '' : cells[index] ?? '';
+        };
+        const rowIssue = (name, message) => {
+            const column = (columnOf.get(name) ?? 0) + 1;
+            errors.push({ row, column, message: `${describeCell(row, column, name)}: ${message}` });
+        };
+        // A stray comma in an unquoted answer pushes the rest of the row right
+        for (let i = headings.length; i < cells.length; i++) {
+            if (cells[i] !== '') {
+                errors.push({ row, column: i + 1, message: `${describeCell(row, i + 1)}: "${cells[i]}" has no column heading — quote any cell that contains a comma` });
+                break;
+            }
+        }
+        // A blank type cell means multiple choice
+        const typeRaw = cell('type').toLowerCase();
+        const type = (typeRaw === '' ? 'multiple_choice' : typeRaw);
+        if (!QUESTION_TYPES.includes(type)) {
+            rowIssue('type', RULES.type + got(cell('type')));
             continue;
         }
-
-        const [questionText, a, b, c, d, correctRaw] = cols;
-        const correctUpper = correctRaw.toUpperCase();
-
-        if (!VALID_ANSWERS.has(correctUpper)) {
-            errors.push(`Row ${rowNum}: "correct" must be A, B, C, or D — got "${correctRaw}"`);
+        // Which answer cells must be filled depends on the type
+        const options = Object.fromEntries(OPTION_FIELDS.map(f => [f, cell(f)]));
+        const blank = [
+            ...(cell('question') === '' ? [{ field: 'question', message: RULES.required }] : []),
+            ...optionProblems(type, options),
+            ...(cell('correct') === '' && !isOpinionType(type) ? [{ field: 'correct', message: RULES.required }] : []),
+        ];
+        if (blank.length > 0) {
+            for (const { field, message } of blank)
+                rowIssue(field, message);
+            continue;
+        }
+        // Polls and word clouds leave correct blank
+        const read = cell('correct') === '' ? null : readCorrect(type, cell('correct'), optionCountOf(type, options));
+        if (read && 'problem' in read)
+            rowIssue('correct', read.problem);
+        const toleranceRaw = cell('tolerance');
+        const tolerance = toleranceRaw === '' ? undefined : Number(toleranceRaw);
+        if (tolerance !== undefined && type !== 'numeric') {
+            rowIssue('tolerance', 'only applies to numeric questions' + got(toleranceRaw));
+        }
+        else if (tolerance !== undefined && !(Number.isFinite(tolerance) && tolerance >= 0)) {
+            rowIssue('tolerance', RULES.tolerance + got(toleranceRaw));
         }
-
-        const normalised = questionText.toLowerCase();
+        // A blank time_limit cell falls back to the session default
+        const timeLimitRaw = cell('time_limit');
+        const timeLimit = timeLimitRaw === '' ? undefined : Number(timeLimitRaw);
+        if (timeLimit !== undefined && !isValidTimeLimit(timeLimit)) {
+            rowIssue('time_limit', RULES.timeLimit + got(timeLimitRaw));
+        }
+        const pointsRaw = cell('points');
+        const points = pointsRaw === '' ? undefined : Number(pointsRaw);
+        if (points !== undefined && !isValidPoints(points)) {
+            rowIssue('points', RULES.points + got(pointsRaw));
+        }
+        const image = cell('image');
+        if (image !== '' && !isValidImage(image)) {
+            rowIssue('image', RULES.image + got(image));
+        }
+        // A blank round cell continues the round above it
+        const roundName = cell('round');
+        if (roundName !== '' && roundName !== currentRound) {
+            if (currentRound !== null)
+                endedRounds.set(currentRound, currentRoundLastRow);
+            if (endedRounds.has(roundName)) {
+                rowIssue('round', `"${roundName}" already ended at row ${endedRounds.get(roundName)} — keep each round's questions together`);
+            }
+            currentRound = roundName;
+        }
+        currentRoundLastRow = row;
+        const normalised = cell('question').toLowerCase();
         if (seenQuestions.has(normalised)) {
-            errors.push(`Row ${rowNum}: duplicate question text (same as row ${seenQuestions.get(normalised)})`);
-        } else {
-            seenQuestions.set(normalised, rowNum);
+            rowIssue('question', `duplicate question text — same as row ${seenQuestions.get(normalised)}`);
+        }
+        else {
+            seenQuestions.set(normalised, row);
+        }
+        const question = { question: cell('question') };
+        if (typeRaw !== '')
+            question.type = type;
+        for (const field of OPTION_FIELDS) {
+            if (cell(field) !== '')
+                question[field] = cell(field);
         }
-
-        questions.push({ question: questionText, a, b, c, d, correct: correctUpper });
+        if (read && 'correct' in read)
+            question.correct = read.correct;
+        if (tolerance !== undefined)
+            question.tolerance = tolerance;
+        if (timeLimit !== undefined)
+            question.timeLimit = timeLimit;
+        if (currentRound !== null)
+            question.round = currentRound;
+        if (cell('category') !== '')
+            question.category = cell('category');
+        if (points !== undefined)
+            question.points = points;
+        if (cell('explanation') !== '')
+            question.explanation = cell('explanation');
+        if (image !== '')
+            question.image = image;
+        questions.push(question);
     }
-
     return { questions, errors };
 }
@@ -0,0 +1,141 @@
+// An RFC 4180 CSV reader that runs unchanged on the server and in the browser.
+// Quoted fields may hold commas, doubled quotes and line breaks; rows may end
+// in CRLF, LF or CR. Input can arrive in chunks split anywhere, even between
+// the two quotes of an escaped quote.
+/** The spreadsheet letter for a 1-based column: 1 → A, 27 → AA. */
+export function columnLetter(column) {
+    let letters = '';
+    for (let n = column; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+    }
+    return letters;
+}
+/** `Row 3, column F (correct)`, or just `Row 3` without a column. */
+export function describeCell(row, column, heading) {
+    if (column === undefined)
+        return `Row ${row}`;
+    return `Row ${row}, column ${columnLetter(column)}${heading ? ` (${heading})` : ''}`;
+}
+export function createCsvReader(handlers) {
+    let state = 'field_start';
+    let field = '';
+    let cells = [];
+    let row = 1;
+    let quotedFrom = { row: 1, column: 1 };
+    let started = false;
+    let skipLineFeed = false;
+    let strayReported = false;
+    function issue(column, message) {
+        handlers.onIssue({ row, column, message: `${describeCell(row, column)}: ${message}` });
+    }
+    function endField() {
+        cells.push(field);
+        field = '';
+        state = 'field_start';
+        strayReported = false;
+    }
+    function endRecord() {
+        endField();
+        handlers.onRecord({ row, cells });
+        cells = [];
+        row++;
+    }
+    function read(ch) {
+        switch (state) {
+            case 'quoted':
+                if (ch === '"')
+                    state = 'quote_in_quoted';
+                else
+                    field += ch;
+                return;
+            case 'quote_in_quoted':
+                if (ch === '"') {
+                    field += '"';
+                    state = 'quoted';
+                    return;
+                }
+                state = 'after_quoted';
+                read(ch);
+                return;
+            case 'after_quoted':
+                if (ch === ' ' || ch === '\t')
+                    return;
+                if (ch === ',' || ch === '\n' || ch === '\r')
+                    break;
+                if (!strayReported) {
+                    strayReported = true;
+                    issue(cells.length + 1, 'text after a closing quote — double any quotes inside a quoted field');
+                }
+                state = 'unquoted';
+                break;
+            case 'field_start':
+                if (ch === '"' && field.trim() === '') {
+                    field = '';
+                    quotedFrom = { row, column: cells.length + 1 };
+                    state = 'quoted';
+                    return;
+                }
+                if (ch === ' ' || ch === '\t') {
+                    field += ch;
+                    return;
+                }
+                state = 'unquoted';
+                break;
+            case 'unquoted':
+                break;
+        }
+        if (ch === ',')
+            endField();
+        else if (ch === '\n')
+            endRecord();
+        else if (ch === '\r') {
+            endRecord();
+            skipLineFeed = true;
+        }
+        else
+            field += ch;
+    }
+    return {
+        write(chunk) {
+            for (let i = 0; i < chunk.length; i++) {
+                const ch = chunk[i];
+                if (!started) {
+                    started = true;
+                    if (ch === '\uFEFF')
+                        continue;
+                }
+                if (skipLineFeed) {
+                    skipLineFeed = false;
+                    if (ch === '\n')
+                        continue;
+                }
+                read(ch);
+            }
+        },
+        end() {
+            if (state === 'quoted') {
+                handlers.onIssue({
+                    ...quotedFrom,
+                    message: `${describeCell(quotedFrom.row, quotedFrom.column)}: quoted field is never closed — check for a missing closing quote`,
+                });
+                return;
+            }
+            // Input ending in a line break has no record after it
+            if (state === 'field_start' && field === '' && cells.length === 0)
+                return;
+            endRecord();
+        },
+    };
+}
+/** Reads a whole string at once. */
+export function readCsv(text) {
+    const records = [];
+    const issues = [];
+    const reader = createCsvReader({
+        onRecord: (record) => records.push(record),
+        onIssue: (issue) => issues.push(issue),
+    });
+    reader.write(text);
+    reader.end();
+    return { records, issues };
+}
@@ -0,0 +1,9 @@
+// Writes CSV the way spreadsheets export it (RFC 4180): CRLF row endings, and
+// quotes only around cells that need them.
+const NEEDS_QUOTES = /[",\r\n]|^\s|\s$/;
+export function formatCsvCell(value) {
+    return NEEDS_QUOTES.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+export function formatCsv(rows) {
+    return rows.map(cells => cells.map(formatCsvCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -1,11 +1,15 @@
 import { state } from './state.js';
 import { show, hide, showNotification } from './ui.js';
+import { handleClockSync } from './clock.js';
 export const handlers = {
     joined(msg) {
         state.playerId = msg.playerId;
         hide('joinSection');
         show('waitingSection');
     },
+    clock_sync(msg) {
+        handleClockSync(msg);
+    },
     error(msg) {
         showNotification(`Error: ${msg.message}`, 'error');
     },
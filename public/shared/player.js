@@ -1,7 +1,10 @@
 import { connect, send } from './ws-client.js';
 import { handleMessage } from './handlers.js';
 import { showNotification } from './ui.js';
+import { recallResumeToken } from './state.js';
+import { CLOCK_SYNC_SAMPLES, clockSyncRequest, resetClock } from './clock.js';
 import { triviaHandlers, initAnswerButtons, initRejoinButton } from './trivia-handlers.js';
+import { bingoHandlers, initBingoCard } from './bingo-handlers.js';
 // --- Join form -----------------------------------------------------------
 function joinGame(name) {
     const screenName = name ?? document.getElementById('screenName').value.trim();
@@ -9,7 +12,8 @@ function joinGame(name) {
         showNotification('Please enter a screen name', 'error');
         return;
     }
-    send({ type: 'join', screenName });
+    const team = autoJoinTeam ?? document.getElementById('teamSelect')?.value;
+    send(team ? { type: 'join', screenName, team } : { type: 'join', screenName });
 }
 document.getElementById('joinBtn')
     .addEventListener('click', () => joinGame());
@@ -18,14 +22,16 @@ document.getElementById('screenName')
     if (e.key === 'Enter')
         joinGame();
 });
-// --- Combined message handler (trivia first, shared fallback) --------------
+// --- Combined message handler (game handlers first, shared fallback) -------
 function combinedHandler(msg) {
     const triviaHandler = triviaHandlers[msg.type];
-    if (triviaHandler) {
+    const bingoHandler = bingoHandlers[msg.type];
+    if (triviaHandler)
         triviaHandler(msg);
-        return;
-    }
-    handleMessage(msg);
+    if (bingoHandler)
+        bingoHandler(msg);
+    if (!triviaHandler && !bingoHandler)
+        handleMessage(msg);
 }
 // --- Auto-join via query params ---------------------------------------------
 function getAutoJoinName() {
@@ -33,8 +39,27 @@ function getAutoJoinName() {
     const name = params.get('name');
     return name && name.trim() ? name.trim() : null;
 }
+function getAutoJoinTeam() {
+    const team = new URLSearchParams(location.search).get('team');
+    return team && team.trim() ? team.trim() : null;
+}
 const autoJoinName = getAutoJoinName();
+const autoJoinTeam = getAutoJoinTeam();
+// --- (Re)connect: resume an existing player, else auto-join ------------------
+function onOpen() {
+    resetClock();
+    for (let i = 0; i < CLOCK_SYNC_SAMPLES; i++)
+        send(clockSyncRequest());
+    const token = recallResumeToken();
+    if (token) {
+        send({ type: 'resume', token });
+    }
+    else if (autoJoinName) {
+        joinGame(autoJoinName);
+    }
+}
 // --- Start connection -------------------------------------------------------
-connect(combinedHandler, autoJoinName ? () => joinGame(autoJoinName) : undefined);
+connect(combinedHandler, onOpen);
 initAnswerButtons();
+initBingoCard();
 initRejoinButton();
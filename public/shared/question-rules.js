@@ -0,0 +1,279 @@
+// What makes a trivia question valid, whichever file format it arrived in.
+// CSV rows and quiz documents report broken fields in the same words.
+// ── Limits ────────────────────────────────────────────────────────────────────
+export const MIN_QUESTIONS = 3;
+export const DEFAULT_MAX_QUESTIONS = 100;
+/** Bounds for any question time limit, in seconds. */
+export const MIN_TIME_LIMIT_SECONDS = 3;
+export const MAX_TIME_LIMIT_SECONDS = 120;
+export const MAX_REVEAL_DELAY_SECONDS = 30;
+/** Most a single question may be worth. */
+export const MAX_QUESTION_POINTS = 10000;
+export const QUESTION_TYPES = ['multiple_choice', 'true_false', 'multi_select', 'numeric', 'free_text', 'poll', 'word_cloud'];
+export const ANSWER_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'];
+/** The answer text fields, one per letter. */
+export const OPTION_FIELDS = ['a', 'b', 'c', 'd', 'e', 'f'];
+export const MIN_OPTIONS = 2;
+/** What a true/false question shows when its file leaves `a` and `b` out. */
+export const TRUE_FALSE_LABELS = ['True', 'False'];
+/** The longest answer a player may type for a free-text question. */
+export const MAX_TEXT_ANSWER_LENGTH = 100;
+/** The longest response a player may give to a word cloud. */
+export const MAX_WORD_CLOUD_ANSWER_LENGTH = 30;
+/** Separates a free-text question's accepted answers in one CSV cell. */
+export const ACCEPTED_ANSWER_SEPARATOR = '|';
+// ── Question types ────────────────────────────────────────────────────────────
+export function questionTypeOf(q) {
+    return q.type ?? 'multiple_choice';
+}
+/** Whether players type or pick their answer rather than choosing a letter. */
+function hasNoOptions(type) {
+    return type === 'numeric' || type === 'free_text' || type === 'word_cloud';
+}
+/** Polls and word clouds ask for opinions: nobody is right, wrong, knocked out or scored. */
+export function isOpinionType(type) {
+    return type === 'poll' || type === 'word_cloud';
+}
+/** The answers players choose between, in letter order; none for a numeric, free-text or word-cloud question. */
+export function optionsOf(q) {
+    const type = questionTypeOf(q);
+    if (hasNoOptions(type))
+        return [];
+    if (type === 'true_false')
+        return [q.a ?? TRUE_FALSE_LABELS[0], q.b ?? TRUE_FALSE_LABELS[1]];
+    const options = [];
+    for (const field of OPTION_FIELDS) {
+        const text = q[field];
+        if (text === undefined)
+            break;
+        options.push(text);
+    }
+    return options;
+}
+/** `A or B`, `A, B, C, or D` */
+function letterList(letters) {
+    if (letters.length <= 2)
+        return letters.join(' or ');
+    return `${letters.slice(0, -1).join(', ')}, or ${letters[letters.length - 1]}`;
+}
+/** Whether a player's submission fits the question, e.g. a letter it offers. */
+export function isAnswerFor(q, answer) {
+    const letters = ANSWER_LETTERS.slice(0, optionsOf(q).length);
+    switch (questionTypeOf(q)) {
+        case 'numeric':
+            return typeof answer === 'number' && Number.isFinite(answer);
+        case 'free_text':
+            return typeof answer === 'string' && answer.trim() !== '' && answer.length <= MAX_TEXT_ANSWER_LENGTH;
+        case 'word_cloud':
+            return typeof answer === 'string' && answer.trim() !== '' && answer.length <= MAX_WORD_CLOUD_ANSWER_LENGTH;
+        case 'multi_select':
+            return Array.isArray(answer) && answer.length > 0 && new Set(answer).size === answer.length &&
+                answer.every(a => letters.includes(a));
+        default:
+            return typeof answer === 'string' && letters.includes(answer);
+    }
+}
+// ── Rules ─────────────────────────────────────────────────────────────────────
+export const RULES = {
+    required: 'must be filled in',
+    type: `must be ${letterList(QUESTION_TYPES)}`,
+    trueFalse: 'must be True or False, or A or B',
+    number: 'must be a number',
+    accepted: `must list one or more accepted answers, separated by "${ACCEPTED_ANSWER_SEPARATOR}"`,
+    tolerance: 'must be a number, 0 or more',
+    timeLimit: `must be a whole number of seconds from ${MIN_TIME_LIMIT_SECONDS} to ${MAX_TIME_LIMIT_SECONDS}`,
+    points: `must be a whole number from 1 to ${MAX_QUESTION_POINTS}`,
+    image: 'must be a file under /media/, e.g. /media/desk.jpg',
+    text: 'must be text',
+};
+/** The rule for a choice question's `correct`, given how many answers it offers. */
+export function correctRule(type, optionCount) {
+    const letters = ANSWER_LETTERS.slice(0, optionCount);
+    if (type === 'multi_select')
+        return `must list one or more of ${letters.join(', ')}, e.g. "A,C"`;
+    return `must be ${letterList(letters)}`;
+}
+// Only the game's own /media/: an outside URL would hand every phone's address to that host
+const IMAGE_PATTERN = /^\/media\/(?!.*\.\.)[\w.~%/-]+$/;
+/** ` — got "x"`, quoting what the file actually held. */
+export function got(value) {
+    return ` — got "${typeof value === 'string' ? value : JSON.stringify(value)}"`;
+}
+export function isValidTimeLimit(value) {
+    return typeof value === 'number' && Number.isInteger(value) &&
+        value >= MIN_TIME_LIMIT_SECONDS && value <= MAX_TIME_LIMIT_SECONDS;
+}
+export function isValidRevealDelay(value) {
+    return typeof value === 'number' && Number.isFinite(value) &&
+        value >= 0 && value <= MAX_REVEAL_DELAY_SECONDS;
+}
+export function isValidPoints(value) {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_QUESTION_POINTS;
+}
+export function isValidImage(value) {
+    return typeof value === 'string' && IMAGE_PATTERN.test(value);
+}
+export function isFilledText(value) {
+    return typeof value === 'string' && value.trim() !== '';
+}
+/**
+ * Checks the answer fields for the question type: choices run from `a` with no
+ * gaps, and fields the type does not use are left blank.
+ */
+export function optionProblems(type, values) {
+    const problems = [];
+    const filled = OPTION_FIELDS.map(f => values[f] !== undefined && values[f] !== '');
+    const used = hasNoOptions(type) ? 0 : type === 'true_false' ? MIN_OPTIONS : OPTION_FIELDS.length;
+    const required = type === 'multiple_choice' || type === 'multi_select' || type === 'poll'
+        ? Math.max(MIN_OPTIONS, filled.lastIndexOf(true) + 1)
+        : 0;
+    OPTION_FIELDS.forEach((field, i) => {
+        const value = values[field];
+        if (i >= used) {
+            if (filled[i])
+                problems.push({ field, message: `must be blank for ${type} questions` + got(value) });
+        }
+        else if (typeof value !== 'string' && value !== undefined) {
+            problems.push({ field, message: RULES.text + got(value) });
+        }
+        else if (filled[i] ? !isFilledText(value) : i < required) {
+            problems.push({ field, message: RULES.required });
+        }
+    });
+    return problems;
+}
+/** How many answers the question offers, once its answer fields have passed `optionProblems`. */
+export function optionCountOf(type, values) {
+    return optionsOf({ type, ...Object.fromEntries(OPTION_FIELDS.map(f => [f, values[f] === '' ? undefined : values[f]])) }).length;
+}
+/**
+ * Reads `correct` as the question type needs it: a letter, letters separated by
+ * commas or spaces (or a list), True/False, a number, or accepted answers
+ * separated by `|` (or a list). Case does not matter.
+ */
+export function readCorrect(type, value, optionCount) {
+    const letters = ANSWER_LETTERS.slice(0, optionCount);
+    const letterOf = (v) => {
+        const letter = typeof v === 'string' ? v.trim().toUpperCase() : null;
+        return letter !== null && letters.includes(letter) ? letter : null;
+    };
+    switch (type) {
+        case 'numeric': {
+            const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+            return Number.isFinite(n) ? { correct: n } : { problem: RULES.number + got(value) };
+        }
+        case 'free_text': {
+            const parts = Array.isArray(value) ? value
+                : typeof value === 'string' ? value.split(ACCEPTED_ANSWER_SEPARATOR) : [value];
+            // YAML reads `- 1969` as a number
+            const accepted = parts.map(p => typeof p === 'number' ? String(p) : p);
+            if (accepted.length === 0 || !accepted.every(isFilledText))
+                return { problem: RULES.accepted + got(value) };
+            return { correct: accepted.map(a => a.trim()) };
+        }
+        case 'true_false': {
+            const v = typeof value === 'string' ? value.trim().toUpperCase() : value;
+            if (v === true || v === 'TRUE' || v === 'A')
+                return { correct: 'A' };
+            if (v === false || v === 'FALSE' || v === 'B')
+                return { correct: 'B' };
+            return { problem: RULES.trueFalse + got(value) };
+        }
+        case 'multi_select': {
+            const parts = Array.isArray(value) ? value
+                : typeof value === 'string' ? value.split(/[\s,;]+/).filter(p => p !== '') : [];
+            const picked = parts.map(letterOf);
+            if (picked.length === 0 || picked.includes(null) || new Set(picked).size !== picked.length) {
+                return { problem: correctRule(type, optionCount) + got(value) };
+            }
+            return { correct: picked.sort() };
+        }
+        case 'multiple_choice': {
+            const letter = letterOf(value);
+            return letter ? { correct: letter } : { problem: correctRule(type, optionCount) + got(value) };
+        }
+        case 'poll':
+        case 'word_cloud':
+            return { problem: `must be blank for ${type} questions` + got(value) };
+    }
+}
+/**
+ * Checks a question in object form, as a quiz document or a create_session
+ * command holds it, and tidies it: numeric answer text becomes a string and
+ * `correct` takes its canonical form. CSV cells are checked as text by the CSV
+ * parser, against the same rules.
+ */
+export function readQuestion(raw) {
+    const problems = [];
+    if (typeof raw.question !== 'string' && raw.question !== undefined) {
+        problems.push({ field: 'question', message: RULES.text + got(raw.question) });
+    }
+    else if (!isFilledText(raw.question)) {
+        problems.push({ field: 'question', message: RULES.required });
+    }
+    let type = 'multiple_choice';
+    if (raw.type !== undefined) {
+        if (QUESTION_TYPES.includes(raw.type))
+            type = raw.type;
+        else
+            problems.push({ field: 'type', message: RULES.type + got(raw.type) });
+    }
+    // YAML reads `a: 1969` as a number
+    const options = {};
+    for (const field of OPTION_FIELDS) {
+        if (raw[field] !== undefined)
+            options[field] = typeof raw[field] === 'number' ? String(raw[field]) : raw[field];
+    }
+    const optionIssues = optionProblems(type, options);
+    problems.push(...optionIssues);
+    let correct;
+    const noCorrect = raw.correct === undefined || raw.correct === '';
+    if (noCorrect && !isOpinionType(type)) {
+        problems.push({ field: 'correct', message: RULES.required });
+    }
+    else if (!noCorrect && optionIssues.length === 0) {
+        const read = readCorrect(type, raw.correct, optionCountOf(type, options));
+        if ('problem' in read)
+            problems.push({ field: 'correct', message: read.problem });
+        else
+            correct = read.correct;
+    }
+    if (raw.tolerance !== undefined) {
+        if (type !== 'numeric') {
+            problems.push({ field: 'tolerance', message: 'only applies to numeric questions' + got(raw.tolerance) });
+        }
+        else if (!(typeof raw.tolerance === 'number' && Number.isFinite(raw.tolerance) && raw.tolerance >= 0)) {
+            problems.push({ field: 'tolerance', message: RULES.tolerance + got(raw.tolerance) });
+        }
+    }
+    if (raw.timeLimit !== undefined && !isValidTimeLimit(raw.timeLimit)) {
+        problems.push({ field: 'timeLimit', message: RULES.timeLimit + got(raw.timeLimit) });
+    }
+    if (raw.points !== undefined && !isValidPoints(raw.points)) {
+        problems.push({ field: 'points', message: RULES.points + got(raw.points) });
+    }
+    if (raw.image !== undefined && !isValidImage(raw.image)) {
+        problems.push({ field: 'image', message: RULES.image + got(raw.image) });
+    }
+    for (const field of ['round', 'category', 'explanation']) {
+        if (raw[field] !== undefined && !isFilledText(raw[field])) {
+            problems.push({ field, message: RULES.text + got(raw[field]) });
+        }
+    }
+    if (problems.length > 0)
+        return { question: null, problems };
+    const question = { question: raw.question };
+    if (raw.type !== undefined)
+        question.type = type;
+    for (const field of OPTION_FIELDS) {
+        if (options[field] !== undefined)
+            question[field] = options[field];
+    }
+    if (correct !== undefined)
+        question.correct = correct;
+    for (const field of ['tolerance', 'timeLimit', 'round', 'category', 'points', 'explanation', 'image']) {
+        if (raw[field] !== undefined)
+            question[field] = raw[field];
+    }
+    return { question, problems };
+}
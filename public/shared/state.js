@@ -1,9 +1,36 @@
 export const state = {
     playerId: null,
+    resumeToken: null,
     notifTimer: null,
 };
+const RESUME_TOKEN_KEY = 'townhall.resumeToken';
+// Kept in sessionStorage so a page refresh can resume too; storage may be
+// unavailable (private browsing, tests), in which case the token is in-memory only.
+export function rememberResumeToken(token) {
+    state.resumeToken = token;
+    try {
+        if (token)
+            sessionStorage.setItem(RESUME_TOKEN_KEY, token);
+        else
+            sessionStorage.removeItem(RESUME_TOKEN_KEY);
+    }
+    catch {
+        // Ignore storage errors
+    }
+}
+export function recallResumeToken() {
+    if (state.resumeToken)
+        return state.resumeToken;
+    try {
+        return sessionStorage.getItem(RESUME_TOKEN_KEY);
+    }
+    catch {
+        return null;
+    }
+}
 export function resetState() {
     state.playerId = null;
+    state.resumeToken = null;
     if (state.notifTimer !== null) {
         clearTimeout(state.notifTimer);
         state.notifTimer = null;
@@ -1,16 +1,25 @@
-import { parseCsv } from './csv-parser.js';
+import { questionsOf, quizFormatOf, quizFromCsv, readQuiz } from './quiz-document.js';
+import { CLOCK_SYNC_SAMPLES, clockSyncRequest, handleClockSync, msUntil, resetClock } from './clock.js';
 
 // ── Query param flags ────────────────────────────────────────────────────────
 const params = new URLSearchParams(location.search);
 const DEMO_MODE = params.get('demo') === 'true';
 const DEBUG_MODE = params.get('debug') === 'true';
 const SPEED_MODE = params.get('speed') === 'true';
+const POINTS_MODE = params.get('scoring') === 'points';
+// ?teams=Red,Blue plays in teams; ?teamScoring=percentage scores by share of correct members
+const TEAMS = (params.get('teams') || '').split(',').map(t => t.trim()).filter(Boolean);
+const TEAM_SCORING = params.get('teamScoring');
+// ?maxQuestions=200 raises the ceiling on imported question banks
+const MAX_QUESTIONS = Number(params.get('maxQuestions')) || undefined;
 
 // ── State ────────────────────────────────────────────────────────────────────
 let ws = null;
+let quiz = null;
 let questions = [];
 let currentQuestionIndex = -1;
 let sessionCreated = false;
+let manualReveal = false;
 
 // ── DOM refs ─────────────────────────────────────────────────────────────────
 const setupSection = document.getElementById('setupSection');
@@ -20,18 +29,38 @@ const csvFile = document.getElementById('csvFile');
 const csvErrors = document.getElementById('csvErrors');
 const questionPreview = document.getElementById('questionPreview');
 const questionPreviewList = document.getElementById('questionPreviewList');
+const questionPreviewTitle = document.getElementById('questionPreviewTitle');
 const startSessionBtn = document.getElementById('startSessionBtn');
+const timeLimitInput = document.getElementById('timeLimitInput');
+const revealDelayInput = document.getElementById('revealDelayInput');
+const manualRevealInput = document.getElementById('manualRevealInput');
+const phoneImagesInput = document.getElementById('phoneImagesInput');
 const sessionIdEl = document.getElementById('sessionId');
 const questionQueue = document.getElementById('questionQueue');
 const previewBtn = document.getElementById('previewBtn');
 const goLiveBtn = document.getElementById('goLiveBtn');
 const advanceBtn = document.getElementById('advanceBtn');
 const restartBtn = document.getElementById('restartBtn');
+const pauseBtn = document.getElementById('pauseBtn');
+const resumeBtn = document.getElementById('resumeBtn');
+const extendBtn = document.getElementById('extendBtn');
+const closeNowBtn = document.getElementById('closeNowBtn');
+const timerStatus = document.getElementById('timerStatus');
+const revealAnswerBtn = document.getElementById('revealAnswerBtn');
+const showSurvivorsBtn = document.getElementById('showSurvivorsBtn');
+const nextStepEl = document.getElementById('nextStep');
 const statsPanel = document.getElementById('statsPanel');
+const textAnswersPanel = document.getElementById('textAnswersPanel');
+const textAnswerList = document.getElementById('textAnswerList');
+const wordCloudPanel = document.getElementById('wordCloudPanel');
+const wordCloudList = document.getElementById('wordCloudList');
 const resultPanel = document.getElementById('resultPanel');
 const debugPanel = document.getElementById('debugPanel');
 const debugJson = document.getElementById('debugJson');
 
+// ?speed=true starts the setup on quick-fire timing
+if (SPEED_MODE) timeLimitInput.value = '3';
+
 // ── Debug panel ──────────────────────────────────────────────────────────────
 if (DEBUG_MODE) {
     debugPanel.classList.remove('hidden');
@@ -43,24 +72,42 @@ function updateDebug(msg) {
     }
 }
 
-// ── CSV handling ─────────────────────────────────────────────────────────────
-function applyParsedCsv(result) {
+// ── Question file handling ───────────────────────────────────────────────────
+/** Reads a CSV, JSON or YAML question file into a quiz document. */
+function readQuestionFile(name, text) {
+    const options = { maxQuestions: MAX_QUESTIONS };
+    const format = quizFormatOf(name);
+    if (format === 'json' || format === 'yaml') return readQuiz(text, format, options);
+    return quizFromCsv(text, {}, options);
+}
+
+function applyReadResult(result) {
     if (result.errors.length > 0) {
         showCsvErrors(result.errors);
         startSessionBtn.disabled = true;
         return;
     }
     clearCsvErrors();
-    questions = result.questions;
+    quiz = result.quiz;
+    questions = questionsOf(quiz);
+    applyQuizSettings(quiz.settings || {});
+    questionPreviewTitle.textContent = quiz.title || 'Questions Preview';
     renderPreviewList(questions);
     startSessionBtn.disabled = false;
 }
 
+// A quiz file's settings fill in the setup form, which can still change them
+function applyQuizSettings(settings) {
+    if (settings.timeLimit !== undefined) timeLimitInput.value = String(settings.timeLimit);
+    if (settings.revealDelay !== undefined) revealDelayInput.value = String(settings.revealDelay);
+    if (settings.revealMode !== undefined) manualRevealInput.checked = settings.revealMode === 'manual';
+}
+
 function showCsvErrors(errors) {
     csvErrors.innerHTML = '';
     errors.forEach(e => {
         const li = document.createElement('li');
-        li.textContent = e;
+        li.textContent = e.message;
         csvErrors.appendChild(li);
     });
     csvErrors.classList.remove('hidden');
@@ -72,11 +119,37 @@ function clearCsvErrors() {
     csvErrors.classList.add('hidden');
 }
 
+function roundLabel(q) {
+    return q.round ? `${q.round}: ` : '';
+}
+
+const TYPE_LABELS = {
+    true_false: 'true/false',
+    multi_select: 'pick all that apply',
+    numeric: 'closest number',
+    free_text: 'typed answer',
+    poll: 'poll',
+    word_cloud: 'word cloud',
+};
+
+/** Polls and word clouds have no answer to reveal; the round ends when they close. */
+function isOpinionQuestion(index) {
+    const type = questions[index]?.type;
+    return type === 'poll' || type === 'word_cloud';
+}
+
 function renderPreviewList(qs) {
     questionPreviewList.innerHTML = '';
     qs.forEach(q => {
         const li = document.createElement('li');
-        li.textContent = q.question;
+        const details = [
+            TYPE_LABELS[q.type],
+            q.category,
+            q.timeLimit && `${q.timeLimit}s`,
+            q.points && `${q.points} pts`,
+            q.image && 'image',
+        ].filter(Boolean).join(', ');
+        li.textContent = roundLabel(q) + (details ? `${q.question} (${details})` : q.question);
         questionPreviewList.appendChild(li);
     });
     questionPreview.classList.remove('hidden');
@@ -88,8 +161,7 @@ csvFile.addEventListener('change', () => {
     if (!file) return;
     const reader = new FileReader();
     reader.onload = (e) => {
-        const result = parseCsv(e.target.result);
-        applyParsedCsv(result);
+        applyReadResult(readQuestionFile(file.name, e.target.result));
     };
     reader.readAsText(file);
 });
@@ -100,11 +172,10 @@ if (DEMO_MODE) {
     fetch('/fixtures/trivia-questions.csv')
         .then(r => r.text())
         .then(csv => {
-            const result = parseCsv(csv);
-            applyParsedCsv(result);
+            applyReadResult(readQuestionFile('trivia-questions.csv', csv));
         })
         .catch(() => {
-            showCsvErrors(['Failed to load demo fixture from /fixtures/trivia-questions.csv']);
+            showCsvErrors([{ message: 'Failed to load demo fixture from /fixtures/trivia-questions.csv' }]);
         });
 }
 
@@ -113,6 +184,11 @@ function connect() {
     const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
     ws = new WebSocket(protocol + '//' + location.host);
 
+    ws.onopen = () => {
+        resetClock();
+        for (let i = 0; i < CLOCK_SYNC_SAMPLES; i++) ws.send(JSON.stringify(clockSyncRequest()));
+    };
+
     ws.onmessage = (e) => {
         const msg = JSON.parse(e.data);
         updateDebug(msg);
@@ -127,29 +203,107 @@ function connect() {
 // ── Start Session ────────────────────────────────────────────────────────────
 startSessionBtn.addEventListener('click', () => {
     if (!ws || ws.readyState !== WebSocket.OPEN) return;
-    const cmd = { type: 'create_session', gameMode: 'trivia', questions };
-    if (SPEED_MODE) cmd.speed = true;
+    const cmd = {
+        type: 'create_session',
+        gameMode: 'trivia',
+        quiz,
+        timeLimit: Number(timeLimitInput.value),
+        revealDelay: Number(revealDelayInput.value),
+    };
+    manualReveal = manualRevealInput.checked;
+    cmd.revealMode = manualReveal ? 'manual' : 'auto';
+    if (phoneImagesInput.checked) cmd.phoneImages = true;
+    if (POINTS_MODE) cmd.scoring = 'points';
+    if (TEAMS.length > 0) cmd.teams = TEAMS;
+    if (TEAMS.length > 0 && TEAM_SCORING) cmd.teamScoring = TEAM_SCORING;
     ws.send(JSON.stringify(cmd));
 });
 
 // ── Message handlers ─────────────────────────────────────────────────────────
 function handleMessage(msg) {
     switch (msg.type) {
+        case 'clock_sync':
+            handleClockSync(msg);
+            break;
+        case 'relay_status':
+            onRelayStatus(msg);
+            break;
         case 'session_created':
             onSessionCreated(msg);
             break;
+        case 'session_restored':
+            onSessionRestored(msg);
+            break;
         case 'live_answer_stats':
             onLiveAnswerStats(msg);
             break;
+        case 'text_answers':
+            onTextAnswers(msg);
+            break;
+        case 'word_cloud':
+            onWordCloud(msg);
+            break;
+        case 'question_preview':
+            setNextStep('go_live');
+            break;
+        case 'question_live':
+            setNextStep('answering');
+            setTimerControls('running', msUntil(msg.deadline));
+            break;
+        case 'timer_resumed':
+            setTimerControls('running', msUntil(msg.deadline));
+            break;
+        case 'timer_paused':
+            setTimerControls('paused', msg.remainingMs);
+            break;
+        case 'timer_extended':
+            if (msg.deadline === null) setTimerControls('paused', msg.remainingMs);
+            else setTimerControls('running', msUntil(msg.deadline));
+            break;
+        case 'timer_expired':
+            setTimerControls('closed');
+            setNextStep(isOpinionQuestion(currentQuestionIndex) ? afterRound() : 'reveal');
+            break;
         case 'question_result':
+            textAnswerList.querySelectorAll('button').forEach(b => { b.disabled = true; });
             onQuestionResult(msg);
             break;
+        case 'survivors_regrouped':
+        case 'leaderboard':
+        case 'team_leaderboard':
+            if (manualReveal) setNextStep(afterRound());
+            break;
+        case 'game_over':
+            setNextStep('game_over');
+            break;
         case 'error':
             alert('Server error: ' + msg.message);
             break;
     }
 }
 
+// ── Join code (relay deployments) ───────────────────────────────────────────
+function onRelayStatus(msg) {
+    if (msg.role === 'standby') showHostRole('Standby host — this laptop takes over if the primary host drops.');
+    if (!msg.joinCode) return;
+    document.getElementById('joinCode').textContent = msg.joinCode;
+    document.getElementById('joinPath').textContent = '/play?session=' + msg.joinCode;
+    document.getElementById('screenPath').textContent = '/broadcast/trivia?session=' + msg.joinCode + (msg.screenKey ? '&screen=' + msg.screenKey : '');
+    document.getElementById('joinCodeLine').classList.remove('hidden');
+}
+
+function showHostRole(text) {
+    const hostRole = document.getElementById('hostRole');
+    hostRole.textContent = text;
+    hostRole.classList.remove('hidden');
+}
+
+/** This laptop was the standby and now runs the session the primary host started. */
+function onSessionRestored(msg) {
+    onSessionCreated(msg);
+    showHostRole('Took over hosting from the primary host. The game carries on from where it was.');
+}
+
 function onSessionCreated(msg) {
     sessionCreated = true;
     sessionIdEl.textContent = msg.sessionId;
@@ -157,6 +311,7 @@ function onSessionCreated(msg) {
     controllerSection.classList.remove('hidden');
     renderQuestionQueue(questions);
     updateControllerButtons();
+    setNextStep('preview');
 }
 
 // ── Question queue ───────────────────────────────────────────────────────────
@@ -164,7 +319,7 @@ function renderQuestionQueue(qs) {
     questionQueue.innerHTML = '';
     qs.forEach((q, i) => {
         const li = document.createElement('li');
-        li.textContent = q.question;
+        li.textContent = roundLabel(q) + q.question;
         li.dataset.index = i;
         questionQueue.appendChild(li);
     });
@@ -195,6 +350,8 @@ previewBtn.addEventListener('click', () => {
     advanceBtn.disabled = true;
     previewBtn.disabled = true;
     statsPanel.classList.add('hidden');
+    textAnswersPanel.classList.add('hidden');
+    wordCloudPanel.classList.add('hidden');
     resultPanel.classList.add('hidden');
 });
 
@@ -216,30 +373,158 @@ advanceBtn.addEventListener('click', () => {
     advanceBtn.disabled = true;
     previewBtn.disabled = true;
     statsPanel.classList.add('hidden');
+    textAnswersPanel.classList.add('hidden');
+    wordCloudPanel.classList.add('hidden');
     resultPanel.classList.add('hidden');
 });
 
+// ── Timer controls ───────────────────────────────────────────────────────────
+const EXTEND_SECONDS = 10;
+
+let timerStatusInterval = null;
+
+function setTimerControls(phase, remainingMs) {
+    pauseBtn.disabled = phase !== 'running';
+    resumeBtn.disabled = phase !== 'paused';
+    extendBtn.disabled = phase === 'closed';
+    closeNowBtn.disabled = phase === 'closed';
+    clearInterval(timerStatusInterval);
+    timerStatusInterval = null;
+    if (phase === 'paused') {
+        timerStatus.textContent = `Paused · ${Math.ceil(remainingMs / 1000)}s left`;
+    } else if (phase === 'running') {
+        // Same server deadline the players and broadcast screen count down to
+        const endsAt = Date.now() + remainingMs;
+        const tick = () => {
+            const seconds = Math.max(0, Math.ceil((endsAt - Date.now()) / 1000));
+            timerStatus.textContent = `${seconds}s left`;
+            if (seconds === 0) clearInterval(timerStatusInterval);
+        };
+        tick();
+        timerStatusInterval = setInterval(tick, 1000);
+    } else {
+        timerStatus.textContent = '';
+    }
+}
+
+pauseBtn.addEventListener('click', () => {
+    ws.send(JSON.stringify({ type: 'pause_question' }));
+});
+
+resumeBtn.addEventListener('click', () => {
+    ws.send(JSON.stringify({ type: 'resume_question' }));
+});
+
+extendBtn.addEventListener('click', () => {
+    ws.send(JSON.stringify({ type: 'extend_timer', seconds: EXTEND_SECONDS }));
+});
+
+closeNowBtn.addEventListener('click', () => {
+    ws.send(JSON.stringify({ type: 'close_now' }));
+});
+
 // ── Live answer stats ────────────────────────────────────────────────────────
+// One cell per answer the question offers, two to a row; numeric guesses have none
 function onLiveAnswerStats(msg) {
-    document.getElementById('statA').textContent = msg.counts.A;
-    document.getElementById('statB').textContent = msg.counts.B;
-    document.getElementById('statC').textContent = msg.counts.C;
-    document.getElementById('statD').textContent = msg.counts.D;
+    const table = document.getElementById('statTable');
+    table.innerHTML = '';
+    let row = null;
+    Object.entries(msg.counts).forEach(([letter, count], i) => {
+        if (i % 2 === 0) row = table.insertRow();
+        row.insertCell().textContent = letter;
+        row.insertCell().textContent = count;
+    });
     document.getElementById('statAnswered').textContent = msg.answered;
     document.getElementById('statRemaining').textContent = msg.remaining;
 }
 
+// ── Typed answers ────────────────────────────────────────────────────────────
+// Free-text questions list what players typed once the question closes; the
+// host can accept a near miss until the answer is revealed
+function onTextAnswers(msg) {
+    textAnswerList.innerHTML = '';
+    for (const { answer, count, accepted } of msg.answers) {
+        const li = document.createElement('li');
+        const label = document.createElement('span');
+        label.textContent = `${answer} ×${count}`;
+        li.appendChild(label);
+        if (accepted) {
+            const mark = document.createElement('span');
+            mark.className = 'accepted';
+            mark.textContent = '✓ accepted';
+            li.appendChild(mark);
+        } else {
+            const btn = document.createElement('button');
+            btn.textContent = 'Accept';
+            btn.addEventListener('click', () => {
+                ws.send(JSON.stringify({ type: 'accept_answer', answer }));
+                btn.disabled = true;
+            });
+            li.appendChild(btn);
+        }
+        textAnswerList.appendChild(li);
+    }
+    textAnswersPanel.classList.toggle('hidden', msg.answers.length === 0);
+}
+
+// ── Word cloud ───────────────────────────────────────────────────────────────
+function onWordCloud(msg) {
+    wordCloudList.innerHTML = '';
+    for (const { text, count } of msg.entries) {
+        const li = document.createElement('li');
+        li.textContent = `${text} ×${count}`;
+        wordCloudList.appendChild(li);
+    }
+    wordCloudPanel.classList.toggle('hidden', msg.entries.length === 0);
+}
+
 // ── Question result ──────────────────────────────────────────────────────────
 function onQuestionResult(msg) {
-    document.getElementById('resultCorrect').textContent = msg.correct;
+    const freeText = questions[currentQuestionIndex]?.type === 'free_text';
+    document.getElementById('resultCorrect').textContent =
+        Array.isArray(msg.correct) ? msg.correct.join(freeText ? ' / ' : ', ') : String(msg.correct);
     document.getElementById('resultEliminated').textContent =
         msg.eliminated.length > 0 ? msg.eliminated.join(', ') : 'none';
     document.getElementById('resultSurvivors').textContent = msg.survivors.length;
     resultPanel.classList.remove('hidden');
-    // Enable Advance if there's a next question
-    advanceBtn.disabled = currentQuestionIndex + 1 >= questions.length;
+    // A manual reveal waits for Show Survivors before the round can end
+    setNextStep(manualReveal ? 'survivors' : afterRound());
+}
+
+// ── Phase transitions ────────────────────────────────────────────────────────
+const NEXT_STEP_LABELS = {
+    preview: 'Next: preview the first question',
+    go_live: 'Next: go live',
+    answering: 'Next: the question closes when its timer runs out',
+    reveal: 'Next: reveal the answer',
+    survivors: 'Next: show survivors',
+    advance: 'Next: advance to the next question',
+    game_over: 'Game over',
+};
+
+function afterRound() {
+    return currentQuestionIndex + 1 < questions.length ? 'advance' : 'game_over';
+}
+
+function setNextStep(step) {
+    let label = NEXT_STEP_LABELS[step];
+    if (step === 'reveal' && !manualReveal) label = 'Next: the answer reveals automatically';
+    nextStepEl.textContent = label;
+    revealAnswerBtn.disabled = !(manualReveal && step === 'reveal');
+    showSurvivorsBtn.disabled = !(manualReveal && step === 'survivors');
+    advanceBtn.disabled = step !== 'advance';
 }
 
+revealAnswerBtn.addEventListener('click', () => {
+    ws.send(JSON.stringify({ type: 'reveal_answer' }));
+    revealAnswerBtn.disabled = true;
+});
+
+showSurvivorsBtn.addEventListener('click', () => {
+    ws.send(JSON.stringify({ type: 'show_survivors' }));
+    showSurvivorsBtn.disabled = true;
+});
+
 // ── Restart Game ─────────────────────────────────────────────────────────────
 restartBtn.addEventListener('click', () => {
     if (!ws || ws.readyState !== WebSocket.OPEN) return;
@@ -249,9 +534,12 @@ restartBtn.addEventListener('click', () => {
     controllerSection.classList.add('hidden');
     setupSection.classList.remove('hidden');
     statsPanel.classList.add('hidden');
+    textAnswersPanel.classList.add('hidden');
+    wordCloudPanel.classList.add('hidden');
     resultPanel.classList.add('hidden');
     goLiveBtn.disabled = true;
-    advanceBtn.disabled = true;
+    setTimerControls('closed');
+    setNextStep('preview');
 });
 
 // ── Start ────────────────────────────────────────────────────────────────────
@@ -1,9 +1,15 @@
-import { connect, send } from './ws-client.js';
+import { connect, send, spectatorRegistration } from './ws-client.js';
+import { CLOCK_SYNC_SAMPLES, clockSyncRequest, handleClockSync, msUntil, resetClock } from './clock.js';
 
 // ── Config ────────────────────────────────────────────────────────────────────
 const DEBUG_MODE = new URLSearchParams(location.search).get('debug') === 'true';
 const FINAL_10_THRESHOLD = 10;
-const ANSWER_COLOURS = { A: 'answer-a', B: 'answer-b', C: 'answer-c', D: 'answer-d' };
+const LEADERBOARD_SIZE = 5;
+const LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'];
+const ANSWER_COLOURS = { A: 'answer-a', B: 'answer-b', C: 'answer-c', D: 'answer-d', E: 'answer-e', F: 'answer-f' };
+// Word-cloud font sizes, in vh, for the rarest and the most common response
+const CLOUD_MIN_SIZE = 2.5;
+const CLOUD_MAX_SIZE = 9;
 
 // ── DOM ───────────────────────────────────────────────────────────────────────
 const playerGrid       = document.getElementById('playerGrid');
@@ -23,6 +29,12 @@ const winnerScreen     = document.getElementById('winnerScreen');
 const winnerLabel      = document.getElementById('winnerLabel');
 const winnerNames      = document.getElementById('winnerNames');
 const winnerSurvivorNote = document.getElementById('winnerSurvivorNote');
+const leaderboardPanel = document.getElementById('leaderboardPanel');
+const leaderboardList  = document.getElementById('leaderboardList');
+const breakdownBars    = document.getElementById('breakdownBars');
+const wordCloudEl      = document.getElementById('wordCloud');
+const questionImage    = document.getElementById('questionImage');
+const questionImg      = questionImage.querySelector('img');
 const debugPanel       = document.getElementById('debugPanel');
 const debugJson        = document.getElementById('debugJson');
 
@@ -41,9 +53,13 @@ const players = new Map();
 let activeCount = 0;
 let isFinal10 = false;
 let currentQuestionIndex = 0;
-let currentQuestionOptions = [];   // [a, b, c, d]
+let currentQuestionOptions = [];   // two to six answers; none for a numeric, free-text or word-cloud question
+let currentQuestionType = 'multiple_choice';
 let pendingSurvivorsMsg = null;
+let pendingLeaderboard = null;
+let revealSettled = false;         // the correct answer is showing; later results apply at once
 let countdownInterval = null;
+let countdownTotalMs = 0;         // what a full ring represents
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 function updateCountBadge() {
@@ -67,17 +83,22 @@ function stopCountdown() {
     if (countdownInterval !== null) { clearInterval(countdownInterval); countdownInterval = null; }
 }
 
-function startCountdown(timeLimit) {
+function renderCountdown(remainingMs) {
+    countdownNum.textContent = Math.ceil(remainingMs / 1000);
+    ringFill.style.strokeDashoffset = RING_C * (1 - remainingMs / countdownTotalMs);
+}
+
+function startCountdown(remainingMs) {
     stopCountdown();
-    let remaining = timeLimit;
-    countdownNum.textContent = remaining;
-    ringFill.style.strokeDashoffset = '0';
-    countdownInterval = setInterval(() => {
-        remaining = Math.max(0, remaining - 1);
-        countdownNum.textContent = remaining;
-        ringFill.style.strokeDashoffset = RING_C * (1 - remaining / timeLimit);
-        if (remaining <= 0) stopCountdown();
-    }, 1000);
+    countdownTotalMs = Math.max(countdownTotalMs, remainingMs);
+    const endsAt = Date.now() + remainingMs;
+    const tick = () => {
+        const left = Math.max(0, endsAt - Date.now());
+        renderCountdown(left);
+        if (left <= 0) stopCountdown();
+    };
+    tick();
+    countdownInterval = setInterval(tick, 1000);
 }
 
 // ── Tile creation ─────────────────────────────────────────────────────────────
@@ -125,8 +146,11 @@ function colourTilesForAnswers(playerAnswers) {
         if (p.state !== 'active') continue;
         const ans = playerAnswers[pid];
         const base = isFinal10 ? 'ptile nametile' : 'ptile';
-        if (ans && ANSWER_COLOURS[ans]) {
+        if (currentQuestionType !== 'free_text' && typeof ans === 'string' && ANSWER_COLOURS[ans]) {
             p.el.className = `${base} ${ANSWER_COLOURS[ans]}`;
+        } else if (ans !== undefined) {
+            // Multi-select picks, numeric guesses and typed answers have no single colour
+            p.el.className = `${base} answered`;
         } else {
             p.el.className = `${base} no-answer`;
         }
@@ -146,13 +170,87 @@ function setLobbyPhase() {
 }
 
 // ── Phase: Question ───────────────────────────────────────────────────────────
-function setQuestionPhase(index, text, options, timeLimit) {
+function setQuestionPhase(index, text, options, remainingMs) {
     currentQuestionOptions = options;
     playerViz.classList.add('hidden');
     correctReveal.classList.remove('visible');
     showQuestionHeader(index, text);
     countdownWrap.classList.add('visible');
-    startCountdown(timeLimit);
+    countdownWrap.classList.remove('paused');
+    countdownTotalMs = 0;
+    startCountdown(remainingMs);
+}
+
+// ── Question image ────────────────────────────────────────────────────────────
+// Fills the space under a live question, or sits beside a poll's results
+function showQuestionImage(src) {
+    questionImage.classList.toggle('beside', isOpinionQuestion());
+    questionImg.src = src;
+    questionImage.classList.add('visible');
+}
+
+function hideQuestionImage() {
+    questionImage.classList.remove('visible');
+    questionImg.removeAttribute('src');
+}
+
+// A missing or oversized image leaves the question on its own
+questionImg.addEventListener('error', () => questionImage.classList.remove('visible'));
+
+// ── Polls and word clouds ─────────────────────────────────────────────────────
+// Shown in place of the player grid from the moment the question goes live
+function isOpinionQuestion() {
+    return currentQuestionType === 'poll' || currentQuestionType === 'word_cloud';
+}
+
+function hideOpinionResults() {
+    breakdownBars.classList.remove('visible');
+    wordCloudEl.classList.remove('visible');
+}
+
+/** One bar per answer in its colour, filled to its share of the votes. */
+function renderPollBars(shares) {
+    breakdownBars.innerHTML = '';
+    for (const { option, percent } of shares) {
+        const row = document.createElement('div');
+        row.className = 'poll-row';
+        const label = document.createElement('span');
+        label.textContent = currentQuestionOptions[LETTERS.indexOf(option)] ?? option;
+        const track = document.createElement('div');
+        track.className = 'poll-track';
+        const fill = document.createElement('div');
+        fill.className = 'poll-fill';
+        fill.style.width = `${percent}%`;
+        fill.style.background = `var(--answer-${option.toLowerCase()})`;
+        track.appendChild(fill);
+        const figure = document.createElement('span');
+        figure.className = 'poll-percent';
+        figure.textContent = `${percent}%`;
+        row.append(label, track, figure);
+        breakdownBars.appendChild(row);
+    }
+    breakdownBars.classList.add('visible');
+}
+
+/** Responses sized by how many players gave them, most common first. */
+function renderWordCloud(entries) {
+    wordCloudEl.innerHTML = '';
+    if (entries.length === 0) {
+        const empty = document.createElement('span');
+        empty.className = 'empty';
+        empty.textContent = 'Waiting for responses…';
+        wordCloudEl.appendChild(empty);
+    }
+    const most = entries[0]?.count ?? 1;
+    entries.forEach((entry, i) => {
+        const word = document.createElement('span');
+        const size = most === 1 ? CLOUD_MIN_SIZE : CLOUD_MIN_SIZE + (CLOUD_MAX_SIZE - CLOUD_MIN_SIZE) * (entry.count - 1) / (most - 1);
+        word.style.fontSize = `${size}vh`;
+        word.style.color = `var(--answer-${LETTERS[i % LETTERS.length].toLowerCase()})`;
+        word.textContent = entry.text;
+        wordCloudEl.appendChild(word);
+    });
+    wordCloudEl.classList.add('visible');
 }
 
 // ── Phase: Breakdown ─────────────────────────────────────────────────────────
@@ -168,7 +266,8 @@ function setBreakdownPhase(playerAnswers) {
 }
 
 // ── Phase: Survivor sequence ──────────────────────────────────────────────────
-function runSurvivorSequence(eliminated, survivors, correct, options) {
+function runSurvivorSequence(eliminated, survivors, correct, options, explanation) {
+    revealSettled = false;
     // T+3s: animate eliminated tiles out (same for both normal and final-10 mode)
     setTimeout(() => {
         for (const pid of eliminated) {
@@ -192,22 +291,42 @@ function runSurvivorSequence(eliminated, survivors, correct, options) {
 
     // T+6s: show correct answer
     setTimeout(() => {
-        const idx = ['A', 'B', 'C', 'D'].indexOf(correct);
-        const answerText = idx >= 0 ? options[idx] : '';
-
-        correctLetter.textContent = correct;
-        correctLetter.style.color = `var(--answer-${correct.toLowerCase()})`;
-        correctText.textContent = answerText;
+        showCorrectAnswer(correct, options);
         correctReveal.classList.add('visible');
-        setSubText(`${survivors.length} survivor${survivors.length === 1 ? '' : 's'}`);
+        const survivorText = `${survivors.length} survivor${survivors.length === 1 ? '' : 's'}`;
+        setSubText(explanation ? `${explanation} · ${survivorText}` : survivorText);
 
+        revealSettled = true;
         if (pendingSurvivorsMsg) {
             applyRegrouped(pendingSurvivorsMsg);
             pendingSurvivorsMsg = null;
         }
+        if (pendingLeaderboard) {
+            renderLeaderboard(pendingLeaderboard);
+            pendingLeaderboard = null;
+        }
     }, 6000);
 }
 
+/**
+ * A letter in its colour, every letter of a multi-select, the number a numeric
+ * question was after, or a free-text question's accepted answers.
+ */
+function showCorrectAnswer(correct, options) {
+    if (currentQuestionType === 'free_text') {
+        correctLetter.textContent = correct[0];
+        correctLetter.style.color = '';
+        correctText.textContent = correct.length > 1 ? `Also accepted: ${correct.slice(1).join(' · ')}` : '';
+        return;
+    }
+    const letters = typeof correct === 'number' ? [] : [correct].flat();
+    correctLetter.textContent = typeof correct === 'number' ? String(correct) : letters.join(' + ');
+    correctLetter.style.color = letters.length === 1 ? `var(--answer-${letters[0].toLowerCase()})` : '';
+    correctText.textContent = typeof correct === 'number'
+        ? 'Closest guesses win'
+        : letters.map(l => options[LETTERS.indexOf(l)] ?? '').join(' · ');
+}
+
 function applyRegrouped(msg) {
     activeCount = msg.survivorCount;
     updateCountBadge();
@@ -231,6 +350,28 @@ function switchToFinal10() {
     }
 }
 
+// ── Leaderboard (points and team modes) ──────────────────────────────────────
+function renderLeaderboard(entries) {
+    leaderboardList.innerHTML = '';
+    for (const entry of entries.slice(0, LEADERBOARD_SIZE)) {
+        const li = document.createElement('li');
+        const name = document.createElement('span');
+        name.textContent = entry.screenName ?? entry.team;
+        const points = document.createElement('span');
+        points.className = 'lb-points';
+        points.textContent = entry.totalPoints;
+        li.appendChild(name);
+        li.appendChild(points);
+        leaderboardList.appendChild(li);
+    }
+    leaderboardPanel.classList.add('visible');
+}
+
+function hideLeaderboard() {
+    leaderboardPanel.classList.remove('visible');
+    pendingLeaderboard = null;
+}
+
 // ── Event handlers ────────────────────────────────────────────────────────────
 
 function onPlayerJoined(msg) {
@@ -250,20 +391,57 @@ function onPlayerLeft(msg) {
 
 function onQuestionPreview(msg) {
     currentQuestionIndex = msg.questionIndex;
+    revealSettled = false;
+    hideLeaderboard();
     correctReveal.classList.remove('visible');
     // Return to lobby-style colouring while question is previewing
     colourTilesForLobby();
-    breakdownBars.classList.remove('visible');
+    hideOpinionResults();
+    hideQuestionImage();
     playerViz.classList.remove('hidden');
-    setSubText(`Question ${msg.questionIndex + 1} coming up…`);
+    const heading = [msg.round, msg.category].filter(Boolean).join(' · ');
+    setSubText(`${heading ? heading + ' — ' : ''}Question ${msg.questionIndex + 1} coming up…`);
+}
+
+// Counts to the server's deadline when the event carries one
+function remainingMsOf(msg, fallbackMs) {
+    return typeof msg.deadline === 'number' ? msUntil(msg.deadline) : fallbackMs;
 }
 
 function onQuestionLive(msg) {
     currentQuestionOptions = msg.options;
-    setQuestionPhase(currentQuestionIndex, msg.text, msg.options, msg.timeLimit);
+    currentQuestionType = msg.questionType ?? 'multiple_choice';
+    setQuestionPhase(currentQuestionIndex, msg.text, msg.options, remainingMsOf(msg, msg.timeLimit * 1000));
+    if (msg.image) showQuestionImage(msg.image);
+    else hideQuestionImage();
+    if (currentQuestionType === 'poll') {
+        renderPollBars(msg.options.map((_, i) => ({ option: LETTERS[i], percent: 0 })));
+    } else if (currentQuestionType === 'word_cloud') {
+        renderWordCloud([]);
+    }
+}
+
+function onTimerPaused(msg) {
+    stopCountdown();
+    renderCountdown(msg.remainingMs);
+    countdownWrap.classList.add('paused');
+}
+
+function onTimerChanged(msg) {
+    // An extension while paused only moves the frozen clock
+    if (msg.deadline === null) { renderCountdown(msg.remainingMs); return; }
+    countdownWrap.classList.remove('paused');
+    startCountdown(remainingMsOf(msg, msg.remainingMs));
 }
 
 function onAnswerBreakdown(msg) {
+    // The results stay up; the final copy follows
+    if (isOpinionQuestion()) {
+        stopCountdown();
+        countdownWrap.classList.remove('visible');
+        return;
+    }
+    hideQuestionImage();
     setBreakdownPhase(msg.playerAnswers || {});
 }
 
@@ -276,11 +454,23 @@ function onAnswerRevealed(msg) {
             // will be eliminated by the animation, but mark now for sorting
         }
     }
-    runSurvivorSequence(msg.eliminated, msg.survivors, msg.correct, currentQuestionOptions);
+    runSurvivorSequence(msg.eliminated, msg.survivors, msg.correct, currentQuestionOptions, msg.explanation);
+}
+
+function onLeaderboard(msg) {
+    if (winnerScreen.classList.contains('visible')) {
+        const top = msg.entries[0];
+        if (top) winnerSurvivorNote.textContent = `${top.totalPoints} points`;
+        return;
+    }
+    // Buffer — shown at T+6s alongside the correct answer, or now if a host-paced reveal is past that
+    if (revealSettled) { renderLeaderboard(msg.entries); return; }
+    pendingLeaderboard = msg.entries;
 }
 
 function onSurvivorsRegrouped(msg) {
-    // Buffer — applied at T+6s when reflow completes
+    // Buffer — applied at T+6s when reflow completes, or now if a host-paced reveal is past that
+    if (revealSettled) { applyRegrouped(msg); return; }
     pendingSurvivorsMsg = msg;
 }
 
@@ -304,7 +494,10 @@ function resetToLobby() {
     isFinal10 = false;
     currentQuestionIndex = 0;
     currentQuestionOptions = [];
+    currentQuestionType = 'multiple_choice';
     pendingSurvivorsMsg = null;
+    revealSettled = false;
+    hideLeaderboard();
     playerGrid.innerHTML = '';
     updateCountBadge();
     winnerScreen.classList.remove('visible');
@@ -313,6 +506,8 @@ function resetToLobby() {
     questionHeader.classList.remove('visible');
     headerSub.style.display = '';
     playerViz.classList.remove('hidden');
+    hideOpinionResults();
+    hideQuestionImage();
     setSubText('Waiting for players');
 }
 
@@ -320,20 +515,32 @@ function resetToLobby() {
 function handleMessage(msg) {
     if (DEBUG_MODE) debugJson.textContent = JSON.stringify(msg, null, 2);
     switch (msg.type) {
+        case 'clock_sync':          handleClockSync(msg);                                    break;
         case 'game_reset':          resetToLobby();                                          break;
         case 'session_created':     resetToLobby();                                          break;
         case 'player_joined':       onPlayerJoined(msg);                                     break;
         case 'player_left':         onPlayerLeft(msg);                                       break;
         case 'question_preview':    onQuestionPreview(msg);                                  break;
         case 'question_live':       onQuestionLive(msg);                                     break;
+        case 'timer_paused':        onTimerPaused(msg);                                      break;
+        case 'timer_resumed':       onTimerChanged(msg);                                     break;
+        case 'timer_extended':      onTimerChanged(msg);                                     break;
         case 'timer_expired':       /* breakdown event carries all data we need */           break;
         case 'answer_breakdown':    onAnswerBreakdown(msg);                                  break;
         case 'answer_revealed':     onAnswerRevealed(msg);                                   break;
+        case 'poll_results':        renderPollBars(msg.shares);                              break;
+        case 'word_cloud':          renderWordCloud(msg.entries);                            break;
         case 'survivors_regrouped': onSurvivorsRegrouped(msg);                               break;
         case 'game_over':           onGameOver(msg);                                         break;
+        case 'leaderboard':         onLeaderboard(msg);                                      break;
+        case 'team_leaderboard':    onLeaderboard(msg);                                      break;
     }
 }
 
 // ── Boot ──────────────────────────────────────────────────────────────────────
 resetToLobby();
-connect(handleMessage, () => send({ type: 'register_spectator' }));
+connect(handleMessage, () => {
+    resetClock();
+    for (let i = 0; i < CLOCK_SYNC_SAMPLES; i++) send(clockSyncRequest());
+    send(spectatorRegistration());
+});
@@ -1,9 +1,120 @@
 import { send } from './ws-client.js';
 import { show, hide, showNotification } from './ui.js';
-import { state } from './state.js';
+import { state, rememberResumeToken } from './state.js';
+import { msUntil } from './clock.js';
 let countdownInterval = null;
 let eliminated = false;
 let screenName = '';
+let answered = false;
+let questionType = 'multiple_choice';
+let questionOptions = [];
+const LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'];
+/** Everything a player answers with; disabled together once answers close. */
+const ANSWER_CONTROLS = '.answer-btn, #submitAnswerBtn, #numericAnswer, #textAnswer';
+/** The server turns away longer free-text answers and word-cloud responses. */
+const MAX_TEXT_ANSWER_LENGTH = 100;
+const MAX_WORD_CLOUD_ANSWER_LENGTH = 30;
+/** Word-cloud responses listed on the phone once the question closes. */
+const WORD_CLOUD_SHOWN = 5;
+function stopCountdown() {
+    if (countdownInterval !== null) {
+        clearInterval(countdownInterval);
+        countdownInterval = null;
+    }
+}
+function renderCountdown(seconds) {
+    const countdown = document.getElementById('countdown');
+    if (countdown)
+        countdown.textContent = seconds + 's';
+}
+/** Counts down to a closing time measured on this device's clock. */
+function startCountdown(remainingMs) {
+    stopCountdown();
+    const endsAt = Date.now() + remainingMs;
+    const tick = () => {
+        const seconds = Math.max(0, Math.ceil((endsAt - Date.now()) / 1000));
+        renderCountdown(seconds);
+        if (seconds === 0) {
+            stopCountdown();
+            setAnswerButtonsDisabled(true);
+        }
+    };
+    tick();
+    countdownInterval = setInterval(tick, 1000);
+}
+/** Time left until the event's server deadline, or the fallback when it carries none. */
+function remainingMsOf(msg, fallbackMs) {
+    return typeof msg.deadline === 'number' ? msUntil(msg.deadline) : fallbackMs;
+}
+function setAnswerButtonsDisabled(disabled) {
+    document.querySelectorAll(ANSWER_CONTROLS).forEach(control => {
+        control.disabled = disabled;
+    });
+}
+/** `B`, `A, C` for a multi-select, a guess or typed answer as written, or `Apollo / Apollo 11` for accepted answers. */
+function formatAnswer(answer) {
+    if (!Array.isArray(answer))
+        return String(answer);
+    return answer.join(questionType === 'free_text' ? ' / ' : ', ');
+}
+/**
+ * One button per option; a multi-select adds a submit button for the picked
+ * options, and numeric, free-text and word-cloud questions take a typed answer instead.
+ */
+function renderAnswerControls(options) {
+    const container = document.getElementById('answerButtons');
+    if (!container)
+        return;
+    container.innerHTML = '';
+    options.forEach((option, i) => {
+        const btn = document.createElement('button');
+        btn.className = 'answer-btn';
+        btn.dataset.answer = LETTERS[i];
+        btn.textContent = questionType === 'true_false' ? option : LETTERS[i] + '. ' + option;
+        container.appendChild(btn);
+    });
+    if (questionType === 'numeric') {
+        const input = document.createElement('input');
+        input.type = 'number';
+        input.id = 'numericAnswer';
+        input.inputMode = 'decimal';
+        input.placeholder = 'Your guess';
+        container.appendChild(input);
+    }
+    if (questionType === 'free_text' || questionType === 'word_cloud') {
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.id = 'textAnswer';
+        input.maxLength = questionType === 'word_cloud' ? MAX_WORD_CLOUD_ANSWER_LENGTH : MAX_TEXT_ANSWER_LENGTH;
+        input.autocomplete = 'off';
+        input.placeholder = questionType === 'word_cloud' ? 'A word or two' : 'Your answer';
+        container.appendChild(input);
+    }
+    if (questionType !== 'multiple_choice' && questionType !== 'true_false' && questionType !== 'poll') {
+        const submit = document.createElement('button');
+        submit.id = 'submitAnswerBtn';
+        submit.textContent = questionType === 'multi_select' ? 'Submit picks'
+            : questionType === 'numeric' ? 'Submit guess'
+                : questionType === 'word_cloud' ? 'Send'
+                    : 'Submit answer';
+        container.appendChild(submit);
+    }
+}
+/** The question's picture, when the host shows pictures on phones; hidden again if it fails to load. */
+function renderQuestionImage(msg) {
+    const img = document.getElementById('questionImage');
+    if (!img)
+        return;
+    if (typeof msg.image === 'string' && msg.imageOnPhones === true) {
+        img.onerror = () => img.classList.add('hidden');
+        img.src = msg.image;
+        img.classList.remove('hidden');
+    }
+    else {
+        img.classList.add('hidden');
+        img.removeAttribute('src');
+    }
+}
 function showTriviaOnly(sectionId) {
     hide('waitingSection');
     hide('triviaWaiting');
@@ -17,14 +128,26 @@ export const triviaHandlers = {
     joined(msg) {
         screenName = msg.screenName;
         state.playerId = msg.playerId;
+        rememberResumeToken(msg.resumeToken ?? null);
+        const teamBadge = document.getElementById('teamBadge');
+        if (teamBadge && typeof msg.team === 'string') {
+            teamBadge.textContent = 'Team: ' + msg.team;
+            show('teamBadge');
+        }
         hide('joinSection');
         show('waitingSection');
     },
+    resume_failed(msg) {
+        rememberResumeToken(null);
+        state.playerId = null;
+        hide('waitingSection');
+        hide('triviaSection');
+        show('joinSection');
+        showNotification(msg.message, 'error');
+    },
     game_reset(_msg) {
-        if (countdownInterval !== null) {
-            clearInterval(countdownInterval);
-            countdownInterval = null;
-        }
+        rememberResumeToken(null);
+        stopCountdown();
         hide('joinSection');
         hide('waitingSection');
         hide('triviaSection');
@@ -36,7 +159,18 @@ export const triviaHandlers = {
         if (rejoinMsg)
             rejoinMsg.textContent = 'Waiting for next game...';
     },
-    session_created(_msg) {
+    session_created(msg) {
+        const teamSelect = document.getElementById('teamSelect');
+        if (teamSelect && Array.isArray(msg.teams)) {
+            teamSelect.innerHTML = '<option value="">Any team</option>';
+            for (const team of msg.teams) {
+                const option = document.createElement('option');
+                option.value = team;
+                option.textContent = team;
+                teamSelect.appendChild(option);
+            }
+            show('teamGroup');
+        }
         if (!screenName)
             return;
         const rejoinBtn = document.getElementById('rejoinBtn');
@@ -51,56 +185,64 @@ export const triviaHandlers = {
         showTriviaOnly('triviaWaiting');
     },
     question_live(msg) {
-        if (countdownInterval !== null) {
-            clearInterval(countdownInterval);
-        }
-        document.getElementById('questionText').textContent = msg.text;
-        const buttons = document.querySelectorAll('.answer-btn');
-        const labels = ['A', 'B', 'C', 'D'];
-        const options = msg.options;
-        buttons.forEach((btn, i) => {
-            btn.textContent = labels[i] + '. ' + options[i];
-            btn.disabled = false;
-            btn.classList.remove('selected');
-        });
-        let remaining = msg.timeLimit;
-        document.getElementById('countdown').textContent = remaining + 's';
-        countdownInterval = setInterval(() => {
-            remaining -= 1;
-            if (remaining <= 0) {
-                remaining = 0;
-                clearInterval(countdownInterval);
-                countdownInterval = null;
-            }
-            document.getElementById('countdown').textContent = remaining + 's';
-        }, 1000);
+        answered = false;
+        questionType = msg.questionType ?? 'multiple_choice';
+        questionOptions = msg.options;
+        const hint = questionType === 'multi_select' ? ' (pick all that apply)' : '';
+        document.getElementById('questionText').textContent = msg.text + hint;
+        renderAnswerControls(msg.options);
+        renderQuestionImage(msg);
         showTriviaOnly('triviaQuestion');
+        startCountdown(remainingMsOf(msg, msg.timeLimit * 1000));
     },
-    timer_expired(_msg) {
-        if (countdownInterval !== null) {
-            clearInterval(countdownInterval);
-            countdownInterval = null;
+    timer_paused(msg) {
+        stopCountdown();
+        renderCountdown(Math.ceil(msg.remainingMs / 1000));
+        setAnswerButtonsDisabled(true);
+        showNotification('Paused — hold that thought', 'info');
+    },
+    timer_resumed(msg) {
+        if (!answered)
+            setAnswerButtonsDisabled(false);
+        startCountdown(remainingMsOf(msg, msg.remainingMs));
+    },
+    timer_extended(msg) {
+        if (msg.deadline === null) {
+            renderCountdown(Math.ceil(msg.remainingMs / 1000));
+        }
+        else {
+            startCountdown(remainingMsOf(msg, msg.remainingMs));
         }
-        const countdown = document.getElementById('countdown');
-        if (countdown)
-            countdown.textContent = '0s';
-        document.querySelectorAll('.answer-btn').forEach(btn => {
-            btn.disabled = true;
-        });
+    },
+    timer_expired(_msg) {
+        stopCountdown();
+        renderCountdown(0);
+        setAnswerButtonsDisabled(true);
         showTriviaOnly('triviaBreakdown');
     },
     answer_breakdown(_msg) {
         show('triviaBreakdown');
     },
     answer_accepted(_msg) {
+        answered = true;
         showNotification('Answer received!', 'success');
     },
+    answer_rejected(msg) {
+        answered = false;
+        document.querySelectorAll('.answer-btn.selected').forEach(btn => btn.classList.remove('selected'));
+        const message = msg.reason === 'paused'
+            ? 'Paused — your answer was not counted'
+            : msg.reason === 'joined_late'
+                ? 'This game started before you joined — watch along until the next one'
+                : 'Too late — answers are closed';
+        showNotification(message, 'error');
+    },
     you_are_eliminated(msg) {
         eliminated = true;
         document.getElementById('outcomeText').textContent = "You're out!";
-        const yourAnswer = msg.yourAnswer !== null ? msg.yourAnswer : 'No answer';
+        const yourAnswer = msg.yourAnswer !== null ? formatAnswer(msg.yourAnswer) : 'No answer';
         document.getElementById('correctAnswerText').textContent =
-            'Correct answer: ' + msg.correctAnswer + ' · Your answer: ' + yourAnswer;
+            'Correct answer: ' + formatAnswer(msg.correctAnswer) + ' · Your answer: ' + yourAnswer;
         document.getElementById('survivorCountText').textContent = '';
         showTriviaOnly('triviaOutcome');
     },
@@ -112,18 +254,61 @@ export const triviaHandlers = {
             count + ' player' + (count === 1 ? '' : 's') + ' remaining';
         showTriviaOnly('triviaOutcome');
     },
+    you_scored(msg) {
+        const points = msg.points;
+        const yourAnswer = msg.yourAnswer !== null ? formatAnswer(msg.yourAnswer) : 'No answer';
+        document.getElementById('outcomeText').textContent =
+            points > 0 ? 'Correct! +' + points + ' points' : 'No points this time';
+        document.getElementById('correctAnswerText').textContent =
+            'Correct answer: ' + formatAnswer(msg.correctAnswer) + ' · Your answer: ' + yourAnswer;
+        document.getElementById('survivorCountText').textContent =
+            'Total: ' + msg.totalPoints + ' points · Rank #' + msg.rank;
+        showTriviaOnly('triviaOutcome');
+    },
+    team_result(msg) {
+        const teamAnswer = msg.teamAnswer !== null ? ' · Team answer: ' + formatAnswer(msg.teamAnswer) : '';
+        let outcome = msg.correct ? 'Your team got it! +' + msg.points + ' points' : 'Your team missed this one';
+        if (msg.eliminated)
+            outcome = 'Your team (' + msg.team + ') has been eliminated';
+        document.getElementById('outcomeText').textContent = outcome;
+        document.getElementById('correctAnswerText').textContent =
+            'Correct answer: ' + formatAnswer(msg.correctAnswer) + teamAnswer;
+        document.getElementById('survivorCountText').textContent =
+            msg.team + ': ' + msg.totalPoints + ' points · Rank #' + msg.rank;
+        showTriviaOnly('triviaOutcome');
+    },
+    poll_results(msg) {
+        const shares = msg.shares;
+        document.getElementById('outcomeText').textContent = 'Poll results';
+        document.getElementById('correctAnswerText').textContent = shares
+            .map(s => (questionOptions[LETTERS.indexOf(s.option)] ?? s.option) + ' ' + s.percent + '%')
+            .join(' · ');
+        document.getElementById('survivorCountText').textContent = votesText(msg.totalAnswered);
+        showTriviaOnly('triviaOutcome');
+    },
+    word_cloud(msg) {
+        const entries = msg.entries;
+        document.getElementById('outcomeText').textContent = 'What everyone said';
+        document.getElementById('correctAnswerText').textContent = entries
+            .slice(0, WORD_CLOUD_SHOWN)
+            .map(e => e.count > 1 ? e.text + ' ×' + e.count : e.text)
+            .join(' · ');
+        document.getElementById('survivorCountText').textContent = votesText(msg.totalAnswered);
+        showTriviaOnly('triviaOutcome');
+    },
     survivors_regrouped(msg) {
         const count = msg.survivorCount;
         const countEl = document.getElementById('survivorCountText');
         if (countEl) {
             countEl.textContent = count + ' player' + (count === 1 ? '' : 's') + ' remaining';
         }
-        if (eliminated) {
+        // A phone that has not joined (yet) watches along too
+        if (eliminated || state.playerId === null) {
             const outcomeEl = document.getElementById('outcomeText');
             if (outcomeEl)
                 outcomeEl.textContent = 'Spectating — ' + count + ' survivors left';
         }
-        show('triviaOutcome');
+        showTriviaOnly('triviaOutcome');
     },
     game_over(msg) {
         const winners = msg.winners;
@@ -135,6 +320,9 @@ export const triviaHandlers = {
         showTriviaOnly('triviaOutcome');
     },
 };
+function votesText(count) {
+    return count + ' response' + (count === 1 ? '' : 's');
+}
 // Register rejoin button click handler
 export function initRejoinButton() {
     const rejoinBtn = document.getElementById('rejoinBtn');
@@ -143,21 +331,69 @@ export function initRejoinButton() {
     rejoinBtn.addEventListener('click', () => {
         if (!screenName)
             return;
-        window.location.href = '/play?name=' + encodeURIComponent(screenName);
+        const session = new URLSearchParams(location.search).get('session');
+        window.location.href = '/play?name=' + encodeURIComponent(screenName) +
+            (session ? '&session=' + encodeURIComponent(session) : '');
     });
 }
+function submitAnswer(answer) {
+    send({ type: 'submit_answer', answer });
+    answered = true;
+    setAnswerButtonsDisabled(true);
+}
+/** The picked options of a multi-select, or the typed guess or answer of a numeric, free-text or word-cloud question. */
+function submitEntered() {
+    if (questionType === 'free_text' || questionType === 'word_cloud') {
+        const input = document.getElementById('textAnswer');
+        const text = input ? input.value.trim() : '';
+        if (text !== '')
+            submitAnswer(text);
+        else
+            showNotification('Type an answer first', 'error');
+        return;
+    }
+    if (questionType === 'numeric') {
+        const input = document.getElementById('numericAnswer');
+        const guess = input && input.value.trim() !== '' ? Number(input.value) : NaN;
+        if (Number.isFinite(guess))
+            submitAnswer(guess);
+        else
+            showNotification('Type a number first', 'error');
+        return;
+    }
+    const picked = [...document.querySelectorAll('.answer-btn.selected')].map(b => b.dataset.answer);
+    if (picked.length > 0)
+        submitAnswer(picked);
+    else
+        showNotification('Pick at least one answer', 'error');
+}
 // Register answer button click handler
 export function initAnswerButtons() {
     const container = document.getElementById('answerButtons');
     if (!container)
         return;
     container.addEventListener('click', (e) => {
-        const btn = e.target.closest('.answer-btn');
+        const target = e.target;
+        const submit = target.closest('#submitAnswerBtn');
+        if (submit) {
+            if (!submit.disabled)
+                submitEntered();
+            return;
+        }
+        const btn = target.closest('.answer-btn');
         if (!btn || btn.disabled)
             return;
-        const answer = btn.dataset.answer;
-        send({ type: 'submit_answer', answer });
-        document.querySelectorAll('.answer-btn').forEach(b => { b.disabled = true; });
+        // Multi-select picks are toggled, then sent together
+        if (questionType === 'multi_select') {
+            btn.classList.toggle('selected');
+            return;
+        }
+        submitAnswer(btn.dataset.answer);
         btn.classList.add('selected');
     });
+    container.addEventListener('keydown', (e) => {
+        const id = e.target.id;
+        if (e.key === 'Enter' && (id === 'numericAnswer' || id === 'textAnswer'))
+            submitEntered();
+    });
 }
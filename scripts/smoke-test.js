@@ -222,9 +222,9 @@ async function checkAdminWebSocket() {
       try {
         const msg = JSON.parse(data.toString());
         if (msg.envelope === 'admin_registered') {
-          pass('Admin WS registered successfully');
-        } else if (msg.envelope === 'admin_error' && msg.message === 'Admin already connected') {
-          warn('Admin already connected to relay — non-fatal, skipping admin WS check');
+          pass(`Admin WS registered successfully (join code ${msg.joinCode})`);
+        } else if (msg.envelope === 'admin_error' && /already has an admin/.test(msg.message)) {
+          warn('Another smoke test holds the smoke-test session — non-fatal, skipping admin WS check');
         } else {
           fail(`Admin WS unexpected response: ${JSON.stringify(msg)}`);
         }
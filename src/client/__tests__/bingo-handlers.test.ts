@@ -0,0 +1,98 @@
+/**
+ * @jest-environment jsdom
+ */
+
+jest.mock('../ui.js', () => ({
+  show: jest.fn(),
+  hide: jest.fn(),
+  showNotification: jest.fn(),
+}));
+
+jest.mock('../ws-client.js', () => ({
+  connect: jest.fn(),
+  send: jest.fn(),
+}));
+
+import { bingoHandlers, initBingoCard } from '../bingo-handlers.js';
+import { state, resetState } from '../state.js';
+import * as ui from '../ui.js';
+import * as wsClient from '../ws-client.js';
+
+const mockUi = ui as jest.Mocked<typeof ui>;
+const mockWs = wsClient as jest.Mocked<typeof wsClient>;
+
+const WORDS = Array.from({ length: 25 }, (_, i) => (i === 12 ? 'FREE' : `w${i}`));
+const MARKS = WORDS.map((w) => w === 'FREE');
+
+function buildDom(): void {
+  document.body.innerHTML = `
+    <div id="bingoSection" class="hidden">
+      <p id="bingoStatus"></p>
+      <div id="bingoGrid"></div>
+      <button id="claimBtn" disabled>Bingo!</button>
+    </div>
+  `;
+}
+
+function cells(): HTMLButtonElement[] {
+  return Array.from(document.querySelectorAll<HTMLButtonElement>('.bingo-cell'));
+}
+
+function claimBtn(): HTMLButtonElement {
+  return document.getElementById('claimBtn') as HTMLButtonElement;
+}
+
+beforeEach(() => {
+  buildDom();
+  resetState();
+  jest.clearAllMocks();
+  bingoHandlers.game_reset({ type: 'game_reset' });
+});
+
+describe('card_dealt', () => {
+  it('renders the card, locked until the game starts', () => {
+    bingoHandlers.card_dealt({ type: 'card_dealt', words: WORDS, marked: MARKS });
+    expect(cells()).toHaveLength(25);
+    expect(cells()[12].classList.contains('marked')).toBe(true);
+    expect(cells().every((c) => c.disabled)).toBe(true);
+    expect(document.getElementById('bingoStatus')!.textContent).toBe('Waiting for the host to start…');
+    expect(mockUi.show).toHaveBeenCalledWith('bingoSection');
+  });
+});
+
+describe('marking and claiming', () => {
+  beforeEach(() => {
+    bingoHandlers.card_dealt({ type: 'card_dealt', words: WORDS, marked: MARKS });
+    bingoHandlers.bingo_started({ type: 'bingo_started', prize: 'line' });
+    initBingoCard();
+  });
+
+  it('sends mark_cell when a cell is tapped', () => {
+    cells()[3].click();
+    expect(mockWs.send).toHaveBeenCalledWith({ type: 'mark_cell', index: 3 });
+  });
+
+  it('enables the claim button once the card shows the prize', () => {
+    bingoHandlers.cell_marked({ type: 'cell_marked', index: 4, marked: true, pattern: null });
+    expect(cells()[4].classList.contains('marked')).toBe(true);
+    expect(claimBtn().disabled).toBe(true);
+
+    bingoHandlers.cell_marked({ type: 'cell_marked', index: 0, marked: true, pattern: 'line' });
+    expect(claimBtn().disabled).toBe(false);
+    claimBtn().click();
+    expect(mockWs.send).toHaveBeenCalledWith({ type: 'claim_bingo' });
+  });
+
+  it('keeps a line from claiming once the prize is a full house', () => {
+    bingoHandlers.claim_result({ type: 'claim_result', playerId: 'other', screenName: 'Bob', pattern: 'line', accepted: true, prize: 'full_house' });
+    bingoHandlers.cell_marked({ type: 'cell_marked', index: 0, marked: true, pattern: 'line' });
+    expect(claimBtn().disabled).toBe(true);
+    expect(mockUi.showNotification).toHaveBeenCalledWith('Bob won a line', 'info');
+  });
+
+  it('tells the player when their claim is rejected', () => {
+    state.playerId = 'me';
+    bingoHandlers.claim_result({ type: 'claim_result', playerId: 'me', screenName: 'Me', pattern: 'line', accepted: false, prize: 'line' });
+    expect(mockUi.showNotification).toHaveBeenCalledWith('Claim rejected — keep listening', 'error');
+  });
+});
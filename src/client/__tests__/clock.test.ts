@@ -0,0 +1,40 @@
+import { clockSyncRequest, handleClockSync, msUntil, resetClock, serverNow } from '../clock.js';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.setSystemTime(10_000);
+  resetClock();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('clock sync', () => {
+  it('stamps requests with the local time', () => {
+    expect(clockSyncRequest()).toEqual({ type: 'clock_sync', clientTime: 10_000 });
+  });
+
+  it('trusts the local clock until a reply arrives', () => {
+    expect(serverNow()).toBe(10_000);
+    expect(msUntil(12_500)).toBe(2500);
+  });
+
+  it('estimates the offset from the midpoint of the round trip', () => {
+    jest.setSystemTime(10_200);
+    handleClockSync({ type: 'clock_sync', clientTime: 10_000, serverTime: 13_100 });
+    expect(serverNow()).toBe(13_200);
+  });
+
+  it('keeps the sample with the shortest round trip', () => {
+    jest.setSystemTime(10_040);
+    handleClockSync({ type: 'clock_sync', clientTime: 10_000, serverTime: 12_020 });
+    jest.setSystemTime(10_500);
+    handleClockSync({ type: 'clock_sync', clientTime: 10_100, serverTime: 99_999 });
+    expect(serverNow()).toBe(12_500);
+  });
+
+  it('never reports a negative time left', () => {
+    expect(msUntil(9_000)).toBe(0);
+  });
+});
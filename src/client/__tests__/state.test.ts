@@ -1,10 +1,11 @@
-import { state, resetState } from '../state.js';
+import { state, resetState, rememberResumeToken, recallResumeToken } from '../state.js';
 
 beforeEach(() => resetState());
 
 describe('initial state', () => {
   it('has null playerId', () => expect(state.playerId).toBeNull());
   it('has null notifTimer', () => expect(state.notifTimer).toBeNull());
+  it('has null resumeToken', () => expect(state.resumeToken).toBeNull());
 });
 
 describe('resetState', () => {
@@ -14,3 +15,16 @@ describe('resetState', () => {
     expect(state.playerId).toBeNull();
   });
 });
+
+describe('resume token', () => {
+  it('is remembered in memory when storage is unavailable', () => {
+    rememberResumeToken('tok-1');
+    expect(recallResumeToken()).toBe('tok-1');
+  });
+
+  it('is cleared by resetState', () => {
+    rememberResumeToken('tok-1');
+    resetState();
+    expect(recallResumeToken()).toBeNull();
+  });
+});
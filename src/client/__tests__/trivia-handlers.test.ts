@@ -14,6 +14,8 @@ jest.mock('../ws-client.js', () => ({
 }));
 
 import { triviaHandlers, initAnswerButtons } from '../trivia-handlers.js';
+import { state, resetState } from '../state.js';
+import { handleClockSync, resetClock } from '../clock.js';
 import * as ui from '../ui.js';
 import * as wsClient from '../ws-client.js';
 
@@ -28,6 +30,7 @@ function buildDom(): void {
     <div id="triviaQuestion" class="hidden">
       <div id="countdown"></div>
       <p id="questionText"></p>
+      <img id="questionImage" class="hidden">
       <div id="answerButtons">
         <button class="answer-btn" data-answer="A">A</button>
         <button class="answer-btn" data-answer="B">B</button>
@@ -54,6 +57,25 @@ afterEach(() => {
   jest.useRealTimers();
 });
 
+// ---------------------------------------------------------------------------
+describe('joined / resume', () => {
+  beforeEach(() => resetState());
+
+  it('remembers the resume token from joined', () => {
+    triviaHandlers.joined({ type: 'joined', playerId: 'p1', screenName: 'Alice', resumeToken: 'tok-1' });
+    expect(state.resumeToken).toBe('tok-1');
+    expect(sessionStorage.getItem('townhall.resumeToken')).toBe('tok-1');
+  });
+
+  it('forgets the token and shows the join form on resume_failed', () => {
+    triviaHandlers.joined({ type: 'joined', playerId: 'p1', screenName: 'Alice', resumeToken: 'tok-1' });
+    triviaHandlers.resume_failed({ type: 'resume_failed', message: 'Your previous game has ended.' });
+    expect(state.resumeToken).toBeNull();
+    expect(sessionStorage.getItem('townhall.resumeToken')).toBeNull();
+    expect(mockUi.show).toHaveBeenCalledWith('joinSection');
+  });
+});
+
 // ---------------------------------------------------------------------------
 describe('question_live', () => {
   it('sets question text and shows triviaQuestion section', () => {
@@ -96,6 +118,40 @@ describe('question_live', () => {
     jest.advanceTimersByTime(3000);
     expect(document.getElementById('countdown')!.textContent).toBe('7s');
   });
+
+  it('shows the question image when the host puts pictures on phones', () => {
+    triviaHandlers.question_live({
+      type: 'question_live', text: 'Whose desk is this?', options: ['Ana', 'Ben'], timeLimit: 10,
+      image: '/media/desk.jpg', imageOnPhones: true,
+    });
+
+    const img = document.getElementById('questionImage') as HTMLImageElement;
+    expect(img.getAttribute('src')).toBe('/media/desk.jpg');
+    expect(img.classList.contains('hidden')).toBe(false);
+  });
+
+  it('leaves the image to the broadcast screen otherwise', () => {
+    triviaHandlers.question_live({
+      type: 'question_live', text: 'Whose desk is this?', options: ['Ana', 'Ben'], timeLimit: 10,
+      image: '/media/desk.jpg',
+    });
+
+    const img = document.getElementById('questionImage') as HTMLImageElement;
+    expect(img.hasAttribute('src')).toBe(false);
+    expect(img.classList.contains('hidden')).toBe(true);
+  });
+
+  it('clears the last image for a question without one', () => {
+    triviaHandlers.question_live({
+      type: 'question_live', text: 'Q1', options: ['a', 'b'], timeLimit: 10,
+      image: '/media/desk.jpg', imageOnPhones: true,
+    });
+    triviaHandlers.question_live({ type: 'question_live', text: 'Q2', options: ['a', 'b'], timeLimit: 10 });
+
+    const img = document.getElementById('questionImage') as HTMLImageElement;
+    expect(img.hasAttribute('src')).toBe(false);
+    expect(img.classList.contains('hidden')).toBe(true);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -136,6 +192,87 @@ describe('answer button click', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+describe('question types', () => {
+  beforeEach(() => initAnswerButtons());
+
+  it('shows just the two labels for a true/false question', () => {
+    triviaHandlers.question_live({ type: 'question_live', text: 'Q?', questionType: 'true_false', options: ['True', 'False'], timeLimit: 10 });
+
+    const buttons = document.querySelectorAll<HTMLButtonElement>('.answer-btn');
+    expect([...buttons].map(b => b.textContent)).toEqual(['True', 'False']);
+    buttons[1].click();
+    expect(mockWs.send).toHaveBeenCalledWith({ type: 'submit_answer', answer: 'B' });
+  });
+
+  it('sends every pick of a multi-select together', () => {
+    triviaHandlers.question_live({ type: 'question_live', text: 'Q?', questionType: 'multi_select', options: ['a', 'b', 'c', 'd', 'e'], timeLimit: 10 });
+
+    expect(document.getElementById('questionText')!.textContent).toBe('Q? (pick all that apply)');
+    document.querySelector<HTMLButtonElement>('[data-answer="E"]')!.click();
+    document.querySelector<HTMLButtonElement>('[data-answer="A"]')!.click();
+    document.querySelector<HTMLButtonElement>('[data-answer="B"]')!.click();
+    document.querySelector<HTMLButtonElement>('[data-answer="B"]')!.click();
+    expect(mockWs.send).not.toHaveBeenCalled();
+
+    document.getElementById('submitAnswerBtn')!.click();
+    expect(mockWs.send).toHaveBeenCalledWith({ type: 'submit_answer', answer: ['A', 'E'] });
+  });
+
+  it('asks for a pick before submitting an empty multi-select', () => {
+    triviaHandlers.question_live({ type: 'question_live', text: 'Q?', questionType: 'multi_select', options: ['a', 'b'], timeLimit: 10 });
+    document.getElementById('submitAnswerBtn')!.click();
+    expect(mockWs.send).not.toHaveBeenCalled();
+    expect(mockUi.showNotification).toHaveBeenCalledWith('Pick at least one answer', 'error');
+  });
+
+  it('sends a typed guess for a numeric question', () => {
+    triviaHandlers.question_live({ type: 'question_live', text: 'Q?', questionType: 'numeric', options: [], timeLimit: 10 });
+
+    expect(document.querySelectorAll('.answer-btn')).toHaveLength(0);
+    const input = document.getElementById('numericAnswer') as HTMLInputElement;
+    input.value = '1969';
+    input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+    expect(mockWs.send).toHaveBeenCalledWith({ type: 'submit_answer', answer: 1969 });
+    expect(input.disabled).toBe(true);
+  });
+
+  it('sends a typed answer for a free-text question', () => {
+    triviaHandlers.question_live({ type: 'question_live', text: 'Q?', questionType: 'free_text', options: [], timeLimit: 10 });
+
+    const input = document.getElementById('textAnswer') as HTMLInputElement;
+    expect(input.maxLength).toBe(100);
+    document.getElementById('submitAnswerBtn')!.click();
+    expect(mockUi.showNotification).toHaveBeenCalledWith('Type an answer first', 'error');
+
+    input.value = '  Apollo 11 ';
+    document.getElementById('submitAnswerBtn')!.click();
+    expect(mockWs.send).toHaveBeenCalledWith({ type: 'submit_answer', answer: 'Apollo 11' });
+    expect(input.disabled).toBe(true);
+  });
+
+  it('shows every accepted answer of a free-text question', () => {
+    triviaHandlers.question_live({ type: 'question_live', text: 'Q?', questionType: 'free_text', options: [], timeLimit: 10 });
+    triviaHandlers.you_are_eliminated({ type: 'you_are_eliminated', correctAnswer: ['Apollo 11', 'Apollo'], yourAnswer: 'Gemini' });
+    expect(document.getElementById('correctAnswerText')!.textContent).toContain('Apollo 11 / Apollo');
+    expect(document.getElementById('correctAnswerText')!.textContent).toContain('Gemini');
+  });
+
+  it('sends a poll vote with one tap and a word-cloud response from a short text box', () => {
+    triviaHandlers.question_live({ type: 'question_live', text: 'Q?', questionType: 'poll', options: ['Yes', 'No'], timeLimit: 10 });
+    expect(document.getElementById('submitAnswerBtn')).toBeNull();
+    (document.querySelector('.answer-btn[data-answer="B"]') as HTMLButtonElement).click();
+    expect(mockWs.send).toHaveBeenCalledWith({ type: 'submit_answer', answer: 'B' });
+
+    triviaHandlers.question_live({ type: 'question_live', text: 'Q?', questionType: 'word_cloud', options: [], timeLimit: 10 });
+    const input = document.getElementById('textAnswer') as HTMLInputElement;
+    expect(input.maxLength).toBe(30);
+    input.value = 'teamwork';
+    document.getElementById('submitAnswerBtn')!.click();
+    expect(mockWs.send).toHaveBeenCalledWith({ type: 'submit_answer', answer: 'teamwork' });
+  });
+});
+
 // ---------------------------------------------------------------------------
 describe('timer_expired', () => {
   it('clears the countdown interval and freezes display at 0s', () => {
@@ -170,6 +307,86 @@ describe('timer_expired', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+describe('timer controls', () => {
+  function goLive(): void {
+    triviaHandlers.question_live({ type: 'question_live', text: 'Q?', options: ['a', 'b', 'c', 'd'], timeLimit: 10 });
+  }
+
+  it('freezes the countdown and disables answers while paused', () => {
+    goLive();
+    jest.advanceTimersByTime(3000);
+    triviaHandlers.timer_paused({ type: 'timer_paused', remainingMs: 7000 });
+
+    jest.advanceTimersByTime(5000);
+    expect(document.getElementById('countdown')!.textContent).toBe('7s');
+    document.querySelectorAll<HTMLButtonElement>('.answer-btn').forEach(btn => expect(btn.disabled).toBe(true));
+  });
+
+  it('restarts the countdown on resume and re-enables unanswered buttons', () => {
+    goLive();
+    triviaHandlers.timer_paused({ type: 'timer_paused', remainingMs: 7000 });
+    triviaHandlers.timer_resumed({ type: 'timer_resumed', deadline: Date.now() + 7000, remainingMs: 7000 });
+
+    jest.advanceTimersByTime(2000);
+    expect(document.getElementById('countdown')!.textContent).toBe('5s');
+    document.querySelectorAll<HTMLButtonElement>('.answer-btn').forEach(btn => expect(btn.disabled).toBe(false));
+  });
+
+  it('keeps buttons disabled on resume once the player has answered', () => {
+    initAnswerButtons();
+    goLive();
+    document.querySelector<HTMLButtonElement>('[data-answer="A"]')!.click();
+    triviaHandlers.timer_paused({ type: 'timer_paused', remainingMs: 7000 });
+    triviaHandlers.timer_resumed({ type: 'timer_resumed', deadline: Date.now() + 7000, remainingMs: 7000 });
+
+    document.querySelectorAll<HTMLButtonElement>('.answer-btn').forEach(btn => expect(btn.disabled).toBe(true));
+  });
+
+  it('shows the extended time, ticking only while live', () => {
+    goLive();
+    triviaHandlers.timer_extended({ type: 'timer_extended', deadline: Date.now() + 20000, remainingMs: 20000 });
+    expect(document.getElementById('countdown')!.textContent).toBe('20s');
+
+    triviaHandlers.timer_paused({ type: 'timer_paused', remainingMs: 19000 });
+    triviaHandlers.timer_extended({ type: 'timer_extended', deadline: null, remainingMs: 29000 });
+    jest.advanceTimersByTime(3000);
+    expect(document.getElementById('countdown')!.textContent).toBe('29s');
+  });
+});
+
+// ---------------------------------------------------------------------------
+describe('server deadline', () => {
+  afterEach(() => resetClock());
+
+  it('counts down to the deadline on the server clock', () => {
+    jest.setSystemTime(1_000_100);
+    // Sent at 1_000_000, stamped by a server running 5s ahead
+    handleClockSync({ type: 'clock_sync', clientTime: 1_000_000, serverTime: 1_005_050 });
+
+    triviaHandlers.question_live({ type: 'question_live', text: 'Q?', options: ['a', 'b', 'c', 'd'], timeLimit: 10, deadline: 1_013_100 });
+    expect(document.getElementById('countdown')!.textContent).toBe('8s');
+  });
+
+  it('disables the answer buttons when the countdown runs out', () => {
+    triviaHandlers.question_live({ type: 'question_live', text: 'Q?', options: ['a', 'b', 'c', 'd'], timeLimit: 3, deadline: Date.now() + 3000 });
+    jest.advanceTimersByTime(3000);
+
+    expect(document.getElementById('countdown')!.textContent).toBe('0s');
+    document.querySelectorAll<HTMLButtonElement>('.answer-btn').forEach(btn => expect(btn.disabled).toBe(true));
+  });
+
+  it('explains a rejected answer', () => {
+    triviaHandlers.answer_rejected({ type: 'answer_rejected', reason: 'too_late' });
+    expect(mockUi.showNotification).toHaveBeenCalledWith('Too late — answers are closed', 'error');
+  });
+
+  it('tells a late joiner to wait for the next game', () => {
+    triviaHandlers.answer_rejected({ type: 'answer_rejected', reason: 'joined_late' });
+    expect(mockUi.showNotification).toHaveBeenCalledWith('This game started before you joined — watch along until the next one', 'error');
+  });
+});
+
 // ---------------------------------------------------------------------------
 describe('you_are_eliminated', () => {
   it('shows elimination screen with correct and submitted answer', () => {
@@ -212,6 +429,77 @@ describe('you_survived', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+describe('you_scored', () => {
+  it('shows points earned, running total and rank', () => {
+    triviaHandlers.you_scored({ type: 'you_scored', correctAnswer: 'A', yourAnswer: 'A', points: 830, totalPoints: 1530, rank: 2 });
+    expect(document.getElementById('outcomeText')!.textContent).toBe('Correct! +830 points');
+    expect(document.getElementById('survivorCountText')!.textContent).toBe('Total: 1530 points · Rank #2');
+    expect(mockUi.show).toHaveBeenCalledWith('triviaOutcome');
+  });
+
+  it('shows a no-points message for a wrong answer', () => {
+    triviaHandlers.you_scored({ type: 'you_scored', correctAnswer: 'A', yourAnswer: null, points: 0, totalPoints: 0, rank: 3 });
+    expect(document.getElementById('outcomeText')!.textContent).toBe('No points this time');
+    expect(document.getElementById('correctAnswerText')!.textContent).toBe('Correct answer: A · Your answer: No answer');
+  });
+});
+
+// ---------------------------------------------------------------------------
+describe('team_result', () => {
+  it('shows the team outcome, total and rank', () => {
+    triviaHandlers.team_result({ type: 'team_result', team: 'Red', correctAnswer: 'B', teamAnswer: 'B', correct: true, points: 1000, totalPoints: 2000, rank: 1, eliminated: false });
+    expect(document.getElementById('outcomeText')!.textContent).toBe('Your team got it! +1000 points');
+    expect(document.getElementById('correctAnswerText')!.textContent).toBe('Correct answer: B · Team answer: B');
+    expect(document.getElementById('survivorCountText')!.textContent).toBe('Red: 2000 points · Rank #1');
+    expect(mockUi.show).toHaveBeenCalledWith('triviaOutcome');
+  });
+
+  it('tells members when their team is eliminated', () => {
+    triviaHandlers.team_result({ type: 'team_result', team: 'Blue', correctAnswer: 'B', teamAnswer: null, correct: false, points: 0, totalPoints: 0, rank: 2, eliminated: true });
+    expect(document.getElementById('outcomeText')!.textContent).toBe('Your team (Blue) has been eliminated');
+    expect(document.getElementById('correctAnswerText')!.textContent).toBe('Correct answer: B');
+  });
+});
+
+// ---------------------------------------------------------------------------
+describe('poll_results / word_cloud', () => {
+  it('shows each poll answer with its share of the votes', () => {
+    triviaHandlers.question_live({ type: 'question_live', text: 'Q?', questionType: 'poll', options: ['Yes', 'No'], timeLimit: 10 });
+    triviaHandlers.poll_results({
+      type: 'poll_results',
+      shares: [{ option: 'A', count: 2, percent: 67 }, { option: 'B', count: 1, percent: 33 }],
+      totalAnswered: 3,
+      final: true,
+    });
+    expect(document.getElementById('outcomeText')!.textContent).toBe('Poll results');
+    expect(document.getElementById('correctAnswerText')!.textContent).toBe('Yes 67% · No 33%');
+    expect(document.getElementById('survivorCountText')!.textContent).toBe('3 responses');
+    expect(mockUi.show).toHaveBeenCalledWith('triviaOutcome');
+  });
+
+  it('lists the most common word-cloud responses', () => {
+    triviaHandlers.word_cloud({
+      type: 'word_cloud',
+      entries: [{ text: 'Teamwork', count: 3 }, { text: 'coffee', count: 1 }],
+      totalAnswered: 4,
+      final: true,
+    });
+    expect(document.getElementById('correctAnswerText')!.textContent).toBe('Teamwork ×3 · coffee');
+    expect(document.getElementById('survivorCountText')!.textContent).toBe('4 responses');
+  });
+});
+
+// ---------------------------------------------------------------------------
+describe('survivors_regrouped', () => {
+  it('shows a phone that has not joined as spectating', () => {
+    resetState();
+    triviaHandlers.survivors_regrouped({ type: 'survivors_regrouped', survivorCount: 3, survivorNames: ['A', 'B', 'C'] });
+    expect(document.getElementById('outcomeText')!.textContent).toBe('Spectating — 3 survivors left');
+    expect(mockUi.show).toHaveBeenCalledWith('triviaOutcome');
+  });
+});
+
 // ---------------------------------------------------------------------------
 describe('game_over', () => {
   it('shows winner names for a surviving player', () => {
@@ -23,7 +23,7 @@ class MockWebSocket {
 (globalThis as Record<string, unknown>).WebSocket  = MockWebSocket;
 (globalThis as Record<string, unknown>).location   = { protocol: 'http:', host: 'localhost:3000' };
 
-import { connect, send } from '../ws-client.js';
+import { connect, send, spectatorRegistration } from '../ws-client.js';
 
 beforeEach(() => {
   MockWebSocket.reset();
@@ -51,6 +51,13 @@ describe('connect', () => {
     (globalThis as Record<string, unknown>).location = { protocol: 'http:', host: 'localhost:3000' };
   });
 
+  it('passes the page\'s join code on to the socket', () => {
+    (globalThis as Record<string, unknown>).location = { protocol: 'http:', host: 'localhost:3000', search: '?name=Al&session=EAST' };
+    connect(() => { /* noop */ });
+    expect(MockWebSocket.instances[0].url).toBe('ws://localhost:3000/?session=EAST');
+    (globalThis as Record<string, unknown>).location = { protocol: 'http:', host: 'localhost:3000' };
+  });
+
   it('invokes the message handler with the parsed JSON payload', () => {
     const handler = jest.fn();
     connect(handler);
@@ -101,3 +108,19 @@ describe('send', () => {
     expect(MockWebSocket.instances[0].sent.length).toBe(2);
   });
 });
+
+// ---------------------------------------------------------------------------
+describe('spectatorRegistration', () => {
+  afterEach(() => {
+    (globalThis as Record<string, unknown>).location = { protocol: 'http:', host: 'localhost:3000' };
+  });
+
+  it('passes on the host\'s screen key', () => {
+    (globalThis as Record<string, unknown>).location = { protocol: 'http:', host: 'localhost:3000', search: '?session=EAST&screen=k3y' };
+    expect(spectatorRegistration()).toEqual({ type: 'register_spectator', screenKey: 'k3y' });
+  });
+
+  it('sends no key when the page has none', () => {
+    expect(spectatorRegistration()).toEqual({ type: 'register_spectator' });
+  });
+});
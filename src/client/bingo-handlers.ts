@@ -0,0 +1,112 @@
+import { send } from './ws-client.js';
+import { show, hide, showNotification } from './ui.js';
+import { state } from './state.js';
+
+type Msg = { type: string; [key: string]: unknown };
+
+const PRIZE_LABELS: Record<string, string> = { line: 'a line', full_house: 'a full house' };
+
+let started = false;
+let prize = 'line';
+let pattern: string | null = null;
+
+function setStatus(text: string): void {
+  (document.getElementById('bingoStatus') as HTMLElement).textContent = text;
+}
+
+/** A card showing a full house also covers a line, so it can claim either prize. */
+function canClaim(): boolean {
+  return started && pattern !== null && (prize === 'line' || pattern === 'full_house');
+}
+
+function updateClaimButton(): void {
+  (document.getElementById('claimBtn') as HTMLButtonElement).disabled = !canClaim();
+}
+
+function renderCard(words: string[], marked: boolean[]): void {
+  const grid = document.getElementById('bingoGrid') as HTMLElement;
+  grid.innerHTML = '';
+  words.forEach((word, i) => {
+    const cell = document.createElement('button');
+    cell.className = 'bingo-cell' + (marked[i] ? ' marked' : '');
+    cell.dataset.index = String(i);
+    cell.textContent = word;
+    cell.disabled = !started;
+    grid.appendChild(cell);
+  });
+}
+
+function setCellsEnabled(enabled: boolean): void {
+  document.querySelectorAll<HTMLButtonElement>('.bingo-cell').forEach(c => { c.disabled = !enabled; });
+}
+
+export const bingoHandlers: Record<string, (msg: Msg) => void> = {
+  card_dealt(msg: Msg): void {
+    pattern = null;
+    renderCard(msg.words as string[], msg.marked as boolean[]);
+    hide('waitingSection');
+    show('bingoSection');
+    setStatus(started ? 'Playing for ' + PRIZE_LABELS[prize] : 'Waiting for the host to start…');
+    updateClaimButton();
+  },
+
+  bingo_started(msg: Msg): void {
+    started = true;
+    prize = msg.prize as string;
+    setCellsEnabled(true);
+    setStatus('Playing for ' + PRIZE_LABELS[prize]);
+    updateClaimButton();
+  },
+
+  cell_marked(msg: Msg): void {
+    const cell = document.querySelector<HTMLElement>(`.bingo-cell[data-index="${msg.index as number}"]`);
+    if (cell) cell.classList.toggle('marked', msg.marked as boolean);
+    pattern = msg.pattern as string | null;
+    updateClaimButton();
+  },
+
+  bingo_claimed(msg: Msg): void {
+    if (msg.playerId !== state.playerId) return;
+    (document.getElementById('claimBtn') as HTMLButtonElement).disabled = true;
+    setStatus('Claim sent — the host is checking your card…');
+  },
+
+  claim_result(msg: Msg): void {
+    prize = msg.prize as string;
+    if (msg.playerId === state.playerId) {
+      showNotification(
+        msg.accepted ? 'Bingo! Your ' + (msg.pattern === 'line' ? 'line' : 'full house') + ' was accepted' : 'Claim rejected — keep listening',
+        msg.accepted ? 'info' : 'error',
+      );
+    } else if (msg.accepted) {
+      showNotification((msg.screenName as string) + ' won ' + PRIZE_LABELS[msg.pattern as string], 'info');
+    }
+    setStatus('Playing for ' + PRIZE_LABELS[prize]);
+    updateClaimButton();
+  },
+
+  game_reset(_msg: Msg): void {
+    started = false;
+    prize = 'line';
+    pattern = null;
+    hide('bingoSection');
+  },
+};
+
+// Register card cell and claim button click handlers
+export function initBingoCard(): void {
+  const grid = document.getElementById('bingoGrid');
+  if (grid) {
+    grid.addEventListener('click', (e: MouseEvent) => {
+      const cell = (e.target as HTMLElement).closest<HTMLButtonElement>('.bingo-cell');
+      if (!cell || cell.disabled) return;
+      send({ type: 'mark_cell', index: Number(cell.dataset.index) });
+    });
+  }
+  const claimBtn = document.getElementById('claimBtn');
+  if (claimBtn) {
+    claimBtn.addEventListener('click', () => {
+      if (canClaim()) send({ type: 'claim_bingo' });
+    });
+  }
+}
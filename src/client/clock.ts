@@ -0,0 +1,39 @@
+// Estimates the offset between this device's clock and the server's, so
+// countdowns end at the server's deadline however wrong the local clock is.
+
+type Msg = { type: string; [key: string]: unknown };
+
+/** Samples sent per connection; the one with the shortest round trip wins. */
+export const CLOCK_SYNC_SAMPLES = 3;
+
+let offsetMs = 0;
+let bestRttMs = Infinity;
+
+export function clockSyncRequest(): { type: 'clock_sync'; clientTime: number } {
+  return { type: 'clock_sync', clientTime: Date.now() };
+}
+
+/** Folds a clock_sync reply into the estimate, assuming the server stamped it halfway through the round trip. */
+export function handleClockSync(msg: Msg): void {
+  const now = Date.now();
+  const rtt = now - (msg.clientTime as number);
+  if (rtt < 0 || rtt >= bestRttMs) return;
+  bestRttMs = rtt;
+  offsetMs = (msg.serverTime as number) + rtt / 2 - now;
+}
+
+/** The current time on the server's clock. */
+export function serverNow(): number {
+  return Date.now() + offsetMs;
+}
+
+/** Milliseconds until a server-clock deadline, never negative. */
+export function msUntil(deadline: number): number {
+  return Math.max(0, deadline - serverNow());
+}
+
+/** Forgets the estimate; a new connection may reach a different server. */
+export function resetClock(): void {
+  offsetMs = 0;
+  bestRttMs = Infinity;
+}
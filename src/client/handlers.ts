@@ -1,5 +1,6 @@
 import { state } from './state.js';
 import { show, hide, showNotification } from './ui.js';
+import { handleClockSync } from './clock.js';
 
 type ServerMessage = { type: string; [key: string]: unknown };
 
@@ -10,6 +11,10 @@ export const handlers: Record<string, (msg: ServerMessage) => void> = {
     show('waitingSection');
   },
 
+  clock_sync(msg) {
+    handleClockSync(msg);
+  },
+
   error(msg) {
     showNotification(`Error: ${msg.message as string}`, 'error');
   },
@@ -1,7 +1,10 @@
 import { connect, send } from './ws-client.js';
 import { handleMessage } from './handlers.js';
 import { showNotification } from './ui.js';
+import { recallResumeToken } from './state.js';
+import { CLOCK_SYNC_SAMPLES, clockSyncRequest, resetClock } from './clock.js';
 import { triviaHandlers, initAnswerButtons, initRejoinButton } from './trivia-handlers.js';
+import { bingoHandlers, initBingoCard } from './bingo-handlers.js';
 
 // --- Join form -----------------------------------------------------------
 
@@ -11,7 +14,8 @@ function joinGame(name?: string): void {
     showNotification('Please enter a screen name', 'error');
     return;
   }
-  send({ type: 'join', screenName });
+  const team = autoJoinTeam ?? (document.getElementById('teamSelect') as HTMLSelectElement | null)?.value;
+  send(team ? { type: 'join', screenName, team } : { type: 'join', screenName });
 }
 
 document.getElementById('joinBtn')!
@@ -22,15 +26,14 @@ document.getElementById('screenName')!
     if (e.key === 'Enter') joinGame();
   });
 
-// --- Combined message handler (trivia first, shared fallback) --------------
+// --- Combined message handler (game handlers first, shared fallback) -------
 
 function combinedHandler(msg: { type: string; [key: string]: unknown }): void {
   const triviaHandler = triviaHandlers[msg.type];
-  if (triviaHandler) {
-    triviaHandler(msg);
-    return;
-  }
-  handleMessage(msg);
+  const bingoHandler = bingoHandlers[msg.type];
+  if (triviaHandler) triviaHandler(msg);
+  if (bingoHandler) bingoHandler(msg);
+  if (!triviaHandler && !bingoHandler) handleMessage(msg);
 }
 
 // --- Auto-join via query params ---------------------------------------------
@@ -41,11 +44,31 @@ function getAutoJoinName(): string | null {
   return name && name.trim() ? name.trim() : null;
 }
 
+function getAutoJoinTeam(): string | null {
+  const team = new URLSearchParams(location.search).get('team');
+  return team && team.trim() ? team.trim() : null;
+}
+
 const autoJoinName = getAutoJoinName();
+const autoJoinTeam = getAutoJoinTeam();
+
+// --- (Re)connect: resume an existing player, else auto-join ------------------
+
+function onOpen(): void {
+  resetClock();
+  for (let i = 0; i < CLOCK_SYNC_SAMPLES; i++) send(clockSyncRequest());
+  const token = recallResumeToken();
+  if (token) {
+    send({ type: 'resume', token });
+  } else if (autoJoinName) {
+    joinGame(autoJoinName);
+  }
+}
 
 // --- Start connection -------------------------------------------------------
 
-connect(combinedHandler, autoJoinName ? () => joinGame(autoJoinName) : undefined);
+connect(combinedHandler, onOpen);
 
 initAnswerButtons();
+initBingoCard();
 initRejoinButton();
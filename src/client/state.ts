@@ -1,15 +1,41 @@
 export interface GameState {
   playerId: string | null;
+  resumeToken: string | null;
   notifTimer: ReturnType<typeof setTimeout> | null;
 }
 
 export const state: GameState = {
   playerId: null,
+  resumeToken: null,
   notifTimer: null,
 };
 
+const RESUME_TOKEN_KEY = 'townhall.resumeToken';
+
+// Kept in sessionStorage so a page refresh can resume too; storage may be
+// unavailable (private browsing, tests), in which case the token is in-memory only.
+export function rememberResumeToken(token: string | null): void {
+  state.resumeToken = token;
+  try {
+    if (token) sessionStorage.setItem(RESUME_TOKEN_KEY, token);
+    else sessionStorage.removeItem(RESUME_TOKEN_KEY);
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+export function recallResumeToken(): string | null {
+  if (state.resumeToken) return state.resumeToken;
+  try {
+    return sessionStorage.getItem(RESUME_TOKEN_KEY);
+  } catch {
+    return null;
+  }
+}
+
 export function resetState(): void {
   state.playerId = null;
+  state.resumeToken = null;
   if (state.notifTimer !== null) {
     clearTimeout(state.notifTimer);
     state.notifTimer = null;
@@ -1,12 +1,127 @@
 import { send } from './ws-client.js';
 import { show, hide, showNotification } from './ui.js';
-import { state } from './state.js';
+import { state, rememberResumeToken } from './state.js';
+import { msUntil } from './clock.js';
 
 type Msg = { type: string; [key: string]: unknown };
 
 let countdownInterval: ReturnType<typeof setInterval> | null = null;
 let eliminated = false;
 let screenName = '';
+let answered = false;
+let questionType = 'multiple_choice';
+let questionOptions: string[] = [];
+
+const LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'];
+/** Everything a player answers with; disabled together once answers close. */
+const ANSWER_CONTROLS = '.answer-btn, #submitAnswerBtn, #numericAnswer, #textAnswer';
+/** The server turns away longer free-text answers and word-cloud responses. */
+const MAX_TEXT_ANSWER_LENGTH = 100;
+const MAX_WORD_CLOUD_ANSWER_LENGTH = 30;
+/** Word-cloud responses listed on the phone once the question closes. */
+const WORD_CLOUD_SHOWN = 5;
+
+function stopCountdown(): void {
+  if (countdownInterval !== null) {
+    clearInterval(countdownInterval);
+    countdownInterval = null;
+  }
+}
+
+function renderCountdown(seconds: number): void {
+  const countdown = document.getElementById('countdown');
+  if (countdown) countdown.textContent = seconds + 's';
+}
+
+/** Counts down to a closing time measured on this device's clock. */
+function startCountdown(remainingMs: number): void {
+  stopCountdown();
+  const endsAt = Date.now() + remainingMs;
+  const tick = (): void => {
+    const seconds = Math.max(0, Math.ceil((endsAt - Date.now()) / 1000));
+    renderCountdown(seconds);
+    if (seconds === 0) {
+      stopCountdown();
+      setAnswerButtonsDisabled(true);
+    }
+  };
+  tick();
+  countdownInterval = setInterval(tick, 1000);
+}
+
+/** Time left until the event's server deadline, or the fallback when it carries none. */
+function remainingMsOf(msg: Msg, fallbackMs: number): number {
+  return typeof msg.deadline === 'number' ? msUntil(msg.deadline) : fallbackMs;
+}
+
+function setAnswerButtonsDisabled(disabled: boolean): void {
+  document.querySelectorAll<HTMLButtonElement | HTMLInputElement>(ANSWER_CONTROLS).forEach(control => {
+    control.disabled = disabled;
+  });
+}
+
+/** `B`, `A, C` for a multi-select, a guess or typed answer as written, or `Apollo / Apollo 11` for accepted answers. */
+function formatAnswer(answer: unknown): string {
+  if (!Array.isArray(answer)) return String(answer);
+  return answer.join(questionType === 'free_text' ? ' / ' : ', ');
+}
+
+/**
+ * One button per option; a multi-select adds a submit button for the picked
+ * options, and numeric, free-text and word-cloud questions take a typed answer instead.
+ */
+function renderAnswerControls(options: string[]): void {
+  const container = document.getElementById('answerButtons');
+  if (!container) return;
+  container.innerHTML = '';
+  options.forEach((option, i) => {
+    const btn = document.createElement('button');
+    btn.className = 'answer-btn';
+    btn.dataset.answer = LETTERS[i];
+    btn.textContent = questionType === 'true_false' ? option : LETTERS[i] + '. ' + option;
+    container.appendChild(btn);
+  });
+  if (questionType === 'numeric') {
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.id = 'numericAnswer';
+    input.inputMode = 'decimal';
+    input.placeholder = 'Your guess';
+    container.appendChild(input);
+  }
+  if (questionType === 'free_text' || questionType === 'word_cloud') {
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.id = 'textAnswer';
+    input.maxLength = questionType === 'word_cloud' ? MAX_WORD_CLOUD_ANSWER_LENGTH : MAX_TEXT_ANSWER_LENGTH;
+    input.autocomplete = 'off';
+    input.placeholder = questionType === 'word_cloud' ? 'A word or two' : 'Your answer';
+    container.appendChild(input);
+  }
+  if (questionType !== 'multiple_choice' && questionType !== 'true_false' && questionType !== 'poll') {
+    const submit = document.createElement('button');
+    submit.id = 'submitAnswerBtn';
+    submit.textContent = questionType === 'multi_select' ? 'Submit picks'
+      : questionType === 'numeric' ? 'Submit guess'
+      : questionType === 'word_cloud' ? 'Send'
+      : 'Submit answer';
+    container.appendChild(submit);
+  }
+}
+
+/** The question's picture, when the host shows pictures on phones; hidden again if it fails to load. */
+function renderQuestionImage(msg: Msg): void {
+  const img = document.getElementById('questionImage') as HTMLImageElement | null;
+  if (!img) return;
+  if (typeof msg.image === 'string' && msg.imageOnPhones === true) {
+    img.onerror = () => img.classList.add('hidden');
+    img.src = msg.image;
+    img.classList.remove('hidden');
+  } else {
+    img.classList.add('hidden');
+    img.removeAttribute('src');
+  }
+}
 
 function showTriviaOnly(sectionId: string): void {
   hide('waitingSection');
@@ -22,15 +137,28 @@ export const triviaHandlers: Record<string, (msg: Msg) => void> = {
   joined(msg: Msg): void {
     screenName = msg.screenName as string;
     state.playerId = msg.playerId as string;
+    rememberResumeToken((msg.resumeToken as string | undefined) ?? null);
+    const teamBadge = document.getElementById('teamBadge');
+    if (teamBadge && typeof msg.team === 'string') {
+      teamBadge.textContent = 'Team: ' + msg.team;
+      show('teamBadge');
+    }
     hide('joinSection');
     show('waitingSection');
   },
 
+  resume_failed(msg: Msg): void {
+    rememberResumeToken(null);
+    state.playerId = null;
+    hide('waitingSection');
+    hide('triviaSection');
+    show('joinSection');
+    showNotification(msg.message as string, 'error');
+  },
+
   game_reset(_msg: Msg): void {
-    if (countdownInterval !== null) {
-      clearInterval(countdownInterval);
-      countdownInterval = null;
-    }
+    rememberResumeToken(null);
+    stopCountdown();
     hide('joinSection');
     hide('waitingSection');
     hide('triviaSection');
@@ -41,7 +169,18 @@ export const triviaHandlers: Record<string, (msg: Msg) => void> = {
     if (rejoinMsg) rejoinMsg.textContent = 'Waiting for next game...';
   },
 
-  session_created(_msg: Msg): void {
+  session_created(msg: Msg): void {
+    const teamSelect = document.getElementById('teamSelect') as HTMLSelectElement | null;
+    if (teamSelect && Array.isArray(msg.teams)) {
+      teamSelect.innerHTML = '<option value="">Any team</option>';
+      for (const team of msg.teams as string[]) {
+        const option = document.createElement('option');
+        option.value = team;
+        option.textContent = team;
+        teamSelect.appendChild(option);
+      }
+      show('teamGroup');
+    }
     if (!screenName) return;
     const rejoinBtn = document.getElementById('rejoinBtn') as HTMLButtonElement;
     if (rejoinBtn) rejoinBtn.disabled = false;
@@ -55,49 +194,42 @@ export const triviaHandlers: Record<string, (msg: Msg) => void> = {
   },
 
   question_live(msg: Msg): void {
-    if (countdownInterval !== null) {
-      clearInterval(countdownInterval);
-    }
-
-    (document.getElementById('questionText') as HTMLElement).textContent = msg.text as string;
-
-    const buttons = document.querySelectorAll<HTMLButtonElement>('.answer-btn');
-    const labels = ['A', 'B', 'C', 'D'];
-    const options = msg.options as string[];
-    buttons.forEach((btn, i) => {
-      btn.textContent = labels[i] + '. ' + options[i];
-      btn.disabled = false;
-      btn.classList.remove('selected');
-    });
-
-    let remaining = msg.timeLimit as number;
-    (document.getElementById('countdown') as HTMLElement).textContent = remaining + 's';
-
-    countdownInterval = setInterval(() => {
-      remaining -= 1;
-      if (remaining <= 0) {
-        remaining = 0;
-        clearInterval(countdownInterval!);
-        countdownInterval = null;
-      }
-      (document.getElementById('countdown') as HTMLElement).textContent = remaining + 's';
-    }, 1000);
+    answered = false;
+    questionType = (msg.questionType as string | undefined) ?? 'multiple_choice';
+    questionOptions = msg.options as string[];
+    const hint = questionType === 'multi_select' ? ' (pick all that apply)' : '';
+    (document.getElementById('questionText') as HTMLElement).textContent = (msg.text as string) + hint;
+    renderAnswerControls(msg.options as string[]);
+    renderQuestionImage(msg);
 
     showTriviaOnly('triviaQuestion');
+    startCountdown(remainingMsOf(msg, (msg.timeLimit as number) * 1000));
   },
 
-  timer_expired(_msg: Msg): void {
-    if (countdownInterval !== null) {
-      clearInterval(countdownInterval);
-      countdownInterval = null;
-    }
-    const countdown = document.getElementById('countdown');
-    if (countdown) countdown.textContent = '0s';
+  timer_paused(msg: Msg): void {
+    stopCountdown();
+    renderCountdown(Math.ceil((msg.remainingMs as number) / 1000));
+    setAnswerButtonsDisabled(true);
+    showNotification('Paused — hold that thought', 'info');
+  },
+
+  timer_resumed(msg: Msg): void {
+    if (!answered) setAnswerButtonsDisabled(false);
+    startCountdown(remainingMsOf(msg, msg.remainingMs as number));
+  },
 
-    document.querySelectorAll<HTMLButtonElement>('.answer-btn').forEach(btn => {
-      btn.disabled = true;
-    });
+  timer_extended(msg: Msg): void {
+    if (msg.deadline === null) {
+      renderCountdown(Math.ceil((msg.remainingMs as number) / 1000));
+    } else {
+      startCountdown(remainingMsOf(msg, msg.remainingMs as number));
+    }
+  },
 
+  timer_expired(_msg: Msg): void {
+    stopCountdown();
+    renderCountdown(0);
+    setAnswerButtonsDisabled(true);
     showTriviaOnly('triviaBreakdown');
   },
 
@@ -106,15 +238,27 @@ export const triviaHandlers: Record<string, (msg: Msg) => void> = {
   },
 
   answer_accepted(_msg: Msg): void {
+    answered = true;
     showNotification('Answer received!', 'success');
   },
 
+  answer_rejected(msg: Msg): void {
+    answered = false;
+    document.querySelectorAll('.answer-btn.selected').forEach(btn => btn.classList.remove('selected'));
+    const message = msg.reason === 'paused'
+      ? 'Paused — your answer was not counted'
+      : msg.reason === 'joined_late'
+        ? 'This game started before you joined — watch along until the next one'
+        : 'Too late — answers are closed';
+    showNotification(message, 'error');
+  },
+
   you_are_eliminated(msg: Msg): void {
     eliminated = true;
     (document.getElementById('outcomeText') as HTMLElement).textContent = "You're out!";
-    const yourAnswer = msg.yourAnswer !== null ? msg.yourAnswer as string : 'No answer';
+    const yourAnswer = msg.yourAnswer !== null ? formatAnswer(msg.yourAnswer) : 'No answer';
     (document.getElementById('correctAnswerText') as HTMLElement).textContent =
-      'Correct answer: ' + (msg.correctAnswer as string) + ' · Your answer: ' + yourAnswer;
+      'Correct answer: ' + formatAnswer(msg.correctAnswer) + ' · Your answer: ' + yourAnswer;
     (document.getElementById('survivorCountText') as HTMLElement).textContent = '';
     showTriviaOnly('triviaOutcome');
   },
@@ -128,17 +272,63 @@ export const triviaHandlers: Record<string, (msg: Msg) => void> = {
     showTriviaOnly('triviaOutcome');
   },
 
+  you_scored(msg: Msg): void {
+    const points = msg.points as number;
+    const yourAnswer = msg.yourAnswer !== null ? formatAnswer(msg.yourAnswer) : 'No answer';
+    (document.getElementById('outcomeText') as HTMLElement).textContent =
+      points > 0 ? 'Correct! +' + points + ' points' : 'No points this time';
+    (document.getElementById('correctAnswerText') as HTMLElement).textContent =
+      'Correct answer: ' + formatAnswer(msg.correctAnswer) + ' · Your answer: ' + yourAnswer;
+    (document.getElementById('survivorCountText') as HTMLElement).textContent =
+      'Total: ' + (msg.totalPoints as number) + ' points · Rank #' + (msg.rank as number);
+    showTriviaOnly('triviaOutcome');
+  },
+
+  team_result(msg: Msg): void {
+    const teamAnswer = msg.teamAnswer !== null ? ' · Team answer: ' + formatAnswer(msg.teamAnswer) : '';
+    let outcome = msg.correct ? 'Your team got it! +' + (msg.points as number) + ' points' : 'Your team missed this one';
+    if (msg.eliminated) outcome = 'Your team (' + (msg.team as string) + ') has been eliminated';
+    (document.getElementById('outcomeText') as HTMLElement).textContent = outcome;
+    (document.getElementById('correctAnswerText') as HTMLElement).textContent =
+      'Correct answer: ' + formatAnswer(msg.correctAnswer) + teamAnswer;
+    (document.getElementById('survivorCountText') as HTMLElement).textContent =
+      (msg.team as string) + ': ' + (msg.totalPoints as number) + ' points · Rank #' + (msg.rank as number);
+    showTriviaOnly('triviaOutcome');
+  },
+
+  poll_results(msg: Msg): void {
+    const shares = msg.shares as { option: string; percent: number }[];
+    (document.getElementById('outcomeText') as HTMLElement).textContent = 'Poll results';
+    (document.getElementById('correctAnswerText') as HTMLElement).textContent = shares
+      .map(s => (questionOptions[LETTERS.indexOf(s.option)] ?? s.option) + ' ' + s.percent + '%')
+      .join(' · ');
+    (document.getElementById('survivorCountText') as HTMLElement).textContent = votesText(msg.totalAnswered as number);
+    showTriviaOnly('triviaOutcome');
+  },
+
+  word_cloud(msg: Msg): void {
+    const entries = msg.entries as { text: string; count: number }[];
+    (document.getElementById('outcomeText') as HTMLElement).textContent = 'What everyone said';
+    (document.getElementById('correctAnswerText') as HTMLElement).textContent = entries
+      .slice(0, WORD_CLOUD_SHOWN)
+      .map(e => e.count > 1 ? e.text + ' ×' + e.count : e.text)
+      .join(' · ');
+    (document.getElementById('survivorCountText') as HTMLElement).textContent = votesText(msg.totalAnswered as number);
+    showTriviaOnly('triviaOutcome');
+  },
+
   survivors_regrouped(msg: Msg): void {
     const count = msg.survivorCount as number;
     const countEl = document.getElementById('survivorCountText');
     if (countEl) {
       countEl.textContent = count + ' player' + (count === 1 ? '' : 's') + ' remaining';
     }
-    if (eliminated) {
+    // A phone that has not joined (yet) watches along too
+    if (eliminated || state.playerId === null) {
       const outcomeEl = document.getElementById('outcomeText');
       if (outcomeEl) outcomeEl.textContent = 'Spectating — ' + count + ' survivors left';
     }
-    show('triviaOutcome');
+    showTriviaOnly('triviaOutcome');
   },
 
   game_over(msg: Msg): void {
@@ -152,26 +342,72 @@ export const triviaHandlers: Record<string, (msg: Msg) => void> = {
   },
 };
 
+function votesText(count: number): string {
+  return count + ' response' + (count === 1 ? '' : 's');
+}
+
 // Register rejoin button click handler
 export function initRejoinButton(): void {
   const rejoinBtn = document.getElementById('rejoinBtn');
   if (!rejoinBtn) return;
   rejoinBtn.addEventListener('click', () => {
     if (!screenName) return;
-    window.location.href = '/play?name=' + encodeURIComponent(screenName);
+    const session = new URLSearchParams(location.search).get('session');
+    window.location.href = '/play?name=' + encodeURIComponent(screenName) +
+      (session ? '&session=' + encodeURIComponent(session) : '');
   });
 }
 
+function submitAnswer(answer: string | string[] | number): void {
+  send({ type: 'submit_answer', answer });
+  answered = true;
+  setAnswerButtonsDisabled(true);
+}
+
+/** The picked options of a multi-select, or the typed guess or answer of a numeric, free-text or word-cloud question. */
+function submitEntered(): void {
+  if (questionType === 'free_text' || questionType === 'word_cloud') {
+    const input = document.getElementById('textAnswer') as HTMLInputElement | null;
+    const text = input ? input.value.trim() : '';
+    if (text !== '') submitAnswer(text);
+    else showNotification('Type an answer first', 'error');
+    return;
+  }
+  if (questionType === 'numeric') {
+    const input = document.getElementById('numericAnswer') as HTMLInputElement | null;
+    const guess = input && input.value.trim() !== '' ? Number(input.value) : NaN;
+    if (Number.isFinite(guess)) submitAnswer(guess);
+    else showNotification('Type a number first', 'error');
+    return;
+  }
+  const picked = [...document.querySelectorAll<HTMLButtonElement>('.answer-btn.selected')].map(b => b.dataset.answer!);
+  if (picked.length > 0) submitAnswer(picked);
+  else showNotification('Pick at least one answer', 'error');
+}
+
 // Register answer button click handler
 export function initAnswerButtons(): void {
   const container = document.getElementById('answerButtons');
   if (!container) return;
   container.addEventListener('click', (e: MouseEvent) => {
-    const btn = (e.target as HTMLElement).closest<HTMLButtonElement>('.answer-btn');
+    const target = e.target as HTMLElement;
+    const submit = target.closest<HTMLButtonElement>('#submitAnswerBtn');
+    if (submit) {
+      if (!submit.disabled) submitEntered();
+      return;
+    }
+    const btn = target.closest<HTMLButtonElement>('.answer-btn');
     if (!btn || btn.disabled) return;
-    const answer = btn.dataset.answer!;
-    send({ type: 'submit_answer', answer });
-    document.querySelectorAll<HTMLButtonElement>('.answer-btn').forEach(b => { b.disabled = true; });
+    // Multi-select picks are toggled, then sent together
+    if (questionType === 'multi_select') {
+      btn.classList.toggle('selected');
+      return;
+    }
+    submitAnswer(btn.dataset.answer!);
     btn.classList.add('selected');
   });
+  container.addEventListener('keydown', (e: KeyboardEvent) => {
+    const id = (e.target as HTMLElement).id;
+    if (e.key === 'Enter' && (id === 'numericAnswer' || id === 'textAnswer')) submitEntered();
+  });
 }
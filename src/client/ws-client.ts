@@ -10,9 +10,21 @@ export function connect(handler: MessageHandler, onOpen?: () => void): void {
   openConnection();
 }
 
+/** Carries the page's ?session=CODE over to the socket so a relay can route it to the right townhall. */
+export function sessionQuery(): string {
+  const code = new URLSearchParams(location.search).get('session');
+  return code ? '/?session=' + encodeURIComponent(code) : '';
+}
+
+/** A broadcast screen's `register_spectator`, carrying the host's ?screen=KEY when the page has one. */
+export function spectatorRegistration(): Record<string, unknown> {
+  const screenKey = new URLSearchParams(location.search).get('screen');
+  return screenKey ? { type: 'register_spectator', screenKey } : { type: 'register_spectator' };
+}
+
 function openConnection(): void {
   const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
-  ws = new WebSocket(protocol + '//' + location.host);
+  ws = new WebSocket(protocol + '//' + location.host + sessionQuery());
 
   ws.onopen = function () {
     if (onOpenCallback) onOpenCallback();
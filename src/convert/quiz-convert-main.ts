@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import {
+  formatQuiz,
+  quizFormatOf,
+  quizFromCsv,
+  quizToCsv,
+  readQuiz,
+  type QuizReadResult,
+} from '../shared/quiz-document';
+
+// Converts a quiz between CSV, JSON and YAML, going by the file extensions, e.g.
+//   npm run quiz:convert -- questions.csv friday.yaml "Friday night quiz"
+// The title is optional and only kept by JSON and YAML. Questions are checked
+// on the way through, with no upper limit on how many.
+
+const USAGE = 'Usage: npm run quiz:convert -- <input.csv|json|yaml> <output.csv|json|yaml> [title]';
+
+function read(file: string, title: string | undefined): QuizReadResult {
+  const format = quizFormatOf(file);
+  if (format === null) throw new Error(`${file} must end in .csv, .json, .yaml or .yml`);
+  const text = fs.readFileSync(file, 'utf8');
+  const options = { maxQuestions: Infinity };
+  const result = format === 'csv' ? quizFromCsv(text, { title }, options) : readQuiz(text, format, options);
+  if (result.quiz && title) result.quiz.title = title;
+  return result;
+}
+
+function main(): void {
+  const [input, output, title] = process.argv.slice(2);
+  if (!input || !output) {
+    console.error(USAGE);
+    process.exit(2);
+  }
+  const format = quizFormatOf(output);
+  if (format === null) throw new Error(`${output} must end in .csv, .json, .yaml or .yml`);
+
+  const { quiz, errors } = read(input, title);
+  if (!quiz) {
+    console.error(`${input}: ${errors.length} error${errors.length === 1 ? '' : 's'} found:`);
+    for (const e of errors) console.error(`  ${e.message}`);
+    process.exit(1);
+  }
+  fs.writeFileSync(output, format === 'csv' ? quizToCsv(quiz) : formatQuiz(quiz, format));
+  if (format === 'csv' && (quiz.title || quiz.settings)) {
+    console.log('Note: CSV has no place for the title or settings; they were left out.');
+  }
+  console.log(`Wrote ${output}`);
+}
+
+try {
+  main();
+} catch (err: unknown) {
+  console.error(`Conversion failed: ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+}
@@ -0,0 +1,45 @@
+import { allowedEdits, editDistance, matchesAcceptedAnswer, normaliseAnswer } from '../games/trivia/answer-matching';
+
+describe('normaliseAnswer', () => {
+  it('sets aside case, accents, punctuation and spacing', () => {
+    expect(normaliseAnswer('  Beyoncé   Knowles-Carter! ')).toBe('beyonce knowles carter');
+    expect(normaliseAnswer("Rock 'n' Roll")).toBe('rock n roll');
+    expect(normaliseAnswer('Marks & Spencer')).toBe('marks and spencer');
+  });
+
+  it('drops a leading article, but not a lone word', () => {
+    expect(normaliseAnswer('The Beatles')).toBe('beatles');
+    expect(normaliseAnswer('An Apple')).toBe('apple');
+    expect(normaliseAnswer('The')).toBe('the');
+  });
+});
+
+describe('editDistance', () => {
+  it('counts insertions, deletions, substitutions and swaps', () => {
+    expect(editDistance('apollo', 'apollo')).toBe(0);
+    expect(editDistance('apollo', 'apolo')).toBe(1);
+    expect(editDistance('apollo', 'apolla')).toBe(1);
+    expect(editDistance('apollo', 'aplolo')).toBe(1);
+    expect(editDistance('', 'abc')).toBe(3);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+  });
+});
+
+describe('matchesAcceptedAnswer', () => {
+  it('forgives more typos in longer answers', () => {
+    expect(['cat', 'paris', 'mercury venus'].map(allowedEdits)).toEqual([0, 1, 2]);
+    expect(matchesAcceptedAnswer('cot', ['cat'])).toBe(false);
+    expect(matchesAcceptedAnswer('Pariss', ['Paris'])).toBe(true);
+    expect(matchesAcceptedAnswer('Parsi', ['Paris'])).toBe(true);
+    expect(matchesAcceptedAnswer('Prague', ['Paris'])).toBe(false);
+    expect(matchesAcceptedAnswer('Missisipi', ['Mississippi'])).toBe(true);
+  });
+
+  it('matches any of the accepted answers', () => {
+    expect(matchesAcceptedAnswer('the apollo program', ['Apollo 11', 'Apollo programme'])).toBe(true);
+  });
+
+  it('never matches a blank answer', () => {
+    expect(matchesAcceptedAnswer(' ?! ', [''])).toBe(false);
+  });
+});
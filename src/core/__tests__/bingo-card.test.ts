@@ -0,0 +1,94 @@
+import { BingoCard, FREE_SPACE } from '../games/bingo/bingo-card';
+import { BINGO_WORDS } from '../../fixtures/bingo-words';
+
+/** A 5×5 card whose cells are named by index, centre free. */
+function makeCard(): BingoCard {
+  const words = Array.from({ length: 25 }, (_, i) => (i === 12 ? FREE_SPACE : `w${i}`));
+  return new BingoCard(words);
+}
+
+describe('BingoCard', () => {
+  describe('generate', () => {
+    it('deals 24 distinct words around a free centre', () => {
+      const card = BingoCard.generate(BINGO_WORDS);
+      expect(card.words).toHaveLength(25);
+      expect(card.words[12]).toBe(FREE_SPACE);
+      expect(new Set(card.words).size).toBe(25);
+      expect(card.words.filter(w => w !== FREE_SPACE).every(w => BINGO_WORDS.includes(w))).toBe(true);
+    });
+
+    it('is deterministic for a given random source', () => {
+      const a = BingoCard.generate(BINGO_WORDS, () => 0.3);
+      const b = BingoCard.generate(BINGO_WORDS, () => 0.3);
+      expect(a.words).toEqual(b.words);
+    });
+
+    it('rejects a word list with fewer than 24 distinct words', () => {
+      const words = [...BINGO_WORDS.slice(0, 23), BINGO_WORDS[0], ' '];
+      expect(() => BingoCard.generate(words)).toThrow('Word list needs at least 24 distinct words, got 23');
+    });
+  });
+
+  describe('marking', () => {
+    it('starts with only the free space marked', () => {
+      expect(makeCard().getMarks().filter(Boolean)).toHaveLength(1);
+    });
+
+    it('toggles a cell on and off', () => {
+      const card = makeCard();
+      expect(card.toggle(0)).toBe(true);
+      expect(card.getMarkedWords()).toEqual(['w0']);
+      expect(card.toggle(0)).toBe(false);
+    });
+
+    it('keeps the free space marked', () => {
+      expect(makeCard().toggle(12)).toBe(true);
+    });
+
+    it('treats a "FREE" word off the centre as an ordinary cell', () => {
+      const words = Array.from({ length: 25 }, (_, i) => (i === 12 ? FREE_SPACE : i === 3 ? 'FREE' : `w${i}`));
+      const card = new BingoCard(words);
+      expect(card.isMarked(3)).toBe(false);
+      expect(card.toggle(3)).toBe(true);
+      expect(card.getMarkedWords()).toEqual(['FREE']);
+      expect(card.toggle(3)).toBe(false);
+
+      card.toggle(3);
+      const restored = BingoCard.restore(words, card.getMarks());
+      expect(restored.isMarked(3)).toBe(true);
+      expect(restored.getMarkedWords()).toEqual(['FREE']);
+    });
+
+    it('rejects an out-of-range cell', () => {
+      expect(() => makeCard().toggle(25)).toThrow('No cell at index 25');
+    });
+  });
+
+  describe('patterns', () => {
+    it('detects a row', () => {
+      const card = makeCard();
+      [0, 1, 2, 3].forEach(i => card.toggle(i));
+      expect(card.getPattern()).toBeNull();
+      card.toggle(4);
+      expect(card.getPattern()).toBe('line');
+    });
+
+    it('detects a column', () => {
+      const card = makeCard();
+      [1, 6, 11, 16, 21].forEach(i => card.toggle(i));
+      expect(card.hasLine()).toBe(true);
+    });
+
+    it('detects a diagonal through the free space', () => {
+      const card = makeCard();
+      [0, 6, 18, 24].forEach(i => card.toggle(i));
+      expect(card.hasLine()).toBe(true);
+    });
+
+    it('detects a full house', () => {
+      const card = makeCard();
+      for (let i = 0; i < 25; i++) if (i !== 12) card.toggle(i);
+      expect(card.getPattern()).toBe('full_house');
+    });
+  });
+});
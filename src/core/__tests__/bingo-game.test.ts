@@ -0,0 +1,112 @@
+import { BingoGame } from '../games/bingo/bingo-game';
+import { BINGO_WORDS } from '../../fixtures/bingo-words';
+
+function makeGame(): BingoGame {
+  const game = new BingoGame('s', BINGO_WORDS);
+  game.dealCard('alice');
+  game.dealCard('bob');
+  return game;
+}
+
+function markTopRow(game: BingoGame, playerId: string): void {
+  [0, 1, 2, 3, 4].forEach(i => game.mark(playerId, i));
+}
+
+function markAll(game: BingoGame, playerId: string): void {
+  for (let i = 0; i < 25; i++) {
+    if (!game.getCard(playerId)!.isMarked(i)) game.mark(playerId, i);
+  }
+}
+
+describe('BingoGame', () => {
+  it('rejects a word list too short to deal a card', () => {
+    expect(() => new BingoGame('s', ['synergy'])).toThrow('Word list needs at least 24 distinct words');
+  });
+
+  it('deals each player one card', () => {
+    const game = makeGame();
+    expect(game.dealCard('alice')).toBe(game.getCard('alice'));
+    expect(game.getCard('carol')).toBeNull();
+  });
+
+  it('only allows marking once started', () => {
+    const game = makeGame();
+    expect(() => game.mark('alice', 0)).toThrow('mark() called in state "waiting"');
+    game.start();
+    expect(game.mark('alice', 0)).toBe(true);
+  });
+
+  describe('claims', () => {
+    it('rejects a claim without a line', () => {
+      const game = makeGame();
+      game.start();
+      expect(() => game.claim('alice')).toThrow('Your card does not have a line yet');
+    });
+
+    it('records a line claim with the marked words for the host', () => {
+      const game = makeGame();
+      game.start();
+      markTopRow(game, 'alice');
+      const claim = game.claim('alice');
+      expect(claim.pattern).toBe('line');
+      expect(claim.markedWords).toEqual(game.getCard('alice')!.words.slice(0, 5));
+      expect(game.getPendingClaims()).toHaveLength(1);
+      expect(() => game.claim('alice')).toThrow('Your claim is already waiting for the host');
+    });
+
+    it('moves on to a full house once a line is accepted', () => {
+      const game = makeGame();
+      game.start();
+      markTopRow(game, 'alice');
+      game.claim('alice');
+      game.verifyClaim('alice', true);
+      expect(game.prize).toBe('full_house');
+      expect(game.getWinners()).toEqual([{ playerId: 'alice', pattern: 'line' }]);
+
+      markTopRow(game, 'bob');
+      expect(() => game.claim('bob')).toThrow('Your card is not a full house yet');
+    });
+
+    it('lets the player claim again after a rejection', () => {
+      const game = makeGame();
+      game.start();
+      markTopRow(game, 'alice');
+      game.claim('alice');
+      game.verifyClaim('alice', false);
+      expect(game.prize).toBe('line');
+      expect(game.getWinners()).toEqual([]);
+      expect(game.claim('alice').pattern).toBe('line');
+    });
+
+    it('ends the game on an accepted full house', () => {
+      const game = makeGame();
+      game.start();
+      markTopRow(game, 'alice');
+      game.claim('alice');
+      game.verifyClaim('alice', true);
+      markAll(game, 'bob');
+      expect(game.claim('bob').pattern).toBe('full_house');
+      game.verifyClaim('bob', true);
+      expect(game.state).toBe('game_over');
+    });
+
+    it('throws when verifying a claim that does not exist', () => {
+      const game = makeGame();
+      game.start();
+      expect(() => game.verifyClaim('alice', true)).toThrow('No pending claim for that player');
+    });
+  });
+
+  it('restores cards, marks and pending claims from a snapshot', () => {
+    const game = makeGame();
+    game.start();
+    markTopRow(game, 'alice');
+    game.claim('alice');
+
+    const restored = BingoGame.restore(JSON.parse(JSON.stringify(game.snapshot())));
+    expect(restored.getCard('alice')!.getMarks()).toEqual(game.getCard('alice')!.getMarks());
+    expect(restored.getCard('bob')!.words).toEqual(game.getCard('bob')!.words);
+    restored.verifyClaim('alice', true);
+    expect(restored.prize).toBe('full_house');
+  });
+});
@@ -1,4 +1,4 @@
-import { CsvParser, CsvParseError } from '../games/trivia/csv-parser';
+import { CsvParser, CsvParseError, DEFAULT_MAX_QUESTIONS } from '../games/trivia/csv-parser';
 
 const VALID_HEADER = 'question,a,b,c,d,correct';
 
@@ -145,9 +145,18 @@ describe('CsvParser', () => {
       expect(() => CsvParser.parse(csv)).toThrow(CsvParseError);
     });
 
-    it('rejects more than 15 questions', () => {
-      const csv = makeCsv(makeRows(16));
-      expect(() => CsvParser.parse(csv)).toThrow(CsvParseError);
+    it('rejects more than the default maximum', () => {
+      const csv = makeCsv(makeRows(DEFAULT_MAX_QUESTIONS + 1));
+      expect(() => CsvParser.parse(csv)).toThrow(`Too many questions: maximum is ${DEFAULT_MAX_QUESTIONS}, found ${DEFAULT_MAX_QUESTIONS + 1}`);
+    });
+
+    it('accepts a 40-question show', () => {
+      expect(CsvParser.parse(makeCsv(makeRows(40)))).toHaveLength(40);
+    });
+
+    it('takes a configured maximum', () => {
+      expect(() => CsvParser.parse(makeCsv(makeRows(16)), { maxQuestions: 15 })).toThrow(CsvParseError);
+      expect(CsvParser.parse(makeCsv(makeRows(150)), { maxQuestions: 200 })).toHaveLength(150);
     });
 
     it('accepts exactly 3 questions', () => {
@@ -161,6 +170,293 @@ describe('CsvParser', () => {
     });
   });
 
+  describe('time_limit column', () => {
+    const HEADER = `${VALID_HEADER},time_limit`;
+
+    it('reads per-question time limits and leaves blanks to the default', () => {
+      const csv = `${HEADER}\n"Q1","A","B","C","D",A,30\n"Q2","A","B","C","D",B,\n"Q3","A","B","C","D",C,5`;
+      const questions = CsvParser.parse(csv);
+      expect(questions.map(q => q.timeLimit)).toEqual([30, undefined, 5]);
+      expect(questions[1]).not.toHaveProperty('timeLimit');
+    });
+
+    it('rejects a time limit outside 3–120 whole seconds', () => {
+      const csv = `${HEADER}\n"Q1","A","B","C","D",A,2\n"Q2","A","B","C","D",B,7.5\n"Q3","A","B","C","D",C,soon`;
+      try {
+        CsvParser.parse(csv);
+        fail('expected CsvParseError');
+      } catch (e) {
+        expect((e as CsvParseError).errors).toEqual([
+          'Row 2, column G (time_limit): must be a whole number of seconds from 3 to 120 — got "2"',
+          'Row 3, column G (time_limit): must be a whole number of seconds from 3 to 120 — got "7.5"',
+          'Row 4, column G (time_limit): must be a whole number of seconds from 3 to 120 — got "soon"',
+        ]);
+      }
+    });
+  });
+
+  describe('extended columns', () => {
+    const HEADER = `${VALID_HEADER},round,category,points,explanation,image`;
+
+    it('reads the optional columns in any order', () => {
+      const csv = `${VALID_HEADER},image,explanation,points,category,time_limit\n` +
+        '"Q1","A","B","C","D",A,/media/q1.png,"Because A",2000,Science,30\n' +
+        '"Q2","A","B","C","D",B,,,,,\n' +
+        '"Q3","A","B","C","D",C,/media/round-2/q3.jpg,,,History,';
+      expect(CsvParser.parse(csv)).toEqual([
+        { question: 'Q1', a: 'A', b: 'B', c: 'C', d: 'D', correct: 'A', timeLimit: 30, category: 'Science', points: 2000, explanation: 'Because A', image: '/media/q1.png' },
+        { question: 'Q2', a: 'A', b: 'B', c: 'C', d: 'D', correct: 'B' },
+        { question: 'Q3', a: 'A', b: 'B', c: 'C', d: 'D', correct: 'C', category: 'History', image: '/media/round-2/q3.jpg' },
+      ]);
+    });
+
+    it('carries a round name down to the rows below it', () => {
+      const csv = `${HEADER}\n` +
+        '"Q1","A","B","C","D",A,Round 1,,,,\n' +
+        '"Q2","A","B","C","D",A,,,,,\n' +
+        '"Q3","A","B","C","D",A,Round 2,,,,\n' +
+        '"Q4","A","B","C","D",A,Round 2,,,,';
+      expect(CsvParser.parse(csv).map(q => q.round)).toEqual(['Round 1', 'Round 1', 'Round 2', 'Round 2']);
+    });
+
+    it('leaves rows before the first named round without one', () => {
+      const csv = `${HEADER}\n"Q1","A","B","C","D",A,,,,,\n"Q2","A","B","C","D",A,Final,,,,\n"Q3","A","B","C","D",A,,,,,`;
+      const questions = CsvParser.parse(csv);
+      expect(questions[0]).not.toHaveProperty('round');
+      expect(questions.map(q => q.round)).toEqual([undefined, 'Final', 'Final']);
+    });
+
+    it('rejects a round that resumes after another', () => {
+      const csv = `${HEADER}\n"Q1","A","B","C","D",A,One,,,,\n"Q2","A","B","C","D",A,Two,,,,\n"Q3","A","B","C","D",A,One,,,,`;
+      expect(() => CsvParser.parse(csv)).toThrow('Row 4, column G (round): "One" already ended at row 2 — keep each round\'s questions together');
+    });
+
+    it('rejects invalid points and images', () => {
+      const csv = `${HEADER}\n"Q1","A","B","C","D",A,,,0,,\n"Q2","A","B","C","D",A,,,lots,,\n"Q3","A","B","C","D",A,,,,,javascript:alert(1)\n` +
+        '"Q4","A","B","C","D",A,,,,,https://example.com/q4.png\n"Q5","A","B","C","D",A,,,,,/media/../admin';
+      try {
+        CsvParser.parse(csv);
+        fail('expected CsvParseError');
+      } catch (e) {
+        expect((e as CsvParseError).errors).toEqual([
+          'Row 2, column I (points): must be a whole number from 1 to 10000 — got "0"',
+          'Row 3, column I (points): must be a whole number from 1 to 10000 — got "lots"',
+          'Row 4, column K (image): must be a file under /media/, e.g. /media/desk.jpg — got "javascript:alert(1)"',
+          'Row 5, column K (image): must be a file under /media/, e.g. /media/desk.jpg — got "https://example.com/q4.png"',
+          'Row 6, column K (image): must be a file under /media/, e.g. /media/desk.jpg — got "/media/../admin"',
+        ]);
+      }
+    });
+
+    it('rejects a repeated optional column', () => {
+      const csv = `${VALID_HEADER},round,round\n${makeRows(3)}`;
+      expect(() => CsvParser.parse(csv)).toThrow(CsvParseError);
+    });
+  });
+
+  describe('question types', () => {
+    const HEADER = `${VALID_HEADER},type,e,f,tolerance`;
+
+    it('reads true/false, multi-select and numeric rows alongside multiple choice', () => {
+      const csv = `${HEADER}\n` +
+        '"Q1","A","B","C","D",F,,"E","F",\n' +
+        '"Q2",,,,,TRUE,true_false,,,\n' +
+        '"Q3","Yes","No",,,b,TRUE_FALSE,,,\n' +
+        '"Q4","A","B","C",,"c, a",multi_select,,,\n' +
+        '"Q5",,,,,1969,numeric,,,2\n' +
+        '"Q6","A","B",,,B,,,,';
+      expect(CsvParser.parse(csv)).toEqual([
+        { question: 'Q1', a: 'A', b: 'B', c: 'C', d: 'D', e: 'E', f: 'F', correct: 'F' },
+        { question: 'Q2', type: 'true_false', correct: 'A' },
+        { question: 'Q3', type: 'true_false', a: 'Yes', b: 'No', correct: 'B' },
+        { question: 'Q4', type: 'multi_select', a: 'A', b: 'B', c: 'C', correct: ['A', 'C'] },
+        { question: 'Q5', type: 'numeric', correct: 1969, tolerance: 2 },
+        { question: 'Q6', a: 'A', b: 'B', correct: 'B' },
+      ]);
+    });
+
+    it('checks each row against its type', () => {
+      const csv = `${HEADER}\n` +
+        '"Q1",,,"Maybe",,TRUE,true_false,,,\n' +
+        '"Q2","A","B",,,A,ranking,,,\n' +
+        '"Q3","A","B",,,C,,,,\n' +
+        '"Q4","A","B","C",,A,,,,5\n' +
+        '"Q5",,,,,lots,numeric,,,\n' +
+        '"Q6","A","B",,"D","A,A",multi_select,,,';
+      try {
+        CsvParser.parse(csv);
+        fail('expected CsvParseError');
+      } catch (e) {
+        expect((e as CsvParseError).errors).toEqual([
+          'Row 2, column D (c): must be blank for true_false questions — got "Maybe"',
+          'Row 3, column G (type): must be multiple_choice, true_false, multi_select, numeric, free_text, poll, or word_cloud — got "ranking"',
+          'Row 4, column F (correct): must be A or B — got "C"',
+          'Row 5, column J (tolerance): only applies to numeric questions — got "5"',
+          'Row 6, column F (correct): must be a number — got "lots"',
+          'Row 7, column D (c): must be filled in',
+        ]);
+      }
+    });
+
+    it('reads the accepted answers of a free-text row', () => {
+      const csv = `${HEADER}\n` +
+        '"Q1",,,,,"Apollo 11 | Apollo",free_text,,,\n' +
+        '"Q2",,,,,Paris,free_text,,,\n' +
+        '"Q3","A","B","C","D",A,,,,';
+      expect(CsvParser.parse(csv).slice(0, 2)).toEqual([
+        { question: 'Q1', type: 'free_text', correct: ['Apollo 11', 'Apollo'] },
+        { question: 'Q2', type: 'free_text', correct: ['Paris'] },
+      ]);
+    });
+
+    it('rejects a free-text row with choices or a blank accepted answer', () => {
+      const csv = `${HEADER}\n` +
+        '"Q1","Paris",,,,Paris,free_text,,,\n' +
+        '"Q2",,,,,"Paris|",free_text,,,\n' +
+        '"Q3","A","B","C","D",A,,,,';
+      try {
+        CsvParser.parse(csv);
+        fail('expected CsvParseError');
+      } catch (e) {
+        expect((e as CsvParseError).errors).toEqual([
+          'Row 2, column B (a): must be blank for free_text questions — got "Paris"',
+          'Row 3, column F (correct): must list one or more accepted answers, separated by "|" — got "Paris|"',
+        ]);
+      }
+    });
+
+    it('reads polls and word clouds, which leave correct blank', () => {
+      const csv = `${HEADER}\n` +
+        '"Q1","Yes","No","Not sure",,,poll,,,\n' +
+        '"Q2",,,,,,word_cloud,,,\n' +
+        '"Q3","A","B","C","D",A,,,,';
+      expect(CsvParser.parse(csv).slice(0, 2)).toEqual([
+        { question: 'Q1', type: 'poll', a: 'Yes', b: 'No', c: 'Not sure' },
+        { question: 'Q2', type: 'word_cloud' },
+      ]);
+    });
+
+    it('rejects a poll with a correct answer or a word cloud with choices', () => {
+      const csv = `${HEADER}\n` +
+        '"Q1","Yes","No",,,A,poll,,,\n' +
+        '"Q2","Yes",,,,,word_cloud,,,\n' +
+        '"Q3","A","B","C","D",A,,,,';
+      try {
+        CsvParser.parse(csv);
+        fail('expected CsvParseError');
+      } catch (e) {
+        expect((e as CsvParseError).errors).toEqual([
+          'Row 2, column F (correct): must be blank for poll questions — got "A"',
+          'Row 3, column B (a): must be blank for word_cloud questions — got "Yes"',
+        ]);
+      }
+    });
+  });
+
+  describe('quoted fields', () => {
+    it('reads escaped quotes, commas and line breaks', () => {
+      const csv = `${VALID_HEADER},explanation\n` +
+        '"Who said ""move fast and break things""?",Zuckerberg,Jobs,Gates,Musk,A,"Facebook\'s motto, until 2014.\nIt was later changed."\n' +
+        '"Capital of Australia?","Sydney, NSW","Canberra, ACT",Melbourne,Perth,B,\n' +
+        'Plain question,A,B,C,D,C,';
+      expect(CsvParser.parse(csv).slice(0, 2)).toEqual([
+        {
+          question: 'Who said "move fast and break things"?',
+          a: 'Zuckerberg', b: 'Jobs', c: 'Gates', d: 'Musk', correct: 'A',
+          explanation: "Facebook's motto, until 2014.\nIt was later changed.",
+        },
+        { question: 'Capital of Australia?', a: 'Sydney, NSW', b: 'Canberra, ACT', c: 'Melbourne', d: 'Perth', correct: 'B' },
+      ]);
+    });
+
+    it('counts rows by record when a field spans lines', () => {
+      const csv = `${VALID_HEADER}\n"Q1\ncontinued",A,B,C,D,A\n"Q2",A,B,C,D,A\n"Q3",A,B,C,D,X`;
+      expect(() => CsvParser.parse(csv)).toThrow('Row 4, column F (correct): must be A, B, C, or D — got "X"');
+    });
+  });
+
+  describe('error locations', () => {
+    function errorsOf(csv: string): CsvParseError {
+      try {
+        CsvParser.parse(csv);
+      } catch (e) {
+        return e as CsvParseError;
+      }
+      throw new Error('expected CsvParseError');
+    }
+
+    it('names each blank cell by row and column', () => {
+      const csv = `${VALID_HEADER}\n"Q1","A","",C,D,A\n"Q2","A","B","",D\n"Q3","A","B","C","D",A`;
+      expect(errorsOf(csv).errors).toEqual([
+        'Row 2, column C (b): must be filled in',
+        'Row 3, column D (c): must be filled in',
+        'Row 3, column F (correct): must be filled in',
+      ]);
+    });
+
+    it('carries the row and column of each issue', () => {
+      const csv = `${VALID_HEADER}\n"Q1","A","B","C","D",A\n"Q2","A","B","C","D",Z\n"Q3","A","B","C","D",A`;
+      expect(errorsOf(csv).issues).toEqual([
+        { row: 3, column: 6, message: 'Row 3, column F (correct): must be A, B, C, or D — got "Z"' },
+      ]);
+    });
+
+    it('points at an unquoted comma that pushed a row past its columns', () => {
+      const csv = `${VALID_HEADER}\nCapital of Australia?,Sydney, NSW,Canberra,Melbourne,Perth,B\n${makeRows(2)}`;
+      expect(errorsOf(csv).errors).toEqual([
+        'Row 2, column G: "B" has no column heading — quote any cell that contains a comma',
+        'Row 2, column F (correct): must be A, B, C, or D — got "Perth"',
+      ]);
+    });
+
+    it('reports a stray quote where it appears', () => {
+      const csv = `${VALID_HEADER}\n${makeRows(2)}\n"Who said "move fast"?",A,B,C,D,A`;
+      expect(errorsOf(csv).errors).toEqual([
+        'Row 4, column A: text after a closing quote — double any quotes inside a quoted field',
+      ]);
+    });
+
+    it('reports an unclosed quote where it opened', () => {
+      const csv = `${VALID_HEADER}\n${makeRows(3)}\n"Q4,A,B,C,D,A\nQ5,A,B,C,D,A`;
+      expect(errorsOf(csv).errors).toEqual([
+        'Row 5, column A: quoted field is never closed — check for a missing closing quote',
+      ]);
+    });
+
+    it('names unknown and repeated header columns', () => {
+      expect(errorsOf(`${VALID_HEADER},points,notes,points\n${makeRows(3)}`).errors).toEqual([
+        'Row 1, column H: unknown column "notes" — columns after "correct" may be any of type, e, f, tolerance, time_limit, category, round, points, explanation, image',
+        'Row 1, column I: "points" is already column G',
+      ]);
+    });
+  });
+
+  describe('spreadsheet exports', () => {
+    it('reads an Excel "CSV UTF-8" export', () => {
+      // BOM, CRLF throughout, a trailing CRLF, and empty columns past the last heading
+      const csv = '\uFEFFquestion,a,b,c,d,correct,round,,\r\n' +
+        'What is 2 + 2?,3,4,5,6,B,Warm-up,,\r\n' +
+        '"Which is a fruit, botanically?",Carrot,Tomato,Potato,Onion,B,,,\r\n' +
+        '"The ""Iron Lady"" was?",Thatcher,Merkel,Gandhi,Meir,A,History,,\r\n' +
+        ',,,,,,,,\r\n';
+      const questions = CsvParser.parse(csv);
+      expect(questions.map(q => q.question)).toEqual(['What is 2 + 2?', 'Which is a fruit, botanically?', 'The "Iron Lady" was?']);
+      expect(questions.map(q => q.round)).toEqual(['Warm-up', 'Warm-up', 'History']);
+    });
+
+    it('reads a Google Sheets export', () => {
+      // CRLF, quotes only where needed, no line break after the last row
+      const csv = 'question,a,b,c,d,correct,explanation\r\n' +
+        'Largest planet?,Earth,Jupiter,Mars,Venus,B,"Jupiter is 11 times wider than Earth.\nIt has 95 moons."\r\n' +
+        'Boiling point of water at sea level?,90 °C,100 °C,110 °C,120 °C,B,\r\n' +
+        '"Say ""cheese"" in French?",Fromage,Pain,Lait,Beurre,A,';
+      const questions = CsvParser.parse(csv);
+      expect(questions).toHaveLength(3);
+      expect(questions[0].explanation).toBe('Jupiter is 11 times wider than Earth.\nIt has 95 moons.');
+      expect(questions[2]).toEqual({ question: 'Say "cheese" in French?', a: 'Fromage', b: 'Pain', c: 'Lait', d: 'Beurre', correct: 'A' });
+    });
+  });
+
   describe('duplicate question detection', () => {
     it('rejects duplicate question text', () => {
       const csv = `${VALID_HEADER}\n"Same question","A","B","C","D",A\n"Different question","A","B","C","D",B\n"Same question","A","B","C","D",C`;
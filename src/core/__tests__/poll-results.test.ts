@@ -0,0 +1,37 @@
+import { pollShares, wordCloud } from '../games/poll/poll-results';
+
+describe('pollShares', () => {
+  it('gives each answer a whole-number share that adds up to 100', () => {
+    const shares = pollShares({ A: 1, B: 1, C: 1 });
+    expect(shares.map(s => s.percent)).toEqual([34, 33, 33]);
+    expect(pollShares({ A: 3, B: 1 })).toEqual([
+      { option: 'A', count: 3, percent: 75 },
+      { option: 'B', count: 1, percent: 25 },
+    ]);
+  });
+
+  it('shows every answer at 0% before anyone votes', () => {
+    expect(pollShares({ A: 0, B: 0 }).map(s => s.percent)).toEqual([0, 0]);
+  });
+});
+
+describe('wordCloud', () => {
+  it('groups responses that differ only in case, accents and punctuation', () => {
+    expect(wordCloud(['Teamwork', 'teamwork!', 'Café', 'cafe', 'TEAMWORK', 'coffee'])).toEqual([
+      { text: 'Teamwork', count: 3 },
+      { text: 'Café', count: 2 },
+      { text: 'coffee', count: 1 },
+    ]);
+  });
+
+  it('keeps the most common responses, breaking ties alphabetically', () => {
+    expect(wordCloud(['zebra', 'apple', 'mango', 'mango'], 2)).toEqual([
+      { text: 'mango', count: 2 },
+      { text: 'apple', count: 1 },
+    ]);
+  });
+
+  it('skips anything that is not text', () => {
+    expect(wordCloud(['A', 42, ['B'], '!!!'])).toEqual([{ text: 'A', count: 1 }]);
+  });
+});
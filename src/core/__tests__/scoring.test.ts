@@ -0,0 +1,47 @@
+import { scoreAnswer, scoreRound } from '../games/trivia/scoring';
+import type { RoundResult } from '../types';
+
+describe('scoreAnswer', () => {
+  it('awards nothing for a wrong answer', () => {
+    expect(scoreAnswer(false, 0, 10000)).toBe(0);
+  });
+
+  it('awards the full speed bonus for an instant correct answer', () => {
+    expect(scoreAnswer(true, 0, 10000)).toBe(1000);
+  });
+
+  it('scales the speed bonus linearly with answer time', () => {
+    expect(scoreAnswer(true, 2500, 10000)).toBe(875);
+    expect(scoreAnswer(true, 5000, 10000)).toBe(750);
+  });
+
+  it('awards only the base points at or after the time limit', () => {
+    expect(scoreAnswer(true, 10000, 10000)).toBe(500);
+    expect(scoreAnswer(true, 12000, 10000)).toBe(500);
+  });
+
+  it('scales the award and the speed bonus with the question\'s points', () => {
+    expect(scoreAnswer(true, 5000, 10000, 1000)).toBe(1500);
+    expect(scoreAnswer(true, 10000, 10000, 250)).toBe(250);
+  });
+});
+
+describe('scoreRound', () => {
+  const result: RoundResult = {
+    questionIndex: 0,
+    correctAnswer: 'A',
+    eliminated: ['bob', 'carol'],
+    survivors: ['alice'],
+    counts: { A: 1, B: 1, C: 0, D: 0 },
+    playerAnswers: { alice: 'A', bob: 'B' },
+    answerTimesMs: { alice: 5000, bob: 1000 },
+  };
+
+  it('scores every listed player, including those who did not answer', () => {
+    expect(scoreRound(result, ['alice', 'bob', 'carol'], 10000)).toEqual({ alice: 750, bob: 0, carol: 0 });
+  });
+
+  it('uses the question\'s own points when given', () => {
+    expect(scoreRound(result, ['alice', 'bob'], 10000, 2000)).toEqual({ alice: 3000, bob: 0 });
+  });
+});
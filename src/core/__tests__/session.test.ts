@@ -9,9 +9,16 @@ describe('Session (trivia mode)', () => {
     expect(typeof session.id).toBe('string');
   });
 
-  it('has no gameMode field', () => {
+  it('defaults gameMode to trivia', () => {
+    expect(new Session().gameMode).toBe('trivia');
+    expect(new Session('bingo').gameMode).toBe('bingo');
+  });
+
+  it('starts with no game and records status changes', () => {
     const session = new Session();
-    expect((session as unknown as Record<string, unknown>)['gameMode']).toBeUndefined();
+    expect(session.getGameStatus()).toBe('no_game');
+    session.setGameStatus('in_progress');
+    expect(session.getGameStatus()).toBe('in_progress');
   });
 
   it('generates a unique session ID', () => {
@@ -85,4 +92,72 @@ describe('Session (trivia mode)', () => {
     expect(board).toHaveLength(2);
     expect(board.every((p) => p.totalPoints === 0)).toBe(true);
   });
+
+  it('awardPoints adds to the leaderboard and counts rounds won', () => {
+    const session = new Session();
+    const alice = session.addPlayer('Alice');
+    const bob = session.addPlayer('Bob');
+    session.awardPoints(alice.id, 300, 1);
+    session.awardPoints(bob.id, 800, 1);
+    session.awardPoints(alice.id, 0, 2);
+    const board = session.getLeaderboard();
+    expect(board.map((p) => p.screenName)).toEqual(['Bob', 'Alice']);
+    expect(board[1]).toMatchObject({ totalPoints: 300, roundsWon: 1, lastWinRound: 1 });
+  });
+
+  describe('teams', () => {
+    function makeTeamSession() {
+      const session = new Session();
+      session.setTeams(['Red', 'Blue']);
+      return session;
+    }
+
+    it('assigns a requested team case-insensitively', () => {
+      const session = makeTeamSession();
+      expect(session.addPlayer('Alice', 'blue').team).toBe('Blue');
+    });
+
+    it('rejects an unknown team', () => {
+      const session = makeTeamSession();
+      expect(() => session.addPlayer('Alice', 'Green')).toThrow('Unknown team "Green"');
+    });
+
+    it('auto-assigns players to the smallest team', () => {
+      const session = makeTeamSession();
+      session.addPlayer('Alice', 'Red');
+      expect(session.addPlayer('Bob').team).toBe('Blue');
+    });
+
+    it('ignores the team when the session has no teams', () => {
+      expect(new Session().addPlayer('Alice', 'Red').team).toBeUndefined();
+    });
+
+    it('ranks teams by awarded points', () => {
+      const session = makeTeamSession();
+      session.addPlayer('Alice', 'Red');
+      session.awardTeamPoints('Blue', 1000);
+      session.awardTeamPoints('Green', 500);
+      expect(session.getTeamLeaderboard()).toEqual([
+        { team: 'Blue', totalPoints: 1000, playerCount: 0 },
+        { team: 'Red', totalPoints: 0, playerCount: 1 },
+      ]);
+    });
+  });
+
+  it('restores players, scores and teams from a snapshot', () => {
+    const session = new Session('trivia');
+    session.setTeams(['Red', 'Blue']);
+    const alice = session.addPlayer('Alice', 'Red');
+    session.awardPoints(alice.id, 300, 1);
+    session.awardTeamPoints('Red', 1000);
+    session.setGameStatus('in_progress');
+
+    const restored = Session.restore(JSON.parse(JSON.stringify(session.snapshot())));
+    expect(restored.id).toBe(session.id);
+    expect(restored.getGameStatus()).toBe('in_progress');
+    expect(restored.getPlayer(alice.id)).toEqual(alice);
+    expect(restored.getLeaderboard()).toEqual(session.getLeaderboard());
+    expect(restored.getTeamLeaderboard()).toEqual(session.getTeamLeaderboard());
+    expect(() => restored.addPlayer('alice')).toThrow('already taken');
+  });
 });
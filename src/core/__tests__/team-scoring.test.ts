@@ -0,0 +1,63 @@
+import { resolveTeamRound, TEAM_ROUND_POINTS } from '../games/trivia/team-scoring';
+import type { RoundResult } from '../types';
+
+const result: RoundResult = {
+  questionIndex: 0,
+  correctAnswer: 'A',
+  eliminated: ['bob', 'dave', 'erin'],
+  survivors: ['alice', 'carol'],
+  counts: { A: 2, B: 2, C: 0, D: 0 },
+  playerAnswers: { alice: 'A', bob: 'B', carol: 'A', dave: 'B' },
+  answerTimesMs: {},
+};
+
+const MEMBERS = {
+  Red: ['alice', 'carol', 'bob'],
+  Blue: ['dave', 'erin'],
+};
+
+describe('resolveTeamRound', () => {
+  describe('majority', () => {
+    it('scores a team whose most common answer is correct', () => {
+      const [red, blue] = resolveTeamRound(result, MEMBERS, 'majority');
+      expect(red).toEqual({ team: 'Red', answer: 'A', correctCount: 2, memberCount: 3, correct: true, points: TEAM_ROUND_POINTS });
+      expect(blue).toMatchObject({ team: 'Blue', answer: 'B', correct: false, points: 0 });
+    });
+
+    it('treats a tied vote as no answer', () => {
+      const [team] = resolveTeamRound(result, { Green: ['alice', 'bob'] }, 'majority');
+      expect(team).toMatchObject({ answer: null, correct: false, points: 0 });
+    });
+
+    it('counts typed answers that read the same as one vote', () => {
+      const typed: RoundResult = {
+        ...result,
+        correctAnswer: ['Apollo'],
+        survivors: ['alice', 'carol'],
+        eliminated: ['bob'],
+        counts: {},
+        playerAnswers: { alice: 'Apollo', carol: 'apollo!', bob: 'Gemini' },
+      };
+      const [team] = resolveTeamRound(typed, { Red: ['alice', 'carol', 'bob'] }, 'majority');
+      expect(team).toMatchObject({ answer: 'Apollo', correct: true, points: TEAM_ROUND_POINTS });
+    });
+
+    it('gives a team with no answers nothing', () => {
+      const [team] = resolveTeamRound(result, { Grey: ['erin'] }, 'majority');
+      expect(team).toMatchObject({ answer: null, correct: false, points: 0 });
+    });
+  });
+
+  describe('percentage', () => {
+    it('scales points by the share of correct members', () => {
+      const [red, blue] = resolveTeamRound(result, MEMBERS, 'percentage');
+      expect(red).toMatchObject({ answer: null, correctCount: 2, correct: true, points: Math.round(TEAM_ROUND_POINTS * 2 / 3) });
+      expect(blue).toMatchObject({ correctCount: 0, correct: false, points: 0 });
+    });
+
+    it('counts a team as correct at exactly half', () => {
+      const [team] = resolveTeamRound(result, { Green: ['alice', 'bob'] }, 'percentage');
+      expect(team).toMatchObject({ correct: true, points: TEAM_ROUND_POINTS / 2 });
+    });
+  });
+});
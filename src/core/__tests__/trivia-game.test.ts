@@ -20,7 +20,7 @@ function runQuestion(game: TriviaGame, index: number, survivors: string[]) {
   game.previewQuestion(index);
   game.goLive();
   const round = game.getCurrentRound()!;
-  survivors.forEach(p => round.submitAnswer(p, game.questions[index].correct));
+  survivors.forEach(p => round.submitAnswer(p, game.questions[index].correct!));
   game.expireTimer();
   game.revealAnswer();
   game.showSurvivors();
@@ -50,6 +50,33 @@ describe('TriviaGame', () => {
     });
   });
 
+  describe('time limits', () => {
+    it('uses a configured default over speedMode', () => {
+      const game = new TriviaGame('s', QUESTIONS, { speedMode: true, timeLimitMs: 30000 });
+      expect(game.questionTimeLimitMs).toBe(30000);
+    });
+
+    it('lets a question set its own time limit', () => {
+      const questions = [QUESTIONS[0], { ...QUESTIONS[1], timeLimit: 5 }, QUESTIONS[2]];
+      const game = new TriviaGame('s', questions, { timeLimitMs: 20000 });
+      expect(game.timeLimitMsFor(0)).toBe(20000);
+      expect(game.timeLimitMsFor(1)).toBe(5000);
+      game.registerPlayers(PLAYERS);
+      game.previewQuestion(1);
+      expect(game.currentTimeLimitMs).toBe(5000);
+    });
+
+    it('defaults the reveal delay to REVEAL_DELAY_MS', () => {
+      expect(makeGame().revealDelayMs).toBe(TriviaGame.REVEAL_DELAY_MS);
+      expect(new TriviaGame('s', QUESTIONS, { revealDelayMs: 0 }).revealDelayMs).toBe(0);
+    });
+
+    it('reveals automatically unless told otherwise', () => {
+      expect(makeGame().revealMode).toBe('auto');
+      expect(new TriviaGame('s', QUESTIONS, { revealMode: 'manual' }).revealMode).toBe('manual');
+    });
+  });
+
   describe('state transitions', () => {
     it('previewQuestion() from waiting → question_preview', () => {
       const game = makeGame();
@@ -125,6 +152,55 @@ describe('TriviaGame', () => {
     });
   });
 
+  describe('pausing and extending', () => {
+    function liveGame(): TriviaGame {
+      const game = makeGame();
+      game.previewQuestion(0);
+      game.goLive();
+      return game;
+    }
+
+    it('pauses and resumes a live question', () => {
+      const game = liveGame();
+      game.pauseQuestion();
+      expect(game.state).toBe('question_paused');
+      game.resumeQuestion();
+      expect(game.state).toBe('question_live');
+    });
+
+    it('can close a paused question', () => {
+      const game = liveGame();
+      game.pauseQuestion();
+      game.expireTimer();
+      expect(game.state).toBe('breakdown');
+    });
+
+    it('adds extensions to the current time limit until the next question goes live', () => {
+      const game = liveGame();
+      game.extendTimer(5000);
+      game.pauseQuestion();
+      game.extendTimer(5000);
+      expect(game.currentTimeLimitMs).toBe(20000);
+      PLAYERS.forEach(p => game.getCurrentRound()!.submitAnswer(p, 'A'));
+      game.expireTimer();
+      game.revealAnswer();
+      game.showSurvivors();
+      game.previewQuestion(1);
+      game.goLive();
+      expect(game.currentTimeLimitMs).toBe(10000);
+    });
+
+    it('rejects pausing outside a live question and non-positive extensions', () => {
+      const game = makeGame();
+      game.previewQuestion(0);
+      expect(() => game.pauseQuestion()).toThrow('pauseQuestion() called in state "question_preview"');
+      expect(() => game.extendTimer(1000)).toThrow();
+      game.goLive();
+      expect(() => game.resumeQuestion()).toThrow();
+      expect(() => game.extendTimer(0)).toThrow('Timer extension must be positive, got 0ms');
+    });
+  });
+
   describe('illegal transitions', () => {
     it('goLive() in waiting throws and state is unchanged', () => {
       const game = makeGame();
@@ -155,6 +231,57 @@ describe('TriviaGame', () => {
       expect(() => game.showSurvivors()).toThrow();
       expect(game.state).toBe('breakdown');
     });
+
+    it('acceptAnswer() outside breakdown throws', () => {
+      const game = makeGame([{ question: 'Moon mission?', type: 'free_text', correct: ['Apollo'] }, ...QUESTIONS]);
+      game.previewQuestion(0);
+      game.goLive();
+      expect(() => game.acceptAnswer('Artemis')).toThrow('acceptAnswer() called in state "question_live"');
+    });
+  });
+
+  describe('free-text questions', () => {
+    it('eliminates wrong typed answers unless the host accepts them during the breakdown', () => {
+      const game = makeGame([{ question: 'Moon mission?', type: 'free_text', correct: ['Apollo'] }, ...QUESTIONS]);
+      game.previewQuestion(0);
+      game.goLive();
+      const round = game.getCurrentRound()!;
+      round.submitAnswer('alice', 'apollo');
+      round.submitAnswer('bob', 'Artemis');
+      round.submitAnswer('carol', 'Gemini');
+      game.expireTimer();
+      game.acceptAnswer('artemis');
+      game.revealAnswer();
+      expect(game.getSurvivors().sort()).toEqual(['alice', 'bob']);
+    });
+  });
+
+  describe('polls and word clouds', () => {
+    const POLL: TriviaQuestion = { question: 'How confident are you?', type: 'poll', a: 'Very', b: 'Somewhat', c: 'Not at all' };
+
+    it('never eliminates, even players who did not vote', () => {
+      const game = makeGame([POLL, ...QUESTIONS]);
+      game.previewQuestion(0);
+      game.goLive();
+      game.getCurrentRound()!.submitAnswer('alice', 'C');
+      game.expireTimer();
+      game.revealAnswer();
+      game.showSurvivors();
+      expect(game.state).toBe('survivors');
+      expect(game.getSurvivors().sort()).toEqual(PLAYERS);
+    });
+
+    it('scores nothing in points mode', () => {
+      const game = new TriviaGame('s', [{ question: 'One word for this year?', type: 'word_cloud' }, ...QUESTIONS], { scoring: 'points' });
+      game.registerPlayers(PLAYERS);
+      game.previewQuestion(0);
+      game.goLive();
+      game.getCurrentRound()!.submitAnswer('alice', 'Busy', 0);
+      game.expireTimer();
+      game.revealAnswer();
+      expect(game.getRoundPoints()).toEqual({});
+      expect(game.getTotalPoints('alice')).toBe(0);
+    });
   });
 
   describe('survivor tracking', () => {
@@ -221,4 +348,164 @@ describe('TriviaGame', () => {
       expect(game.getWinners()).toHaveLength(0);
     });
   });
+
+  describe('points scoring', () => {
+    function makePointsGame() {
+      const game = new TriviaGame('s', QUESTIONS, { scoring: 'points' });
+      game.registerPlayers(PLAYERS);
+      return game;
+    }
+
+    function playRound(game: TriviaGame, index: number, answers: Record<string, 'A' | 'B' | 'C' | 'D'>) {
+      game.previewQuestion(index);
+      game.goLive();
+      for (const [playerId, answer] of Object.entries(answers)) {
+        game.getCurrentRound()!.submitAnswer(playerId, answer, 0);
+      }
+      game.expireTimer();
+      game.revealAnswer();
+      game.showSurvivors();
+    }
+
+    it('defaults to elimination scoring', () => {
+      expect(makeGame().scoringMode).toBe('elimination');
+    });
+
+    it('keeps every player in the game after a wrong answer', () => {
+      const game = makePointsGame();
+      playRound(game, 0, { alice: 'A', bob: 'D' });
+      expect(game.state).toBe('survivors');
+      expect(game.getSurvivors()).toEqual(PLAYERS);
+    });
+
+    it('continues when nobody answers correctly', () => {
+      const game = makePointsGame();
+      playRound(game, 0, {});
+      expect(game.state).toBe('survivors');
+    });
+
+    it('accumulates points across rounds', () => {
+      const game = makePointsGame();
+      playRound(game, 0, { alice: 'A', bob: 'A' });
+      playRound(game, 1, { alice: 'B', bob: 'C' });
+      expect(game.getRoundPoints()).toEqual({ alice: 1000, bob: 0, carol: 0 });
+      expect(game.getTotalPoints('alice')).toBe(2000);
+      expect(game.getTotalPoints('bob')).toBe(1000);
+    });
+
+    it('awards a question\'s own points', () => {
+      const game = new TriviaGame('s', [{ ...QUESTIONS[0], points: 2000 }, QUESTIONS[1]], { scoring: 'points' });
+      game.registerPlayers(PLAYERS);
+      playRound(game, 0, { alice: 'A' });
+      expect(game.getRoundPoints().alice).toBe(4000);
+    });
+
+    it('names the top scorer(s) as winners at game over', () => {
+      const game = makePointsGame();
+      playRound(game, 0, { alice: 'A', bob: 'A' });
+      playRound(game, 1, { alice: 'B' });
+      playRound(game, 2, { bob: 'C' });
+      expect(game.state).toBe('game_over');
+      expect(game.getWinners().map(w => w.playerId).sort()).toEqual(['alice', 'bob']);
+    });
+
+    it('scores a player who joins mid-question from that question on', () => {
+      const game = makePointsGame();
+      playRound(game, 0, { alice: 'A' });
+      game.previewQuestion(1);
+      game.goLive();
+      game.addPlayer('dave');
+      game.getCurrentRound()!.submitAnswer('dave', 'B', 0);
+      game.expireTimer();
+      game.revealAnswer();
+      expect(game.getRoundPoints().dave).toBe(1000);
+      expect(game.getTotalPoints('dave')).toBe(1000);
+      expect(game.hasPlayer('dave')).toBe(true);
+    });
+
+    it('refuses newcomers to an elimination game', () => {
+      const game = makeGame();
+      game.registerPlayers(PLAYERS);
+      expect(() => game.addPlayer('dave')).toThrow('scored on points');
+      expect(game.hasPlayer('dave')).toBe(false);
+    });
+  });
+
+  describe('teams', () => {
+    const TEAMS = { alice: 'Red', bob: 'Red', carol: 'Blue' };
+
+    function makeTeamGame(options: ConstructorParameters<typeof TriviaGame>[2] = {}) {
+      const game = new TriviaGame('s', QUESTIONS, options);
+      game.registerPlayers(PLAYERS, TEAMS);
+      return game;
+    }
+
+    function playRound(game: TriviaGame, index: number, answers: Record<string, 'A' | 'B' | 'C' | 'D'>) {
+      game.previewQuestion(index);
+      game.goLive();
+      for (const [playerId, answer] of Object.entries(answers)) {
+        game.getCurrentRound()!.submitAnswer(playerId, answer, 0);
+      }
+      game.expireTimer();
+      game.revealAnswer();
+      game.showSurvivors();
+    }
+
+    it('is off unless players are registered with teams', () => {
+      expect(makeGame().hasTeams).toBe(false);
+      expect(makeTeamGame().hasTeams).toBe(true);
+    });
+
+    it('keeps every member of a correct team, even those who answered wrong', () => {
+      const game = makeTeamGame();
+      playRound(game, 0, { alice: 'A', bob: 'A', carol: 'D' });
+      expect(game.getSurvivors()).toEqual(['alice', 'bob']);
+      expect(game.isTeamEliminated('Blue')).toBe(true);
+      expect(game.getTeamTotalPoints('Red')).toBe(1000);
+    });
+
+    it('names the last surviving team as winner', () => {
+      const game = makeTeamGame();
+      playRound(game, 0, { alice: 'A', bob: 'A', carol: 'D' });
+      playRound(game, 1, { alice: 'B', bob: 'B' });
+      expect(game.state).toBe('survivors');
+      playRound(game, 2, { alice: 'C', bob: 'C' });
+      expect(game.state).toBe('game_over');
+      expect(game.getWinningTeams()).toEqual(['Red']);
+      expect(game.getWinners().map(w => w.playerId)).toEqual(['alice', 'bob']);
+    });
+
+    it('keeps every team in points mode and names the top team', () => {
+      const game = makeTeamGame({ scoring: 'points', teamScoring: 'percentage' });
+      playRound(game, 0, { alice: 'A', carol: 'A' });
+      expect(game.getSurvivors()).toEqual(PLAYERS);
+      expect(game.getTeamResults().map(r => r.points)).toEqual([500, 1000]);
+      playRound(game, 1, {});
+      playRound(game, 2, {});
+      expect(game.getWinningTeams()).toEqual(['Blue']);
+    });
+  });
+
+  describe('snapshots', () => {
+    it('restores a game mid-question through JSON', () => {
+      const game = new TriviaGame('test-session', QUESTIONS, { scoring: 'points', revealMode: 'manual', timeLimitMs: 20000 });
+      game.registerPlayers(PLAYERS);
+      runQuestion(game, 0, ['alice']);
+      game.previewQuestion(1);
+      game.goLive();
+      game.getCurrentRound()!.submitAnswer('bob', 'B', 1200);
+      game.extendTimer(5000);
+
+      const restored = TriviaGame.restore(JSON.parse(JSON.stringify(game.snapshot())));
+      expect(restored.snapshot()).toEqual(game.snapshot());
+      expect(restored.state).toBe('question_live');
+      expect(restored.revealMode).toBe('manual');
+      expect(restored.currentTimeLimitMs).toBe(25000);
+      expect(restored.getTotalPoints('alice')).toBe(game.getTotalPoints('alice'));
+
+      restored.expireTimer();
+      restored.revealAnswer();
+      expect(restored.getRoundPoints().bob).toBeGreaterThan(0);
+    });
+  });
 });
@@ -143,4 +143,150 @@ describe('TriviaRound', () => {
       expect(result.survivors).toContain('alice');
     });
   });
+
+  describe('question types', () => {
+    function resolved(round: TriviaRound) {
+      round.close();
+      return round.resolve();
+    }
+
+    it('counts every answer a six-option question offers', () => {
+      const round = new TriviaRound(0, 'F', PLAYERS, { optionCount: 6 });
+      round.submitAnswer('alice', 'F');
+      round.submitAnswer('bob', 'E');
+      expect(round.getAnswerCounts()).toEqual({ A: 0, B: 0, C: 0, D: 0, E: 1, F: 1 });
+      expect(resolved(round).survivors).toEqual(['alice']);
+    });
+
+    it('judges a true/false question by its letter', () => {
+      const round = new TriviaRound(0, 'B', PLAYERS, { type: 'true_false', optionCount: 2 });
+      round.submitAnswer('alice', 'B');
+      round.submitAnswer('bob', 'A');
+      expect(round.getAnswerCounts()).toEqual({ A: 1, B: 1 });
+      expect(resolved(round)).toMatchObject({ survivors: ['alice'], eliminated: ['bob', 'carol'] });
+    });
+
+    it('needs exactly the right picks on a multi-select, in any order', () => {
+      const round = new TriviaRound(0, ['A', 'C'], PLAYERS, { type: 'multi_select' });
+      round.submitAnswer('alice', ['C', 'A']);
+      round.submitAnswer('bob', ['A']);
+      round.submitAnswer('carol', ['A', 'C', 'D']);
+      expect(round.getAnswerCounts()).toEqual({ A: 3, B: 0, C: 2, D: 1 });
+      expect(round.getAnsweredCount()).toBe(3);
+      expect(resolved(round).survivors).toEqual(['alice']);
+    });
+
+    it('gives a numeric question to the closest guesses', () => {
+      const round = new TriviaRound(0, 1969, ['alice', 'bob', 'carol', 'dave'], { type: 'numeric' });
+      round.submitAnswer('alice', 1972);
+      round.submitAnswer('bob', 1966);
+      round.submitAnswer('carol', 1950);
+      expect(round.getAnswerCounts()).toEqual({});
+      expect(resolved(round)).toMatchObject({ survivors: ['alice', 'bob'], eliminated: ['carol', 'dave'] });
+    });
+
+    it('also accepts numeric guesses within the tolerance', () => {
+      const round = new TriviaRound(0, 100, PLAYERS, { type: 'numeric', tolerance: 10 });
+      round.submitAnswer('alice', 100);
+      round.submitAnswer('bob', 91);
+      round.submitAnswer('carol', 89);
+      expect(resolved(round).survivors).toEqual(['alice', 'bob']);
+    });
+
+    it('ignores guesses from players outside the round when finding the closest', () => {
+      const round = new TriviaRound(0, 50, ['alice'], { type: 'numeric' });
+      round.submitAnswer('alice', 40);
+      round.submitAnswer('spectator', 50);
+      expect(resolved(round).survivors).toEqual(['alice']);
+    });
+
+    it('keeps its rule through a snapshot', () => {
+      const round = new TriviaRound(0, 10, ['alice', 'bob'], { type: 'numeric', tolerance: 2 });
+      round.submitAnswer('alice', 12);
+      round.submitAnswer('bob', 11);
+      const restored = TriviaRound.restore(JSON.parse(JSON.stringify(round.snapshot())));
+      expect(resolved(restored).survivors).toEqual(['alice', 'bob']);
+    });
+  });
+
+  describe('polls and word clouds', () => {
+    it('keeps every player, whether or not they answered', () => {
+      const poll = new TriviaRound(0, null, ['alice', 'bob', 'carol'], { type: 'poll', optionCount: 3 });
+      poll.submitAnswer('alice', 'A');
+      poll.submitAnswer('bob', 'C');
+      poll.close();
+      expect(poll.getAnswerCounts()).toEqual({ A: 1, B: 0, C: 1 });
+      const result = poll.resolve();
+      expect(result.correctAnswer).toBeNull();
+      expect(result.eliminated).toEqual([]);
+      expect(result.survivors).toEqual(['alice', 'bob', 'carol']);
+    });
+
+    it('counts no letters for word-cloud responses', () => {
+      const cloud = new TriviaRound(0, null, ['alice'], { type: 'word_cloud' });
+      cloud.submitAnswer('alice', 'A');
+      expect(cloud.getAnswerCounts()).toEqual({});
+    });
+  });
+
+  describe('free-text answers', () => {
+    const ACCEPTED = ['Apollo 11', 'Apollo'];
+
+    function freeTextRound(players = ['alice', 'bob', 'carol', 'dave']) {
+      return new TriviaRound(0, ACCEPTED, players, { type: 'free_text' });
+    }
+
+    it('matches typed answers loosely against the accepted list', () => {
+      const round = freeTextRound();
+      round.submitAnswer('alice', 'apollo-11!');
+      round.submitAnswer('bob', 'Apolo');
+      round.submitAnswer('carol', 'Gemini');
+      round.close();
+      expect(round.getAnswerCounts()).toEqual({});
+      expect(round.resolve()).toMatchObject({ survivors: ['alice', 'bob'], eliminated: ['carol', 'dave'] });
+    });
+
+    it('groups what players typed, most common first, marking the matches', () => {
+      const round = freeTextRound();
+      round.submitAnswer('alice', 'Gemini');
+      round.submitAnswer('bob', 'Apollo');
+      round.submitAnswer('carol', 'gemini.');
+      round.close();
+      expect(round.getTextAnswers()).toEqual([
+        { answer: 'Gemini', count: 2, accepted: false },
+        { answer: 'Apollo', count: 1, accepted: true },
+      ]);
+    });
+
+    it('counts answers the host accepted, and any that read the same', () => {
+      const round = freeTextRound();
+      round.submitAnswer('alice', 'Saturn V');
+      round.submitAnswer('bob', 'saturn 5');
+      round.submitAnswer('carol', 'Saturn-V');
+      round.close();
+      round.acceptAnswer('Saturn V');
+      expect(round.getTextAnswers().map(g => g.accepted)).toEqual([true, false]);
+      expect(round.resolve().survivors).toEqual(['alice', 'carol']);
+    });
+
+    it('only accepts answers between closing and resolving a free-text round', () => {
+      const round = freeTextRound();
+      expect(() => round.acceptAnswer('Saturn V')).toThrow(/after the round closes/);
+      round.close();
+      round.resolve();
+      expect(() => round.acceptAnswer('Saturn V')).toThrow(/before it is resolved/);
+      const choice = new TriviaRound(0, 'A', PLAYERS);
+      choice.close();
+      expect(() => choice.acceptAnswer('A')).toThrow('Only free-text answers can be accepted — this question is multiple_choice');
+    });
+
+    it('keeps host-accepted answers through a snapshot', () => {
+      const round = freeTextRound(['alice']);
+      round.submitAnswer('alice', 'Saturn V');
+      round.close();
+      round.acceptAnswer('saturn v');
+      const restored = TriviaRound.restore(JSON.parse(JSON.stringify(round.snapshot())));
+      expect(restored.resolve().survivors).toEqual(['alice']);
+    });
+  });
 });
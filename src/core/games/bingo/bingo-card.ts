@@ -0,0 +1,100 @@
+import type { WinPattern } from '../../types';
+
+export const BINGO_GRID_SIZE = 5;
+export const FREE_SPACE = 'FREE';
+
+/** Fisher–Yates shuffle of a copy of `items`. */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+/**
+ * A 5×5 card of words stored row by row, with a pre-marked free space in the centre.
+ */
+export class BingoCard {
+  readonly words: string[];
+  /** The centre cell: always marked, whatever word it shows. */
+  readonly freeIndex: number;
+  private readonly marked: boolean[];
+
+  constructor(words: string[]) {
+    if (words.length !== BINGO_GRID_SIZE * BINGO_GRID_SIZE) {
+      throw new Error(`A bingo card needs ${BINGO_GRID_SIZE * BINGO_GRID_SIZE} cells, got ${words.length}`);
+    }
+    this.words = [...words];
+    this.freeIndex = Math.floor(words.length / 2);
+    this.marked = this.words.map((_, i) => i === this.freeIndex);
+  }
+
+  /** Deals a card from `wordList`, which needs at least 24 distinct words. */
+  static generate(wordList: string[], random: () => number = Math.random): BingoCard {
+    const cells = BINGO_GRID_SIZE * BINGO_GRID_SIZE - 1;
+    const unique = [...new Set(wordList.map(w => w.trim()).filter(w => w !== ''))];
+    if (unique.length < cells) {
+      throw new Error(`Word list needs at least ${cells} distinct words, got ${unique.length}`);
+    }
+    const words = shuffle(unique, random).slice(0, cells);
+    const centre = Math.floor(words.length / 2);
+    return new BingoCard([...words.slice(0, centre), FREE_SPACE, ...words.slice(centre)]);
+  }
+
+  /** Rebuilds a card with the given marks, as returned by `getMarks()`. */
+  static restore(words: string[], marks: boolean[]): BingoCard {
+    const card = new BingoCard(words);
+    marks.forEach((marked, i) => { if (i !== card.freeIndex) card.marked[i] = marked; });
+    return card;
+  }
+
+  /** Toggles the mark on a cell and returns whether it is now marked. The free space stays marked. */
+  toggle(index: number): boolean {
+    if (!Number.isInteger(index) || index < 0 || index >= this.words.length) {
+      throw new Error(`No cell at index ${index}`);
+    }
+    if (index !== this.freeIndex) this.marked[index] = !this.marked[index];
+    return this.marked[index];
+  }
+
+  isMarked(index: number): boolean {
+    return this.marked[index] ?? false;
+  }
+
+  getMarks(): boolean[] {
+    return [...this.marked];
+  }
+
+  getMarkedWords(): string[] {
+    return this.words.filter((w, i) => this.marked[i] && i !== this.freeIndex);
+  }
+
+  hasLine(): boolean {
+    return lines().some(line => line.every(i => this.marked[i]));
+  }
+
+  isFullHouse(): boolean {
+    return this.marked.every(Boolean);
+  }
+
+  /** The best pattern currently on the card, or null. */
+  getPattern(): WinPattern | null {
+    if (this.isFullHouse()) return 'full_house';
+    if (this.hasLine()) return 'line';
+    return null;
+  }
+}
+
+/** Cell indexes of every row, column and both diagonals. */
+function lines(): number[][] {
+  const n = BINGO_GRID_SIZE;
+  const range = [...Array(n).keys()];
+  return [
+    ...range.map(r => range.map(c => r * n + c)),
+    ...range.map(c => range.map(r => r * n + c)),
+    range.map(i => i * n + i),
+    range.map(i => i * n + (n - 1 - i)),
+  ];
+}
@@ -0,0 +1,162 @@
+import type { BingoClaim, BingoState, BingoWinner, WinPattern } from '../../types';
+import { BingoCard } from './bingo-card';
+
+export interface BingoGameOptions {
+  /** Source of randomness for dealing cards; injectable for tests. */
+  random?: () => number;
+}
+
+/** A game's words and progress as plain JSON, for handing a live game to another host. */
+export interface BingoGameSnapshot {
+  sessionId: string;
+  words: string[];
+  state: BingoState;
+  prize: WinPattern;
+  cards: Record<string, { words: string[]; marked: boolean[] }>;
+  claims: BingoClaim[];
+  winners: BingoWinner[];
+}
+
+/**
+ * Buzzword bingo: players mark words on their card as they hear them and claim
+ * a line, then a full house. The host verifies each claim before it wins.
+ */
+export class BingoGame {
+  readonly sessionId: string;
+  readonly words: string[];
+
+  private _state: BingoState = 'waiting';
+  private _prize: WinPattern = 'line';
+  private readonly _random: () => number;
+  private readonly _cards: Map<string, BingoCard> = new Map();
+  private readonly _claims: Map<string, BingoClaim> = new Map();
+  private _winners: BingoWinner[] = [];
+
+  constructor(sessionId: string, words: string[], options?: BingoGameOptions) {
+    this.sessionId = sessionId;
+    this.words = [...words];
+    this._random = options?.random ?? Math.random;
+    // Fail at setup rather than on the first join
+    BingoCard.generate(this.words, this._random);
+  }
+
+  static restore(snapshot: BingoGameSnapshot, options?: BingoGameOptions): BingoGame {
+    const game = new BingoGame(snapshot.sessionId, snapshot.words, options);
+    game._state = snapshot.state;
+    game._prize = snapshot.prize;
+    for (const [playerId, card] of Object.entries(snapshot.cards)) {
+      game._cards.set(playerId, BingoCard.restore(card.words, card.marked));
+    }
+    for (const claim of snapshot.claims) game._claims.set(claim.playerId, { ...claim, markedWords: [...claim.markedWords] });
+    game._winners = snapshot.winners.map(w => ({ ...w }));
+    return game;
+  }
+
+  snapshot(): BingoGameSnapshot {
+    return {
+      sessionId: this.sessionId,
+      words: [...this.words],
+      state: this._state,
+      prize: this._prize,
+      cards: Object.fromEntries([...this._cards].map(([id, card]) => [id, { words: [...card.words], marked: card.getMarks() }])),
+      claims: this.getPendingClaims(),
+      winners: this.getWinners(),
+    };
+  }
+
+  get state(): BingoState {
+    return this._state;
+  }
+
+  /** The pattern the next accepted claim wins: a line first, then a full house. */
+  get prize(): WinPattern {
+    return this._prize;
+  }
+
+  /** Deals a card to a player, or returns the one they already hold. */
+  dealCard(playerId: string): BingoCard {
+    let card = this._cards.get(playerId);
+    if (!card) {
+      card = BingoCard.generate(this.words, this._random);
+      this._cards.set(playerId, card);
+    }
+    return card;
+  }
+
+  getCard(playerId: string): BingoCard | null {
+    return this._cards.get(playerId) ?? null;
+  }
+
+  removePlayer(playerId: string): void {
+    this._cards.delete(playerId);
+    this._claims.delete(playerId);
+  }
+
+  start(): void {
+    this._assertState(['waiting'], 'start');
+    this._state = 'playing';
+  }
+
+  /** Toggles a cell on the player's card and returns whether it is now marked. */
+  mark(playerId: string, index: number): boolean {
+    this._assertState(['playing'], 'mark');
+    return this._cardOf(playerId).toggle(index);
+  }
+
+  /** Records a claim for the host to verify. Throws if the card does not show the current prize. */
+  claim(playerId: string): BingoClaim {
+    this._assertState(['playing'], 'claim');
+    const card = this._cardOf(playerId);
+    if (this._claims.has(playerId)) throw new Error('Your claim is already waiting for the host');
+    const pattern = card.getPattern();
+    if (pattern === null || (this._prize === 'full_house' && pattern !== 'full_house')) {
+      throw new Error(this._prize === 'line' ? 'Your card does not have a line yet' : 'Your card is not a full house yet');
+    }
+    const claim: BingoClaim = { playerId, pattern: this._prize, markedWords: card.getMarkedWords() };
+    this._claims.set(playerId, claim);
+    return { ...claim, markedWords: [...claim.markedWords] };
+  }
+
+  getPendingClaims(): BingoClaim[] {
+    return [...this._claims.values()].map(c => ({ ...c, markedWords: [...c.markedWords] }));
+  }
+
+  /**
+   * Settles a pending claim. An accepted line moves the prize on to a full house;
+   * an accepted full house ends the game. Returns the settled claim.
+   */
+  verifyClaim(playerId: string, accept: boolean): BingoClaim {
+    this._assertState(['playing'], 'verifyClaim');
+    const claim = this._claims.get(playerId);
+    if (!claim) throw new Error('No pending claim for that player');
+    this._claims.delete(playerId);
+    if (!accept) return claim;
+
+    this._winners.push({ playerId, pattern: claim.pattern });
+    if (claim.pattern === 'full_house') {
+      this._claims.clear();
+      this._state = 'game_over';
+    } else {
+      this._prize = 'full_house';
+    }
+    return claim;
+  }
+
+  getWinners(): BingoWinner[] {
+    return this._winners.map(w => ({ ...w }));
+  }
+
+  private _cardOf(playerId: string): BingoCard {
+    const card = this._cards.get(playerId);
+    if (!card) throw new Error('No card dealt to that player');
+    return card;
+  }
+
+  private _assertState(allowed: BingoState[], method: string): void {
+    if (!allowed.includes(this._state)) {
+      throw new Error(
+        `${method}() called in state "${this._state}" — allowed states: ${allowed.join(', ')}`
+      );
+    }
+  }
+}
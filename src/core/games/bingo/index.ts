@@ -0,0 +1,2 @@
+export { BingoGame, type BingoGameSnapshot } from './bingo-game';
+export { BingoCard, BINGO_GRID_SIZE, FREE_SPACE } from './bingo-card';
@@ -0,0 +1 @@
+export { pollShares, wordCloud, WORD_CLOUD_SIZE } from './poll-results';
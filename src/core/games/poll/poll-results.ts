@@ -0,0 +1,44 @@
+import type { AnswerCounts, AnswerOption, PollShare, TriviaAnswer, WordCloudEntry } from '../../types';
+import { normaliseAnswer } from '../trivia/answer-matching';
+
+/** Most responses a word cloud shows; the rest are too rare to read. */
+export const WORD_CLOUD_SIZE = 40;
+
+/**
+ * Each answer's share of the votes as whole percentages. Rounding follows the
+ * largest remainders, so the shares always add up to 100 once anyone has voted.
+ */
+export function pollShares(counts: AnswerCounts): PollShare[] {
+  const entries = Object.entries(counts) as [AnswerOption, number][];
+  const total = entries.reduce((sum, [, count]) => sum + count, 0);
+  const shares = entries.map(([option, count]) => {
+    const exact = total === 0 ? 0 : (count * 100) / total;
+    return { option, count, percent: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let left = total === 0 ? 0 : 100 - shares.reduce((sum, s) => sum + s.percent, 0);
+  for (const share of [...shares].sort((a, b) => b.remainder - a.remainder)) {
+    if (left === 0) break;
+    share.percent++;
+    left--;
+  }
+  return shares.map(({ option, count, percent }) => ({ option, count, percent }));
+}
+
+/**
+ * Typed responses grouped as free-text answers are, ignoring case, accents and
+ * punctuation, most common first and then alphabetically.
+ */
+export function wordCloud(answers: Iterable<TriviaAnswer>, size = WORD_CLOUD_SIZE): WordCloudEntry[] {
+  const entries = new Map<string, WordCloudEntry>();
+  for (const answer of answers) {
+    if (typeof answer !== 'string') continue;
+    const key = normaliseAnswer(answer);
+    if (key === '') continue;
+    const entry = entries.get(key) ?? { text: answer, count: 0 };
+    entry.count++;
+    entries.set(key, entry);
+  }
+  return [...entries.values()]
+    .sort((a, b) => b.count - a.count || a.text.localeCompare(b.text))
+    .slice(0, size);
+}
@@ -0,0 +1,51 @@
+// How a typed answer is compared with a free-text question's accepted answers.
+// Matching forgives case, accents, punctuation, a leading "the"/"a"/"an" and a
+// typo or two in longer answers; anything else is left to the host.
+
+/** Lower case, without accents, punctuation or a leading article, and with single spaces. */
+export function normaliseAnswer(text: string): string {
+  const words = text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .split(' ');
+  if (words.length > 1 && ['the', 'a', 'an'].includes(words[0])) words.shift();
+  return words.join(' ');
+}
+
+/** Insertions, deletions, substitutions and swaps of neighbouring letters needed to turn `a` into `b`. */
+export function editDistance(a: string, b: string): number {
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+    for (let j = 1; j <= b.length; j++) {
+      if (i === 0) { rows[i].push(j); continue; }
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d = Math.min(d, rows[i - 2][j - 2] + 1);
+      rows[i].push(d);
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/** Short answers must be spelt exactly, where one letter can make a different word. */
+export function allowedEdits(normalised: string): number {
+  if (normalised.length <= 3) return 0;
+  if (normalised.length <= 7) return 1;
+  return 2;
+}
+
+/** Whether a typed answer is close enough to any accepted answer. */
+export function matchesAcceptedAnswer(answer: string, accepted: readonly string[]): boolean {
+  const typed = normaliseAnswer(answer);
+  if (typed === '') return false;
+  return accepted.some(a => {
+    const wanted = normaliseAnswer(a);
+    return editDistance(typed, wanted) <= allowedEdits(wanted);
+  });
+}
@@ -1,3 +1,6 @@
-export { TriviaGame } from './trivia-game';
-export { TriviaRound } from './trivia-round';
-export { CsvParser, CsvParseError } from './csv-parser';
+export { TriviaGame, type TriviaGameSnapshot } from './trivia-game';
+export { TriviaRound, type TriviaRoundOptions, type TriviaRoundSnapshot } from './trivia-round';
+export { CsvParser, CsvParseError, DEFAULT_MAX_QUESTIONS, MIN_QUESTIONS, type CsvIssue, type CsvParseOptions } from './csv-parser';
+export { MAX_QUESTION_POINTS, scoreAnswer, scoreRound } from './scoring';
+export { resolveTeamRound } from './team-scoring';
+export { editDistance, matchesAcceptedAnswer, normaliseAnswer } from './answer-matching';
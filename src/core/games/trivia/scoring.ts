@@ -0,0 +1,28 @@
+import type { RoundResult } from '../../types';
+
+export const CORRECT_ANSWER_POINTS = 500;
+export const MAX_SPEED_BONUS = 500;
+export { MAX_QUESTION_POINTS } from '../../../shared/question-rules';
+
+/**
+ * Points for one player's answer: a fixed award for being correct plus a
+ * speed bonus that falls linearly from MAX_SPEED_BONUS (instant) to 0 (at the
+ * time limit). Wrong or missing answers score nothing. A question worth more
+ * than CORRECT_ANSWER_POINTS scales its speed bonus by the same factor.
+ */
+export function scoreAnswer(correct: boolean, elapsedMs: number, timeLimitMs: number, basePoints = CORRECT_ANSWER_POINTS): number {
+  if (!correct) return 0;
+  const remaining = Math.min(1, Math.max(0, 1 - elapsedMs / timeLimitMs));
+  return basePoints + Math.round(MAX_SPEED_BONUS * (basePoints / CORRECT_ANSWER_POINTS) * remaining);
+}
+
+/** Points earned by every player who took part in a resolved round. */
+export function scoreRound(result: RoundResult, playerIds: string[], timeLimitMs: number, basePoints = CORRECT_ANSWER_POINTS): Record<string, number> {
+  const points: Record<string, number> = {};
+  const correctIds = new Set(result.survivors);
+  for (const playerId of playerIds) {
+    const correct = correctIds.has(playerId);
+    points[playerId] = scoreAnswer(correct, result.answerTimesMs[playerId] ?? timeLimitMs, timeLimitMs, basePoints);
+  }
+  return points;
+}
@@ -0,0 +1,66 @@
+import type { RoundResult, TeamRoundResult, TeamScoringRule, TriviaAnswer } from '../../types';
+import { normaliseAnswer } from './answer-matching';
+
+export const TEAM_ROUND_POINTS = 1000;
+
+/** Answers that are the same: equal letters, the same set of letters, the same number, or text that reads the same. */
+function answerKey(answer: TriviaAnswer): string {
+  return JSON.stringify(typeof answer === 'string' ? normaliseAnswer(answer) : answer);
+}
+
+/** The most common answer among `playerIds`; null if nobody answered or the top answers tie. */
+function pluralityAnswer(result: RoundResult, playerIds: string[]): TriviaAnswer | null {
+  const counts = new Map<string, { answer: TriviaAnswer; count: number }>();
+  for (const playerId of playerIds) {
+    const answer = result.playerAnswers[playerId];
+    if (answer === undefined) continue;
+    const entry = counts.get(answerKey(answer)) ?? { answer, count: 0 };
+    entry.count++;
+    counts.set(answerKey(answer), entry);
+  }
+  let best: TriviaAnswer | null = null;
+  let bestCount = 0;
+  let tied = false;
+  for (const { answer, count } of counts.values()) {
+    if (count > bestCount) {
+      best = answer;
+      bestCount = count;
+      tied = false;
+    } else if (count === bestCount) {
+      tied = true;
+    }
+  }
+  return tied ? null : best;
+}
+
+/**
+ * Combines individual answers into one result per team.
+ *
+ * - `majority`: the team's plurality answer counts; a correct one earns TEAM_ROUND_POINTS.
+ * - `percentage`: the team earns TEAM_ROUND_POINTS scaled by the share of members who
+ *   answered correctly, and counts as correct at 50% or more.
+ *
+ * Members who did not answer count against the team under `percentage`.
+ */
+export function resolveTeamRound(
+  result: RoundResult,
+  members: Record<string, string[]>,
+  rule: TeamScoringRule,
+): TeamRoundResult[] {
+  const correctIds = new Set(result.survivors);
+  return Object.entries(members).map(([team, playerIds]) => {
+    const correctCount = playerIds.filter(id => correctIds.has(id)).length;
+    const memberCount = playerIds.length;
+
+    if (rule === 'percentage') {
+      const share = memberCount === 0 ? 0 : correctCount / memberCount;
+      return { team, answer: null, correctCount, memberCount, correct: share >= 0.5, points: Math.round(TEAM_ROUND_POINTS * share) };
+    }
+
+    // The team's answer is right when the members who gave it were
+    const answer = pluralityAnswer(result, playerIds);
+    const correct = answer !== null && playerIds.some(id =>
+      correctIds.has(id) && answerKey(result.playerAnswers[id]) === answerKey(answer));
+    return { team, answer, correctCount, memberCount, correct, points: correct ? TEAM_ROUND_POINTS : 0 };
+  });
+}
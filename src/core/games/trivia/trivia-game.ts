@@ -1,40 +1,207 @@
-import type { TriviaQuestion, TriviaState, TriviaWinner } from '../../types';
-import { TriviaRound } from './trivia-round';
+import type {
+  TeamRoundResult,
+  TeamScoringRule,
+  TriviaQuestion,
+  TriviaRevealMode,
+  TriviaScoringMode,
+  TriviaState,
+  TriviaWinner,
+} from '../../types';
+import { TriviaRound, type TriviaRoundSnapshot } from './trivia-round';
+import { isOpinionType, optionsOf } from '../../../shared/question-rules';
+import { scoreRound } from './scoring';
+import { resolveTeamRound } from './team-scoring';
+
+export interface TriviaGameOptions {
+  /** Shortens the default time limit to 3 seconds; ignored when `timeLimitMs` is given. */
+  speedMode?: boolean;
+  /** Default time limit for questions that do not set their own. */
+  timeLimitMs?: number;
+  /** Pause between the answer breakdown and the reveal; unused when the reveal is manual. */
+  revealDelayMs?: number;
+  revealMode?: TriviaRevealMode;
+  scoring?: TriviaScoringMode;
+  teamScoring?: TeamScoringRule;
+}
+
+/** A game's settings and progress as plain JSON, for handing a live game to another host. */
+export interface TriviaGameSnapshot {
+  sessionId: string;
+  questions: TriviaQuestion[];
+  questionTimeLimitMs: number;
+  revealDelayMs: number;
+  revealMode: TriviaRevealMode;
+  scoringMode: TriviaScoringMode;
+  teamScoring: TeamScoringRule;
+  state: TriviaState;
+  currentQuestionIndex: number;
+  survivorIds: string[];
+  allPlayerIds: string[];
+  currentRound: TriviaRoundSnapshot | null;
+  extensionMs: number;
+  winners: TriviaWinner[];
+  totalPoints: Record<string, number>;
+  roundPoints: Record<string, number>;
+  teamOf: Record<string, string>;
+  teamTotals: Record<string, number>;
+  teamResults: TeamRoundResult[];
+  eliminatedTeams: string[];
+  winningTeams: string[];
+}
 
 export class TriviaGame {
   static readonly REVEAL_DELAY_MS = 2500;
+  static readonly DEFAULT_TIME_LIMIT_MS = 10000;
+  static readonly SPEED_TIME_LIMIT_MS = 3000;
 
   readonly sessionId: string;
   readonly questions: TriviaQuestion[];
+  /** The session default; see `timeLimitMsFor()` for a given question's limit. */
   readonly questionTimeLimitMs: number;
+  readonly revealDelayMs: number;
+  readonly revealMode: TriviaRevealMode;
+  readonly scoringMode: TriviaScoringMode;
+  readonly teamScoring: TeamScoringRule;
 
   private _state: TriviaState = 'waiting';
   private _currentQuestionIndex = -1;
   private _survivorIds: Set<string>;
   private _allPlayerIds: string[];
   private _currentRound: TriviaRound | null = null;
+  private _extensionMs = 0;
   private _winners: TriviaWinner[] = [];
+  private _totalPoints: Map<string, number> = new Map();
+  private _roundPoints: Record<string, number> = {};
+  private _teamOf: Map<string, string> = new Map();
+  private _teamTotals: Map<string, number> = new Map();
+  private _teamResults: TeamRoundResult[] = [];
+  private _eliminatedTeams: Set<string> = new Set();
+  private _winningTeams: string[] = [];
 
   constructor(
     sessionId: string,
     questions: TriviaQuestion[],
-    options?: { speedMode?: boolean }
+    options?: TriviaGameOptions
   ) {
     this.sessionId = sessionId;
     this.questions = questions;
-    this.questionTimeLimitMs = options?.speedMode ? 3000 : 10000;
+    this.questionTimeLimitMs = options?.timeLimitMs
+      ?? (options?.speedMode ? TriviaGame.SPEED_TIME_LIMIT_MS : TriviaGame.DEFAULT_TIME_LIMIT_MS);
+    this.revealDelayMs = options?.revealDelayMs ?? TriviaGame.REVEAL_DELAY_MS;
+    this.revealMode = options?.revealMode ?? 'auto';
+    this.scoringMode = options?.scoring ?? 'elimination';
+    this.teamScoring = options?.teamScoring ?? 'majority';
     this._allPlayerIds = [];
     this._survivorIds = new Set();
   }
 
+  static restore(snapshot: TriviaGameSnapshot): TriviaGame {
+    const game = new TriviaGame(snapshot.sessionId, snapshot.questions, {
+      timeLimitMs: snapshot.questionTimeLimitMs,
+      revealDelayMs: snapshot.revealDelayMs,
+      revealMode: snapshot.revealMode,
+      scoring: snapshot.scoringMode,
+      teamScoring: snapshot.teamScoring,
+    });
+    game._state = snapshot.state;
+    game._currentQuestionIndex = snapshot.currentQuestionIndex;
+    game._survivorIds = new Set(snapshot.survivorIds);
+    game._allPlayerIds = [...snapshot.allPlayerIds];
+    game._currentRound = snapshot.currentRound ? TriviaRound.restore(snapshot.currentRound) : null;
+    game._extensionMs = snapshot.extensionMs;
+    game._winners = snapshot.winners.map(w => ({ ...w }));
+    game._totalPoints = new Map(Object.entries(snapshot.totalPoints));
+    game._roundPoints = { ...snapshot.roundPoints };
+    game._teamOf = new Map(Object.entries(snapshot.teamOf));
+    game._teamTotals = new Map(Object.entries(snapshot.teamTotals));
+    game._teamResults = snapshot.teamResults.map(r => ({ ...r }));
+    game._eliminatedTeams = new Set(snapshot.eliminatedTeams);
+    game._winningTeams = [...snapshot.winningTeams];
+    return game;
+  }
+
+  snapshot(): TriviaGameSnapshot {
+    return {
+      sessionId: this.sessionId,
+      questions: this.questions,
+      questionTimeLimitMs: this.questionTimeLimitMs,
+      revealDelayMs: this.revealDelayMs,
+      revealMode: this.revealMode,
+      scoringMode: this.scoringMode,
+      teamScoring: this.teamScoring,
+      state: this._state,
+      currentQuestionIndex: this._currentQuestionIndex,
+      survivorIds: [...this._survivorIds],
+      allPlayerIds: [...this._allPlayerIds],
+      currentRound: this._currentRound?.snapshot() ?? null,
+      extensionMs: this._extensionMs,
+      winners: this.getWinners(),
+      totalPoints: Object.fromEntries(this._totalPoints),
+      roundPoints: this.getRoundPoints(),
+      teamOf: Object.fromEntries(this._teamOf),
+      teamTotals: Object.fromEntries(this._teamTotals),
+      teamResults: this.getTeamResults(),
+      eliminatedTeams: [...this._eliminatedTeams],
+      winningTeams: this.getWinningTeams(),
+    };
+  }
+
   get state(): TriviaState {
     return this._state;
   }
 
-  /** Call before goLive() to register players. Must be called in waiting state. */
-  registerPlayers(playerIds: string[]): void {
+  /** Index of the question being previewed or played; -1 before the first preview. */
+  get currentQuestionIndex(): number {
+    return this._currentQuestionIndex;
+  }
+
+  /** How long the question at `index` stays live. */
+  timeLimitMsFor(index: number): number {
+    const seconds = this.questions[index]?.timeLimit;
+    return seconds !== undefined ? seconds * 1000 : this.questionTimeLimitMs;
+  }
+
+  /** Time limit of the question being previewed or played, including any extensions. */
+  get currentTimeLimitMs(): number {
+    return this.timeLimitMsFor(this._currentQuestionIndex) + this._extensionMs;
+  }
+
+  /** True when players were registered with teams, so rounds are resolved per team. */
+  get hasTeams(): boolean {
+    return this._teamOf.size > 0;
+  }
+
+  /**
+   * Call before goLive() to register players. Must be called in waiting state.
+   * `teams` maps playerId → team name and switches the game to team-level scoring.
+   */
+  registerPlayers(playerIds: string[], teams?: Record<string, string>): void {
     this._allPlayerIds = [...playerIds];
     this._survivorIds = new Set(playerIds);
+    this._teamOf = new Map(Object.entries(teams ?? {}));
+    this._teamTotals = new Map([...new Set(this._teamOf.values())].map(t => [t, 0]));
+  }
+
+  /**
+   * Registers a player who joined after the first question went live, into the
+   * current round too if it is still open. Points games only: in an elimination
+   * game everyone else had to survive to get this far.
+   */
+  addPlayer(playerId: string, team?: string): void {
+    if (this.scoringMode !== 'points') throw new Error('Players can only join a running game when it is scored on points');
+    if (this.hasPlayer(playerId)) return;
+    this._allPlayerIds.push(playerId);
+    this._survivorIds.add(playerId);
+    if (this.hasTeams && team) {
+      this._teamOf.set(playerId, team);
+      if (!this._teamTotals.has(team)) this._teamTotals.set(team, 0);
+    }
+    if (this._state === 'question_live' || this._state === 'question_paused') this._currentRound!.addPlayer(playerId);
+  }
+
+  /** True once a player is registered, whether or not they are still in. */
+  hasPlayer(playerId: string): boolean {
+    return this._allPlayerIds.includes(playerId);
   }
 
   previewQuestion(index: number): void {
@@ -51,22 +218,63 @@ export class TriviaGame {
     const question = this.questions[this._currentQuestionIndex];
     this._currentRound = new TriviaRound(
       this._currentQuestionIndex,
-      question.correct,
-      [...this._survivorIds]
+      question.correct ?? null,
+      [...this._survivorIds],
+      { type: question.type, optionCount: optionsOf(question).length, tolerance: question.tolerance },
     );
+    this._extensionMs = 0;
     this._state = 'question_live';
   }
 
+  /** Stops the clock on a live question; answers are not accepted while paused. */
+  pauseQuestion(): void {
+    this._assertState(['question_live'], 'pauseQuestion');
+    this._state = 'question_paused';
+  }
+
+  resumeQuestion(): void {
+    this._assertState(['question_paused'], 'resumeQuestion');
+    this._state = 'question_live';
+  }
+
+  /** Adds time to the current question, live or paused. */
+  extendTimer(ms: number): void {
+    this._assertState(['question_live', 'question_paused'], 'extendTimer');
+    if (!(ms > 0)) throw new Error(`Timer extension must be positive, got ${ms}ms`);
+    this._extensionMs += ms;
+  }
+
+  /** Closes the question, either when its timer runs out or early at the host's request. */
   expireTimer(): void {
-    this._assertState(['question_live'], 'expireTimer');
+    this._assertState(['question_live', 'question_paused'], 'expireTimer');
     this._currentRound!.close();
     this._state = 'breakdown';
   }
 
+  /** Lets the host count a borderline free-text answer as right before the reveal. */
+  acceptAnswer(text: string): void {
+    this._assertState(['breakdown'], 'acceptAnswer');
+    this._currentRound!.acceptAnswer(text);
+  }
+
   revealAnswer(): void {
     this._assertState(['breakdown'], 'revealAnswer');
     const result = this._currentRound!.resolve();
-    this._survivorIds = new Set(result.survivors);
+    if (isOpinionType(this._currentRound!.type)) {
+      // Polls and word clouds change nobody's standing
+      this._roundPoints = {};
+      this._teamResults = [];
+    } else if (this.hasTeams) {
+      this._resolveTeams();
+    } else if (this.scoringMode === 'points') {
+      // Nobody is knocked out — every registered player answers every question
+      this._roundPoints = scoreRound(result, this._allPlayerIds, this.currentTimeLimitMs, this.getCurrentQuestion()?.points);
+      for (const [playerId, points] of Object.entries(this._roundPoints)) {
+        this._totalPoints.set(playerId, (this._totalPoints.get(playerId) ?? 0) + points);
+      }
+    } else {
+      this._survivorIds = new Set(result.survivors);
+    }
     this._state = 'answer_revealed';
   }
 
@@ -74,7 +282,13 @@ export class TriviaGame {
     this._assertState(['answer_revealed'], 'showSurvivors');
     const moreQuestions = this._currentQuestionIndex < this.questions.length - 1;
     if (!moreQuestions || this._survivorIds.size === 0) {
-      this._winners = [...this._survivorIds].map(id => ({ playerId: id, screenName: id }));
+      if (this.hasTeams) {
+        this._winningTeams = this.scoringMode === 'points' ? this._topTeams() : this._survivingTeams();
+      }
+      const winnerIds = this.hasTeams
+        ? this._allPlayerIds.filter(id => this._winningTeams.includes(this._teamOf.get(id)!))
+        : this.scoringMode === 'points' ? this._topScorers() : [...this._survivorIds];
+      this._winners = winnerIds.map(id => ({ playerId: id, screenName: id }));
       this._state = 'game_over';
     } else {
       this._state = 'survivors';
@@ -98,6 +312,77 @@ export class TriviaGame {
     return [...this._winners];
   }
 
+  /** Points each player earned in the most recently revealed round (points mode only). */
+  getRoundPoints(): Record<string, number> {
+    return { ...this._roundPoints };
+  }
+
+  getTotalPoints(playerId: string): number {
+    return this._totalPoints.get(playerId) ?? 0;
+  }
+
+  /** Per-team results of the most recently revealed round (team games only). */
+  getTeamResults(): TeamRoundResult[] {
+    return this._teamResults.map(r => ({ ...r }));
+  }
+
+  getTeamTotalPoints(team: string): number {
+    return this._teamTotals.get(team) ?? 0;
+  }
+
+  getTeamOf(playerId: string): string | null {
+    return this._teamOf.get(playerId) ?? null;
+  }
+
+  isTeamEliminated(team: string): boolean {
+    return this._eliminatedTeams.has(team);
+  }
+
+  getWinningTeams(): string[] {
+    return [...this._winningTeams];
+  }
+
+  private _resolveTeams(): void {
+    const round = this._currentRound!;
+    const members: Record<string, string[]> = {};
+    for (const playerId of this._survivorIds) {
+      const team = this._teamOf.get(playerId);
+      if (!team || this._eliminatedTeams.has(team)) continue;
+      (members[team] ??= []).push(playerId);
+    }
+
+    this._teamResults = resolveTeamRound(round.getResult(), members, this.teamScoring);
+    for (const r of this._teamResults) {
+      this._teamTotals.set(r.team, (this._teamTotals.get(r.team) ?? 0) + r.points);
+    }
+
+    if (this.scoringMode === 'elimination') {
+      // Teams survive or fall as a unit, regardless of individual answers
+      for (const r of this._teamResults) {
+        if (!r.correct) this._eliminatedTeams.add(r.team);
+      }
+      this._survivorIds = new Set(
+        [...this._survivorIds].filter(id => !this._eliminatedTeams.has(this._teamOf.get(id)!))
+      );
+    }
+  }
+
+  private _survivingTeams(): string[] {
+    return [...new Set([...this._survivorIds].map(id => this._teamOf.get(id)!))];
+  }
+
+  private _topTeams(): string[] {
+    const best = Math.max(0, ...this._teamTotals.values());
+    if (best === 0) return [];
+    return [...this._teamTotals].filter(([, points]) => points === best).map(([team]) => team);
+  }
+
+  private _topScorers(): string[] {
+    const best = Math.max(0, ...this._totalPoints.values());
+    if (best === 0) return [];
+    return [...this._totalPoints].filter(([, points]) => points === best).map(([id]) => id);
+  }
+
   private _assertState(allowed: TriviaState[], method: string): void {
     if (!allowed.includes(this._state)) {
       throw new Error(
@@ -1,34 +1,129 @@
-import type { AnswerOption, AnswerCounts, RoundResult } from '../../types';
+import type { AnswerOption, AnswerCounts, QuestionType, RoundResult, TextAnswerGroup, TriviaAnswer } from '../../types';
+import { matchesAcceptedAnswer, normaliseAnswer } from './answer-matching';
+import { isOpinionType } from '../../../shared/question-rules';
+
+const LETTERS: AnswerOption[] = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+/** What a round needs to know about its question to judge answers. */
+export interface TriviaRoundOptions {
+  /** Multiple choice when omitted. */
+  type?: QuestionType;
+  /** Answers the question offers, each counted even when nobody picks it; 4 when omitted. */
+  optionCount?: number;
+  /** Numeric questions: guesses this close count as correct as well as the closest. */
+  tolerance?: number;
+}
+
+/** A round's state as plain JSON; see `TriviaGame.snapshot()`. */
+export interface TriviaRoundSnapshot {
+  questionIndex: number;
+  correctAnswer: TriviaAnswer | null;
+  options: TriviaRoundOptions;
+  playerIds: string[];
+  answers: Record<string, TriviaAnswer>;
+  answerTimes: Record<string, number>;
+  closed: boolean;
+  /** Normalised free-text answers the host accepted. */
+  acceptedByHost: string[];
+  result: RoundResult | null;
+}
 
 export class TriviaRound {
   readonly questionIndex: number;
-  readonly correctAnswer: AnswerOption;
+  /** Null for a poll or word cloud. */
+  readonly correctAnswer: TriviaAnswer | null;
+  readonly type: QuestionType;
 
+  private readonly options: TriviaRoundOptions;
   private readonly playerIds: Set<string>;
-  private readonly answers: Map<string, AnswerOption> = new Map();
+  private readonly answers: Map<string, TriviaAnswer> = new Map();
+  private readonly answerTimes: Map<string, number> = new Map();
   private closed = false;
+  private readonly acceptedByHost: Set<string> = new Set();
   private result: RoundResult | null = null;
 
-  constructor(questionIndex: number, correctAnswer: AnswerOption, playerIds: string[]) {
+  constructor(questionIndex: number, correctAnswer: TriviaAnswer | null, playerIds: string[], options: TriviaRoundOptions = {}) {
     this.questionIndex = questionIndex;
     this.correctAnswer = correctAnswer;
+    this.type = options.type ?? 'multiple_choice';
+    this.options = { ...options };
     this.playerIds = new Set(playerIds);
   }
 
-  submitAnswer(playerId: string, answer: AnswerOption): void {
+  static restore(snapshot: TriviaRoundSnapshot): TriviaRound {
+    const round = new TriviaRound(snapshot.questionIndex, snapshot.correctAnswer, snapshot.playerIds, snapshot.options);
+    for (const [playerId, answer] of Object.entries(snapshot.answers)) round.answers.set(playerId, answer);
+    for (const [playerId, ms] of Object.entries(snapshot.answerTimes)) round.answerTimes.set(playerId, ms);
+    round.closed = snapshot.closed;
+    for (const text of snapshot.acceptedByHost) round.acceptedByHost.add(text);
+    round.result = snapshot.result;
+    return round;
+  }
+
+  snapshot(): TriviaRoundSnapshot {
+    return {
+      questionIndex: this.questionIndex,
+      correctAnswer: this.correctAnswer,
+      options: { ...this.options },
+      playerIds: [...this.playerIds],
+      answers: this.getPlayerAnswers(),
+      answerTimes: this.getAnswerTimes(),
+      closed: this.closed,
+      acceptedByHost: [...this.acceptedByHost],
+      result: this.result,
+    };
+  }
+
+  /** `elapsedMs` is how long after the question went live the answer arrived. */
+  submitAnswer(playerId: string, answer: TriviaAnswer, elapsedMs = 0): void {
     if (this.closed) return;
     if (this.answers.has(playerId)) return;
-    this.answers.set(playerId, answer);
+    this.answers.set(playerId, Array.isArray(answer) ? [...answer].sort() : answer);
+    this.answerTimes.set(playerId, Math.max(0, elapsedMs));
+  }
+
+  /** Lets a player who joined mid-question answer it. */
+  addPlayer(playerId: string): void {
+    if (!this.closed) this.playerIds.add(playerId);
   }
 
   close(): void {
     this.closed = true;
   }
 
-  getPlayerAnswers(): Record<string, AnswerOption> {
+  /**
+   * Counts a free-text answer as right, along with every answer that reads the
+   * same once normalised. Only between closing and resolving the round.
+   */
+  acceptAnswer(text: string): void {
+    if (this.type !== 'free_text') throw new Error(`Only free-text answers can be accepted — this question is ${this.type}`);
+    if (!this.closed || this.result) throw new Error('Answers can only be accepted after the round closes and before it is resolved');
+    const normalised = normaliseAnswer(text);
+    if (normalised !== '') this.acceptedByHost.add(normalised);
+  }
+
+  /** Free-text answers grouped by their normalised form, most common first. */
+  getTextAnswers(): TextAnswerGroup[] {
+    const groups = new Map<string, TextAnswerGroup>();
+    const isCorrect = this.judge();
+    for (const answer of this.answers.values()) {
+      if (typeof answer !== 'string') continue;
+      const key = normaliseAnswer(answer);
+      const group = groups.get(key) ?? { answer, count: 0, accepted: isCorrect(answer) };
+      group.count++;
+      groups.set(key, group);
+    }
+    return [...groups.values()].sort((a, b) => b.count - a.count);
+  }
+
+  getPlayerAnswers(): Record<string, TriviaAnswer> {
     return Object.fromEntries(this.answers);
   }
 
+  getAnswerTimes(): Record<string, number> {
+    return Object.fromEntries(this.answerTimes);
+  }
+
   resolve(): RoundResult {
     if (!this.closed) {
       throw new Error('Cannot resolve an open round — call close() first');
@@ -36,10 +131,13 @@ export class TriviaRound {
 
     const eliminated: string[] = [];
     const survivors: string[] = [];
+    const isCorrect = this.judge();
+    // An opinion is never wrong, and nobody has to give one
+    const keepsEveryone = isOpinionType(this.type);
 
     for (const playerId of this.playerIds) {
       const answer = this.answers.get(playerId);
-      if (answer === this.correctAnswer) {
+      if (keepsEveryone || (answer !== undefined && isCorrect(answer))) {
         survivors.push(playerId);
       } else {
         eliminated.push(playerId);
@@ -53,19 +151,60 @@ export class TriviaRound {
       survivors,
       counts: this.getAnswerCounts(),
       playerAnswers: this.getPlayerAnswers(),
+      answerTimesMs: this.getAnswerTimes(),
     };
 
     return this.result;
   }
 
+  /**
+   * The rule for the question type: a choice must match, a multi-select must
+   * pick exactly the right letters, a numeric guess must be the closest any
+   * player made, or within the tolerance, and typed text must match an accepted
+   * answer closely enough or have been accepted by the host.
+   */
+  private judge(): (answer: TriviaAnswer) => boolean {
+    const correct = this.correctAnswer;
+    switch (this.type) {
+      case 'multi_select': {
+        const wanted = new Set<string>(correct as AnswerOption[]);
+        return answer => Array.isArray(answer) && answer.length === wanted.size && answer.every(a => wanted.has(a));
+      }
+      case 'numeric': {
+        const distanceOf = (answer: TriviaAnswer) => Math.abs((answer as number) - (correct as number));
+        const guesses = [...this.playerIds].filter(id => typeof this.answers.get(id) === 'number');
+        const closest = Math.min(...guesses.map(id => distanceOf(this.answers.get(id)!)));
+        const allowed = Math.max(closest, this.options.tolerance ?? 0);
+        return answer => typeof answer === 'number' && distanceOf(answer) <= allowed;
+      }
+      case 'free_text': {
+        const accepted = correct as string[];
+        return answer => typeof answer === 'string' &&
+          (this.acceptedByHost.has(normaliseAnswer(answer)) || matchesAcceptedAnswer(answer, accepted));
+      }
+      default:
+        return answer => answer === correct;
+    }
+  }
+
   getAnswerCounts(): AnswerCounts {
-    const counts: AnswerCounts = { A: 0, B: 0, C: 0, D: 0 };
+    const typed = this.type === 'free_text' || this.type === 'word_cloud';
+    const optionCount = typed || this.type === 'numeric' ? 0 : this.options.optionCount ?? 4;
+    const counts: AnswerCounts = Object.fromEntries(LETTERS.slice(0, optionCount).map(l => [l, 0]));
     for (const answer of this.answers.values()) {
-      counts[answer]++;
+      if (typed || typeof answer === 'number') continue;
+      for (const letter of [answer].flat() as AnswerOption[]) {
+        counts[letter] = (counts[letter] ?? 0) + 1;
+      }
     }
     return counts;
   }
 
+  /** Players who have answered so far. */
+  getAnsweredCount(): number {
+    return this.answers.size;
+  }
+
   getResult(): RoundResult {
     if (!this.result) {
       throw new Error('Round has not been resolved yet — call resolve() first');
@@ -1,27 +1,94 @@
 import { randomUUID } from 'crypto';
 import type {
+  GameMode,
+  GameStatus,
   Player,
   PlayerScore,
+  TeamScore,
   GameEvent,
   EventListener,
 } from './types';
 
+/** A Session's state as plain JSON, for handing a live session to another host. */
+export interface SessionSnapshot {
+  id: string;
+  gameMode: GameMode;
+  gameStatus: GameStatus;
+  players: { id: string; screenName: string; joinedAt: string; team?: string }[];
+  scores: Record<string, { totalPoints: number; roundsWon: number; lastWinRound?: number }>;
+  teams: string[];
+  teamScores: Record<string, number>;
+}
+
 export class Session {
   readonly id: string;
+  readonly gameMode: GameMode;
+  private gameStatus: GameStatus = 'no_game';
   private players: Map<string, Player> = new Map();
   private listeners: EventListener[] = [];
   private scores: Map<string, { totalPoints: number; roundsWon: number; lastWinRound?: number }> = new Map();
+  private teams: string[] = [];
+  private teamScores: Map<string, number> = new Map();
+
+  constructor(gameMode: GameMode = 'trivia', id: string = randomUUID()) {
+    this.id = id;
+    this.gameMode = gameMode;
+  }
+
+  /** Rebuilds a session from `snapshot()`; event listeners are not carried over. */
+  static restore(snapshot: SessionSnapshot): Session {
+    const session = new Session(snapshot.gameMode, snapshot.id);
+    session.gameStatus = snapshot.gameStatus;
+    session.setTeams(snapshot.teams);
+    for (const p of snapshot.players) {
+      const player: Player = { id: p.id, screenName: p.screenName, joinedAt: new Date(p.joinedAt) };
+      if (p.team) player.team = p.team;
+      session.players.set(player.id, player);
+    }
+    session.scores = new Map(Object.entries(snapshot.scores).map(([id, score]) => [id, { ...score }]));
+    session.teamScores = new Map(Object.entries(snapshot.teamScores));
+    return session;
+  }
+
+  snapshot(): SessionSnapshot {
+    return {
+      id: this.id,
+      gameMode: this.gameMode,
+      gameStatus: this.gameStatus,
+      players: this.getPlayers().map((p) => {
+        const entry: SessionSnapshot['players'][number] = { id: p.id, screenName: p.screenName, joinedAt: p.joinedAt.toISOString() };
+        if (p.team) entry.team = p.team;
+        return entry;
+      }),
+      scores: Object.fromEntries([...this.scores].map(([id, score]) => [id, { ...score }])),
+      teams: [...this.teams],
+      teamScores: Object.fromEntries(this.teamScores),
+    };
+  }
+
+  /** Configures the teams players are split into. Must be called before players join. */
+  setTeams(teams: string[]): void {
+    this.teams = [...teams];
+    this.teamScores = new Map(teams.map((t) => [t, 0]));
+  }
 
-  constructor() {
-    this.id = randomUUID();
+  getTeams(): string[] {
+    return [...this.teams];
   }
 
-  addPlayer(screenName: string): Player {
+  /**
+   * Adds a player. When teams are configured, `team` picks one (case-insensitive)
+   * and an omitted team assigns the player to the smallest team. `team` is
+   * ignored when the session has no teams.
+   */
+  addPlayer(screenName: string, team?: string): Player {
     const trimmed = screenName.trim();
     if (trimmed.length === 0) {
       throw new Error('Screen name cannot be blank');
     }
 
+    const assignedTeam = this.resolveTeam(team);
+
     const lower = trimmed.toLowerCase();
     for (const p of this.players.values()) {
       if (p.screenName.toLowerCase() === lower) {
@@ -34,6 +101,7 @@ export class Session {
       screenName: trimmed,
       joinedAt: new Date(),
     };
+    if (assignedTeam) player.team = assignedTeam;
 
     this.players.set(player.id, player);
     this.scores.set(player.id, { totalPoints: 0, roundsWon: 0 });
@@ -61,8 +129,38 @@ export class Session {
     return [...this.players.values()];
   }
 
-  getGameStatus(): 'no_game' {
-    return 'no_game';
+  /** Adds points earned in `round`; any positive award counts as a round won. */
+  awardPoints(playerId: string, points: number, round: number): void {
+    const score = this.scores.get(playerId);
+    if (!score) return;
+    score.totalPoints += points;
+    if (points > 0) {
+      score.roundsWon++;
+      score.lastWinRound = round;
+    }
+  }
+
+  awardTeamPoints(team: string, points: number): void {
+    if (!this.teamScores.has(team)) return;
+    this.teamScores.set(team, this.teamScores.get(team)! + points);
+  }
+
+  getTeamLeaderboard(): TeamScore[] {
+    const board: TeamScore[] = this.teams.map((team) => ({
+      team,
+      totalPoints: this.teamScores.get(team) ?? 0,
+      playerCount: this.getPlayers().filter((p) => p.team === team).length,
+    }));
+    board.sort((a, b) => b.totalPoints - a.totalPoints);
+    return board;
+  }
+
+  getGameStatus(): GameStatus {
+    return this.gameStatus;
+  }
+
+  setGameStatus(status: GameStatus): void {
+    this.gameStatus = status;
   }
 
   getCurrentRound(): number {
@@ -93,6 +191,23 @@ export class Session {
     this.listeners = this.listeners.filter((l) => l !== listener);
   }
 
+  private resolveTeam(team: string | undefined): string | undefined {
+    if (this.teams.length === 0) return undefined;
+
+    if (team !== undefined && team.trim() !== '') {
+      const lower = team.trim().toLowerCase();
+      const match = this.teams.find((t) => t.toLowerCase() === lower);
+      if (!match) throw new Error(`Unknown team "${team.trim()}"`);
+      return match;
+    }
+
+    const sizes = new Map(this.teams.map((t) => [t, 0]));
+    for (const p of this.players.values()) {
+      if (p.team) sizes.set(p.team, (sizes.get(p.team) ?? 0) + 1);
+    }
+    return this.teams.reduce((smallest, t) => (sizes.get(t)! < sizes.get(smallest)! ? t : smallest));
+  }
+
   private emit(event: GameEvent): void {
     for (const listener of this.listeners) {
       try {
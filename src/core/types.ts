@@ -1,9 +1,17 @@
 // Session layer types
 
+import type { AnswerLetter, QuestionType as QuizQuestionType } from '../shared/question-rules';
+
+/** The game a session plays; fixed when the session is created. */
+export type GameMode = 'trivia' | 'bingo';
+
+export type GameStatus = 'no_game' | 'in_progress' | 'finished';
+
 export interface Player {
   id: string;
   screenName: string;
   joinedAt: Date;
+  team?: string;
 }
 
 export interface PlayerScore {
@@ -14,6 +22,12 @@ export interface PlayerScore {
   lastWinRound?: number;
 }
 
+export interface TeamScore {
+  team: string;
+  totalPoints: number;
+  playerCount: number;
+}
+
 // Game events
 
 export interface PlayerJoinedEvent {
@@ -36,12 +50,40 @@ export type EventListener = (event: GameEvent) => void;
 
 // Trivia types
 
-export type AnswerOption = 'A' | 'B' | 'C' | 'D';
+/** The letter of one answer; a question offers two to six, from A. */
+export type AnswerOption = AnswerLetter;
+
+/**
+ * How players answer. A true/false question offers two answers, `a` and `b`;
+ * a multi-select is right only when a player picks every correct answer and
+ * nothing else; a numeric question goes to the closest guess; a free-text
+ * answer is typed and matched loosely against a list of accepted answers.
+ * Polls (a choice of answers) and word clouds (short typed responses) have
+ * no right answer and never knock anyone out.
+ */
+export type QuestionType = QuizQuestionType;
+
+/**
+ * A player's answer, or a question's right one: a letter, every letter of a
+ * multi-select, a number, or typed text. A free-text question's right answer
+ * is its list of accepted answers.
+ */
+export type TriviaAnswer = AnswerOption | AnswerOption[] | number | string | string[];
+
+/** 'elimination' knocks out wrong answers; 'points' keeps everyone in and scores each answer. */
+export type TriviaScoringMode = 'elimination' | 'points';
+
+/** 'auto' reveals after a delay and regroups straight away; 'manual' waits for the host at each step. */
+export type TriviaRevealMode = 'auto' | 'manual';
+
+/** How a team's members' answers combine into one team result. */
+export type TeamScoringRule = 'majority' | 'percentage';
 
 export type TriviaState =
   | 'waiting'
   | 'question_preview'
   | 'question_live'
+  | 'question_paused'
   | 'breakdown'
   | 'answer_revealed'
   | 'survivors'
@@ -49,30 +91,101 @@ export type TriviaState =
 
 export interface TriviaQuestion {
   question: string;
-  a: string;
-  b: string;
-  c: string;
-  d: string;
-  correct: AnswerOption;
+  /** Multiple choice when omitted. */
+  type?: QuestionType;
+  /** Answer text, filled from `a` without gaps; unused by numeric, free-text and word-cloud questions. */
+  a?: string;
+  b?: string;
+  c?: string;
+  d?: string;
+  e?: string;
+  f?: string;
+  /** For a free-text question, every answer that counts as right; left out of polls and word clouds. */
+  correct?: TriviaAnswer;
+  /** Numeric questions: guesses this close to the answer count as correct as well as the closest. */
+  tolerance?: number;
+  /** Seconds this question stays live; the game's default applies when omitted. */
+  timeLimit?: number;
+  /** Named round the question belongs to; a show's rounds run in file order. */
+  round?: string;
+  category?: string;
+  /** Points for a correct answer in points mode, before the speed bonus; CORRECT_ANSWER_POINTS when omitted. */
+  points?: number;
+  /** Shown alongside the answer once it is revealed. */
+  explanation?: string;
+  /** URL of a picture shown with the question. */
+  image?: string;
+}
+
+/** Players per answer the question offers; a multi-select counts each letter picked. Empty for numeric, free-text and word-cloud questions. */
+export type AnswerCounts = Partial<Record<AnswerOption, number>>;
+
+/** Players who typed the same free-text answer, once case, accents and punctuation are set aside. */
+export interface TextAnswerGroup {
+  /** As the first player to give it typed it. */
+  answer: string;
+  count: number;
+  /** It matched an accepted answer, or the host accepted it. */
+  accepted: boolean;
 }
 
-export interface AnswerCounts {
-  A: number;
-  B: number;
-  C: number;
-  D: number;
+/** One answer of a poll and the share of players who picked it. */
+export interface PollShare {
+  option: AnswerOption;
+  count: number;
+  /** A whole-number percentage; a poll's shares add up to 100 once anyone has answered. */
+  percent: number;
+}
+
+/** A word-cloud response and how many players gave it; see `TextAnswerGroup` for how responses are grouped. */
+export interface WordCloudEntry {
+  text: string;
+  count: number;
 }
 
 export interface RoundResult {
   questionIndex: number;
-  correctAnswer: AnswerOption;
+  /** Null for polls and word clouds. */
+  correctAnswer: TriviaAnswer | null;
+  /** Players who answered wrongly or not at all; `survivors` answered correctly. Polls and word clouds keep everyone. */
   eliminated: string[];
   survivors: string[];
   counts: AnswerCounts;
-  playerAnswers: Record<string, AnswerOption>;
+  playerAnswers: Record<string, TriviaAnswer>;
+  answerTimesMs: Record<string, number>;
 }
 
 export interface TriviaWinner {
   playerId: string;
   screenName: string;
 }
+
+export interface TeamRoundResult {
+  team: string;
+  /** The team's plurality answer (majority rule only); null if nobody answered or it was a tie. */
+  answer: TriviaAnswer | null;
+  correctCount: number;
+  memberCount: number;
+  correct: boolean;
+  points: number;
+}
+
+// Bingo types
+
+export type BingoState = 'waiting' | 'playing' | 'game_over';
+
+/** A completed row, column or diagonal, or every cell on the card. */
+export type WinPattern = 'line' | 'full_house';
+
+export interface BingoWinner {
+  playerId: string;
+  pattern: WinPattern;
+}
+
+export interface BingoClaim {
+  playerId: string;
+  pattern: WinPattern;
+  /** The words the player marked, for the host to check against what was said. */
+  markedWords: string[];
+}
+
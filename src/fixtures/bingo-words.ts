@@ -0,0 +1,27 @@
+/** Default buzzword list (mirrors product/words.txt), used when the host supplies none. */
+export const BINGO_WORDS: string[] = [
+  'synergy',
+  'blockchain',
+  'disruptive',
+  'scalable',
+  'leverage',
+  'paradigm',
+  'ecosystem',
+  'agile',
+  'holistic',
+  'bandwidth',
+  'streamline',
+  'innovative',
+  'actionable',
+  'pivot',
+  'granular',
+  'optimize',
+  'stakeholder',
+  'empower',
+  'ideation',
+  'omnichannel',
+  'deep-dive',
+  'alignment',
+  'hyperlocal',
+  'onboarding',
+];
@@ -0,0 +1,47 @@
+import { runLoadTest } from '../simulator';
+
+// Runs over real localhost sockets, so it is kept small and quick
+describe('runLoadTest', () => {
+  it('plays a full game and accounts for every event', async () => {
+    const report = await runLoadTest({
+      players: 30,
+      questions: 2,
+      timeLimit: 3,
+      revealDelay: 0,
+      latencyMs: { min: 0, max: 20 },
+      responseRate: 1,
+      thinkMs: { min: 0, max: 50 },
+      connectBatch: 10,
+      settleMs: 100,
+    });
+
+    expect(report.joined).toBe(30);
+    expect(report.disconnected).toBe(0);
+    expect(report.dropped).toBe(0);
+    // Per question at least the preview, live, accepted, breakdown and reveal
+    expect(report.expected).toBeGreaterThanOrEqual(30 * 2 * 5);
+    expect(report.latencyMs.count).toBe(report.delivered);
+    expect(report.latencyMs.p50).toBeLessThanOrEqual(report.latencyMs.max);
+    expect(report.answers).toEqual({ submitted: 60, accepted: 60, rejected: 0 });
+  }, 30_000);
+
+  it('plays an elimination game over JSON framing', async () => {
+    const report = await runLoadTest({
+      players: 10,
+      questions: 2,
+      timeLimit: 3,
+      revealDelay: 0,
+      scoring: 'elimination',
+      latencyMs: { min: 0, max: 10 },
+      responseRate: 1,
+      accuracy: 1,
+      thinkMs: { min: 0, max: 20 },
+      framing: 'json',
+      settleMs: 100,
+    });
+
+    expect(report.joined).toBe(10);
+    expect(report.dropped).toBe(0);
+    expect(report.answers.accepted).toBe(20);
+  }, 30_000);
+});
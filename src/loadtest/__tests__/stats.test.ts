@@ -0,0 +1,29 @@
+import { percentile, summarizeLatencies } from '../stats';
+
+describe('percentile', () => {
+  it('takes the nearest rank', () => {
+    const sorted = Array.from({ length: 100 }, (_, i) => i + 1);
+    expect(percentile(sorted, 50)).toBe(50);
+    expect(percentile(sorted, 99)).toBe(99);
+    expect(percentile(sorted, 100)).toBe(100);
+  });
+
+  it('is the only sample for a list of one', () => {
+    expect(percentile([7], 1)).toBe(7);
+    expect(percentile([7], 99)).toBe(7);
+  });
+
+  it('is 0 without samples', () => {
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe('summarizeLatencies', () => {
+  it('sorts the samples before ranking them', () => {
+    expect(summarizeLatencies([30, 10, 20, 40])).toEqual({ count: 4, p50: 20, p90: 40, p99: 40, max: 40 });
+  });
+
+  it('reports zeros without samples', () => {
+    expect(summarizeLatencies([])).toEqual({ count: 0, p50: 0, p90: 0, p99: 0, max: 0 });
+  });
+});
@@ -0,0 +1,63 @@
+import { DEFAULT_LOAD_TEST_OPTIONS, runLoadTest, type LoadTestOptions, type Range } from './simulator';
+
+// Every setting is optional, e.g.
+//   PLAYERS=2000 QUESTIONS=10 LATENCY_MS=30-400 THINK_MS=1000-8000 npm run loadtest
+// Each simulated player holds an open socket at both ends, so raise `ulimit -n`
+// above four times PLAYERS first.
+
+function number(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) throw new Error(`${name} must be a non-negative number — got "${raw}"`);
+  return value;
+}
+
+/** `MIN-MAX`, or a single number for a fixed value. */
+function range(name: string, fallback: Range): Range {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const [min, max = min] = raw.split('-').map(Number);
+  if (!Number.isFinite(min) || !Number.isFinite(max) || min < 0 || max < min) {
+    throw new Error(`${name} must be MIN-MAX in milliseconds — got "${raw}"`);
+  }
+  return { min, max };
+}
+
+function readOptions(): Partial<LoadTestOptions> {
+  const d = DEFAULT_LOAD_TEST_OPTIONS;
+  return {
+    players: number('PLAYERS', d.players),
+    questions: number('QUESTIONS', d.questions),
+    timeLimit: number('TIME_LIMIT', d.timeLimit),
+    revealDelay: number('REVEAL_DELAY', d.revealDelay),
+    scoring: process.env.SCORING === 'elimination' ? 'elimination' : d.scoring,
+    latencyMs: range('LATENCY_MS', d.latencyMs),
+    responseRate: number('RESPONSE_RATE', d.responseRate),
+    accuracy: number('ACCURACY', d.accuracy),
+    thinkMs: range('THINK_MS', d.thinkMs),
+    framing: process.env.FRAMING === 'json' ? 'json' : d.framing,
+  };
+}
+
+async function main(): Promise<void> {
+  const options = readOptions();
+  console.log(`Simulating ${options.players} players over ${options.questions} questions...`);
+  const report = await runLoadTest(options);
+  const { latencyMs: l, answers: a } = report;
+
+  console.log(`Joined:        ${report.joined}/${report.players}`);
+  console.log(`Disconnected:  ${report.disconnected}`);
+  console.log(`Deliveries:    ${report.delivered}/${report.expected} (${report.dropped} dropped)`);
+  console.log(`Latency (ms):  p50 ${l.p50.toFixed(1)}  p90 ${l.p90.toFixed(1)}  p99 ${l.p99.toFixed(1)}  max ${l.max.toFixed(1)}`);
+  console.log(`Answers:       ${a.submitted} submitted, ${a.accepted} accepted, ${a.rejected} rejected`);
+  console.log(`Duration:      ${(report.durationMs / 1000).toFixed(1)} s`);
+
+  const healthy = report.dropped === 0 && report.disconnected === 0 && report.joined === report.players;
+  process.exit(healthy ? 0 : 1);
+}
+
+main().catch((err: unknown) => {
+  console.error(`Load test failed: ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+});
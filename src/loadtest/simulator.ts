@@ -0,0 +1,403 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { performance } from 'perf_hooks';
+import { WebSocket, WebSocketServer, type RawData } from 'ws';
+import { createRelayHandler } from '../relay/relay-handler';
+import { createAdminAuth } from '../relay/admin-auth';
+import type { RelayFraming } from '../relay/relay-protocol';
+import { createAdminRelayClient } from '../server/admin-relay-client';
+import { createAdminWsHandler } from '../server/admin-ws-handler';
+import { PER_MESSAGE_DEFLATE } from '../server/compression';
+import type { AnswerOption, TriviaQuestion, TriviaScoringMode } from '../core/types';
+import { summarizeLatencies, type LatencySummary } from './stats';
+
+// Plays a whole trivia game through a real relay and admin, both in this
+// process, with synthetic players connected over localhost WebSockets. Every
+// event the admin hands to the relay is timed until each player it was meant
+// for receives it; events that never arrive are reported as dropped.
+
+export interface Range {
+  min: number;
+  max: number;
+}
+
+export interface LoadTestOptions {
+  players: number;
+  questions: number;
+  /** Seconds each question stays open. */
+  timeLimit: number;
+  /** Seconds between a question closing and its answer being revealed. */
+  revealDelay: number;
+  scoring: TriviaScoringMode;
+  /** One-way network delay of each player's messages, drawn once per player. */
+  latencyMs: Range;
+  /** Share of live questions a player answers at all. */
+  responseRate: number;
+  /** Share of answers that are correct. */
+  accuracy: number;
+  /** How long after the question goes live a player answers. */
+  thinkMs: Range;
+  framing: RelayFraming;
+  /** Players connecting to the relay at once. */
+  connectBatch: number;
+  /** How long to wait after game_over for events still in flight. */
+  settleMs: number;
+  random: () => number;
+}
+
+export const DEFAULT_LOAD_TEST_OPTIONS: LoadTestOptions = {
+  players: 200,
+  questions: 5,
+  timeLimit: 10,
+  revealDelay: 1,
+  scoring: 'points',
+  latencyMs: { min: 20, max: 150 },
+  responseRate: 0.95,
+  accuracy: 0.6,
+  thinkMs: { min: 500, max: 6000 },
+  framing: 'compact',
+  connectBatch: 100,
+  settleMs: 2000,
+  random: Math.random,
+};
+
+export interface LoadTestReport {
+  players: number;
+  /** Players the server confirmed with `joined`. */
+  joined: number;
+  questions: number;
+  /** Player deliveries owed: one per player per broadcast, one per targeted event. */
+  expected: number;
+  delivered: number;
+  dropped: number;
+  /** Player connections that closed before the game ended. */
+  disconnected: number;
+  /** From the admin handing an event to the relay client to the player receiving it, including simulated latency. */
+  latencyMs: LatencySummary;
+  answers: { submitted: number; accepted: number; rejected: number };
+  durationMs: number;
+}
+
+const JOIN_CODE = 'LOAD';
+const ANSWER_OPTIONS: AnswerOption[] = ['A', 'B', 'C', 'D'];
+const STEP_TIMEOUT_MS = 30_000;
+
+type Msg = { type: string; [key: string]: unknown };
+
+interface Delivery {
+  event: string;
+  at: number;
+}
+
+function between(range: Range, random: () => number): number {
+  return range.min + random() * (range.max - range.min);
+}
+
+function makeQuestions(count: number): TriviaQuestion[] {
+  return Array.from({ length: count }, (_, i) => ({
+    question: `Load test question ${i + 1}?`,
+    a: 'Option A', b: 'Option B', c: 'Option C', d: 'Option D',
+    correct: ANSWER_OPTIONS[i % ANSWER_OPTIONS.length],
+  }));
+}
+
+/** Owed deliveries matched, in order, against what arrived; unmatched ones were dropped. */
+function matchDeliveries(owed: Delivery[], received: Delivery[], latencies: number[]): number {
+  let cursor = 0;
+  let dropped = 0;
+  for (const { event, at } of owed) {
+    let i = cursor;
+    while (i < received.length && received[i].event !== event) i++;
+    if (i === received.length) {
+      dropped++;
+      continue;
+    }
+    latencies.push(received[i].at - at);
+    cursor = i + 1;
+  }
+  return dropped;
+}
+
+// ── Host ─────────────────────────────────────────────────────────────────────
+
+/** Stands in for the admin page's socket: commands go in, events come out. */
+class SimulatedHost extends EventEmitter {
+  readonly OPEN = 1;
+  readyState = 1;
+  private readonly pending = new Set<() => void>();
+
+  send(data: string): void {
+    this.emit('event', JSON.parse(data) as Msg);
+  }
+
+  command(data: object): void {
+    this.emit('message', Buffer.from(JSON.stringify(data)));
+  }
+
+  /** Resolves with the first event matching `predicate`; install it before sending the command that triggers it. */
+  waitFor(predicate: (msg: Msg) => boolean, what: string, timeoutMs = STEP_TIMEOUT_MS): Promise<Msg> {
+    return new Promise((resolve, reject) => {
+      const stop = () => {
+        clearTimeout(timer);
+        this.off('event', listener);
+        this.pending.delete(stop);
+      };
+      const timer = setTimeout(() => {
+        stop();
+        reject(new Error(`Timed out waiting for ${what}`));
+      }, timeoutMs);
+      const listener = (msg: Msg) => {
+        if (!predicate(msg)) return;
+        stop();
+        resolve(msg);
+      };
+      this.on('event', listener);
+      this.pending.add(stop);
+    });
+  }
+
+  /** Abandons every wait still pending, leaving its promise unsettled. */
+  stopWaiting(): void {
+    for (const stop of [...this.pending]) stop();
+  }
+}
+
+// ── Players ──────────────────────────────────────────────────────────────────
+
+interface SimulatedPlayer {
+  screenName: string;
+  ws: WebSocket;
+  received: Delivery[];
+  joined: boolean;
+  /** The connection closed while the game was being measured. */
+  dropped: boolean;
+}
+
+// ── Run ──────────────────────────────────────────────────────────────────────
+
+export async function runLoadTest(overrides: Partial<LoadTestOptions> = {}): Promise<LoadTestReport> {
+  const opts: LoadTestOptions = { ...DEFAULT_LOAD_TEST_OPTIONS, ...overrides };
+  const { random } = opts;
+  const startedAt = performance.now();
+  const secret = randomUUID();
+
+  // Relay, as relay-main runs it
+  const server = http.createServer();
+  const wss = new WebSocketServer({ server, perMessageDeflate: PER_MESSAGE_DEFLATE });
+  const relay = createRelayHandler(createAdminAuth([secret]));
+  wss.on('connection', (ws, req) => {
+    const url = new URL(req.url ?? '/', 'http://relay');
+    if (url.pathname === '/admin') relay.handleAdminConnection(ws, 'loadtest');
+    else relay.handlePlayerConnection(ws, url.searchParams.get('session'));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const relayUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  // Admin, as admin-main runs it, with the relay transport instrumented
+  const players = new Map<string, SimulatedPlayer>();
+  const screenNames = new Map<string, string>();
+  const owed = new Map<string, Delivery[]>();
+  let measuring = false;
+
+  function owe(screenName: string, event: string, at: number): void {
+    const list = owed.get(screenName);
+    if (list) list.push({ event, at });
+  }
+
+  const handler = createAdminWsHandler({
+    sendToPlayer(connectionId, event) {
+      const screenName = screenNames.get(connectionId);
+      if (measuring && screenName) owe(screenName, event, performance.now());
+      relayClient.sendToPlayer(connectionId, event);
+    },
+    broadcastToPlayers(event, except) {
+      if (measuring) {
+        const at = performance.now();
+        const skipped = new Set((except ?? []).map((id) => screenNames.get(id)));
+        for (const screenName of owed.keys()) {
+          if (!skipped.has(screenName)) owe(screenName, event, at);
+        }
+      }
+      relayClient.broadcastToPlayers(event, except);
+    },
+    sendStateSnapshot: (snapshot) => relayClient.sendStateSnapshot(snapshot),
+    sendPlayerState: (events) => relayClient.sendPlayerState(events),
+  });
+
+  const registered = new EventEmitter();
+  const relayClient = createAdminRelayClient({
+    onPlayerCommand(connectionId, rawCommand) {
+      try {
+        const command = JSON.parse(rawCommand) as Msg;
+        if (command.type === 'join') screenNames.set(connectionId, command.screenName as string);
+      } catch {
+        // The handler reports malformed commands itself
+      }
+      handler.handlePlayerCommand(connectionId, rawCommand);
+    },
+    onPlayerConnected: (connectionId) => handler.handlePlayerConnected(connectionId),
+    onPlayerDisconnected: (connectionId) => handler.handlePlayerDisconnected(connectionId),
+    onPlayerRoster: () => {},
+    onStateSnapshot: (snapshot) => handler.handleStateSnapshot(snapshot),
+    onPromoted: (connections) => handler.handlePromoted(connections),
+    onStatusChange: (status) => registered.emit(status),
+    framing: opts.framing,
+  });
+
+  const host = new SimulatedHost();
+  const answers = { submitted: 0, accepted: 0, rejected: 0 };
+  let questionIndex = 0;
+  const questions = makeQuestions(opts.questions);
+
+  function connectPlayer(n: number): Promise<SimulatedPlayer> {
+    const latency = between(opts.latencyMs, random);
+    const ws = new WebSocket(`${relayUrl}/?session=${JOIN_CODE}`);
+    const player: SimulatedPlayer = { screenName: `Player ${n}`, ws, received: [], joined: false, dropped: false };
+    const later = (fn: () => void, ms = latency) => setTimeout(fn, ms);
+    const send = (data: object) => later(() => {
+      if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(data));
+    });
+
+    function onEvent(msg: Msg): void {
+      switch (msg.type) {
+        case 'joined':
+          player.joined = true;
+          registered.emit('joined');
+          break;
+        case 'question_preview':
+          questionIndex = msg.questionIndex as number;
+          break;
+        case 'question_live': {
+          if (random() >= opts.responseRate) break;
+          const correct = questions[questionIndex].correct;
+          const wrong = ANSWER_OPTIONS.filter((o) => o !== correct);
+          const answer = random() < opts.accuracy ? correct : wrong[Math.floor(random() * wrong.length)];
+          later(() => {
+            answers.submitted++;
+            send({ type: 'submit_answer', answer });
+          }, between(opts.thinkMs, random));
+          break;
+        }
+        case 'answer_accepted':
+          answers.accepted++;
+          break;
+        case 'answer_rejected':
+          answers.rejected++;
+          break;
+      }
+    }
+
+    ws.on('message', (data: RawData) => {
+      const event = data.toString();
+      later(() => {
+        player.received.push({ event, at: performance.now() });
+        onEvent(JSON.parse(event) as Msg);
+      });
+    });
+    ws.on('close', () => {
+      if (measuring) player.dropped = true;
+    });
+
+    return new Promise((resolve, reject) => {
+      ws.once('open', () => {
+        send({ type: 'join', screenName: player.screenName });
+        resolve(player);
+      });
+      ws.on('error', reject);
+    });
+  }
+
+  function untilJoined(count: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const joinedCount = () => [...players.values()].filter((p) => p.joined).length;
+      const timer = setTimeout(() => {
+        registered.off('joined', check);
+        reject(new Error(`Only ${joinedCount()} of ${count} players joined`));
+      }, STEP_TIMEOUT_MS);
+      function check(): void {
+        if (joinedCount() < count) return;
+        clearTimeout(timer);
+        registered.off('joined', check);
+        resolve();
+      }
+      registered.on('joined', check);
+      check();
+    });
+  }
+
+  async function playQuestion(index: number): Promise<void> {
+    host.command(index === 0 ? { type: 'start_trivia_question', questionIndex: 0 } : { type: 'advance_question' });
+    const closeMs = opts.timeLimit * 1000 + STEP_TIMEOUT_MS;
+    const closed = host.waitFor(
+      (m) => m.type === 'timer_expired' || (m.type === 'live_answer_stats' && m.remaining === 0),
+      `question ${index + 1} to close`, closeMs,
+    );
+    const revealed = host.waitFor((m) => m.type === 'question_result', `question ${index + 1} to be revealed`, closeMs + opts.revealDelay * 1000);
+    host.command({ type: 'go_live' });
+    // Everyone who will answer has; the host closes early as they would in the room
+    if ((await closed).type === 'live_answer_stats') host.command({ type: 'close_now' });
+    await revealed;
+  }
+
+  try {
+    const connected = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Admin could not register with the relay')), STEP_TIMEOUT_MS);
+      registered.once('connected', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+    relayClient.connect(`${relayUrl}/admin`, randomUUID(), secret, JOIN_CODE);
+    await connected;
+
+    handler.handleAdminConnection(host as unknown as WebSocket);
+    host.command({ type: 'create_session', questions, timeLimit: opts.timeLimit, revealDelay: opts.revealDelay, scoring: opts.scoring });
+
+    for (let n = 1; n <= opts.players; n += opts.connectBatch) {
+      const batch = Array.from({ length: Math.min(opts.connectBatch, opts.players - n + 1) }, (_, i) => connectPlayer(n + i));
+      for (const player of await Promise.all(batch)) {
+        players.set(player.screenName, player);
+        owed.set(player.screenName, []);
+      }
+    }
+    await untilJoined(opts.players);
+
+    measuring = true;
+    const gameMs = opts.questions * ((opts.timeLimit + opts.revealDelay) * 1000 + 2 * STEP_TIMEOUT_MS);
+    const gameOver = host.waitFor((m) => m.type === 'game_over', 'game_over', gameMs);
+    for (let i = 0; i < opts.questions; i++) await playQuestion(i);
+    await gameOver;
+    await new Promise((resolve) => setTimeout(resolve, opts.settleMs + opts.latencyMs.max * 2));
+  } finally {
+    measuring = false;
+    host.stopWaiting();
+    relayClient.disconnect();
+    for (const player of players.values()) player.ws.terminate();
+    await new Promise((resolve) => wss.close(resolve));
+    await new Promise((resolve) => server.close(resolve));
+  }
+
+  const latencies: number[] = [];
+  let expected = 0;
+  let dropped = 0;
+  for (const player of players.values()) {
+    const list = owed.get(player.screenName) ?? [];
+    expected += list.length;
+    dropped += matchDeliveries(list, player.received, latencies);
+  }
+
+  return {
+    players: opts.players,
+    joined: [...players.values()].filter((p) => p.joined).length,
+    questions: opts.questions,
+    expected,
+    delivered: expected - dropped,
+    dropped,
+    disconnected: [...players.values()].filter((p) => p.dropped).length,
+    latencyMs: summarizeLatencies(latencies),
+    answers,
+    durationMs: Math.round(performance.now() - startedAt),
+  };
+}
@@ -0,0 +1,133 @@
+import {
+  ADMIN_TOKEN_TTL_MS,
+  FAILED_ATTEMPT_WINDOW_MS,
+  LOCKOUT_MS,
+  MAX_FAILED_ATTEMPTS,
+  createAdminAuth,
+} from '../admin-auth';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.setSystemTime(1_000_000);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('createAdminAuth', () => {
+  it('requires at least one secret', () => {
+    expect(() => createAdminAuth([])).toThrow('At least one relay secret is required');
+    expect(() => createAdminAuth(['s']).setSecrets(['', ''])).toThrow('At least one relay secret is required');
+  });
+
+  describe('secrets', () => {
+    it('accepts the secret and refuses anything else', () => {
+      const auth = createAdminAuth(['s3cret']);
+      expect(auth.authenticate('ip', 'sess', { secret: 's3cret' })).toBe('ok');
+      expect(auth.authenticate('ip', 'sess', { secret: 's3cre' })).toBe('invalid');
+      expect(auth.authenticate('ip', 'sess', { secret: 's3cret-and-more' })).toBe('invalid');
+      expect(auth.authenticate('ip', 'sess', {})).toBe('invalid');
+    });
+
+    it('accepts every secret in a rotation until it is dropped', () => {
+      const auth = createAdminAuth(['old']);
+      auth.setSecrets(['new', 'old']);
+      expect(auth.authenticate('ip', 'sess', { secret: 'old' })).toBe('ok');
+      expect(auth.authenticate('ip', 'sess', { secret: 'new' })).toBe('ok');
+      auth.setSecrets(['new']);
+      expect(auth.authenticate('ip', 'sess', { secret: 'old' })).toBe('invalid');
+    });
+  });
+
+  describe('running sessions', () => {
+    it('are not opened by the secret', () => {
+      const auth = createAdminAuth(['s3cret']);
+      const running = { standbyKey: auth.issueStandbyKey() };
+      expect(auth.authenticate('ip', 'sess-1', { secret: 's3cret' }, running)).toBe('invalid');
+      expect(auth.authenticate('ip', 'sess-1', { token: auth.issueToken('sess-1').token }, running)).toBe('ok');
+    });
+
+    it('are opened by their own standby key only', () => {
+      const auth = createAdminAuth(['s3cret']);
+      const running = { standbyKey: auth.issueStandbyKey() };
+      const other = auth.issueStandbyKey();
+      expect(other).not.toBe(running.standbyKey);
+      expect(auth.authenticate('ip', 'sess-1', { standbyKey: running.standbyKey }, running)).toBe('ok');
+      expect(auth.authenticate('ip', 'sess-1', { standbyKey: other }, running)).toBe('invalid');
+      expect(auth.authenticate('ip', 'sess-2', { standbyKey: running.standbyKey })).toBe('invalid');
+    });
+  });
+
+  describe('tokens', () => {
+    it('opens only the session it was issued for', () => {
+      const auth = createAdminAuth(['s3cret']);
+      const { token, expiresAt } = auth.issueToken('sess-1');
+      expect(expiresAt).toBe(1_000_000 + ADMIN_TOKEN_TTL_MS);
+      expect(auth.authenticate('ip', 'sess-1', { token })).toBe('ok');
+      expect(auth.authenticate('ip', 'sess-2', { token })).toBe('invalid');
+    });
+
+    it('expires', () => {
+      const auth = createAdminAuth(['s3cret']);
+      const { token } = auth.issueToken('sess-1');
+      jest.advanceTimersByTime(ADMIN_TOKEN_TTL_MS);
+      expect(auth.authenticate('ip', 'sess-1', { token })).toBe('invalid');
+    });
+
+    it('rejects a token whose claims were edited', () => {
+      const auth = createAdminAuth(['s3cret']);
+      const [, signature] = auth.issueToken('sess-1').token.split('.');
+      const forged = Buffer.from(JSON.stringify({ sid: 'sess-2', exp: 9e15 })).toString('base64url');
+      expect(auth.authenticate('ip', 'sess-2', { token: `${forged}.${signature}` })).toBe('invalid');
+      expect(auth.authenticate('ip', 'sess-2', { token: 'not-a-token' })).toBe('invalid');
+    });
+
+    it('is not a substitute for the secret when signed by another relay', () => {
+      const other = createAdminAuth(['elsewhere']);
+      const auth = createAdminAuth(['s3cret']);
+      expect(auth.authenticate('ip', 'sess-1', { token: other.issueToken('sess-1').token })).toBe('invalid');
+    });
+
+    it('survives a rotation that keeps its secret and dies with one that drops it', () => {
+      const auth = createAdminAuth(['old']);
+      const { token } = auth.issueToken('sess-1');
+      auth.setSecrets(['new', 'old']);
+      expect(auth.authenticate('ip', 'sess-1', { token })).toBe('ok');
+      auth.setSecrets(['new']);
+      expect(auth.authenticate('ip', 'sess-1', { token })).toBe('invalid');
+    });
+  });
+
+  describe('lockout', () => {
+    function fail(auth: ReturnType<typeof createAdminAuth>, times: number, source = 'ip'): void {
+      for (let i = 0; i < times; i++) auth.authenticate(source, 'sess', { secret: 'wrong' });
+    }
+
+    it(`locks a source out after ${MAX_FAILED_ATTEMPTS} failures until the lockout ends`, () => {
+      const auth = createAdminAuth(['s3cret']);
+      fail(auth, MAX_FAILED_ATTEMPTS);
+      expect(auth.authenticate('ip', 'sess', { secret: 's3cret' })).toBe('locked_out');
+      expect(auth.authenticate('other-ip', 'sess', { secret: 's3cret' })).toBe('ok');
+
+      jest.advanceTimersByTime(LOCKOUT_MS);
+      expect(auth.authenticate('ip', 'sess', { secret: 's3cret' })).toBe('ok');
+    });
+
+    it('forgives failures spread beyond the window', () => {
+      const auth = createAdminAuth(['s3cret']);
+      fail(auth, MAX_FAILED_ATTEMPTS - 1);
+      jest.advanceTimersByTime(FAILED_ATTEMPT_WINDOW_MS + 1);
+      fail(auth, 1);
+      expect(auth.authenticate('ip', 'sess', { secret: 's3cret' })).toBe('ok');
+    });
+
+    it('resets the count after a success', () => {
+      const auth = createAdminAuth(['s3cret']);
+      fail(auth, MAX_FAILED_ATTEMPTS - 1);
+      auth.authenticate('ip', 'sess', { secret: 's3cret' });
+      fail(auth, MAX_FAILED_ATTEMPTS - 1);
+      expect(auth.authenticate('ip', 'sess', { secret: 's3cret' })).toBe('ok');
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { deflateRawSync } from 'zlib';
+import { EventEmitter } from 'events';
+import { createRelayHandler } from '../relay-handler';
+import { createAdminAuth } from '../admin-auth';
+import type { RelayFraming } from '../relay-protocol';
+import { createAdminRelayClient } from '../../server/admin-relay-client';
+import { createAdminWsHandler } from '../../server/admin-ws-handler';
+import { COMPRESSION_THRESHOLD_BYTES } from '../../server/compression';
+import type { TriviaQuestion } from '../../core/types';
+
+// Measures what one trivia round costs on the wire in a large room, from the
+// admin through the relay to every player.
+
+const PLAYERS = 1000;
+const SECRET = 'bench-secret';
+
+const QUESTIONS: TriviaQuestion[] = [
+  { question: 'Which planet is known as the red planet?', a: 'Venus', b: 'Mars', c: 'Jupiter', d: 'Mercury', correct: 'B' },
+  { question: 'What is the largest ocean?', a: 'Atlantic', b: 'Indian', c: 'Arctic', d: 'Pacific', correct: 'D' },
+];
+
+/** One end of an in-memory socket; whatever it sends arrives at its peer. */
+class PipeEnd extends EventEmitter {
+  readyState = 1;
+  OPEN = 1;
+  peer: PipeEnd | null = null;
+  frames: string[] = [];
+
+  send(data: string): void {
+    this.frames.push(data);
+    this.peer?.emit('message', Buffer.from(data));
+  }
+
+  close(): void {
+    this.readyState = 3;
+    this.emit('close');
+  }
+}
+
+/** A player's phone; records what the relay sends it. */
+class PlayerWs extends EventEmitter {
+  readyState = 1;
+  OPEN = 1;
+  received: string[] = [];
+
+  send(data: string): void {
+    this.received.push(data);
+  }
+
+  command(data: object): void {
+    this.emit('message', Buffer.from(JSON.stringify(data)));
+  }
+}
+
+class HostWs extends EventEmitter {
+  readyState = 1;
+  OPEN = 1;
+
+  send(): void {}
+
+  command(data: object): void {
+    this.emit('message', Buffer.from(JSON.stringify(data)));
+  }
+}
+
+function bytes(frames: string[]): number {
+  return frames.reduce((sum, f) => sum + Buffer.byteLength(f), 0);
+}
+
+/** Bytes after permessage-deflate, which leaves frames under the threshold alone. */
+function deflatedBytes(frames: string[]): number {
+  return frames.reduce((sum, f) => {
+    const raw = Buffer.from(f);
+    return sum + (raw.length < COMPRESSION_THRESHOLD_BYTES ? raw.length : deflateRawSync(raw).length);
+  }, 0);
+}
+
+interface RoundCost {
+  adminToRelay: string[];
+  relayToAdmin: string[];
+  players: PlayerWs[];
+}
+
+function playRound(framing: RelayFraming): RoundCost {
+  const relay = createRelayHandler(createAdminAuth([SECRET]));
+  const clientEnd = new PipeEnd();
+  const relayEnd = new PipeEnd();
+  clientEnd.peer = relayEnd;
+  relayEnd.peer = clientEnd;
+
+  const handler = createAdminWsHandler({
+    sendToPlayer: (connectionId, event) => relayClient.sendToPlayer(connectionId, event),
+    broadcastToPlayers: (event, except) => relayClient.broadcastToPlayers(event, except),
+    sendStateSnapshot: (snapshot) => relayClient.sendStateSnapshot(snapshot),
+    sendPlayerState: (events) => relayClient.sendPlayerState(events),
+  });
+  const relayClient = createAdminRelayClient({
+    onPlayerCommand: (connectionId, raw) => handler.handlePlayerCommand(connectionId, raw),
+    onPlayerConnected: (connectionId) => handler.handlePlayerConnected(connectionId),
+    onPlayerDisconnected: (connectionId) => handler.handlePlayerDisconnected(connectionId),
+    onPlayerRoster: () => {},
+    onStatusChange: () => {},
+    onStateSnapshot: (snapshot) => handler.handleStateSnapshot(snapshot),
+    onPromoted: (connections) => handler.handlePromoted(connections),
+    wsFactory: () => {
+      setTimeout(() => clientEnd.emit('open'), 0);
+      return clientEnd as any;
+    },
+    framing,
+  });
+
+  relay.handleAdminConnection(relayEnd as any, 'bench');
+  relayClient.connect('ws://relay.test/admin', 'bench-session', SECRET, 'BNCH');
+  jest.advanceTimersByTime(0);
+
+  const host = new HostWs();
+  handler.handleAdminConnection(host as any);
+  host.command({ type: 'create_session', questions: QUESTIONS });
+
+  const players = Array.from({ length: PLAYERS }, (_, i) => {
+    const ws = new PlayerWs();
+    relay.handlePlayerConnection(ws as any, 'BNCH');
+    ws.command({ type: 'join', screenName: `Player ${i + 1}` });
+    return ws;
+  });
+
+  // Only the round itself is measured
+  clientEnd.frames = [];
+  relayEnd.frames = [];
+  for (const ws of players) ws.received = [];
+
+  host.command({ type: 'start_trivia_question', questionIndex: 0 });
+  host.command({ type: 'go_live' });
+  players.forEach((ws, i) => ws.command({ type: 'submit_answer', answer: i % 3 === 0 ? 'A' : 'B' }));
+  host.command({ type: 'close_now' });
+  jest.advanceTimersByTime(30_000);
+
+  return { adminToRelay: clientEnd.frames, relayToAdmin: relayEnd.frames, players };
+}
+
+describe('bytes per round', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('keeps the answer map off the players', () => {
+    const { players } = playRound('compact');
+    expect(players[0].received.map((e) => JSON.parse(e).type)).toEqual(
+      expect.arrayContaining(['question_preview', 'question_live', 'answer_accepted', 'answer_breakdown', 'answer_revealed']),
+    );
+    for (const ws of players) {
+      for (const event of ws.received) expect(event).not.toContain('playerAnswers');
+    }
+  });
+
+  it('sends each player a few hundred bytes however large the room', () => {
+    const { players } = playRound('compact');
+    const perPlayer = Math.max(...players.map((ws) => bytes(ws.received)));
+    expect(perPlayer).toBeLessThan(1024);
+  });
+
+  it('costs less between admin and relay with compact framing', () => {
+    const json = playRound('json');
+    const compact = playRound('compact');
+    expect(bytes(compact.adminToRelay)).toBeLessThan(bytes(json.adminToRelay));
+    expect(bytes(compact.relayToAdmin)).toBeLessThan(bytes(json.relayToAdmin));
+    // Players see the same events either way
+    const types = (ws: PlayerWs) => ws.received.map((e) => JSON.parse(e).type);
+    expect(types(compact.players[0])).toEqual(types(json.players[0]));
+  });
+
+  it('deflates the snapshot traffic that outgrows the threshold', () => {
+    const { adminToRelay } = playRound('compact');
+    expect(adminToRelay.some((f) => Buffer.byteLength(f) >= COMPRESSION_THRESHOLD_BYTES)).toBe(true);
+    expect(deflatedBytes(adminToRelay)).toBeLessThan(bytes(adminToRelay) / 2);
+  });
+});
@@ -0,0 +1,25 @@
+import * as http from 'http';
+import { clientAddress } from '../client-address';
+
+function makeReq(remoteAddress: string | undefined, forwardedFor?: string | string[]): http.IncomingMessage {
+  const headers: http.IncomingHttpHeaders = forwardedFor === undefined ? {} : { 'x-forwarded-for': forwardedFor };
+  return { headers, socket: { remoteAddress } } as unknown as http.IncomingMessage;
+}
+
+describe('clientAddress', () => {
+  it('ignores a spoofed X-Forwarded-For when no proxy is trusted', () => {
+    expect(clientAddress(makeReq('203.0.113.9', '198.51.100.1'), 0)).toBe('203.0.113.9');
+    expect(clientAddress(makeReq('203.0.113.9', '10.0.0.1, 10.0.0.2'), 0)).toBe('203.0.113.9');
+  });
+
+  it('takes the hop the trusted proxy appended, not what the caller sent before it', () => {
+    expect(clientAddress(makeReq('10.1.1.1', 'spoofed, 203.0.113.9'), 1)).toBe('203.0.113.9');
+    expect(clientAddress(makeReq('10.1.1.1', ['spoofed', '203.0.113.9, 10.2.2.2']), 2)).toBe('203.0.113.9');
+  });
+
+  it('falls back to the socket when the proxy sent fewer hops than expected', () => {
+    expect(clientAddress(makeReq('10.1.1.1'), 1)).toBe('10.1.1.1');
+    expect(clientAddress(makeReq('10.1.1.1', '203.0.113.9'), 2)).toBe('10.1.1.1');
+    expect(clientAddress(makeReq(undefined), 0)).toBe('unknown');
+  });
+});
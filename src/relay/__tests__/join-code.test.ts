@@ -0,0 +1,31 @@
+import { generateJoinCode, normalizeJoinCode, GENERATED_JOIN_CODE_LENGTH } from '../join-code';
+
+describe('join codes', () => {
+  it('generates short codes without look-alike letters', () => {
+    for (let i = 0; i < 50; i++) {
+      const code = generateJoinCode(() => false);
+      expect(code).toHaveLength(GENERATED_JOIN_CODE_LENGTH);
+      expect(code).toMatch(/^[A-HJKMNP-Z]+$/);
+    }
+  });
+
+  it('skips codes that are already taken', () => {
+    const taken = new Set<string>();
+    let attempts = 0;
+    const code = generateJoinCode((candidate) => {
+      attempts++;
+      if (attempts < 3) { taken.add(candidate); return true; }
+      return taken.has(candidate);
+    });
+    expect(attempts).toBeGreaterThanOrEqual(3);
+    expect(taken.has(code)).toBe(false);
+  });
+
+  it('normalizes what people type', () => {
+    expect(normalizeJoinCode(' east ')).toBe('EAST');
+    expect(normalizeJoinCode('HQ2024')).toBeNull();
+    expect(normalizeJoinCode('HQ2345')).toBe('HQ2345');
+    expect(normalizeJoinCode('abc')).toBeNull();
+    expect(normalizeJoinCode('TOOLONGCODE')).toBeNull();
+  });
+});
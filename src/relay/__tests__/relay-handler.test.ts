@@ -1,4 +1,6 @@
 import { createRelayHandler } from '../relay-handler';
+import { ADMIN_TOKEN_TTL_MS, MAX_FAILED_ATTEMPTS, createAdminAuth } from '../admin-auth';
+import { MAX_PLAYER_MESSAGE_BYTES, PLAYER_MESSAGE_BURST } from '../../server/rate-limit';
 import { EventEmitter } from 'events';
 
 class MockWs extends EventEmitter {
@@ -18,6 +20,13 @@ class MockWs extends EventEmitter {
     this.emit('close');
   }
 
+  closeCode: number | null = null;
+
+  close(code: number): void {
+    this.closeCode = code;
+    this.readyState = 3;
+  }
+
   lastMessage(): Record<string, unknown> | null {
     if (this.sent.length === 0) return null;
     return JSON.parse(this.sent[this.sent.length - 1]);
@@ -44,7 +53,7 @@ describe('RelayHandler', () => {
   let playerWs: MockWs;
 
   beforeEach(() => {
-    handler = createRelayHandler(SECRET);
+    handler = createRelayHandler(createAdminAuth([SECRET]));
     adminWs = new MockWs();
     playerWs = new MockWs();
   });
@@ -54,6 +63,11 @@ describe('RelayHandler', () => {
     adminWs.receive({ envelope: 'admin_register', sessionId, secret: SECRET });
   }
 
+  /** The token the relay gave an admin at registration. */
+  function tokenOf(ws: MockWs): string {
+    return ws.messagesOfEnvelope('admin_registered')[0].token as string;
+  }
+
   function connectPlayer(): string {
     handler.handlePlayerConnection(playerWs as any);
     // After connecting, admin should receive player_connected
@@ -143,6 +157,74 @@ describe('RelayHandler', () => {
     });
   });
 
+  describe('flood protection', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('drops a burst beyond the limit and warns the player once', () => {
+      jest.useFakeTimers();
+      registerAdmin();
+      connectPlayer();
+      adminWs.clearSent();
+
+      for (let i = 0; i < PLAYER_MESSAGE_BURST + 5; i++) playerWs.receive({ type: 'submit_answer', answer: 'A' });
+
+      expect(adminWs.messagesOfEnvelope('upstream')).toHaveLength(PLAYER_MESSAGE_BURST);
+      const warnings = playerWs.allMessages().filter((m) => m.code === 'rate_limited');
+      expect(warnings).toEqual([{ type: 'error', code: 'rate_limited', message: 'Too many messages. Slow down.', retryAfterMs: 200 }]);
+    });
+
+    it('forwards again once the bucket refills', () => {
+      jest.useFakeTimers();
+      registerAdmin();
+      connectPlayer();
+      for (let i = 0; i < PLAYER_MESSAGE_BURST + 1; i++) playerWs.receive({ type: 'clock_sync', clientTime: i });
+      adminWs.clearSent();
+
+      jest.advanceTimersByTime(1000);
+      playerWs.receive({ type: 'join', screenName: 'Alice' });
+      expect(adminWs.messagesOfEnvelope('upstream')).toHaveLength(1);
+    });
+
+    it('drops oversized messages without forwarding them', () => {
+      registerAdmin();
+      connectPlayer();
+      adminWs.clearSent();
+
+      playerWs.receive({ type: 'join', screenName: 'x'.repeat(MAX_PLAYER_MESSAGE_BYTES) });
+      expect(adminWs.sent).toHaveLength(0);
+      expect(playerWs.lastMessage()).toMatchObject({ type: 'error', code: 'message_too_large' });
+    });
+
+    it('caps the open player sockets from one source', () => {
+      handler = createRelayHandler(createAdminAuth([SECRET]), { maxConnectionsPerSource: 2 });
+      registerAdmin();
+      const sockets = [new MockWs(), new MockWs(), new MockWs()];
+      for (const ws of sockets) handler.handlePlayerConnection(ws as any, null, '203.0.113.7');
+
+      expect(adminWs.messagesOfEnvelope('player_connected')).toHaveLength(2);
+      expect(sockets[2].lastMessage()).toMatchObject({ type: 'error', code: 'too_many_connections' });
+      expect(sockets[2].closeCode).toBe(1008);
+
+      // Other sources are counted separately
+      handler.handlePlayerConnection(playerWs as any, null, '198.51.100.2');
+      expect(adminWs.messagesOfEnvelope('player_connected')).toHaveLength(3);
+    });
+
+    it('frees a slot when a capped source disconnects', () => {
+      handler = createRelayHandler(createAdminAuth([SECRET]), { maxConnectionsPerSource: 1 });
+      registerAdmin();
+      handler.handlePlayerConnection(playerWs as any, null, '203.0.113.7');
+      playerWs.simulateClose();
+
+      const next = new MockWs();
+      handler.handlePlayerConnection(next as any, null, '203.0.113.7');
+      expect(next.closeCode).toBeNull();
+      expect(adminWs.messagesOfEnvelope('player_connected')).toHaveLength(2);
+    });
+  });
+
   describe('downstream forwarding (admin → player)', () => {
     it('forwards targeted event to the correct player', () => {
       registerAdmin();
@@ -213,7 +295,7 @@ describe('RelayHandler', () => {
       // New admin connects
       const newAdminWs = new MockWs();
       handler.handleAdminConnection(newAdminWs as any);
-      newAdminWs.receive({ envelope: 'admin_register', sessionId: 'sess-1', secret: SECRET });
+      newAdminWs.receive({ envelope: 'admin_register', sessionId: 'sess-1', token: tokenOf(adminWs) });
 
       const registered = newAdminWs.allMessages().find((m) => m.envelope === 'admin_registered');
       expect(registered).toBeDefined();
@@ -233,7 +315,7 @@ describe('RelayHandler', () => {
       // New admin
       const newAdminWs = new MockWs();
       handler.handleAdminConnection(newAdminWs as any);
-      newAdminWs.receive({ envelope: 'admin_register', sessionId: 'sess-1', secret: SECRET });
+      newAdminWs.receive({ envelope: 'admin_register', sessionId: 'sess-1', token: tokenOf(adminWs) });
       newAdminWs.clearSent();
 
       // Player sends command — should go to new admin
@@ -257,15 +339,376 @@ describe('RelayHandler', () => {
     });
   });
 
-  describe('multiple admins', () => {
-    it('rejects a second admin while one is connected', () => {
+  describe('multiple sessions', () => {
+    function registerSession(sessionId: string, joinCode?: string): MockWs {
+      const ws = new MockWs();
+      handler.handleAdminConnection(ws as any);
+      ws.receive({ envelope: 'admin_register', sessionId, secret: SECRET, ...(joinCode ? { joinCode } : {}) });
+      return ws;
+    }
+
+    it('rejects a second admin for a session that already has one', () => {
       registerAdmin();
-      const secondAdmin = new MockWs();
-      handler.handleAdminConnection(secondAdmin as any);
-      secondAdmin.receive({ envelope: 'admin_register', sessionId: 'sess-2', secret: SECRET });
+      const secondAdmin = registerSession('sess-1');
       const msg = secondAdmin.lastMessage();
       expect(msg?.envelope).toBe('admin_error');
       expect((msg?.message as string).toLowerCase()).toContain('already');
     });
+
+    it('assigns each session its own join code', () => {
+      const east = registerSession('sess-east');
+      const west = registerSession('sess-west');
+      const eastCode = east.lastMessage()?.joinCode as string;
+      const westCode = west.lastMessage()?.joinCode as string;
+      expect(eastCode).toMatch(/^[A-Z]{4}$/);
+      expect(westCode).toMatch(/^[A-Z]{4}$/);
+      expect(eastCode).not.toBe(westCode);
+    });
+
+    it('honours a requested join code, case-insensitively, unless it is taken', () => {
+      const east = registerSession('sess-east', 'east');
+      expect(east.lastMessage()).toMatchObject({ envelope: 'admin_registered', sessionId: 'sess-east', joinCode: 'EAST', role: 'primary' });
+
+      const clash = registerSession('sess-other', 'EAST');
+      expect(clash.lastMessage()).toEqual({ envelope: 'admin_error', message: 'Join code EAST is already in use' });
+      const invalid = registerSession('sess-bad', 'no!');
+      expect(invalid.lastMessage()?.envelope).toBe('admin_error');
+    });
+
+    it('routes players and their traffic by join code', () => {
+      const east = registerSession('sess-east', 'EAST');
+      const west = registerSession('sess-west', 'WEST');
+      const eastPlayer = new MockWs();
+      const westPlayer = new MockWs();
+      handler.handlePlayerConnection(eastPlayer as any, 'east');
+      handler.handlePlayerConnection(westPlayer as any, 'WEST');
+
+      expect(east.messagesOfEnvelope('player_connected')).toHaveLength(1);
+      expect(west.messagesOfEnvelope('player_connected')).toHaveLength(1);
+
+      westPlayer.receive({ type: 'join', screenName: 'Wendy' });
+      expect(east.messagesOfEnvelope('upstream')).toHaveLength(0);
+      expect(west.messagesOfEnvelope('upstream')).toHaveLength(1);
+
+      east.receive({ envelope: 'broadcast', event: JSON.stringify({ type: 'game_reset' }) });
+      expect(eastPlayer.lastMessage()?.type).toBe('game_reset');
+      expect(westPlayer.sent).toHaveLength(0);
+    });
+
+    it('tells a player when no session matches their code', () => {
+      registerSession('sess-east', 'EAST');
+      handler.handlePlayerConnection(playerWs as any, 'NOPE');
+      expect(playerWs.lastMessage()).toEqual({ type: 'error', message: 'No game found for code NOPE. Check the code and try again.' });
+    });
+
+    it('needs a code once more than one session is running', () => {
+      registerSession('sess-east', 'EAST');
+      registerSession('sess-west', 'WEST');
+      handler.handlePlayerConnection(playerWs as any);
+      expect(playerWs.lastMessage()?.type).toBe('error');
+    });
+
+    it('frees a join code once its admin and players have all left', () => {
+      const east = registerSession('sess-east', 'EAST');
+      east.simulateClose();
+      const again = registerSession('sess-again', 'EAST');
+      expect(again.lastMessage()?.envelope).toBe('admin_registered');
+    });
+
+    it('keeps the code for a returning admin while players wait', () => {
+      const east = registerSession('sess-east', 'EAST');
+      handler.handlePlayerConnection(playerWs as any, 'EAST');
+      east.simulateClose();
+
+      expect(registerSession('sess-other', 'EAST').lastMessage()?.envelope).toBe('admin_error');
+      const returning = new MockWs();
+      handler.handleAdminConnection(returning as any);
+      returning.receive({ envelope: 'admin_register', sessionId: 'sess-east', token: tokenOf(east) });
+      expect(returning.messagesOfEnvelope('admin_registered')).toMatchObject([{ envelope: 'admin_registered', sessionId: 'sess-east', joinCode: 'EAST', role: 'primary' }]);
+      expect(returning.messagesOfEnvelope('player_roster')).toHaveLength(1);
+    });
+  });
+
+  describe('standby admin', () => {
+    function registerStandby(sessionId = 'sess-1', standbyKey = adminWs.messagesOfEnvelope('admin_registered')[0]?.standbyKey): MockWs {
+      const ws = new MockWs();
+      handler.handleAdminConnection(ws as any);
+      ws.receive({ envelope: 'admin_register', sessionId, secret: SECRET, role: 'standby', standbyKey });
+      return ws;
+    }
+
+    it('gives the primary, and only the primary, a standby key', () => {
+      registerAdmin();
+      expect(adminWs.lastMessage()?.standbyKey).toEqual(expect.any(String));
+      expect(registerStandby().lastMessage()).not.toHaveProperty('standbyKey');
+    });
+
+    it('refuses a standby that has only the relay secret', () => {
+      registerAdmin();
+      adminWs.receive({ envelope: 'state_snapshot', snapshot: '{"tokens":"private"}' });
+      const intruder = new MockWs();
+      handler.handleAdminConnection(intruder as any);
+      intruder.receive({ envelope: 'admin_register', sessionId: 'sess-1', secret: SECRET, role: 'standby' });
+      expect(intruder.allMessages()).toEqual([{ envelope: 'admin_error', message: 'Invalid standby key' }]);
+
+      expect(registerStandby('sess-1', 'guess').allMessages()).toEqual([{ envelope: 'admin_error', message: 'Invalid standby key' }]);
+      adminWs.simulateClose();
+      expect(registerStandby('sess-1', 'guess').messagesOfEnvelope('admin_promoted')).toHaveLength(0);
+    });
+
+    it('registers a standby alongside the primary', () => {
+      registerAdmin();
+      const joinCode = adminWs.lastMessage()?.joinCode;
+      const standby = registerStandby();
+      expect(standby.lastMessage()).toMatchObject({ envelope: 'admin_registered', sessionId: 'sess-1', joinCode, role: 'standby' });
+    });
+
+    it('rejects a standby for an unknown session or a second standby', () => {
+      expect(registerStandby('nope').lastMessage()).toEqual({ envelope: 'admin_error', message: 'No session nope to stand by for' });
+      registerAdmin();
+      registerStandby();
+      expect(registerStandby().lastMessage()).toEqual({ envelope: 'admin_error', message: 'Session sess-1 already has a standby admin' });
+    });
+
+    it('forwards the primary snapshots to the standby and hands the latest to a late standby', () => {
+      registerAdmin();
+      const standby = registerStandby();
+      adminWs.receive({ envelope: 'state_snapshot', snapshot: '{"n":1}' });
+      expect(standby.lastMessage()).toEqual({ envelope: 'state_snapshot', snapshot: '{"n":1}' });
+
+      standby.simulateClose();
+      adminWs.receive({ envelope: 'state_snapshot', snapshot: '{"n":2}' });
+      const late = registerStandby();
+      expect(late.messagesOfEnvelope('state_snapshot')).toEqual([{ envelope: 'state_snapshot', snapshot: '{"n":2}' }]);
+    });
+
+    it('ignores game traffic from the standby', () => {
+      registerAdmin();
+      const standby = registerStandby();
+      const connId = connectPlayer();
+      standby.receive({ envelope: 'downstream', target: connId, event: '{"type":"joined"}' });
+      standby.receive({ envelope: 'broadcast', event: '{"type":"game_reset"}' });
+      expect(playerWs.sent).toHaveLength(0);
+      expect(standby.messagesOfEnvelope('player_connected')).toHaveLength(0);
+    });
+
+    it('promotes the standby when the primary drops, without alarming players', () => {
+      registerAdmin();
+      const standby = registerStandby();
+      const connId = connectPlayer();
+      adminWs.receive({ envelope: 'state_snapshot', snapshot: '{"n":1}' });
+      adminWs.simulateClose();
+
+      expect(standby.lastMessage()).toEqual({ envelope: 'admin_promoted', connections: [connId], lastSeq: 0 });
+      expect(playerWs.sent).toHaveLength(0);
+
+      playerWs.receive({ type: 'submit_answer', answer: 'A' });
+      expect(standby.lastMessage()?.envelope).toBe('upstream');
+      standby.receive({ envelope: 'downstream', target: connId, event: '{"type":"answer_accepted"}' });
+      expect(playerWs.lastMessage()).toEqual({ type: 'answer_accepted' });
+    });
+
+    it('lets a standby that arrives after the primary dropped take over at once', () => {
+      registerAdmin();
+      connectPlayer();
+      adminWs.receive({ envelope: 'state_snapshot', snapshot: '{"n":1}' });
+      adminWs.simulateClose();
+
+      const standby = registerStandby();
+      expect(standby.allMessages().map((m) => m.envelope)).toEqual(['admin_registered', 'state_snapshot', 'admin_promoted']);
+      expect(standby.allMessages()[0].role).toBe('primary');
+    });
+
+    it('turns a returning primary away once the standby has taken over', () => {
+      registerAdmin();
+      registerStandby();
+      adminWs.simulateClose();
+
+      const returning = new MockWs();
+      handler.handleAdminConnection(returning as any);
+      returning.receive({ envelope: 'admin_register', sessionId: 'sess-1', token: tokenOf(adminWs) });
+      expect(returning.lastMessage()).toEqual({ envelope: 'admin_error', message: 'Session sess-1 already has an admin connected' });
+    });
+  });
+
+  describe('admin tokens', () => {
+    function connect(msg: object, source?: string): MockWs {
+      const ws = new MockWs();
+      handler.handleAdminConnection(ws as any, source);
+      ws.receive(msg);
+      return ws;
+    }
+
+    it('lets a dropped admin reclaim its session with its token alone', () => {
+      registerAdmin();
+      const token = adminWs.lastMessage()?.token as string;
+      adminWs.simulateClose();
+
+      const returning = connect({ envelope: 'admin_register', sessionId: 'sess-1', token });
+      expect(returning.lastMessage()).toMatchObject({ envelope: 'admin_registered', sessionId: 'sess-1' });
+    });
+
+    it('refuses to let the relay secret reclaim a running session', () => {
+      registerAdmin();
+      connectPlayer();
+      adminWs.simulateClose();
+
+      const intruder = connect({ envelope: 'admin_register', sessionId: 'sess-1', secret: SECRET });
+      expect(intruder.allMessages()).toEqual([{ envelope: 'admin_error', message: 'Session sess-1 is already running; only its token can reclaim it' }]);
+      const withKey = connect({ envelope: 'admin_register', sessionId: 'sess-1', secret: SECRET, standbyKey: adminWs.messagesOfEnvelope('admin_registered')[0].standbyKey });
+      expect(withKey.lastMessage()?.envelope).toBe('admin_error');
+    });
+
+    it('refuses a token for any other session', () => {
+      registerAdmin();
+      const token = adminWs.lastMessage()?.token as string;
+      const intruder = connect({ envelope: 'admin_register', sessionId: 'sess-2', token });
+      expect(intruder.lastMessage()).toEqual({ envelope: 'admin_error', message: 'Invalid or expired token' });
+    });
+
+    it('refreshes the token of a connected admin before it expires', () => {
+      jest.useFakeTimers();
+      try {
+        registerAdmin();
+        jest.advanceTimersByTime(ADMIN_TOKEN_TTL_MS / 2);
+        const refreshed = adminWs.lastMessage();
+        expect(refreshed).toMatchObject({ envelope: 'admin_token', expiresAt: Date.now() + ADMIN_TOKEN_TTL_MS });
+
+        adminWs.simulateClose();
+        jest.advanceTimersByTime(ADMIN_TOKEN_TTL_MS / 2 + 1);
+        const returning = connect({ envelope: 'admin_register', sessionId: 'sess-1', token: refreshed?.token });
+        expect(returning.lastMessage()?.envelope).toBe('admin_registered');
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('locks a source out after repeated failures, even with the right secret', () => {
+      for (let i = 0; i < MAX_FAILED_ATTEMPTS; i++) {
+        connect({ envelope: 'admin_register', sessionId: 'sess-1', secret: 'guess' }, '203.0.113.9');
+      }
+      const locked = connect({ envelope: 'admin_register', sessionId: 'sess-1', secret: SECRET }, '203.0.113.9');
+      expect(locked.lastMessage()).toEqual({ envelope: 'admin_error', message: 'Too many failed attempts. Try again later.' });
+
+      const elsewhere = connect({ envelope: 'admin_register', sessionId: 'sess-1', secret: SECRET }, '198.51.100.4');
+      expect(elsewhere.lastMessage()?.envelope).toBe('admin_registered');
+    });
+
+    it('accepts a rotated secret without a restart', () => {
+      const auth = createAdminAuth([SECRET]);
+      handler = createRelayHandler(auth);
+      auth.setSecrets(['next-secret', SECRET]);
+      expect(connect({ envelope: 'admin_register', sessionId: 'a', secret: 'next-secret' }).lastMessage()?.envelope).toBe('admin_registered');
+      expect(connect({ envelope: 'admin_register', sessionId: 'b', secret: SECRET }).lastMessage()?.envelope).toBe('admin_registered');
+
+      auth.setSecrets(['next-secret']);
+      expect(connect({ envelope: 'admin_register', sessionId: 'c', secret: SECRET }).lastMessage()?.envelope).toBe('admin_error');
+    });
+  });
+  describe('compact framing', () => {
+    function registerCompact(): void {
+      handler.handleAdminConnection(adminWs as any);
+      adminWs.receive({ envelope: 'admin_register', sessionId: 'sess-1', secret: SECRET, framing: 'compact' });
+    }
+
+    it('agrees to compact framing when the admin offers it', () => {
+      registerCompact();
+      expect(adminWs.lastMessage()).toMatchObject({ envelope: 'admin_registered', framing: 'compact' });
+
+      handler.handlePlayerConnection(playerWs as any);
+      const connId = adminWs.messagesOfEnvelope('player_connected')[0].connectionId as string;
+      adminWs.clearSent();
+      playerWs.receive({ type: 'join', screenName: 'Alice' });
+      expect(adminWs.sent).toEqual([`U ${connId}\n{"type":"join","screenName":"Alice"}`]);
+    });
+
+    it('stays with JSON for an admin that does not offer it', () => {
+      registerAdmin();
+      expect(adminWs.lastMessage()).not.toHaveProperty('framing');
+    });
+
+    it('forwards compact broadcasts to everyone but the excepted connections', () => {
+      registerCompact();
+      const screen = new MockWs();
+      handler.handlePlayerConnection(playerWs as any);
+      handler.handlePlayerConnection(screen as any);
+      const screenId = adminWs.messagesOfEnvelope('player_connected')[1].connectionId as string;
+
+      adminWs.emit('message', Buffer.from(`B 1 ${screenId}\n{"type":"answer_breakdown"}`));
+      expect(playerWs.sent).toEqual(['{"type":"answer_breakdown"}']);
+      expect(screen.sent).toEqual([]);
+    });
+  });
+
+  describe('player state', () => {
+    it('sends each new player the latest state before anything else', () => {
+      registerAdmin();
+      adminWs.receive({ envelope: 'player_state', events: ['{"type":"session_created"}'] });
+      adminWs.receive({ envelope: 'player_state', events: ['{"type":"session_created"}', '{"type":"timer_expired"}'] });
+
+      handler.handlePlayerConnection(playerWs as any);
+      expect(playerWs.allMessages()).toEqual([{ type: 'session_created' }, { type: 'timer_expired' }]);
+    });
+
+    it('keeps the state while the admin reconnects', () => {
+      registerAdmin();
+      connectPlayer();
+      adminWs.receive({ envelope: 'player_state', events: ['{"type":"game_over","winners":[]}'] });
+      adminWs.simulateClose();
+
+      const returning = new MockWs();
+      handler.handleAdminConnection(returning as any);
+      returning.receive({ envelope: 'admin_register', sessionId: 'sess-1', token: tokenOf(adminWs) });
+      const latecomer = new MockWs();
+      handler.handlePlayerConnection(latecomer as any);
+      expect(latecomer.allMessages()).toEqual([{ type: 'game_over', winners: [] }]);
+    });
+
+    it('ignores state from a standby', () => {
+      registerAdmin();
+      const standby = new MockWs();
+      handler.handleAdminConnection(standby as any);
+      const { standbyKey } = adminWs.messagesOfEnvelope('admin_registered')[0];
+      standby.receive({ envelope: 'admin_register', sessionId: 'sess-1', secret: SECRET, role: 'standby', standbyKey });
+      expect(standby.lastMessage()?.role).toBe('standby');
+      standby.receive({ envelope: 'player_state', events: ['{"type":"timer_expired"}'] });
+
+      handler.handlePlayerConnection(playerWs as any);
+      expect(playerWs.sent).toHaveLength(0);
+    });
+  });
+
+  describe('sequenced delivery', () => {
+    it('acknowledges numbered messages', () => {
+      registerAdmin();
+      connectPlayer();
+      adminWs.clearSent();
+
+      adminWs.receive({ envelope: 'broadcast', event: '{"type":"game_reset"}', seq: 1 });
+      expect(adminWs.allMessages()).toEqual([{ envelope: 'ack', seq: 1 }]);
+    });
+
+    it('drops replays the players already have', () => {
+      registerAdmin();
+      const connId = connectPlayer();
+      playerWs.clearSent();
+
+      adminWs.receive({ envelope: 'downstream', target: connId, event: '{"type":"answer_revealed"}', seq: 1 });
+      adminWs.receive({ envelope: 'downstream', target: connId, event: '{"type":"answer_revealed"}', seq: 1 });
+      expect(playerWs.sent).toHaveLength(1);
+      expect(adminWs.lastMessage()).toEqual({ envelope: 'ack', seq: 1 });
+    });
+
+    it('tells a returning admin how far delivery got', () => {
+      registerAdmin();
+      connectPlayer();
+      adminWs.receive({ envelope: 'broadcast', event: '{}', seq: 7 });
+      adminWs.simulateClose();
+
+      const returning = new MockWs();
+      handler.handleAdminConnection(returning as any);
+      returning.receive({ envelope: 'admin_register', sessionId: 'sess-1', token: tokenOf(adminWs) });
+      expect(returning.messagesOfEnvelope('admin_registered')[0]).toMatchObject({ lastSeq: 7 });
+    });
   });
 });
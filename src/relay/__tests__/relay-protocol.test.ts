@@ -41,9 +41,63 @@ describe('relay-protocol', () => {
       expect(msg).toEqual({ envelope: 'admin_register', sessionId: 's1', secret: 'sec' });
     });
 
+    it('parses admin_register with a requested join code', () => {
+      const raw = JSON.stringify({ envelope: 'admin_register', sessionId: 's1', secret: 'sec', joinCode: 'EAST' });
+      expect(parseRelayMessage(raw)).toEqual({ envelope: 'admin_register', sessionId: 's1', secret: 'sec', joinCode: 'EAST' });
+      expect(parseRelayMessage(JSON.stringify({ envelope: 'admin_register', sessionId: 's1', secret: 'sec', joinCode: 42 }))).toBeNull();
+    });
+
+    it('parses admin_register with a token instead of the secret', () => {
+      const raw = JSON.stringify({ envelope: 'admin_register', sessionId: 's1', token: 'tok' });
+      expect(parseRelayMessage(raw)).toEqual({ envelope: 'admin_register', sessionId: 's1', token: 'tok' });
+      expect(parseRelayMessage(JSON.stringify({ envelope: 'admin_register', sessionId: 's1' }))).toBeNull();
+      expect(parseRelayMessage(JSON.stringify({ envelope: 'admin_register', sessionId: 's1', token: 7 }))).toBeNull();
+    });
+
+    it('parses admin_register with a standby key', () => {
+      const raw = JSON.stringify({ envelope: 'admin_register', sessionId: 's1', standbyKey: 'key', role: 'standby' });
+      expect(parseRelayMessage(raw)).toEqual({ envelope: 'admin_register', sessionId: 's1', standbyKey: 'key', role: 'standby' });
+      expect(parseRelayMessage(JSON.stringify({ envelope: 'admin_register', sessionId: 's1', standbyKey: 7 }))).toBeNull();
+    });
+
+    it('parses admin_token', () => {
+      const raw = JSON.stringify({ envelope: 'admin_token', token: 'tok', expiresAt: 1000 });
+      expect(parseRelayMessage(raw)).toEqual({ envelope: 'admin_token', token: 'tok', expiresAt: 1000 });
+      expect(parseRelayMessage(JSON.stringify({ envelope: 'admin_token', token: 'tok' }))).toBeNull();
+    });
+
+    it('parses admin_register with a role', () => {
+      const raw = JSON.stringify({ envelope: 'admin_register', sessionId: 's1', secret: 'sec', role: 'standby' });
+      expect(parseRelayMessage(raw)).toEqual({ envelope: 'admin_register', sessionId: 's1', secret: 'sec', role: 'standby' });
+      expect(parseRelayMessage(JSON.stringify({ envelope: 'admin_register', sessionId: 's1', secret: 'sec', role: 'backup' }))).toBeNull();
+    });
+
     it('parses admin_registered', () => {
-      const raw = JSON.stringify({ envelope: 'admin_registered', sessionId: 's1' });
-      expect(parseRelayMessage(raw)).toEqual({ envelope: 'admin_registered', sessionId: 's1' });
+      const registered = { envelope: 'admin_registered', sessionId: 's1', joinCode: 'KQTR', role: 'primary', token: 'tok', tokenExpiresAt: 1000, lastSeq: 0 };
+      expect(parseRelayMessage(JSON.stringify(registered))).toEqual(registered);
+      expect(parseRelayMessage(JSON.stringify({ ...registered, joinCode: undefined }))).toBeNull();
+      expect(parseRelayMessage(JSON.stringify({ ...registered, role: undefined }))).toBeNull();
+      expect(parseRelayMessage(JSON.stringify({ ...registered, token: undefined }))).toBeNull();
+    });
+
+    it('parses state_snapshot', () => {
+      const raw = JSON.stringify({ envelope: 'state_snapshot', snapshot: '{"session":null}' });
+      expect(parseRelayMessage(raw)).toEqual({ envelope: 'state_snapshot', snapshot: '{"session":null}' });
+      expect(parseRelayMessage(JSON.stringify({ envelope: 'state_snapshot', snapshot: { session: null } }))).toBeNull();
+    });
+
+    it('parses admin_promoted', () => {
+      const raw = JSON.stringify({ envelope: 'admin_promoted', connections: ['c1'], lastSeq: 4 });
+      expect(parseRelayMessage(raw)).toEqual({ envelope: 'admin_promoted', connections: ['c1'], lastSeq: 4 });
+      expect(parseRelayMessage(JSON.stringify({ envelope: 'admin_promoted' }))).toBeNull();
+      expect(parseRelayMessage(JSON.stringify({ envelope: 'admin_promoted', connections: [] }))).toBeNull();
+    });
+
+    it('parses ack and sequence numbers', () => {
+      expect(parseRelayMessage(JSON.stringify({ envelope: 'ack', seq: 3 }))).toEqual({ envelope: 'ack', seq: 3 });
+      expect(parseRelayMessage(JSON.stringify({ envelope: 'ack' }))).toBeNull();
+      expect(parseRelayMessage(JSON.stringify({ envelope: 'broadcast', event: '{}', seq: -1 }))).toBeNull();
+      expect(parseRelayMessage(JSON.stringify({ envelope: 'downstream', target: 'c1', event: '{}', seq: 1.5 }))).toBeNull();
     });
 
     it('parses admin_error', () => {
@@ -107,19 +161,60 @@ describe('relay-protocol', () => {
     it('serialize then parse returns equivalent message', () => {
       const messages: RelayMessage[] = [
         { envelope: 'admin_register', sessionId: 's1', secret: 'sec' },
-        { envelope: 'admin_registered', sessionId: 's1' },
+        { envelope: 'admin_register', sessionId: 's1', secret: 'sec', role: 'standby' },
+        { envelope: 'admin_register', sessionId: 's1', token: 'tok' },
+        { envelope: 'admin_register', sessionId: 's1', secret: 'sec', framing: 'compact' },
+        { envelope: 'admin_registered', sessionId: 's1', joinCode: 'KQTR', role: 'primary', token: 'tok', tokenExpiresAt: 1000, lastSeq: 0 },
+        { envelope: 'admin_registered', sessionId: 's1', joinCode: 'KQTR', role: 'primary', token: 'tok', tokenExpiresAt: 1000, lastSeq: 0, framing: 'compact' },
+        { envelope: 'admin_token', token: 'tok', expiresAt: 1000 },
         { envelope: 'admin_error', message: 'nope' },
+        { envelope: 'state_snapshot', snapshot: '{}' },
+        { envelope: 'admin_promoted', connections: ['c1'], lastSeq: 0 },
+        { envelope: 'ack', seq: 3 },
+        { envelope: 'player_state', events: ['{"type":"timer_expired"}'] },
         { envelope: 'upstream', connectionId: 'c1', command: '{"type":"join"}' },
         { envelope: 'downstream', target: 'c1', event: '{"type":"joined"}' },
         { envelope: 'broadcast', event: '{"type":"game_status"}' },
+        { envelope: 'broadcast', event: '{"type":"game_status"}', seq: 4 },
+        { envelope: 'broadcast', event: '{"type":"game_status"}', seq: 5, except: ['c2'] },
         { envelope: 'player_connected', connectionId: 'c1' },
         { envelope: 'player_disconnected', connectionId: 'c1' },
         { envelope: 'player_roster', connections: ['c1', 'c2'] },
       ];
       for (const msg of messages) {
-        const parsed = parseRelayMessage(serializeRelayMessage(msg));
-        expect(parsed).toEqual(msg);
+        expect(parseRelayMessage(serializeRelayMessage(msg))).toEqual(msg);
+        expect(parseRelayMessage(serializeRelayMessage(msg, 'compact'))).toEqual(msg);
       }
     });
   });
+
+  describe('compact framing', () => {
+    const event = '{"type":"answer_breakdown","counts":{"A":1}}';
+
+    it('puts game traffic after a header line without escaping it', () => {
+      expect(serializeRelayMessage({ envelope: 'broadcast', event, seq: 7 }, 'compact')).toBe(`B 7\n${event}`);
+      expect(serializeRelayMessage({ envelope: 'broadcast', event, seq: 8, except: ['s1', 's2'] }, 'compact')).toBe(`B 8 s1 s2\n${event}`);
+      expect(serializeRelayMessage({ envelope: 'downstream', target: 'c1', event }, 'compact')).toBe(`D - c1\n${event}`);
+      expect(serializeRelayMessage({ envelope: 'upstream', connectionId: 'c1', command: '{"type":"join"}' }, 'compact')).toBe('U c1\n{"type":"join"}');
+    });
+
+    it('keeps JSON for other envelopes and for IDs that cannot go in a header', () => {
+      expect(serializeRelayMessage({ envelope: 'ack', seq: 1 }, 'compact')).toBe('{"envelope":"ack","seq":1}');
+      expect(serializeRelayMessage({ envelope: 'downstream', target: 'c 1', event }, 'compact')[0]).toBe('{');
+    });
+
+    it('is smaller than the JSON envelope', () => {
+      const msg = { envelope: 'broadcast', event, seq: 12 } as const;
+      expect(serializeRelayMessage(msg, 'compact').length).toBeLessThan(serializeRelayMessage(msg).length);
+    });
+
+    it('rejects malformed frames', () => {
+      expect(parseRelayMessage('B 7')).toBeNull();
+      expect(parseRelayMessage('B x\n{}')).toBeNull();
+      expect(parseRelayMessage('D 1\n{}')).toBeNull();
+      expect(parseRelayMessage('U\n{}')).toBeNull();
+      expect(parseRelayMessage('U c1  c2\n{}')).toBeNull();
+      expect(parseRelayMessage('X c1\n{}')).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,155 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/** How long an admin token stays valid; a connected admin is sent a fresh one at half-life. */
+export const ADMIN_TOKEN_TTL_MS = 15 * 60_000;
+/** Failed registrations from one source, within the window, before it is locked out. */
+export const MAX_FAILED_ATTEMPTS = 5;
+export const FAILED_ATTEMPT_WINDOW_MS = 60_000;
+export const LOCKOUT_MS = 5 * 60_000;
+
+export interface AdminToken {
+  token: string;
+  /** Relay time (epoch ms) after which the token is refused. */
+  expiresAt: number;
+}
+
+export interface AdminCredentials {
+  secret?: string;
+  token?: string;
+  standbyKey?: string;
+}
+
+/** What the relay knows of a session that is already running. */
+export interface RunningSession {
+  standbyKey: string;
+}
+
+export type AuthVerdict = 'ok' | 'invalid' | 'locked_out';
+
+export interface AdminAuth {
+  /**
+   * Replaces the accepted secrets without a restart. The first one signs new
+   * tokens; the rest are still accepted so admins can move over. Tokens signed
+   * with a dropped secret stop working.
+   */
+  setSecrets(secrets: string[]): void;
+  /**
+   * Checks an admin's credentials for `sessionId`. A token only opens the session
+   * it was issued for. The secret only starts a session: once it is `running`,
+   * only its token or its standby key open it. `source` identifies the caller
+   * for the failed-attempt lockout.
+   */
+  authenticate(source: string, sessionId: string, credentials: AdminCredentials, running?: RunningSession): AuthVerdict;
+  /** A short-lived token that lets an admin re-register `sessionId` without the secret. */
+  issueToken(sessionId: string): AdminToken;
+  /** A random key for a new session, which its primary hands to a standby host. */
+  issueStandbyKey(): string;
+}
+
+interface FailedAttempts {
+  count: number;
+  windowStart: number;
+  lockedUntil: number;
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function sign(payload: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(payload).digest();
+}
+
+export function createAdminAuth(initialSecrets: string[]): AdminAuth {
+  let secrets: string[] = [];
+  const failures = new Map<string, FailedAttempts>();
+
+  function setSecrets(next: string[]): void {
+    const usable = next.filter((s) => s !== '');
+    if (usable.length === 0) throw new Error('At least one relay secret is required');
+    secrets = [...usable];
+  }
+
+  /** Compares digests so neither the length nor the content of a secret leaks through timing. */
+  function secretMatches(candidate: string): boolean {
+    const given = digest(candidate);
+    let matched = false;
+    for (const secret of secrets) {
+      if (timingSafeEqual(given, digest(secret))) matched = true;
+    }
+    return matched;
+  }
+
+  function standbyKeyMatches(candidate: string, standbyKey: string): boolean {
+    return timingSafeEqual(digest(candidate), digest(standbyKey));
+  }
+
+  function tokenMatches(token: string, sessionId: string): boolean {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return false;
+    const given = Buffer.from(signature, 'base64url');
+    const signed = secrets.some((secret) => {
+      const expected = sign(payload, secret);
+      return given.length === expected.length && timingSafeEqual(given, expected);
+    });
+    if (!signed) return false;
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as { sid?: unknown; exp?: unknown };
+      return claims.sid === sessionId && typeof claims.exp === 'number' && claims.exp > Date.now();
+    } catch {
+      return false;
+    }
+  }
+
+  function isLockedOut(source: string): boolean {
+    const entry = failures.get(source);
+    return entry !== undefined && entry.lockedUntil > Date.now();
+  }
+
+  function recordFailure(source: string): void {
+    const now = Date.now();
+    // Forget sources whose window and lockout have both passed, so the map stays small
+    for (const [key, entry] of failures) {
+      if (entry.lockedUntil <= now && now - entry.windowStart > FAILED_ATTEMPT_WINDOW_MS) failures.delete(key);
+    }
+    const entry = failures.get(source) ?? { count: 0, windowStart: now, lockedUntil: 0 };
+    if (now - entry.windowStart > FAILED_ATTEMPT_WINDOW_MS) {
+      entry.count = 0;
+      entry.windowStart = now;
+    }
+    entry.count++;
+    if (entry.count >= MAX_FAILED_ATTEMPTS) entry.lockedUntil = now + LOCKOUT_MS;
+    failures.set(source, entry);
+  }
+
+  setSecrets(initialSecrets);
+
+  return {
+    setSecrets,
+
+    authenticate(source: string, sessionId: string, credentials: AdminCredentials, running?: RunningSession): AuthVerdict {
+      if (isLockedOut(source)) return 'locked_out';
+      let valid: boolean;
+      if (credentials.token !== undefined) valid = tokenMatches(credentials.token, sessionId);
+      else if (running) valid = credentials.standbyKey !== undefined && standbyKeyMatches(credentials.standbyKey, running.standbyKey);
+      else valid = credentials.secret !== undefined && secretMatches(credentials.secret);
+      if (!valid) {
+        recordFailure(source);
+        return 'invalid';
+      }
+      failures.delete(source);
+      return 'ok';
+    },
+
+    issueToken(sessionId: string): AdminToken {
+      const expiresAt = Date.now() + ADMIN_TOKEN_TTL_MS;
+      const payload = Buffer.from(JSON.stringify({ sid: sessionId, exp: expiresAt })).toString('base64url');
+      return { token: `${payload}.${sign(payload, secrets[0]).toString('base64url')}`, expiresAt };
+    },
+
+    issueStandbyKey(): string {
+      return randomBytes(24).toString('base64url');
+    },
+  };
+}
@@ -0,0 +1,15 @@
+import type * as http from 'http';
+
+/**
+ * The caller's address, for the failed-attempt lockout and the connection cap.
+ * `X-Forwarded-For` is only believed behind `trustedProxies` proxies: each one
+ * appends the address it saw, so the caller is that many hops from the end.
+ * Without a proxy the header is whatever the caller chose to send, and is ignored.
+ */
+export function clientAddress(req: http.IncomingMessage, trustedProxies: number): string {
+  const direct = req.socket.remoteAddress ?? 'unknown';
+  if (trustedProxies <= 0) return direct;
+  const forwarded = req.headers['x-forwarded-for'];
+  const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded ?? '').split(',').map((h) => h.trim()).filter(Boolean);
+  return hops[hops.length - trustedProxies] ?? direct;
+}
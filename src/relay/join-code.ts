@@ -0,0 +1,24 @@
+import { randomInt } from 'crypto';
+
+// Join codes are read aloud and typed on phones, so the alphabet leaves out
+// look-alikes (0/O, 1/I/L) and generated codes are all letters.
+const GENERATED_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ';
+const JOIN_CODE_PATTERN = /^[A-Z2-9]{4,8}$/;
+
+export const GENERATED_JOIN_CODE_LENGTH = 4;
+
+export function generateJoinCode(isTaken: (code: string) => boolean): string {
+  for (;;) {
+    let code = '';
+    for (let i = 0; i < GENERATED_JOIN_CODE_LENGTH; i++) {
+      code += GENERATED_ALPHABET[randomInt(GENERATED_ALPHABET.length)];
+    }
+    if (!isTaken(code)) return code;
+  }
+}
+
+/** Uppercases and trims a code typed by a person; null if it cannot be a join code. */
+export function normalizeJoinCode(raw: string): string | null {
+  const code = raw.trim().toUpperCase();
+  return JOIN_CODE_PATTERN.test(code) ? code : null;
+}
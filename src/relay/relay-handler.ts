@@ -1,26 +1,60 @@
 import { randomUUID } from 'crypto';
 import type WebSocket from 'ws';
-import { parseRelayMessage } from './relay-protocol';
-import type { RelayMessage } from './relay-protocol';
+import { parseRelayMessage, serializeRelayMessage } from './relay-protocol';
+import type { AdminRegisteredMessage, AdminRole, RelayFraming, RelayMessage } from './relay-protocol';
+import { generateJoinCode, normalizeJoinCode } from './join-code';
+import { ADMIN_TOKEN_TTL_MS, type AdminAuth } from './admin-auth';
+import { MAX_CONNECTIONS_PER_SOURCE, MAX_PLAYER_MESSAGE_BYTES, createMessageThrottle, messageBytes } from '../server/rate-limit';
 
 export interface RelayHandler {
-  handleAdminConnection(ws: WebSocket): void;
-  handlePlayerConnection(ws: WebSocket): void;
+  /** `source` identifies the caller (its address) for the failed-attempt lockout. */
+  handleAdminConnection(ws: WebSocket, source?: string): void;
+  /**
+   * `joinCode` comes from the player's `?session=` parameter; null when absent.
+   * `source` (the player's address) counts towards the per-source connection cap.
+   */
+  handlePlayerConnection(ws: WebSocket, joinCode?: string | null, source?: string): void;
 }
 
-export function createRelayHandler(secret: string): RelayHandler {
-  let adminWs: WebSocket | null = null;
-  let adminRegistered = false;
-  const playerConnections = new Map<string, WebSocket>();
-  const wsToConnectionId = new Map<WebSocket, string>();
+export interface RelayHandlerOptions {
+  /** Open player sockets accepted from one source; defaults to MAX_CONNECTIONS_PER_SOURCE. */
+  maxConnectionsPerSource?: number;
+}
 
-  function sendToAdmin(msg: RelayMessage): void {
-    if (adminWs && adminWs.readyState === adminWs.OPEN) {
-      adminWs.send(JSON.stringify(msg));
-    }
-  }
+/** Closes a socket that broke the relay's policy, e.g. one connection too many. */
+const POLICY_VIOLATION = 1008;
 
-  function sendToPlayer(ws: WebSocket, data: string): void {
+/**
+ * One townhall: the admin that registered it, an optional standby admin, and
+ * the players who joined by its code. Outlives a dropped admin connection so
+ * the same admin can reclaim it.
+ */
+interface RelaySession {
+  sessionId: string;
+  joinCode: string;
+  adminWs: WebSocket | null;
+  standbyWs: WebSocket | null;
+  /** The primary's most recent state_snapshot, handed to whichever standby takes over. */
+  lastSnapshot: string | null;
+  /** Highest downstream/broadcast seq delivered; replays at or below it are dropped. */
+  lastSeq: number;
+  /** The primary's latest player_state, sent to every player as they connect. */
+  playerState: string[];
+  /** Given to the primary; the only way besides a token for another admin to join. */
+  standbyKey: string;
+  players: Map<string, WebSocket>;
+}
+
+export function createRelayHandler(auth: AdminAuth, options: RelayHandlerOptions = {}): RelayHandler {
+  const maxConnectionsPerSource = options.maxConnectionsPerSource ?? MAX_CONNECTIONS_PER_SOURCE;
+  const sessionsById = new Map<string, RelaySession>();
+  const sessionsByCode = new Map<string, RelaySession>();
+  /** The framing each registered admin connection agreed to. */
+  const framings = new WeakMap<WebSocket, RelayFraming>();
+  /** Open player sockets per source address. */
+  const connectionsBySource = new Map<string, number>();
+
+  function send(ws: WebSocket, data: string): void {
     try {
       if (ws.readyState === ws.OPEN) {
         ws.send(data);
@@ -30,90 +64,260 @@ export function createRelayHandler(secret: string): RelayHandler {
     }
   }
 
-  function handleAdminMessage(raw: string): void {
-    const msg = parseRelayMessage(raw);
-    if (!msg) return;
+  function sendToAdmin(ws: WebSocket | null, msg: RelayMessage): void {
+    if (ws) send(ws, serializeRelayMessage(msg, framings.get(ws)));
+  }
+
+  function dropIfAbandoned(session: RelaySession): void {
+    if (session.adminWs || session.standbyWs || session.players.size > 0) return;
+    sessionsById.delete(session.sessionId);
+    sessionsByCode.delete(session.joinCode);
+  }
 
-    if (!adminRegistered) {
-      if (msg.envelope !== 'admin_register') {
-        sendToAdmin({ envelope: 'admin_error', message: 'Must register first' });
-        return;
+  /** The session a player asked for; without a code, the only session running. */
+  function findSession(joinCode: string | null): RelaySession | null {
+    if (joinCode === null) {
+      return sessionsByCode.size === 1 ? [...sessionsByCode.values()][0] : null;
+    }
+    const code = normalizeJoinCode(joinCode);
+    return code !== null ? sessionsByCode.get(code) ?? null : null;
+  }
+
+  /** Makes `ws` the session's primary, resuming from the last snapshot the old primary sent. */
+  function promote(session: RelaySession, ws: WebSocket): void {
+    session.adminWs = ws;
+    if (session.lastSnapshot !== null) {
+      sendToAdmin(ws, { envelope: 'state_snapshot', snapshot: session.lastSnapshot });
+    }
+    sendToAdmin(ws, { envelope: 'admin_promoted', connections: Array.from(session.players.keys()), lastSeq: session.lastSeq });
+  }
+
+  /** Acknowledges a numbered message; false when it is a replay the players already have. */
+  function accept(session: RelaySession, ws: WebSocket, seq: number | undefined): boolean {
+    if (seq === undefined) return true;
+    sendToAdmin(ws, { envelope: 'ack', seq });
+    if (seq <= session.lastSeq) return false;
+    session.lastSeq = seq;
+    return true;
+  }
+
+  function confirm(ws: WebSocket, session: RelaySession, role: AdminRole, framing: RelayFraming): void {
+    const { token, expiresAt } = auth.issueToken(session.sessionId);
+    const registered: AdminRegisteredMessage = {
+      envelope: 'admin_registered',
+      sessionId: session.sessionId,
+      joinCode: session.joinCode,
+      role,
+      token,
+      tokenExpiresAt: expiresAt,
+      lastSeq: session.lastSeq,
+    };
+    if (framing === 'compact') registered.framing = framing;
+    if (role === 'primary') registered.standbyKey = session.standbyKey;
+    sendToAdmin(ws, registered);
+    framings.set(ws, framing);
+  }
+
+  function register(ws: WebSocket, source: string, msg: Extract<RelayMessage, { envelope: 'admin_register' }>): RelaySession | null {
+    let session = sessionsById.get(msg.sessionId);
+    // The relay secret only starts sessions; a running one takes its own token, or its standby key
+    const credentials = { secret: msg.secret, token: msg.token, standbyKey: msg.role === 'standby' ? msg.standbyKey : undefined };
+    const verdict = auth.authenticate(source, msg.sessionId, credentials, session);
+    if (verdict !== 'ok') {
+      const message = verdict === 'locked_out' ? 'Too many failed attempts. Try again later.'
+        : msg.token !== undefined ? 'Invalid or expired token'
+        : !session ? 'Invalid secret'
+        : msg.role === 'standby' ? 'Invalid standby key'
+        : `Session ${msg.sessionId} is already running; only its token can reclaim it`;
+      sendToAdmin(ws, { envelope: 'admin_error', message });
+      return null;
+    }
+
+    const framing: RelayFraming = msg.framing === 'compact' ? 'compact' : 'json';
+    if (msg.role === 'standby') {
+      if (!session) {
+        sendToAdmin(ws, { envelope: 'admin_error', message: `No session ${msg.sessionId} to stand by for` });
+        return null;
       }
-      if (msg.secret !== secret) {
-        sendToAdmin({ envelope: 'admin_error', message: 'Invalid secret' });
-        return;
+      if (!session.adminWs) {
+        // The primary is already gone, so the standby takes over straight away
+        confirm(ws, session, 'primary', framing);
+        promote(session, ws);
+        return session;
       }
-      adminRegistered = true;
-      sendToAdmin({ envelope: 'admin_registered', sessionId: msg.sessionId });
-      // Send roster of existing player connections
-      if (playerConnections.size > 0) {
-        sendToAdmin({
-          envelope: 'player_roster',
-          connections: Array.from(playerConnections.keys()),
-        });
+      if (session.standbyWs) {
+        sendToAdmin(ws, { envelope: 'admin_error', message: `Session ${msg.sessionId} already has a standby admin` });
+        return null;
       }
-      return;
+      session.standbyWs = ws;
+      confirm(ws, session, 'standby', framing);
+      if (session.lastSnapshot !== null) {
+        sendToAdmin(ws, { envelope: 'state_snapshot', snapshot: session.lastSnapshot });
+      }
+      return session;
     }
 
-    switch (msg.envelope) {
-      case 'downstream': {
-        const playerWs = playerConnections.get(msg.target);
-        if (playerWs) {
-          sendToPlayer(playerWs, msg.event);
-        }
-        break;
+    if (session) {
+      if (session.adminWs) {
+        sendToAdmin(ws, { envelope: 'admin_error', message: `Session ${msg.sessionId} already has an admin connected` });
+        return null;
       }
-      case 'broadcast': {
-        for (const ws of playerConnections.values()) {
-          sendToPlayer(ws, msg.event);
+    } else {
+      let joinCode: string;
+      if (msg.joinCode !== undefined) {
+        const requested = normalizeJoinCode(msg.joinCode);
+        if (requested === null) {
+          sendToAdmin(ws, { envelope: 'admin_error', message: 'Join code must be 4 to 8 letters or digits 2-9' });
+          return null;
+        }
+        if (sessionsByCode.has(requested)) {
+          sendToAdmin(ws, { envelope: 'admin_error', message: `Join code ${requested} is already in use` });
+          return null;
         }
-        break;
+        joinCode = requested;
+      } else {
+        joinCode = generateJoinCode((code) => sessionsByCode.has(code));
       }
+      session = { sessionId: msg.sessionId, joinCode, adminWs: null, standbyWs: null, lastSnapshot: null, lastSeq: 0, playerState: [], players: new Map(), standbyKey: auth.issueStandbyKey() };
+      sessionsById.set(session.sessionId, session);
+      sessionsByCode.set(joinCode, session);
     }
+
+    session.adminWs = ws;
+    confirm(ws, session, 'primary', framing);
+    // Send roster of existing player connections
+    if (session.players.size > 0) {
+      sendToAdmin(ws, {
+        envelope: 'player_roster',
+        connections: Array.from(session.players.keys()),
+      });
+    }
+    return session;
   }
 
   return {
-    handleAdminConnection(ws: WebSocket): void {
-      // Reject if admin already connected
-      if (adminWs && adminWs.readyState === adminWs.OPEN) {
-        ws.send(JSON.stringify({ envelope: 'admin_error', message: 'Admin already connected' }));
-        return;
-      }
-
-      adminWs = ws;
-      adminRegistered = false;
+    handleAdminConnection(ws: WebSocket, source = 'unknown'): void {
+      let session: RelaySession | null = null;
+      let tokenRefresh: ReturnType<typeof setInterval> | null = null;
 
       ws.on('message', (data: WebSocket.RawData) => {
-        handleAdminMessage(data.toString());
+        const msg = parseRelayMessage(data.toString());
+        if (!msg) return;
+
+        if (!session) {
+          if (msg.envelope !== 'admin_register') {
+            sendToAdmin(ws, { envelope: 'admin_error', message: 'Must register first' });
+            return;
+          }
+          session = register(ws, source, msg);
+          if (session) {
+            const { sessionId } = session;
+            // Keeps a long-running admin holding a token it can reconnect with
+            tokenRefresh = setInterval(() => {
+              const { token, expiresAt } = auth.issueToken(sessionId);
+              sendToAdmin(ws, { envelope: 'admin_token', token, expiresAt });
+            }, ADMIN_TOKEN_TTL_MS / 2);
+            tokenRefresh.unref?.();
+          }
+          return;
+        }
+
+        // A standby only listens until it is promoted
+        if (session.adminWs !== ws) return;
+
+        switch (msg.envelope) {
+          case 'state_snapshot':
+            session.lastSnapshot = msg.snapshot;
+            sendToAdmin(session.standbyWs, msg);
+            break;
+          case 'player_state':
+            session.playerState = msg.events;
+            break;
+          case 'downstream': {
+            if (!accept(session, ws, msg.seq)) break;
+            const playerWs = session.players.get(msg.target);
+            if (playerWs) {
+              send(playerWs, msg.event);
+            }
+            break;
+          }
+          case 'broadcast': {
+            if (!accept(session, ws, msg.seq)) break;
+            const except = new Set(msg.except);
+            for (const [connectionId, playerWs] of session.players) {
+              if (!except.has(connectionId)) send(playerWs, msg.event);
+            }
+            break;
+          }
+        }
       });
 
       ws.on('close', () => {
-        if (ws === adminWs) {
-          adminWs = null;
-          adminRegistered = false;
-          // Notify all players
-          const errorEvent = JSON.stringify({ type: 'error', message: 'Game host disconnected. Reconnecting...' });
-          for (const playerWs of playerConnections.values()) {
-            sendToPlayer(playerWs, errorEvent);
-          }
+        if (tokenRefresh) clearInterval(tokenRefresh);
+        if (!session) return;
+        if (session.standbyWs === ws) {
+          session.standbyWs = null;
+          dropIfAbandoned(session);
+          return;
+        }
+        if (session.adminWs !== ws) return;
+        session.adminWs = null;
+        if (session.standbyWs) {
+          // Players stay connected to the relay, so the hand-over is invisible to them
+          const standby = session.standbyWs;
+          session.standbyWs = null;
+          promote(session, standby);
+          return;
+        }
+        // Notify the session's players
+        const errorEvent = JSON.stringify({ type: 'error', message: 'Game host disconnected. Reconnecting...' });
+        for (const playerWs of session.players.values()) {
+          send(playerWs, errorEvent);
         }
+        dropIfAbandoned(session);
       });
     },
 
-    handlePlayerConnection(ws: WebSocket): void {
-      if (!adminWs || !adminRegistered) {
-        ws.send(JSON.stringify({ type: 'error', message: 'Game session not available yet. Please try again shortly.' }));
+    handlePlayerConnection(ws: WebSocket, joinCode: string | null = null, source?: string): void {
+      if (source !== undefined && (connectionsBySource.get(source) ?? 0) >= maxConnectionsPerSource) {
+        send(ws, JSON.stringify({ type: 'error', code: 'too_many_connections', message: 'Too many connections from your network. Close other tabs and try again.' }));
+        ws.close(POLICY_VIOLATION);
+        return;
+      }
+
+      const session = findSession(joinCode);
+      if (!session) {
+        const message = joinCode === null
+          ? 'Game session not available yet. Please try again shortly.'
+          : `No game found for code ${joinCode.trim().toUpperCase()}. Check the code and try again.`;
+        send(ws, JSON.stringify({ type: 'error', message }));
+        return;
+      }
+      if (!session.adminWs) {
+        send(ws, JSON.stringify({ type: 'error', message: 'Game session not available yet. Please try again shortly.' }));
         return;
       }
 
       const connectionId = randomUUID();
-      playerConnections.set(connectionId, ws);
-      wsToConnectionId.set(ws, connectionId);
+      session.players.set(connectionId, ws);
+      if (source !== undefined) connectionsBySource.set(source, (connectionsBySource.get(source) ?? 0) + 1);
+      // Lands a refreshed phone on the current screen without waiting for the next broadcast
+      for (const event of session.playerState) send(ws, event);
+
+      sendToAdmin(session.adminWs, { envelope: 'player_connected', connectionId });
 
-      sendToAdmin({ envelope: 'player_connected', connectionId });
+      // Floods stop here rather than on the admin's laptop
+      const allow = createMessageThrottle((retryAfterMs) => {
+        send(ws, JSON.stringify({ type: 'error', code: 'rate_limited', message: 'Too many messages. Slow down.', retryAfterMs }));
+      });
 
       ws.on('message', (data: WebSocket.RawData) => {
-        sendToAdmin({
+        if (messageBytes(data) > MAX_PLAYER_MESSAGE_BYTES) {
+          send(ws, JSON.stringify({ type: 'error', code: 'message_too_large', message: `Messages are limited to ${MAX_PLAYER_MESSAGE_BYTES} bytes` }));
+          return;
+        }
+        if (!allow()) return;
+        sendToAdmin(session.adminWs, {
           envelope: 'upstream',
           connectionId,
           command: data.toString(),
@@ -121,12 +325,17 @@ export function createRelayHandler(secret: string): RelayHandler {
       });
 
       ws.on('close', () => {
-        playerConnections.delete(connectionId);
-        wsToConnectionId.delete(ws);
-        sendToAdmin({
+        session.players.delete(connectionId);
+        if (source !== undefined) {
+          const open = (connectionsBySource.get(source) ?? 1) - 1;
+          if (open > 0) connectionsBySource.set(source, open);
+          else connectionsBySource.delete(source);
+        }
+        sendToAdmin(session.adminWs, {
           envelope: 'player_disconnected',
           connectionId,
         });
+        dropIfAbandoned(session);
       });
     },
   };
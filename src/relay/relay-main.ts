@@ -1,22 +1,68 @@
+import * as fs from 'fs';
 import * as http from 'http';
 import * as path from 'path';
 import { WebSocketServer } from 'ws';
 import { handleStaticRequest } from '../server/http-server';
 import { createRelayHandler } from './relay-handler';
+import { createAdminAuth } from './admin-auth';
+import { clientAddress } from './client-address';
 import { handleVersionRequest } from './version-handler';
 import { attachHeartbeat } from '../server/heartbeat';
+import { PER_MESSAGE_DEFLATE } from '../server/compression';
+import { MAX_HOST_MESSAGE_BYTES, MAX_PLAYER_MESSAGE_BYTES } from '../server/rate-limit';
+
+/** A whole-number setting, or exit: a typo must not quietly switch a protection off. */
+function intFromEnv(name: string, min: number): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    console.error(`${name} must be a whole number of at least ${min} — got "${raw}"`);
+    process.exit(1);
+  }
+  return value;
+}
 
 const PORT = parseInt(process.env.PORT ?? '10000', 10);
-const RELAY_SECRET = process.env.RELAY_SECRET ?? '';
+// RELAY_SECRET_FILE, when set, is re-read on SIGHUP so secrets rotate without a restart
+const RELAY_SECRET_FILE = process.env.RELAY_SECRET_FILE ?? '';
 const PUBLIC_DIR = path.resolve(__dirname, '../../public');
+// Question images are served from MEDIA_DIR at /media/; by default, public/media
+const MEDIA_DIR = process.env.MEDIA_DIR ? path.resolve(process.env.MEDIA_DIR) : path.join(PUBLIC_DIR, 'media');
+// Open player sockets per address; raise it for a venue whose whole Wi-Fi shares one
+const MAX_CONNECTIONS_PER_IP = intFromEnv('MAX_CONNECTIONS_PER_IP', 1);
+// Proxies in front of the relay whose X-Forwarded-For is believed; 0 (the default) ignores the header
+const TRUST_PROXY = intFromEnv('TRUST_PROXY', 0) ?? 0;
 
 const sha = process.env.RENDER_GIT_COMMIT ?? 'unknown';
 const startedAt = new Date().toISOString();
 
-if (!RELAY_SECRET) {
-  console.error('RELAY_SECRET environment variable is required');
+/**
+ * Accepted admin secrets, newest first: one per line (or comma-separated) in
+ * RELAY_SECRET_FILE, or RELAY_SECRET. Older entries keep working while admins
+ * move over to the first.
+ */
+function loadSecrets(): string[] {
+  const raw = RELAY_SECRET_FILE ? fs.readFileSync(RELAY_SECRET_FILE, 'utf8') : process.env.RELAY_SECRET ?? '';
+  return raw.split(/[\n,]/).map((s) => s.trim()).filter((s) => s !== '');
+}
+
+const secrets = loadSecrets();
+if (secrets.length === 0) {
+  console.error('RELAY_SECRET or RELAY_SECRET_FILE environment variable is required');
   process.exit(1);
 }
+const auth = createAdminAuth(secrets);
+
+process.on('SIGHUP', () => {
+  try {
+    const next = loadSecrets();
+    auth.setSecrets(next);
+    console.log(`Relay secrets reloaded (${next.length} accepted)`);
+  } catch (err: unknown) {
+    console.error(`Keeping the current relay secrets: ${err instanceof Error ? err.message : err}`);
+  }
+});
 
 const server = http.createServer((req, res) => {
   const url = req.url ?? '/';
@@ -24,24 +70,36 @@ const server = http.createServer((req, res) => {
     handleVersionRequest(req, res, sha, startedAt);
     return;
   }
-  handleStaticRequest(req, res, PUBLIC_DIR, 'relay');
+  handleStaticRequest(req, res, PUBLIC_DIR, 'relay', MEDIA_DIR);
 });
 
-const wss = new WebSocketServer({ server });
-const relay = createRelayHandler(RELAY_SECRET);
-attachHeartbeat(wss);
+// Two servers so a player's frame is capped before ws buffers it, while the admin can still send a whole snapshot
+const adminWss = new WebSocketServer({ noServer: true, perMessageDeflate: PER_MESSAGE_DEFLATE, maxPayload: MAX_HOST_MESSAGE_BYTES });
+const playerWss = new WebSocketServer({ noServer: true, perMessageDeflate: PER_MESSAGE_DEFLATE, maxPayload: MAX_PLAYER_MESSAGE_BYTES });
+const relay = createRelayHandler(auth, { maxConnectionsPerSource: MAX_CONNECTIONS_PER_IP });
+attachHeartbeat(adminWss);
+attachHeartbeat(playerWss);
 
-wss.on('connection', (ws, req) => {
-  const url = req.url ?? '/';
-  if (url === '/admin') {
-    relay.handleAdminConnection(ws);
-  } else {
-    relay.handlePlayerConnection(ws);
-  }
+server.on('upgrade', (req, socket, head) => {
+  const wss = new URL(req.url ?? '/', 'http://relay').pathname === '/admin' ? adminWss : playerWss;
+  wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+});
+
+// ws closes a socket itself on a protocol error such as an oversized frame (1009); unheard, the error would end the process
+for (const wss of [adminWss, playerWss]) wss.on('connection', (ws) => ws.on('error', () => {}));
+
+adminWss.on('connection', (ws, req) => {
+  relay.handleAdminConnection(ws, clientAddress(req, TRUST_PROXY));
+});
+
+playerWss.on('connection', (ws, req) => {
+  // Players and broadcast screens pick their townhall with ?session=CODE
+  const url = new URL(req.url ?? '/', 'http://relay');
+  relay.handlePlayerConnection(ws, url.searchParams.get('session'), clientAddress(req, TRUST_PROXY));
 });
 
 server.listen(PORT, () => {
   console.log(`Relay server running on port ${PORT}`);
-  console.log(`Player page: http://localhost:${PORT}/`);
+  console.log(`Player page: http://localhost:${PORT}/play?session=CODE`);
   console.log(`Admin connects to: ws://localhost:${PORT}/admin`);
 });
@@ -1,15 +1,60 @@
 // Relay envelope protocol for admin ↔ cloud WebSocket multiplexing
 
+/**
+ * A session has one primary admin, which runs the game, and at most one
+ * standby, which mirrors its snapshots and takes over if the primary drops.
+ */
+export type AdminRole = 'primary' | 'standby';
+
+/**
+ * How game traffic (upstream, downstream, broadcast) is framed. `json` wraps
+ * each event as an escaped string inside a JSON envelope; `compact` puts a
+ * one-line header before the raw event, so nothing is escaped and the relay
+ * forwards events without parsing them. Everything else is always JSON.
+ */
+export type RelayFraming = 'json' | 'compact';
+
 // Admin → Cloud: registration handshake
 export interface AdminRegisterMessage {
   envelope: 'admin_register';
   sessionId: string;
-  secret: string;
+  /** The relay secret; only starts a new session. Omitted when `token` is sent. */
+  secret?: string;
+  /** A token from `admin_registered` or `admin_token`, valid only for this sessionId. */
+  token?: string;
+  /** The `standbyKey` the session's primary was given; lets a standby join a running session. */
+  standbyKey?: string;
+  /** Requested join code; the relay picks one when absent. Ignored when reclaiming a session. */
+  joinCode?: string;
+  /** Defaults to primary. A standby joins an existing session by its sessionId. */
+  role?: AdminRole;
+  /** Offered by an admin that can read compact frames; the relay answers with the framing both sides use. */
+  framing?: RelayFraming;
 }
 
 export interface AdminRegisteredMessage {
   envelope: 'admin_registered';
   sessionId: string;
+  /** The code players use to reach this session: /play?session=CODE */
+  joinCode: string;
+  /** A standby that finds no primary is registered as the primary. */
+  role: AdminRole;
+  /** Lets this admin re-register the session without the secret until `tokenExpiresAt`. */
+  token: string;
+  tokenExpiresAt: number;
+  /** Highest downstream/broadcast `seq` the relay has delivered for this session. */
+  lastSeq: number;
+  /** Present when the admin offered compact framing and the relay accepted; json otherwise. */
+  framing?: RelayFraming;
+  /** Sent to a primary: what a standby for this session registers with. */
+  standbyKey?: string;
+}
+
+// Cloud → Admin: a fresh token, sent before the current one expires
+export interface AdminTokenMessage {
+  envelope: 'admin_token';
+  token: string;
+  expiresAt: number;
 }
 
 export interface AdminErrorMessage {
@@ -17,6 +62,21 @@ export interface AdminErrorMessage {
   message: string;
 }
 
+// Primary → Cloud → Standby: the primary's latest session state
+export interface StateSnapshotMessage {
+  envelope: 'state_snapshot';
+  snapshot: string; // raw JSON of the admin's session snapshot
+}
+
+// Cloud → Standby: the primary has gone and this admin now runs the session
+export interface AdminPromotedMessage {
+  envelope: 'admin_promoted';
+  /** Player connections open at the hand-over. */
+  connections: string[];
+  /** As in admin_registered; the new primary numbers its messages after it. */
+  lastSeq: number;
+}
+
 // Cloud → Admin: player connection lifecycle
 export interface PlayerConnectedMessage {
   envelope: 'player_connected';
@@ -40,34 +100,144 @@ export interface UpstreamMessage {
   command: string; // raw JSON of a player Command
 }
 
-// Admin → Cloud: event forwarding
+// Admin → Cloud: event forwarding. `seq` numbers each message so the admin can
+// replay what the relay has not acknowledged after a reconnect; the relay
+// drops any seq it has already delivered.
 export interface DownstreamMessage {
   envelope: 'downstream';
   target: string; // connectionId
   event: string;  // raw JSON of a ServerEvent
+  seq?: number;
 }
 
 export interface BroadcastMessage {
   envelope: 'broadcast';
   event: string; // raw JSON of a ServerEvent
+  seq?: number;
+  /** Connections to skip, such as broadcast screens that get a fuller copy of the event. */
+  except?: string[];
+}
+
+// Admin → Cloud: the current screen, replacing the last one; the relay sends
+// these events to each player as soon as they connect
+export interface PlayerStateMessage {
+  envelope: 'player_state';
+  events: string[]; // raw JSON of ServerEvents
+}
+
+// Cloud → Admin: every downstream/broadcast up to and including `seq` has been handled
+export interface AckMessage {
+  envelope: 'ack';
+  seq: number;
 }
 
 export type RelayMessage =
   | AdminRegisterMessage
   | AdminRegisteredMessage
   | AdminErrorMessage
+  | AdminTokenMessage
+  | StateSnapshotMessage
+  | AdminPromotedMessage
   | PlayerConnectedMessage
   | PlayerDisconnectedMessage
   | PlayerRosterMessage
   | UpstreamMessage
   | DownstreamMessage
-  | BroadcastMessage;
+  | BroadcastMessage
+  | PlayerStateMessage
+  | AckMessage;
+
+const ADMIN_ROLES = new Set<string>(['primary', 'standby']);
+const FRAMINGS = new Set<string>(['json', 'compact']);
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((c: unknown) => typeof c === 'string');
+}
+
+function isSeq(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
 
-export function serializeRelayMessage(msg: RelayMessage): string {
+// ── Compact framing ──────────────────────────────────────────────────────────
+// A header line of space-separated fields, a newline, then the raw payload:
+//   U <connectionId>\n<command>
+//   D <seq|-> <target>\n<event>
+//   B <seq|-> [<except> ...]\n<event>
+
+/** Connection IDs go in the header, so they must not contain its separators. */
+const HEADER_FIELD = /^[^\s]+$/;
+
+function seqField(seq: number | undefined): string {
+  return seq === undefined ? '-' : String(seq);
+}
+
+function compactFrame(msg: RelayMessage): string | null {
+  switch (msg.envelope) {
+    case 'upstream':
+      return HEADER_FIELD.test(msg.connectionId) ? `U ${msg.connectionId}\n${msg.command}` : null;
+    case 'downstream':
+      return HEADER_FIELD.test(msg.target) ? `D ${seqField(msg.seq)} ${msg.target}\n${msg.event}` : null;
+    case 'broadcast': {
+      const except = msg.except ?? [];
+      if (!except.every((id) => HEADER_FIELD.test(id))) return null;
+      return [`B ${seqField(msg.seq)}`, ...except].join(' ') + `\n${msg.event}`;
+    }
+    default:
+      return null;
+  }
+}
+
+function parseCompactFrame(raw: string): RelayMessage | null {
+  const newline = raw.indexOf('\n');
+  if (newline < 0) return null;
+  const [tag, ...fields] = raw.slice(0, newline).split(' ');
+  const payload = raw.slice(newline + 1);
+
+  let seq: number | undefined;
+  if (tag === 'D' || tag === 'B') {
+    const field = fields.shift();
+    if (field === undefined) return null;
+    if (field !== '-') {
+      if (!/^\d+$/.test(field)) return null;
+      seq = Number(field);
+    }
+  }
+  if (fields.some((f) => f === '')) return null;
+
+  switch (tag) {
+    case 'U':
+      if (fields.length !== 1) return null;
+      return { envelope: 'upstream', connectionId: fields[0], command: payload };
+    case 'D': {
+      if (fields.length !== 1) return null;
+      const msg: DownstreamMessage = { envelope: 'downstream', target: fields[0], event: payload };
+      if (seq !== undefined) msg.seq = seq;
+      return msg;
+    }
+    case 'B': {
+      const msg: BroadcastMessage = { envelope: 'broadcast', event: payload };
+      if (seq !== undefined) msg.seq = seq;
+      if (fields.length > 0) msg.except = fields;
+      return msg;
+    }
+    default:
+      return null;
+  }
+}
+
+/** `compact` applies to game traffic only; other envelopes, and IDs that cannot go in a header, fall back to JSON. */
+export function serializeRelayMessage(msg: RelayMessage, framing: RelayFraming = 'json'): string {
+  if (framing === 'compact') {
+    const frame = compactFrame(msg);
+    if (frame !== null) return frame;
+  }
   return JSON.stringify(msg);
 }
 
+/** Reads either framing: JSON envelopes start with `{`, compact frames with their tag. */
 export function parseRelayMessage(raw: string): RelayMessage | null {
+  if (raw !== '' && raw[0] !== '{') return parseCompactFrame(raw);
+
   let parsed: unknown;
   try {
     parsed = JSON.parse(raw);
@@ -81,13 +251,57 @@ export function parseRelayMessage(raw: string): RelayMessage | null {
   const envelope = obj.envelope;
 
   switch (envelope) {
-    case 'admin_register':
-      if (typeof obj.sessionId !== 'string' || typeof obj.secret !== 'string') return null;
-      return { envelope: 'admin_register', sessionId: obj.sessionId, secret: obj.secret };
-
-    case 'admin_registered':
+    case 'admin_register': {
       if (typeof obj.sessionId !== 'string') return null;
-      return { envelope: 'admin_registered', sessionId: obj.sessionId };
+      if (obj.secret !== undefined && typeof obj.secret !== 'string') return null;
+      if (obj.token !== undefined && typeof obj.token !== 'string') return null;
+      if (obj.standbyKey !== undefined && typeof obj.standbyKey !== 'string') return null;
+      if (obj.secret === undefined && obj.token === undefined && obj.standbyKey === undefined) return null;
+      if (obj.joinCode !== undefined && typeof obj.joinCode !== 'string') return null;
+      if (obj.role !== undefined && !ADMIN_ROLES.has(obj.role as string)) return null;
+      if (obj.framing !== undefined && !FRAMINGS.has(obj.framing as string)) return null;
+      const msg: AdminRegisterMessage = { envelope: 'admin_register', sessionId: obj.sessionId };
+      if (obj.secret !== undefined) msg.secret = obj.secret;
+      if (obj.token !== undefined) msg.token = obj.token;
+      if (obj.standbyKey !== undefined) msg.standbyKey = obj.standbyKey;
+      if (obj.joinCode !== undefined) msg.joinCode = obj.joinCode;
+      if (obj.role !== undefined) msg.role = obj.role as AdminRole;
+      if (obj.framing !== undefined) msg.framing = obj.framing as RelayFraming;
+      return msg;
+    }
+
+    case 'admin_registered': {
+      if (typeof obj.sessionId !== 'string' || typeof obj.joinCode !== 'string') return null;
+      if (!ADMIN_ROLES.has(obj.role as string)) return null;
+      if (typeof obj.token !== 'string' || typeof obj.tokenExpiresAt !== 'number') return null;
+      if (!isSeq(obj.lastSeq)) return null;
+      if (obj.framing !== undefined && !FRAMINGS.has(obj.framing as string)) return null;
+      if (obj.standbyKey !== undefined && typeof obj.standbyKey !== 'string') return null;
+      const msg: AdminRegisteredMessage = {
+        envelope: 'admin_registered',
+        sessionId: obj.sessionId,
+        joinCode: obj.joinCode,
+        role: obj.role as AdminRole,
+        token: obj.token,
+        tokenExpiresAt: obj.tokenExpiresAt,
+        lastSeq: obj.lastSeq,
+      };
+      if (obj.framing !== undefined) msg.framing = obj.framing as RelayFraming;
+      if (obj.standbyKey !== undefined) msg.standbyKey = obj.standbyKey;
+      return msg;
+    }
+
+    case 'admin_token':
+      if (typeof obj.token !== 'string' || typeof obj.expiresAt !== 'number') return null;
+      return { envelope: 'admin_token', token: obj.token, expiresAt: obj.expiresAt };
+
+    case 'state_snapshot':
+      if (typeof obj.snapshot !== 'string') return null;
+      return { envelope: 'state_snapshot', snapshot: obj.snapshot };
+
+    case 'admin_promoted':
+      if (!isStringArray(obj.connections) || !isSeq(obj.lastSeq)) return null;
+      return { envelope: 'admin_promoted', connections: obj.connections, lastSeq: obj.lastSeq };
 
     case 'admin_error':
       if (typeof obj.message !== 'string') return null;
@@ -97,13 +311,31 @@ export function parseRelayMessage(raw: string): RelayMessage | null {
       if (typeof obj.connectionId !== 'string' || typeof obj.command !== 'string') return null;
       return { envelope: 'upstream', connectionId: obj.connectionId, command: obj.command };
 
-    case 'downstream':
+    case 'downstream': {
       if (typeof obj.target !== 'string' || typeof obj.event !== 'string') return null;
-      return { envelope: 'downstream', target: obj.target, event: obj.event };
+      if (obj.seq !== undefined && !isSeq(obj.seq)) return null;
+      const msg: DownstreamMessage = { envelope: 'downstream', target: obj.target, event: obj.event };
+      if (obj.seq !== undefined) msg.seq = obj.seq;
+      return msg;
+    }
 
-    case 'broadcast':
+    case 'broadcast': {
       if (typeof obj.event !== 'string') return null;
-      return { envelope: 'broadcast', event: obj.event };
+      if (obj.seq !== undefined && !isSeq(obj.seq)) return null;
+      if (obj.except !== undefined && !isStringArray(obj.except)) return null;
+      const msg: BroadcastMessage = { envelope: 'broadcast', event: obj.event };
+      if (obj.seq !== undefined) msg.seq = obj.seq;
+      if (obj.except !== undefined) msg.except = obj.except;
+      return msg;
+    }
+
+    case 'player_state':
+      if (!isStringArray(obj.events)) return null;
+      return { envelope: 'player_state', events: obj.events };
+
+    case 'ack':
+      if (!isSeq(obj.seq)) return null;
+      return { envelope: 'ack', seq: obj.seq };
 
     case 'player_connected':
       if (typeof obj.connectionId !== 'string') return null;
@@ -114,8 +346,8 @@ export function parseRelayMessage(raw: string): RelayMessage | null {
       return { envelope: 'player_disconnected', connectionId: obj.connectionId };
 
     case 'player_roster':
-      if (!Array.isArray(obj.connections) || !obj.connections.every((c: unknown) => typeof c === 'string')) return null;
-      return { envelope: 'player_roster', connections: obj.connections as string[] };
+      if (!isStringArray(obj.connections)) return null;
+      return { envelope: 'player_roster', connections: obj.connections };
 
     default:
       return null;
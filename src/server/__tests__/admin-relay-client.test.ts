@@ -1,4 +1,10 @@
-import { createAdminRelayClient, type AdminRelayClient } from '../admin-relay-client';
+import {
+  RECONNECT_BASE_MS,
+  RECONNECT_MAX_MS,
+  createAdminRelayClient,
+  reconnectDelayMs,
+  type AdminRelayClient,
+} from '../admin-relay-client';
 import { EventEmitter } from 'events';
 
 // Mock WebSocket class that simulates the ws library's WebSocket
@@ -12,7 +18,9 @@ class MockWs extends EventEmitter {
     super();
     this.url = url;
     // Simulate async open
-    setTimeout(() => this.emit('open'), 0);
+    setTimeout(() => {
+      if (this.readyState === this.OPEN) this.emit('open');
+    }, 0);
   }
 
   send(data: string): void {
@@ -51,6 +59,8 @@ describe('AdminRelayClient', () => {
   let onPlayerDisconnected: jest.Mock;
   let onPlayerRoster: jest.Mock;
   let onStatusChange: jest.Mock;
+  let onStateSnapshot: jest.Mock;
+  let onPromoted: jest.Mock;
 
   beforeEach(() => {
     jest.useFakeTimers();
@@ -59,6 +69,8 @@ describe('AdminRelayClient', () => {
     onPlayerDisconnected = jest.fn();
     onPlayerRoster = jest.fn();
     onStatusChange = jest.fn();
+    onStateSnapshot = jest.fn();
+    onPromoted = jest.fn();
 
     // Create client with a WebSocket factory that returns our mock
     client = createAdminRelayClient({
@@ -67,6 +79,8 @@ describe('AdminRelayClient', () => {
       onPlayerDisconnected,
       onPlayerRoster,
       onStatusChange,
+      onStateSnapshot,
+      onPromoted,
       wsFactory: (url: string) => {
         mockWs = new MockWs(url);
         return mockWs as any;
@@ -81,7 +95,7 @@ describe('AdminRelayClient', () => {
   function connectAndRegister(): void {
     client.connect('wss://relay.example.com', 'sess-1', 'my-secret');
     jest.runAllTimers(); // triggers 'open' event
-    mockWs.receive({ envelope: 'admin_registered', sessionId: 'sess-1' });
+    mockWs.receive({ envelope: 'admin_registered', sessionId: 'sess-1', joinCode: 'KQTR', role: 'primary', token: 'tok-1', tokenExpiresAt: Date.now() + 60_000, lastSeq: 0 });
   }
 
   describe('connect', () => {
@@ -95,6 +109,12 @@ describe('AdminRelayClient', () => {
       expect(msg?.secret).toBe('my-secret');
     });
 
+    it('requests a join code when given one', () => {
+      client.connect('wss://relay.example.com', 'sess-1', 'my-secret', 'EAST');
+      jest.runAllTimers();
+      expect(mockWs.lastMessage()?.joinCode).toBe('EAST');
+    });
+
     it('transitions to connecting then connected', () => {
       expect(client.getStatus()).toBe('disconnected');
 
@@ -102,7 +122,7 @@ describe('AdminRelayClient', () => {
       expect(client.getStatus()).toBe('connecting');
 
       jest.runAllTimers();
-      mockWs.receive({ envelope: 'admin_registered', sessionId: 'sess-1' });
+      mockWs.receive({ envelope: 'admin_registered', sessionId: 'sess-1', joinCode: 'KQTR', role: 'primary', token: 'tok-1', tokenExpiresAt: Date.now() + 60_000, lastSeq: 0 });
       expect(client.getStatus()).toBe('connected');
     });
 
@@ -111,7 +131,7 @@ describe('AdminRelayClient', () => {
       expect(onStatusChange).toHaveBeenCalledWith('connecting');
 
       jest.runAllTimers();
-      mockWs.receive({ envelope: 'admin_registered', sessionId: 'sess-1' });
+      mockWs.receive({ envelope: 'admin_registered', sessionId: 'sess-1', joinCode: 'KQTR', role: 'primary', token: 'tok-1', tokenExpiresAt: Date.now() + 60_000, lastSeq: 0 });
       expect(onStatusChange).toHaveBeenCalledWith('connected');
     });
   });
@@ -197,6 +217,16 @@ describe('AdminRelayClient', () => {
       expect(client.getStatus()).toBe('connecting');
     });
 
+    it('asks for the same join code when it reconnects', () => {
+      connectAndRegister();
+      expect(client.getJoinCode()).toBe('KQTR');
+      mockWs.close();
+
+      jest.advanceTimersByTime(3000);
+      jest.runAllTimers();
+      expect(mockWs.lastMessage()).toEqual({ envelope: 'admin_register', sessionId: 'sess-1', token: 'tok-1', joinCode: 'KQTR', framing: 'compact' });
+    });
+
     it('disconnect() stops auto-reconnect', () => {
       connectAndRegister();
       client.disconnect();
@@ -208,4 +238,236 @@ describe('AdminRelayClient', () => {
       expect(mockWs).toBe(wsAfterDisconnect);
     });
   });
+
+  describe('standby', () => {
+    function connectAsStandby(): void {
+      client.connect('wss://relay.example.com', 'sess-1', 'my-secret', undefined, 'standby', 'key-1');
+      jest.runAllTimers();
+      mockWs.receive({ envelope: 'admin_registered', sessionId: 'sess-1', joinCode: 'KQTR', role: 'standby', token: 'tok-1', tokenExpiresAt: Date.now() + 60_000, lastSeq: 0 });
+    }
+
+    it('registers as a standby', () => {
+      connectAsStandby();
+      expect(mockWs.allMessages()[0]).toEqual({ envelope: 'admin_register', sessionId: 'sess-1', secret: 'my-secret', standbyKey: 'key-1', role: 'standby', framing: 'compact' });
+      expect(client.getRole()).toBe('standby');
+    });
+
+    it('keeps the standby key the relay gives a primary', () => {
+      client.connect('wss://relay.example.com', 'sess-1', 'my-secret');
+      jest.runAllTimers();
+      expect(mockWs.allMessages()[0]).not.toHaveProperty('standbyKey');
+      mockWs.receive({ envelope: 'admin_registered', sessionId: 'sess-1', joinCode: 'KQTR', role: 'primary', token: 'tok-1', tokenExpiresAt: Date.now() + 60_000, lastSeq: 0, standbyKey: 'key-2' });
+      expect(client.getStandbyKey()).toBe('key-2');
+    });
+
+    it('passes snapshots on and does not send its own', () => {
+      connectAsStandby();
+      mockWs.clearSent();
+      mockWs.receive({ envelope: 'state_snapshot', snapshot: '{"n":1}' });
+      expect(onStateSnapshot).toHaveBeenCalledWith('{"n":1}');
+
+      client.sendStateSnapshot('{"n":2}');
+      expect(mockWs.allMessages()).toEqual([]);
+    });
+
+    it('becomes the primary when promoted', () => {
+      connectAsStandby();
+      mockWs.receive({ envelope: 'admin_promoted', connections: ['c1'], lastSeq: 0 });
+      expect(onPromoted).toHaveBeenCalledWith(['c1']);
+      expect(client.getRole()).toBe('primary');
+
+      mockWs.clearSent();
+      client.sendStateSnapshot('{"n":3}');
+      expect(mockWs.lastMessage()).toEqual({ envelope: 'state_snapshot', snapshot: '{"n":3}' });
+    });
+
+    it('reconnects as the primary once promoted', () => {
+      connectAsStandby();
+      mockWs.receive({ envelope: 'admin_promoted', connections: [], lastSeq: 0 });
+      mockWs.close();
+
+      jest.advanceTimersByTime(3000);
+      jest.runAllTimers();
+      expect(mockWs.lastMessage()).toEqual({ envelope: 'admin_register', sessionId: 'sess-1', token: 'tok-1', joinCode: 'KQTR', framing: 'compact' });
+    });
+  });
+
+  describe('admin tokens', () => {
+    function reconnect(): void {
+      mockWs.close();
+      jest.advanceTimersByTime(3000);
+      jest.runAllTimers();
+    }
+
+    it('reconnects with the latest token instead of the secret', () => {
+      connectAndRegister();
+      mockWs.receive({ envelope: 'admin_token', token: 'tok-2', expiresAt: Date.now() + 60_000 });
+      reconnect();
+      expect(mockWs.lastMessage()).toMatchObject({ token: 'tok-2' });
+      expect(mockWs.lastMessage()?.secret).toBeUndefined();
+    });
+
+    it('uses the secret once the token has expired', () => {
+      connectAndRegister();
+      jest.advanceTimersByTime(60_000);
+      reconnect();
+      expect(mockWs.lastMessage()).toMatchObject({ secret: 'my-secret' });
+    });
+
+    it('falls back to the secret after the relay refuses its token', () => {
+      connectAndRegister();
+      reconnect();
+      mockWs.receive({ envelope: 'admin_error', message: 'Invalid or expired token' });
+      reconnect();
+      expect(mockWs.lastMessage()).toMatchObject({ secret: 'my-secret' });
+      expect(mockWs.lastMessage()?.token).toBeUndefined();
+    });
+  });
+  describe('buffering and replay', () => {
+    function dropAndReturn(lastSeq: number): void {
+      mockWs.close();
+      jest.advanceTimersByTime(RECONNECT_BASE_MS);
+      jest.runAllTimers();
+      mockWs.clearSent();
+      mockWs.receive({ envelope: 'admin_registered', sessionId: 'sess-1', joinCode: 'KQTR', role: 'primary', token: 'tok-1', tokenExpiresAt: Date.now() + 60_000, lastSeq });
+    }
+
+    function events(): unknown[] {
+      return mockWs.allMessages().map((m) => [m.seq, m.event]);
+    }
+
+    it('numbers outgoing events', () => {
+      connectAndRegister();
+      mockWs.clearSent();
+      client.broadcastToPlayers('a');
+      client.sendToPlayer('c1', 'b');
+      expect(events()).toEqual([[1, 'a'], [2, 'b']]);
+    });
+
+    it('queues events while the relay is away and replays them after registering', () => {
+      connectAndRegister();
+      mockWs.close();
+      client.broadcastToPlayers('question_closed');
+      client.sendToPlayer('c1', 'answer_revealed');
+
+      dropAndReturn(0);
+      expect(events()).toEqual([[1, 'question_closed'], [2, 'answer_revealed']]);
+    });
+
+    it('replays only what the relay has not acknowledged or delivered', () => {
+      connectAndRegister();
+      client.broadcastToPlayers('a');
+      client.broadcastToPlayers('b');
+      client.broadcastToPlayers('c');
+      mockWs.receive({ envelope: 'ack', seq: 1 });
+
+      dropAndReturn(2);
+      expect(events()).toEqual([[3, 'c']]);
+    });
+
+    it('numbers after the relay when it has seen more than this process', () => {
+      client.broadcastToPlayers('early');
+      client.connect('wss://relay.example.com', 'sess-1', 'my-secret');
+      jest.runAllTimers();
+      mockWs.clearSent();
+      mockWs.receive({ envelope: 'admin_registered', sessionId: 'sess-1', joinCode: 'KQTR', role: 'primary', token: 'tok-1', tokenExpiresAt: Date.now() + 60_000, lastSeq: 40 });
+      expect(events()).toEqual([[41, 'early']]);
+
+      mockWs.clearSent();
+      client.broadcastToPlayers('next');
+      expect(events()).toEqual([[42, 'next']]);
+    });
+  });
+
+  describe('compact framing', () => {
+    it('offers compact framing and uses it once the relay agrees', () => {
+      client.connect('wss://relay.example.com', 'sess-1', 'my-secret');
+      jest.runAllTimers();
+      expect(mockWs.lastMessage()).toMatchObject({ framing: 'compact' });
+      mockWs.receive({ envelope: 'admin_registered', sessionId: 'sess-1', joinCode: 'KQTR', role: 'primary', token: 'tok-1', tokenExpiresAt: Date.now() + 60_000, lastSeq: 0, framing: 'compact' });
+      mockWs.clearSent();
+
+      client.broadcastToPlayers('{"type":"timer_expired"}', ['screen-1']);
+      client.sendToPlayer('c1', '{"type":"answer_accepted"}');
+      expect(mockWs.sent).toEqual(['B 1 screen-1\n{"type":"timer_expired"}', 'D 2 c1\n{"type":"answer_accepted"}']);
+    });
+
+    it('reads compact upstream frames', () => {
+      connectAndRegister();
+      mockWs.emit('message', Buffer.from('U c1\n{"type":"join","screenName":"Alice"}'));
+      expect(onPlayerCommand).toHaveBeenCalledWith('c1', '{"type":"join","screenName":"Alice"}');
+    });
+
+    it('sends JSON envelopes to a relay that did not agree', () => {
+      connectAndRegister();
+      mockWs.clearSent();
+      client.broadcastToPlayers('{"type":"timer_expired"}');
+      expect(mockWs.lastMessage()).toEqual({ envelope: 'broadcast', event: '{"type":"timer_expired"}', seq: 1 });
+    });
+  });
+
+  describe('player state', () => {
+    it('sends the state and sends it again after a reconnect', () => {
+      connectAndRegister();
+      client.sendPlayerState(['{"type":"timer_expired"}']);
+      expect(mockWs.lastMessage()).toEqual({ envelope: 'player_state', events: ['{"type":"timer_expired"}'] });
+
+      mockWs.close();
+      jest.advanceTimersByTime(RECONNECT_BASE_MS);
+      jest.runAllTimers();
+      mockWs.receive({ envelope: 'admin_registered', sessionId: 'sess-1', joinCode: 'KQTR', role: 'primary', token: 'tok-1', tokenExpiresAt: Date.now() + 60_000, lastSeq: 0 });
+      expect(mockWs.lastMessage()).toEqual({ envelope: 'player_state', events: ['{"type":"timer_expired"}'] });
+    });
+
+    it('holds the state while disconnected', () => {
+      client.sendPlayerState(['{"type":"timer_expired"}']);
+      connectAndRegister();
+      expect(mockWs.lastMessage()).toEqual({ envelope: 'player_state', events: ['{"type":"timer_expired"}'] });
+    });
+  });
+
+  describe('reconnect backoff', () => {
+    it('doubles the delay up to the cap', () => {
+      const ceiling = (attempt: number) => reconnectDelayMs(attempt, () => 1);
+      expect(ceiling(0)).toBe(RECONNECT_BASE_MS);
+      expect(ceiling(1)).toBe(RECONNECT_BASE_MS * 2);
+      expect(ceiling(20)).toBe(RECONNECT_MAX_MS);
+    });
+
+    it('jitters each delay across its upper half', () => {
+      expect(reconnectDelayMs(3, () => 0)).toBe(RECONNECT_BASE_MS * 4);
+      expect(reconnectDelayMs(3, () => 0.5)).toBe(RECONNECT_BASE_MS * 6);
+    });
+
+    it('backs off further while the relay stays away and resets once registered', () => {
+      client = createAdminRelayClient({
+        onPlayerCommand, onPlayerConnected, onPlayerDisconnected, onPlayerRoster, onStatusChange, onStateSnapshot, onPromoted,
+        random: () => 1,
+        wsFactory: (url: string) => {
+          mockWs = new MockWs(url);
+          return mockWs as any;
+        },
+      });
+      connectAndRegister();
+
+      let ws = mockWs;
+      ws.close();
+      jest.advanceTimersByTime(RECONNECT_BASE_MS);
+      expect(mockWs).not.toBe(ws);
+
+      ws = mockWs;
+      ws.close();
+      jest.advanceTimersByTime(RECONNECT_BASE_MS * 2 - 1);
+      expect(mockWs).toBe(ws);
+      jest.advanceTimersByTime(1);
+      expect(mockWs).not.toBe(ws);
+
+      jest.runAllTimers();
+      mockWs.receive({ envelope: 'admin_registered', sessionId: 'sess-1', joinCode: 'KQTR', role: 'primary', token: 'tok-1', tokenExpiresAt: Date.now() + 60_000, lastSeq: 0 });
+      ws = mockWs;
+      ws.close();
+      jest.advanceTimersByTime(RECONNECT_BASE_MS);
+      expect(mockWs).not.toBe(ws);
+    });
+  });
 });
@@ -1,4 +1,5 @@
-import { createAdminWsHandler } from '../admin-ws-handler';
+import { createAdminWsHandler, SNAPSHOT_INTERVAL_MS } from '../admin-ws-handler';
+import { RESUME_GRACE_MS } from '../game-controller';
 import { EventEmitter } from 'events';
 import { TriviaGame } from '../../core/games/trivia';
 import { Session } from '../../core/session';
@@ -52,15 +53,28 @@ class MockWs extends EventEmitter {
 function createMockRelayClient() {
   const sent: { type: string; connectionId?: string; event: string }[] = [];
   const broadcasts: string[] = [];
+  const excepts: (string[] | undefined)[] = [];
+  const snapshots: string[] = [];
+  const playerStates: Record<string, unknown>[][] = [];
 
   return {
     sent,
     broadcasts,
+    excepts,
+    snapshots,
+    playerStates,
     sendToPlayer(connectionId: string, event: string): void {
       sent.push({ type: 'targeted', connectionId, event });
     },
-    broadcastToPlayers(event: string): void {
+    broadcastToPlayers(event: string, except?: string[]): void {
       broadcasts.push(event);
+      excepts.push(except);
+    },
+    sendStateSnapshot(snapshot: string): void {
+      snapshots.push(snapshot);
+    },
+    sendPlayerState(events: string[]): void {
+      playerStates.push(events.map((e) => JSON.parse(e)));
     },
     lastSentTo(connectionId: string): Record<string, unknown> | null {
       const msgs = sent.filter((s) => s.connectionId === connectionId);
@@ -83,6 +97,7 @@ function createMockRelayClient() {
     clearAll(): void {
       sent.length = 0;
       broadcasts.length = 0;
+      excepts.length = 0;
     },
   };
 }
@@ -219,13 +234,16 @@ describe('AdminWsHandler', () => {
   });
 
   describe('player disconnect', () => {
-    it('removes player and broadcasts player_left', () => {
+    it('removes player after the resume grace period and broadcasts player_left', () => {
+      jest.useFakeTimers();
       connectAdmin();
       joinPlayer('conn-1', 'Alice');
       adminWs.clearSent();
       relay.clearAll();
 
       handler.handlePlayerDisconnected('conn-1');
+      expect(adminWs.messagesOfType('player_left')).toHaveLength(0);
+      jest.advanceTimersByTime(RESUME_GRACE_MS);
 
       const leftMsg = adminWs.messagesOfType('player_left')[0];
       expect(leftMsg).toBeDefined();
@@ -233,6 +251,22 @@ describe('AdminWsHandler', () => {
       expect(leftMsg?.playerCount).toBe(0);
 
       expect(relay.broadcastsOfType('player_left').length).toBeGreaterThanOrEqual(1);
+      jest.useRealTimers();
+    });
+
+    it('lets the player resume on a new connectionId', () => {
+      jest.useFakeTimers();
+      connectAdmin();
+      joinPlayer('conn-1', 'Alice');
+      const joined = relay.lastSentTo('conn-1');
+      handler.handlePlayerDisconnected('conn-1');
+
+      handler.handlePlayerCommand('conn-2', JSON.stringify({ type: 'resume', token: joined?.resumeToken }));
+      jest.advanceTimersByTime(RESUME_GRACE_MS);
+
+      expect(relay.lastSentTo('conn-2')?.playerId).toBe(joined?.playerId);
+      expect(adminWs.messagesOfType('player_left')).toHaveLength(0);
+      jest.useRealTimers();
     });
   });
 
@@ -337,7 +371,7 @@ describe('AdminWsHandler', () => {
       jest.advanceTimersByTime(10000); // timer_expired
       jest.advanceTimersByTime(2500);  // reveal
 
-      const revealed = relay.broadcastsOfType('answer_revealed')[0];
+      const revealed = adminWs.messagesOfType('answer_revealed')[0];
       expect(revealed?.survivors).toContain(playerId);
       expect(revealed?.eliminated).toHaveLength(0);
       jest.useRealTimers();
@@ -360,4 +394,176 @@ describe('AdminWsHandler', () => {
       jest.useRealTimers();
     });
   });
+
+  describe('audiences', () => {
+    function closeFirstQuestion(): void {
+      joinPlayer('conn-1', 'Alice');
+      adminWs.receive({ type: 'start_trivia_question', questionIndex: 0 });
+      adminWs.receive({ type: 'go_live' });
+      handler.handlePlayerCommand('conn-1', JSON.stringify({ type: 'submit_answer', answer: 'A' }));
+      relay.clearAll();
+      adminWs.receive({ type: 'close_now' });
+    }
+
+    it('keeps the answer map from players but gives it to broadcast screens', () => {
+      jest.useFakeTimers();
+      connectAdmin();
+      handler.handlePlayerCommand('screen-1', JSON.stringify({ type: 'register_spectator' }));
+      closeFirstQuestion();
+
+      const i = relay.broadcasts.findIndex((b) => JSON.parse(b).type === 'answer_breakdown');
+      expect(JSON.parse(relay.broadcasts[i])).not.toHaveProperty('playerAnswers');
+      expect(relay.excepts[i]).toEqual(['screen-1']);
+      expect(relay.allSentTo('screen-1').find((e) => e.type === 'answer_breakdown')).toHaveProperty('playerAnswers');
+      expect(adminWs.messagesOfType('answer_breakdown')[0]).toHaveProperty('playerAnswers');
+      jest.useRealTimers();
+    });
+
+    it('refuses a screen without the host\'s screen key', () => {
+      jest.useFakeTimers();
+      handler = createAdminWsHandler(relay, null, null, 'screen-key');
+      connectAdmin();
+      handler.handlePlayerCommand('screen-1', JSON.stringify({ type: 'register_spectator' }));
+      handler.handlePlayerCommand('screen-2', JSON.stringify({ type: 'register_spectator', screenKey: 'guess' }));
+      handler.handlePlayerCommand('screen-3', JSON.stringify({ type: 'register_spectator', screenKey: 'screen-key' }));
+      expect(relay.allSentTo('screen-1')).toContainEqual({ type: 'error', message: expect.stringContaining('missing its key') });
+      closeFirstQuestion();
+
+      expect(relay.allSentTo('screen-2').find((e) => e.type === 'answer_breakdown')).toBeUndefined();
+      expect(relay.allSentTo('screen-3').find((e) => e.type === 'answer_breakdown')).toHaveProperty('playerAnswers');
+      jest.useRealTimers();
+    });
+
+    it('refuses a player who tries to register as a screen', () => {
+      jest.useFakeTimers();
+      connectAdmin();
+      closeFirstQuestion();
+      handler.handlePlayerCommand('conn-1', JSON.stringify({ type: 'register_spectator' }));
+      jest.advanceTimersByTime(2500);
+      expect(relay.broadcastsOfType('answer_revealed')).toHaveLength(1);
+
+      expect(relay.allSentTo('conn-1')).toContainEqual({ type: 'error', message: 'A player cannot also be a broadcast screen' });
+      expect(relay.allSentTo('conn-1').find((e) => e.type === 'answer_revealed')).toBeUndefined();
+      jest.useRealTimers();
+    });
+
+    it('forgets a broadcast screen once it disconnects', () => {
+      jest.useFakeTimers();
+      connectAdmin();
+      handler.handlePlayerCommand('screen-1', JSON.stringify({ type: 'register_spectator' }));
+      handler.handlePlayerDisconnected('screen-1');
+      closeFirstQuestion();
+
+      expect(relay.allSentTo('screen-1')).toEqual([]);
+      expect(relay.excepts.every((except) => except === undefined || except.length === 0)).toBe(true);
+      jest.useRealTimers();
+    });
+  });
+
+  describe('player state', () => {
+    it('publishes the current screen when a broadcast changes it', () => {
+      connectAdmin();
+      expect(relay.playerStates.map((events) => events.map((e) => e.type))).toEqual([['session_created']]);
+
+      adminWs.receive({ type: 'start_trivia_question', questionIndex: 0 });
+      expect(relay.playerStates[1]).toEqual([
+        expect.objectContaining({ type: 'session_created' }),
+        { type: 'question_preview', questionIndex: 0, text: 'Q1?' },
+      ]);
+    });
+
+    it('does not republish an unchanged screen', () => {
+      connectAdmin();
+      joinPlayer('conn-1', 'Alice');
+      joinPlayer('conn-2', 'Bob');
+      expect(relay.playerStates).toHaveLength(1);
+    });
+
+    it('clears the screen when the game restarts', () => {
+      connectAdmin();
+      adminWs.receive({ type: 'restart_game' });
+      expect(relay.playerStates[relay.playerStates.length - 1]).toEqual([]);
+    });
+  });
+
+  describe('hot standby', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('sends one snapshot per interval however many changes it covers', () => {
+      connectAdmin();
+      joinPlayer('conn-1', 'Alice');
+      joinPlayer('conn-2', 'Bob');
+      expect(relay.snapshots).toHaveLength(0);
+
+      jest.advanceTimersByTime(SNAPSHOT_INTERVAL_MS);
+      expect(relay.snapshots).toHaveLength(1);
+      const snapshot = JSON.parse(relay.snapshots[0]);
+      expect(snapshot.session.players.map((p: { screenName: string }) => p.screenName)).toEqual(['Alice', 'Bob']);
+
+      jest.advanceTimersByTime(SNAPSHOT_INTERVAL_MS * 5);
+      expect(relay.snapshots).toHaveLength(1);
+    });
+
+    it('snapshots a restart so the standby drops the session too', () => {
+      connectAdmin();
+      adminWs.receive({ type: 'restart_game' });
+      jest.advanceTimersByTime(SNAPSHOT_INTERVAL_MS);
+      expect(relay.snapshots).toEqual(['null']);
+    });
+
+    it('takes over from the last snapshot when promoted', () => {
+      connectAdmin();
+      joinPlayer('conn-1', 'Alice');
+      jest.advanceTimersByTime(SNAPSHOT_INTERVAL_MS);
+
+      const standbyRelay = createMockRelayClient();
+      const standby = createAdminWsHandler(standbyRelay);
+      const standbyAdmin = new MockWs();
+      standby.handleAdminConnection(standbyAdmin as any);
+      standby.handleStateSnapshot(relay.snapshots[0]);
+      standby.handlePromoted(['conn-1']);
+
+      expect(standbyAdmin.messagesOfType('session_restored')).toHaveLength(1);
+      expect(standbyRelay.playerStates.map((events) => events.map((e) => e.type))).toEqual([['session_created']]);
+      standbyAdmin.receive({ type: 'start_trivia_question', questionIndex: 0 });
+      expect(standbyRelay.broadcastsOfType('question_preview')[0]?.text).toBe('Q1?');
+      standby.handlePlayerCommand('conn-1', JSON.stringify({ type: 'join', screenName: 'Alice' }));
+      expect(standbyRelay.lastSentTo('conn-1')).toEqual({ type: 'error', message: 'Screen name "Alice" is already taken' });
+    });
+
+    it('keeps sending a broadcast screen the watchers\' copy after a takeover', () => {
+      connectAdmin();
+      handler.handlePlayerCommand('screen-1', JSON.stringify({ type: 'register_spectator' }));
+      handler.handlePlayerCommand('screen-2', JSON.stringify({ type: 'register_spectator' }));
+      joinPlayer('conn-1', 'Alice');
+      jest.advanceTimersByTime(SNAPSHOT_INTERVAL_MS);
+
+      const standbyRelay = createMockRelayClient();
+      const standby = createAdminWsHandler(standbyRelay);
+      const standbyAdmin = new MockWs();
+      standby.handleAdminConnection(standbyAdmin as any);
+      standby.handleStateSnapshot(relay.snapshots[0]);
+      // screen-2 closed while the hosts changed over
+      standby.handlePromoted(['conn-1', 'screen-1']);
+
+      standbyAdmin.receive({ type: 'start_trivia_question', questionIndex: 0 });
+      standbyAdmin.receive({ type: 'go_live' });
+      standby.handlePlayerCommand('conn-1', JSON.stringify({ type: 'submit_answer', answer: 'A' }));
+      standbyAdmin.receive({ type: 'close_now' });
+
+      expect(standbyRelay.allSentTo('screen-1').find((e) => e.type === 'answer_breakdown')).toHaveProperty('playerAnswers');
+      expect(standbyRelay.allSentTo('screen-2')).toEqual([]);
+      const i = standbyRelay.broadcasts.findIndex((b) => JSON.parse(b).type === 'answer_breakdown');
+      expect(standbyRelay.excepts[i]).toEqual(['screen-1']);
+    });
+
+    it('starts without a session when promoted before any snapshot arrived', () => {
+      const standbyAdmin = new MockWs();
+      handler.handleAdminConnection(standbyAdmin as any);
+      handler.handlePromoted([]);
+      standbyAdmin.receive({ type: 'go_live' });
+      expect(standbyAdmin.lastMessage()).toEqual({ type: 'error', message: 'No trivia game configured' });
+    });
+  });
 });
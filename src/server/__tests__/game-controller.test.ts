@@ -0,0 +1,1135 @@
+import { createGameController, RESUME_GRACE_MS, type Audience } from '../game-controller';
+import type { ServerEvent } from '../protocol';
+import type { TriviaQuestion } from '../../core/types';
+
+const QUESTIONS: TriviaQuestion[] = [
+  { question: 'Q1', a: 'A1', b: 'B1', c: 'C1', d: 'D1', correct: 'A' },
+  { question: 'Q2', a: 'A2', b: 'B2', c: 'C2', d: 'D2', correct: 'B' },
+  { question: 'Q3', a: 'A3', b: 'B3', c: 'C3', d: 'D3', correct: 'C' },
+];
+
+interface Emitted {
+  audience: Audience;
+  event: ServerEvent;
+}
+
+function createRecorder() {
+  const emitted: Emitted[] = [];
+  return {
+    emitted,
+    sink(audience: Audience, event: ServerEvent): void {
+      emitted.push({ audience, event });
+    },
+    ofType(type: string): Emitted[] {
+      return emitted.filter((e) => e.event.type === type);
+    },
+    toConnection(connectionId: string): ServerEvent[] {
+      return emitted
+        .filter((e) => e.audience.to === 'connection' && e.audience.connectionId === connectionId)
+        .map((e) => e.event);
+    },
+    clear(): void {
+      emitted.length = 0;
+    },
+  };
+}
+
+describe('GameController', () => {
+  let recorder: ReturnType<typeof createRecorder>;
+  let controller: ReturnType<typeof createGameController>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    recorder = createRecorder();
+    controller = createGameController(recorder.sink);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function createSession(): void {
+    controller.handleAdminCommand({ type: 'create_session', questions: QUESTIONS });
+  }
+
+  function join(connectionId: string, screenName: string): string {
+    controller.handlePlayerCommand(connectionId, { type: 'join', screenName });
+    const joined = recorder.toConnection(connectionId).find((e) => e.type === 'joined');
+    return (joined as { playerId: string }).playerId;
+  }
+
+  describe('create_session', () => {
+    it('addresses session_created to the admin and to every non-admin connection', () => {
+      createSession();
+
+      const created = recorder.ofType('session_created');
+      expect(created.map((e) => e.audience.to)).toEqual(['admin', 'non_admin']);
+      expect(controller.hasSession()).toBe(true);
+    });
+
+    it('resets the previous game before creating a new one', () => {
+      createSession();
+      join('c1', 'Alice');
+      recorder.clear();
+
+      createSession();
+
+      expect(recorder.ofType('game_reset')[0].audience).toEqual({ to: 'non_admin' });
+      expect(controller.isPlayerConnection('c1')).toBe(false);
+    });
+  });
+
+  describe('players', () => {
+    it('replies to a join on the joining connection only', () => {
+      createSession();
+      recorder.clear();
+
+      join('c1', 'Alice');
+
+      const joined = recorder.ofType('joined');
+      expect(joined).toHaveLength(1);
+      expect(joined[0].audience).toEqual({ to: 'connection', connectionId: 'c1' });
+      expect(recorder.ofType('player_joined')[0].audience).toEqual({ to: 'everyone' });
+      expect(controller.getPlayerConnections()).toEqual(['c1']);
+    });
+
+    it('returns an error to the connection when no session exists', () => {
+      controller.handlePlayerCommand('c1', { type: 'join', screenName: 'Alice' });
+
+      expect(recorder.toConnection('c1')[0]).toEqual({ type: 'error', message: 'No session exists' });
+    });
+
+    it('removes the player once the resume grace period has passed', () => {
+      createSession();
+      join('c1', 'Alice');
+      recorder.clear();
+
+      controller.handlePlayerDisconnected('c1');
+      expect(controller.isPlayerConnection('c1')).toBe(false);
+      expect(recorder.ofType('player_left')).toHaveLength(0);
+
+      jest.advanceTimersByTime(RESUME_GRACE_MS);
+      expect(recorder.ofType('player_left')).toHaveLength(1);
+    });
+  });
+
+  describe('resume', () => {
+    function tokenFor(connectionId: string): string {
+      const joined = recorder.toConnection(connectionId).find((e) => e.type === 'joined');
+      return (joined as { resumeToken: string }).resumeToken;
+    }
+
+    it('hands back the same identity on a new connection', () => {
+      createSession();
+      const playerId = join('c1', 'Alice');
+      controller.handlePlayerDisconnected('c1');
+
+      controller.handlePlayerCommand('c2', { type: 'resume', token: tokenFor('c1') });
+
+      expect(recorder.toConnection('c2')[0]).toMatchObject({ type: 'joined', playerId, screenName: 'Alice' });
+      expect(controller.isPlayerConnection('c2')).toBe(true);
+    });
+
+    it('fails once the grace period has expired', () => {
+      createSession();
+      join('c1', 'Alice');
+      controller.handlePlayerDisconnected('c1');
+      jest.advanceTimersByTime(RESUME_GRACE_MS);
+
+      controller.handlePlayerCommand('c2', { type: 'resume', token: tokenFor('c1') });
+
+      expect(recorder.toConnection('c2')[0].type).toBe('resume_failed');
+    });
+
+    it('fails after the game has been restarted', () => {
+      createSession();
+      join('c1', 'Alice');
+      const token = tokenFor('c1');
+      createSession();
+
+      controller.handlePlayerCommand('c2', { type: 'resume', token });
+
+      expect(recorder.toConnection('c2')[0].type).toBe('resume_failed');
+    });
+
+    it('replays the outcome to an eliminated player', () => {
+      createSession();
+      join('c1', 'Alice');
+      join('c2', 'Bob');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'A' });
+      controller.handlePlayerCommand('c2', { type: 'submit_answer', answer: 'D' });
+      controller.handlePlayerDisconnected('c2');
+      jest.advanceTimersByTime(10000 + 2500);
+
+      controller.handlePlayerCommand('c3', { type: 'resume', token: tokenFor('c2') });
+
+      expect(recorder.toConnection('c3').map((e) => e.type)).toEqual(['joined', 'you_are_eliminated', 'survivors_regrouped']);
+    });
+
+    it('keeps a player in the game while they are reconnecting', () => {
+      createSession();
+      join('c1', 'Alice');
+      controller.handlePlayerDisconnected('c1');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      controller.handlePlayerCommand('c2', { type: 'resume', token: tokenFor('c1') });
+      controller.handlePlayerCommand('c2', { type: 'submit_answer', answer: 'A' });
+      jest.advanceTimersByTime(10000 + 2500);
+
+      expect(recorder.toConnection('c2').map((e) => e.type)).toContain('you_survived');
+    });
+  });
+
+  describe('trivia sequencing', () => {
+    function playFirstQuestion(answers: Record<string, 'A' | 'B' | 'C' | 'D'>): void {
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      for (const [connectionId, answer] of Object.entries(answers)) {
+        controller.handlePlayerCommand(connectionId, { type: 'submit_answer', answer });
+      }
+      jest.advanceTimersByTime(10000 + 2500);
+    }
+
+    it('previews the round and category and reveals the explanation, when the quiz has them', () => {
+      const questions = [{ ...QUESTIONS[0], round: 'Round 1', category: 'Space', explanation: 'A is right.' }, ...QUESTIONS.slice(1)];
+      controller.handleAdminCommand({ type: 'create_session', questions });
+      join('c1', 'Alice');
+      recorder.clear();
+      playFirstQuestion({ c1: 'A' });
+
+      expect(recorder.ofType('question_preview')[0].event).toEqual({ type: 'question_preview', questionIndex: 0, text: 'Q1', round: 'Round 1', category: 'Space' });
+      expect(recorder.ofType('answer_revealed').map((e) => e.event)).toEqual([
+        expect.objectContaining({ explanation: 'A is right.', eliminated: [] }),
+        { type: 'answer_revealed', correct: 'A', explanation: 'A is right.' },
+      ]);
+    });
+
+    it('leaves round, category and explanation out when the quiz has none', () => {
+      createSession();
+      join('c1', 'Alice');
+      recorder.clear();
+      playFirstQuestion({ c1: 'A' });
+
+      expect(recorder.ofType('question_preview')[0].event).toEqual({ type: 'question_preview', questionIndex: 0, text: 'Q1' });
+      expect(recorder.ofType('answer_revealed')[1].event).toEqual({ type: 'answer_revealed', correct: 'A' });
+    });
+
+    it('sends survivors_regrouped with screen names rather than player IDs', () => {
+      createSession();
+      join('c1', 'Alice');
+      join('c2', 'Bob');
+      recorder.clear();
+
+      playFirstQuestion({ c1: 'A', c2: 'B' });
+
+      const regrouped = recorder.ofType('survivors_regrouped')[0].event;
+      expect(regrouped).toEqual({ type: 'survivors_regrouped', survivorCount: 1, survivorNames: ['Alice'] });
+    });
+
+    it('addresses you_survived and you_are_eliminated to individual connections', () => {
+      createSession();
+      join('c1', 'Alice');
+      join('c2', 'Bob');
+      recorder.clear();
+
+      playFirstQuestion({ c1: 'A', c2: 'B' });
+
+      expect(recorder.toConnection('c1').map((e) => e.type)).toContain('you_survived');
+      expect(recorder.toConnection('c2')).toContainEqual({ type: 'you_are_eliminated', correctAnswer: 'A', yourAnswer: 'B' });
+    });
+
+    it('reports game_over winners by screen name', () => {
+      createSession();
+      join('c1', 'Alice');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 2 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'C' });
+      jest.advanceTimersByTime(10000 + 2500);
+
+      expect(recorder.ofType('game_over')[0].event).toEqual({ type: 'game_over', winners: ['Alice'] });
+    });
+
+    it('sends live_answer_stats only to the admin', () => {
+      createSession();
+      join('c1', 'Alice');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      recorder.clear();
+
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'A' });
+
+      expect(recorder.ofType('live_answer_stats')[0].audience).toEqual({ to: 'admin' });
+    });
+
+    it('cancels pending timers on restart_game', () => {
+      createSession();
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      recorder.clear();
+
+      controller.handleAdminCommand({ type: 'restart_game' });
+      jest.advanceTimersByTime(15000);
+
+      expect(recorder.ofType('timer_expired')).toHaveLength(0);
+      expect(controller.hasSession()).toBe(false);
+    });
+
+    it('times each question by its own limit and waits the configured reveal delay', () => {
+      const questions = [{ ...QUESTIONS[0], timeLimit: 30 }, QUESTIONS[1], QUESTIONS[2]];
+      controller.handleAdminCommand({ type: 'create_session', questions, timeLimit: 5, revealDelay: 1 });
+      join('c1', 'Alice');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      expect(recorder.ofType('question_live')[0].event).toMatchObject({ timeLimit: 30 });
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'A' });
+
+      jest.advanceTimersByTime(29_999);
+      expect(recorder.ofType('timer_expired')).toHaveLength(0);
+      jest.advanceTimersByTime(1);
+      expect(recorder.ofType('timer_expired')).toHaveLength(1);
+      jest.advanceTimersByTime(1000);
+      expect(recorder.ofType('answer_revealed').map((e) => e.audience.to)).toEqual(['watchers', 'players']);
+
+      controller.handleAdminCommand({ type: 'advance_question' });
+      controller.handleAdminCommand({ type: 'go_live' });
+      expect(recorder.ofType('question_live')[1].event).toMatchObject({ timeLimit: 5 });
+    });
+
+    it('reports state errors to the admin', () => {
+      createSession();
+      recorder.clear();
+
+      controller.handleAdminCommand({ type: 'go_live' });
+
+      expect(recorder.ofType('error')[0].audience).toEqual({ to: 'admin' });
+    });
+  });
+
+  describe('timer controls', () => {
+    function goLive(): void {
+      createSession();
+      join('c1', 'Alice');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+    }
+
+    it('sends the closing deadline with question_live', () => {
+      jest.setSystemTime(1_000_000);
+      goLive();
+      expect(recorder.ofType('question_live')[0].event).toMatchObject({ timeLimit: 10, deadline: 1_010_000 });
+    });
+
+    it('freezes the clock while paused and ignores answers', () => {
+      goLive();
+      jest.advanceTimersByTime(4000);
+      controller.handleAdminCommand({ type: 'pause_question' });
+      expect(recorder.ofType('timer_paused')[0]).toEqual({ audience: { to: 'everyone' }, event: { type: 'timer_paused', remainingMs: 6000 } });
+
+      jest.advanceTimersByTime(60_000);
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'A' });
+      expect(recorder.ofType('timer_expired')).toHaveLength(0);
+      expect(recorder.ofType('answer_accepted')).toHaveLength(0);
+      expect(recorder.toConnection('c1')).toContainEqual({ type: 'answer_rejected', reason: 'paused' });
+
+      controller.handleAdminCommand({ type: 'resume_question' });
+      expect(recorder.ofType('timer_resumed')[0].event).toMatchObject({ remainingMs: 6000, deadline: Date.now() + 6000 });
+      jest.advanceTimersByTime(6000);
+      expect(recorder.ofType('timer_expired')).toHaveLength(1);
+    });
+
+    it('extends a live or paused question', () => {
+      goLive();
+      jest.advanceTimersByTime(8000);
+      controller.handleAdminCommand({ type: 'extend_timer', seconds: 10 });
+      expect(recorder.ofType('timer_extended')[0].event).toEqual({ type: 'timer_extended', deadline: Date.now() + 12_000, remainingMs: 12_000 });
+
+      controller.handleAdminCommand({ type: 'pause_question' });
+      controller.handleAdminCommand({ type: 'extend_timer', seconds: 5 });
+      expect(recorder.ofType('timer_extended')[1].event).toEqual({ type: 'timer_extended', deadline: null, remainingMs: 17_000 });
+
+      controller.handleAdminCommand({ type: 'resume_question' });
+      jest.advanceTimersByTime(16_999);
+      expect(recorder.ofType('timer_expired')).toHaveLength(0);
+      jest.advanceTimersByTime(1);
+      expect(recorder.ofType('timer_expired')).toHaveLength(1);
+    });
+
+    it('closes the question early without a second expiry', () => {
+      goLive();
+      controller.handleAdminCommand({ type: 'close_now' });
+      expect(recorder.ofType('timer_expired')).toHaveLength(1);
+      expect(recorder.ofType('answer_breakdown').map((e) => e.audience.to)).toEqual(['watchers', 'players']);
+
+      jest.advanceTimersByTime(10_000 + 2500);
+      expect(recorder.ofType('timer_expired')).toHaveLength(1);
+      expect(recorder.ofType('answer_revealed').map((e) => e.audience.to)).toEqual(['watchers', 'players']);
+    });
+
+    it('leaves the pending reveal alone when close_now arrives too late', () => {
+      goLive();
+      jest.advanceTimersByTime(10_000);
+      controller.handleAdminCommand({ type: 'close_now' });
+      expect(recorder.ofType('error')[0].audience).toEqual({ to: 'admin' });
+
+      jest.advanceTimersByTime(2500);
+      expect(recorder.ofType('answer_revealed').map((e) => e.audience.to)).toEqual(['watchers', 'players']);
+    });
+
+    it('replays a paused question on resume', () => {
+      goLive();
+      const token = (recorder.toConnection('c1').find((e) => e.type === 'joined') as { resumeToken: string }).resumeToken;
+      jest.advanceTimersByTime(3000);
+      controller.handleAdminCommand({ type: 'pause_question' });
+      controller.handlePlayerDisconnected('c1');
+
+      controller.handlePlayerCommand('c2', { type: 'resume', token });
+
+      expect(recorder.toConnection('c2').slice(1)).toEqual([
+        expect.objectContaining({ type: 'question_live', timeLimit: 7 }),
+        { type: 'timer_paused', remainingMs: 7000 },
+      ]);
+    });
+  });
+
+  describe('deadlines', () => {
+    function goLive(): void {
+      createSession();
+      join('c1', 'Alice');
+      join('c2', 'Bob');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+    }
+
+    it('answers clock_sync with the server time, with or without a session', () => {
+      jest.setSystemTime(5_000);
+      controller.handlePlayerCommand('c1', { type: 'clock_sync', clientTime: 4_900 });
+      controller.handleAdminCommand({ type: 'clock_sync', clientTime: 4_950 });
+
+      expect(recorder.toConnection('c1')).toEqual([{ type: 'clock_sync', clientTime: 4_900, serverTime: 5_000 }]);
+      expect(recorder.ofType('clock_sync')[1]).toEqual({ audience: { to: 'admin' }, event: { type: 'clock_sync', clientTime: 4_950, serverTime: 5_000 } });
+    });
+
+    it('rejects an answer that arrives after the deadline but before the timer fires', () => {
+      goLive();
+      jest.setSystemTime(Date.now() + 10_000);
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'A' });
+
+      expect(recorder.toConnection('c1')).toContainEqual({ type: 'answer_rejected', reason: 'too_late' });
+      expect(recorder.ofType('answer_accepted')).toHaveLength(0);
+      expect(recorder.ofType('live_answer_stats')).toHaveLength(0);
+    });
+
+    it('rejects answers once the question has closed', () => {
+      goLive();
+      jest.advanceTimersByTime(10_000);
+      controller.handlePlayerCommand('c2', { type: 'submit_answer', answer: 'B' });
+
+      expect(recorder.toConnection('c2')).toContainEqual({ type: 'answer_rejected', reason: 'too_late' });
+      expect(recorder.ofType('answer_breakdown')[0].event).toMatchObject({ totalAnswered: 0 });
+    });
+
+    it('ignores answers before the question goes live', () => {
+      createSession();
+      join('c1', 'Alice');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'A' });
+
+      expect(recorder.toConnection('c1').map((e) => e.type)).toEqual(['joined']);
+    });
+  });
+
+  describe('manual reveal', () => {
+    function closeQuestion(): void {
+      controller.handleAdminCommand({ type: 'create_session', questions: QUESTIONS, revealMode: 'manual' });
+      join('c1', 'Alice');
+      join('c2', 'Bob');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'A' });
+      controller.handlePlayerCommand('c2', { type: 'submit_answer', answer: 'B' });
+      controller.handleAdminCommand({ type: 'close_now' });
+    }
+
+    it('holds the breakdown until the host reveals the answer', () => {
+      closeQuestion();
+      jest.advanceTimersByTime(60_000);
+      expect(recorder.ofType('answer_revealed')).toHaveLength(0);
+
+      controller.handleAdminCommand({ type: 'reveal_answer' });
+      expect(recorder.ofType('answer_revealed').map((e) => e.audience.to)).toEqual(['watchers', 'players']);
+      expect(recorder.toConnection('c2')).toContainEqual({ type: 'you_are_eliminated', correctAnswer: 'A', yourAnswer: 'B' });
+      expect(recorder.ofType('survivors_regrouped')).toHaveLength(0);
+    });
+
+    it('regroups survivors only when asked, then allows the next question', () => {
+      closeQuestion();
+      controller.handleAdminCommand({ type: 'reveal_answer' });
+      controller.handleAdminCommand({ type: 'advance_question' });
+      expect(recorder.ofType('error')).toHaveLength(1);
+
+      controller.handleAdminCommand({ type: 'show_survivors' });
+      expect(recorder.ofType('survivors_regrouped')[0].event).toEqual({ type: 'survivors_regrouped', survivorCount: 1, survivorNames: ['Alice'] });
+      controller.handleAdminCommand({ type: 'advance_question' });
+      expect(recorder.ofType('question_preview')).toHaveLength(2);
+    });
+
+    it('rejects steps taken out of order', () => {
+      closeQuestion();
+      controller.handleAdminCommand({ type: 'show_survivors' });
+      expect(recorder.ofType('error')[0]).toEqual({ audience: { to: 'admin' }, event: { type: 'error', message: expect.stringContaining('showSurvivors()') } });
+    });
+
+    it('is refused when the reveal is automatic', () => {
+      createSession();
+      controller.handleAdminCommand({ type: 'reveal_answer' });
+      expect(recorder.ofType('error')[0].event).toEqual({ type: 'error', message: 'reveal_answer is only available when the reveal is manual' });
+    });
+  });
+
+  describe('points scoring', () => {
+    function createPointsSession(): void {
+      controller.handleAdminCommand({ type: 'create_session', questions: QUESTIONS, scoring: 'points' });
+    }
+
+    it('scores by speed, eliminates nobody and broadcasts the leaderboard', () => {
+      createPointsSession();
+      join('c1', 'Alice');
+      join('c2', 'Bob');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      jest.advanceTimersByTime(5000);
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'A' });
+      controller.handlePlayerCommand('c2', { type: 'submit_answer', answer: 'B' });
+      jest.advanceTimersByTime(5000 + 2500);
+
+      expect(recorder.ofType('answer_revealed')[0].event).toMatchObject({ eliminated: [] });
+      expect(recorder.toConnection('c1')).toContainEqual({ type: 'you_scored', correctAnswer: 'A', yourAnswer: 'A', points: 750, totalPoints: 750, rank: 1 });
+      expect(recorder.toConnection('c2')).toContainEqual({ type: 'you_scored', correctAnswer: 'A', yourAnswer: 'B', points: 0, totalPoints: 0, rank: 2 });
+      expect(recorder.ofType('survivors_regrouped')).toHaveLength(0);
+
+      const board = recorder.ofType('leaderboard')[0];
+      expect(board.audience).toEqual({ to: 'watchers' });
+      expect(board.event).toMatchObject({ entries: [{ screenName: 'Alice', totalPoints: 750 }, { screenName: 'Bob', totalPoints: 0 }] });
+    });
+
+    it('sends the final leaderboard after game_over', () => {
+      createPointsSession();
+      join('c1', 'Alice');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 2 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'C' });
+      jest.advanceTimersByTime(10000 + 2500);
+
+      const types = recorder.emitted.map((e) => e.event.type);
+      expect(types.indexOf('leaderboard')).toBeGreaterThan(types.indexOf('game_over'));
+      expect(recorder.ofType('game_over')[0].event).toEqual({ type: 'game_over', winners: ['Alice'] });
+    });
+
+    it('scores a player who joins after the first question', () => {
+      createPointsSession();
+      join('c1', 'Alice');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      join('c2', 'Bob');
+      controller.handlePlayerCommand('c2', { type: 'submit_answer', answer: 'A' });
+      jest.advanceTimersByTime(10000 + 2500);
+
+      expect(recorder.toConnection('c2')).toContainEqual(expect.objectContaining({ type: 'you_scored', yourAnswer: 'A', points: 1000, totalPoints: 1000, rank: 1 }));
+      expect(recorder.ofType('leaderboard')[0].event).toMatchObject({ entries: [{ screenName: 'Bob', totalPoints: 1000 }, { screenName: 'Alice', totalPoints: 0 }] });
+    });
+
+    it('turns away a late joiner\'s answers in elimination mode', () => {
+      createSession();
+      join('c1', 'Alice');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      join('c2', 'Bob');
+      controller.handlePlayerCommand('c2', { type: 'submit_answer', answer: 'A' });
+
+      expect(recorder.toConnection('c2')).toContainEqual({ type: 'answer_rejected', reason: 'joined_late' });
+      expect(recorder.toConnection('c2')).not.toContainEqual({ type: 'answer_accepted' });
+    });
+
+    it('does not send a leaderboard in elimination mode', () => {
+      createSession();
+      join('c1', 'Alice');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      jest.advanceTimersByTime(10000 + 2500);
+
+      expect(recorder.ofType('leaderboard')).toHaveLength(0);
+    });
+  });
+
+  describe('question types', () => {
+    const TYPED: TriviaQuestion[] = [
+      { question: 'The Moon has no gravity.', type: 'true_false', correct: 'B' },
+      { question: 'Which are primary colours?', type: 'multi_select', a: 'Red', b: 'Green', c: 'Blue', correct: ['A', 'C'] },
+      { question: 'Year of the Moon landing?', type: 'numeric', correct: 1969, tolerance: 1 },
+    ];
+
+    function goLive(questionIndex: number): void {
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex });
+      controller.handleAdminCommand({ type: 'go_live' });
+    }
+
+    beforeEach(() => {
+      controller.handleAdminCommand({ type: 'create_session', questions: TYPED, scoring: 'points' });
+      join('c1', 'Alice');
+      join('c2', 'Bob');
+      join('c3', 'Cara');
+      recorder.clear();
+    });
+
+    it('tells players the question type and its answers', () => {
+      goLive(0);
+      expect(recorder.ofType('question_live')[0].event).toMatchObject({ questionType: 'true_false', options: ['True', 'False'] });
+      recorder.clear();
+      jest.advanceTimersByTime(10000 + 2500);
+      goLive(2);
+      expect(recorder.ofType('question_live')[0].event).toMatchObject({ questionType: 'numeric', options: [] });
+    });
+
+    it('rejects an answer that does not fit the question', () => {
+      goLive(0);
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'C' });
+      controller.handlePlayerCommand('c2', { type: 'submit_answer', answer: ['A', 'B'] });
+      expect(recorder.toConnection('c1')).toEqual([{ type: 'error', message: 'That answer does not fit this question' }]);
+      expect(recorder.toConnection('c2')).toEqual([{ type: 'error', message: 'That answer does not fit this question' }]);
+    });
+
+    it('scores a multi-select only when every right answer is picked', () => {
+      goLive(1);
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: ['C', 'A'] });
+      controller.handlePlayerCommand('c2', { type: 'submit_answer', answer: ['A'] });
+      jest.advanceTimersByTime(10000 + 2500);
+
+      expect(recorder.toConnection('c1')).toContainEqual(expect.objectContaining({ type: 'you_scored', correctAnswer: ['A', 'C'], yourAnswer: ['A', 'C'] }));
+      expect(recorder.toConnection('c2')).toContainEqual(expect.objectContaining({ type: 'you_scored', yourAnswer: ['A'], points: 0 }));
+    });
+
+    it('scores the closest numeric guess and any within the tolerance', () => {
+      goLive(2);
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 1970 });
+      controller.handlePlayerCommand('c2', { type: 'submit_answer', answer: 1969.5 });
+      controller.handlePlayerCommand('c3', { type: 'submit_answer', answer: 1950 });
+      jest.advanceTimersByTime(10000 + 2500);
+
+      const scored = (connectionId: string) => recorder.toConnection(connectionId).find((e) => e.type === 'you_scored');
+      expect(recorder.ofType('answer_revealed')[0].event).toMatchObject({ correct: 1969 });
+      expect(scored('c1')).toMatchObject({ yourAnswer: 1970, points: 1000 });
+      expect(scored('c2')).toMatchObject({ yourAnswer: 1969.5, points: 1000 });
+      expect(scored('c3')).toMatchObject({ yourAnswer: 1950, points: 0 });
+    });
+  });
+
+  describe('free-text questions', () => {
+    const TYPED: TriviaQuestion[] = [
+      { question: 'Which mission first landed on the Moon?', type: 'free_text', correct: ['Apollo 11', 'Apollo'] },
+      ...QUESTIONS.slice(1),
+    ];
+
+    beforeEach(() => {
+      controller.handleAdminCommand({ type: 'create_session', questions: TYPED, revealMode: 'manual' });
+      join('c1', 'Alice');
+      join('c2', 'Bob');
+      join('c3', 'Cara');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'apollo 11' });
+      controller.handlePlayerCommand('c2', { type: 'submit_answer', answer: 'Armstrong' });
+      controller.handlePlayerCommand('c3', { type: 'submit_answer', answer: 'Gemini' });
+      recorder.clear();
+      controller.handleAdminCommand({ type: 'close_now' });
+    });
+
+    it('lists the typed answers for the host when the question closes', () => {
+      const listed = recorder.ofType('text_answers');
+      expect(listed).toHaveLength(1);
+      expect(listed[0]).toEqual({
+        audience: { to: 'admin' },
+        event: {
+          type: 'text_answers',
+          answers: [
+            { answer: 'apollo 11', count: 1, accepted: true },
+            { answer: 'Armstrong', count: 1, accepted: false },
+            { answer: 'Gemini', count: 1, accepted: false },
+          ],
+        },
+      });
+    });
+
+    it('lets the host accept a borderline answer before the reveal', () => {
+      recorder.clear();
+      controller.handleAdminCommand({ type: 'accept_answer', answer: 'Armstrong' });
+      expect(recorder.ofType('text_answers')[0].event).toMatchObject({ answers: expect.arrayContaining([{ answer: 'Armstrong', count: 1, accepted: true }]) });
+
+      controller.handleAdminCommand({ type: 'reveal_answer' });
+      expect(recorder.ofType('answer_revealed')[0].event).toMatchObject({ correct: ['Apollo 11', 'Apollo'], eliminated: [expect.any(String)] });
+      expect(recorder.toConnection('c2').map((e) => e.type)).toContain('you_survived');
+      expect(recorder.toConnection('c3')).toContainEqual({ type: 'you_are_eliminated', correctAnswer: ['Apollo 11', 'Apollo'], yourAnswer: 'Gemini' });
+    });
+
+    it('refuses to accept answers once the answer is revealed', () => {
+      controller.handleAdminCommand({ type: 'reveal_answer' });
+      recorder.clear();
+      controller.handleAdminCommand({ type: 'accept_answer', answer: 'Gemini' });
+      expect(recorder.ofType('error')[0].event).toEqual({ type: 'error', message: expect.stringContaining('acceptAnswer()') });
+    });
+  });
+
+  describe('polls and word clouds', () => {
+    const OPINIONS: TriviaQuestion[] = [
+      { question: 'How confident are you about the strategy?', type: 'poll', a: 'Very', b: 'Somewhat', c: 'Not at all' },
+      ...QUESTIONS.slice(1),
+      { question: 'One word for this quarter?', type: 'word_cloud' },
+    ];
+
+    beforeEach(() => {
+      controller.handleAdminCommand({ type: 'create_session', questions: OPINIONS, revealMode: 'manual' });
+      join('c1', 'Alice');
+      join('c2', 'Bob');
+      join('c3', 'Cara');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+    });
+
+    it('shows the screens live percentages as votes arrive', () => {
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'A' });
+      controller.handlePlayerCommand('c2', { type: 'submit_answer', answer: 'A' });
+      controller.handlePlayerCommand('c3', { type: 'submit_answer', answer: 'C' });
+
+      const live = recorder.ofType('poll_results');
+      expect(live.map((e) => e.audience.to)).toEqual(['watchers', 'watchers', 'watchers']);
+      expect(live[2].event).toEqual({
+        type: 'poll_results',
+        shares: [
+          { option: 'A', count: 2, percent: 67 },
+          { option: 'B', count: 0, percent: 0 },
+          { option: 'C', count: 1, percent: 33 },
+        ],
+        totalAnswered: 3,
+      });
+    });
+
+    it('ends the round when the poll closes, without a reveal or eliminations', () => {
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'B' });
+      recorder.clear();
+      controller.handleAdminCommand({ type: 'close_now' });
+
+      expect(recorder.ofType('answer_breakdown')).toHaveLength(2);
+      const final = recorder.ofType('poll_results');
+      expect(final).toHaveLength(1);
+      expect(final[0].audience).toEqual({ to: 'everyone' });
+      expect(final[0].event).toMatchObject({ totalAnswered: 1, final: true });
+      expect(recorder.ofType('answer_revealed')).toHaveLength(0);
+      expect(recorder.ofType('survivors_regrouped')).toHaveLength(0);
+
+      // Bob and Cara did not vote, and still play the next question
+      controller.handleAdminCommand({ type: 'advance_question' });
+      controller.handleAdminCommand({ type: 'go_live' });
+      controller.handleAdminCommand({ type: 'close_now' });
+      controller.handleAdminCommand({ type: 'reveal_answer' });
+      expect(recorder.ofType('answer_revealed')[0].event).toMatchObject({ eliminated: expect.any(Array), survivors: [] });
+      expect((recorder.ofType('answer_revealed')[0].event as { eliminated: string[] }).eliminated).toHaveLength(3);
+    });
+
+    it('sends a returning phone the poll results', () => {
+      const joined = recorder.toConnection('c1').find((e) => e.type === 'joined') as { resumeToken: string };
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'A' });
+      controller.handleAdminCommand({ type: 'close_now' });
+      controller.handlePlayerDisconnected('c1');
+      recorder.clear();
+
+      controller.handlePlayerCommand('c9', { type: 'resume', token: joined.resumeToken });
+      expect(recorder.toConnection('c9')).toContainEqual(expect.objectContaining({ type: 'poll_results', totalAnswered: 1, final: true }));
+    });
+
+    it('gathers word-cloud responses, and ends the game on a closing word cloud', () => {
+      controller.handleAdminCommand({ type: 'close_now' });
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 3 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'Growth' });
+      recorder.clear();
+      controller.handlePlayerCommand('c2', { type: 'submit_answer', answer: 'growth!' });
+      expect(recorder.ofType('word_cloud')[0]).toEqual({
+        audience: { to: 'watchers' },
+        event: { type: 'word_cloud', entries: [{ text: 'Growth', count: 2 }], totalAnswered: 2 },
+      });
+
+      controller.handleAdminCommand({ type: 'close_now' });
+      expect(recorder.ofType('game_over')[0].event).toEqual({ type: 'game_over', winners: ['Alice', 'Bob', 'Cara'] });
+    });
+
+    it('turns away a word-cloud response that is too long', () => {
+      controller.handleAdminCommand({ type: 'close_now' });
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 3 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      recorder.clear();
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'x'.repeat(31) });
+      expect(recorder.toConnection('c1')).toEqual([{ type: 'error', message: 'That answer does not fit this question' }]);
+    });
+  });
+
+  describe('question images', () => {
+    const PICTURED: TriviaQuestion[] = [
+      { question: 'Whose desk is this?', a: 'Ana', b: 'Ben', correct: 'A', image: '/media/desk.jpg' },
+      ...QUESTIONS.slice(1),
+    ];
+
+    function goLive(setup: { phoneImages?: boolean } = {}): void {
+      controller.handleAdminCommand({ type: 'create_session', questions: PICTURED, ...setup });
+      join('c1', 'Alice');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+    }
+
+    it('sends the image with the live question, for the broadcast screen only', () => {
+      goLive();
+      expect(recorder.ofType('question_live')[0].event).toMatchObject({ image: '/media/desk.jpg' });
+      expect(recorder.ofType('question_live')[0].event).not.toHaveProperty('imageOnPhones');
+    });
+
+    it('marks the image for phones when the host asks for it', () => {
+      goLive({ phoneImages: true });
+      expect(recorder.ofType('question_live')[0].event).toMatchObject({ image: '/media/desk.jpg', imageOnPhones: true });
+      expect(controller.playerState()[1]).toMatchObject({ type: 'question_live', imageOnPhones: true });
+    });
+
+    it('leaves the image out of questions without one', () => {
+      goLive();
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'A' });
+      controller.handleAdminCommand({ type: 'close_now' });
+      jest.advanceTimersByTime(10_000);
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 1 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      expect(recorder.ofType('question_live')[1].event).not.toHaveProperty('image');
+    });
+
+    it('keeps pictures on phones through a takeover', () => {
+      goLive({ phoneImages: true });
+      const standby = createGameController(createRecorder().sink);
+      standby.takeOver(JSON.parse(JSON.stringify(controller.snapshot())), ['c1']);
+      controller.handleAdminCommand({ type: 'restart_game' });
+      expect(standby.playerState()[1]).toMatchObject({ type: 'question_live', image: '/media/desk.jpg', imageOnPhones: true });
+    });
+  });
+
+  describe('teams', () => {
+    function createTeamSession(): void {
+      controller.handleAdminCommand({ type: 'create_session', questions: QUESTIONS, teams: ['Red', 'Blue'], teamScoring: 'majority' });
+    }
+
+    function joinTeam(connectionId: string, screenName: string, team: string): void {
+      controller.handlePlayerCommand(connectionId, { type: 'join', screenName, team });
+    }
+
+    it('announces the teams and tells players which team they joined', () => {
+      createTeamSession();
+      expect(recorder.ofType('session_created')[0].event).toMatchObject({ teams: ['Red', 'Blue'] });
+      joinTeam('c1', 'Alice', 'red');
+      expect(recorder.toConnection('c1')[0]).toMatchObject({ type: 'joined', team: 'Red' });
+    });
+
+    it('rejects joining an unknown team', () => {
+      createTeamSession();
+      joinTeam('c1', 'Alice', 'Green');
+      expect(recorder.toConnection('c1')).toEqual([{ type: 'error', message: 'Unknown team "Green"' }]);
+    });
+
+    it('eliminates whole teams and sends team results and standings', () => {
+      createTeamSession();
+      joinTeam('c1', 'Alice', 'Red');
+      joinTeam('c2', 'Bob', 'Red');
+      joinTeam('c3', 'Carol', 'Blue');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'A' });
+      controller.handlePlayerCommand('c2', { type: 'submit_answer', answer: 'A' });
+      controller.handlePlayerCommand('c3', { type: 'submit_answer', answer: 'A' });
+      jest.advanceTimersByTime(10000 + 2500);
+      expect(recorder.ofType('answer_revealed')[0].event).toMatchObject({ eliminated: [] });
+
+      recorder.clear();
+      controller.handleAdminCommand({ type: 'advance_question' });
+      controller.handleAdminCommand({ type: 'go_live' });
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'B' });
+      controller.handlePlayerCommand('c2', { type: 'submit_answer', answer: 'B' });
+      controller.handlePlayerCommand('c3', { type: 'submit_answer', answer: 'D' });
+      jest.advanceTimersByTime(10000 + 2500);
+
+      const revealed = recorder.ofType('answer_revealed')[0].event as { eliminated: string[] };
+      expect(revealed.eliminated).toHaveLength(1);
+      expect(recorder.toConnection('c1')).toContainEqual({
+        type: 'team_result', team: 'Red', correctAnswer: 'B', teamAnswer: 'B', correct: true, points: 1000, totalPoints: 2000, rank: 1, eliminated: false,
+      });
+      expect(recorder.toConnection('c3')).toContainEqual(expect.objectContaining({ type: 'team_result', team: 'Blue', correct: false, eliminated: true }));
+      expect(recorder.ofType('you_survived')).toHaveLength(0);
+      expect(recorder.ofType('team_leaderboard')[0].event).toEqual({
+        type: 'team_leaderboard',
+        entries: [{ team: 'Red', totalPoints: 2000, playerCount: 2 }, { team: 'Blue', totalPoints: 1000, playerCount: 1 }],
+      });
+    });
+
+    it('names the winning team at game over', () => {
+      createTeamSession();
+      joinTeam('c1', 'Alice', 'Red');
+      joinTeam('c2', 'Carol', 'Blue');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 2 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      controller.handlePlayerCommand('c2', { type: 'submit_answer', answer: 'C' });
+      jest.advanceTimersByTime(10000 + 2500);
+
+      expect(recorder.ofType('game_over')[0].event).toEqual({ type: 'game_over', winners: ['Blue'] });
+    });
+  });
+
+  describe('bingo', () => {
+    function createBingoSession(): void {
+      controller.handleAdminCommand({ type: 'create_session', gameMode: 'bingo' });
+    }
+
+    function markTopRow(connectionId: string): void {
+      [0, 1, 2, 3, 4].forEach((index) => controller.handlePlayerCommand(connectionId, { type: 'mark_cell', index }));
+    }
+
+    it('deals a card from the built-in word list on join', () => {
+      createBingoSession();
+      join('c1', 'Alice');
+      const card = recorder.toConnection('c1').find((e) => e.type === 'card_dealt') as { words: string[]; marked: boolean[] };
+      expect(card.words).toHaveLength(25);
+      expect(card.words[12]).toBe('FREE');
+      expect(card.marked.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('reports a word list that is too short to the admin', () => {
+      controller.handleAdminCommand({ type: 'create_session', gameMode: 'bingo', words: ['synergy'] });
+      expect(recorder.ofType('error')[0]).toEqual({ audience: { to: 'admin' }, event: { type: 'error', message: 'Word list needs at least 24 distinct words, got 1' } });
+      expect(controller.hasSession()).toBe(false);
+    });
+
+    it('rejects bingo commands in a trivia session', () => {
+      createSession();
+      join('c1', 'Alice');
+      controller.handlePlayerCommand('c1', { type: 'mark_cell', index: 0 });
+      controller.handleAdminCommand({ type: 'start_bingo' });
+      expect(recorder.toConnection('c1')).toContainEqual({ type: 'error', message: 'Command not valid for trivia player' });
+      expect(recorder.ofType('error').map((e) => e.event)).toContainEqual({ type: 'error', message: 'No bingo game configured' });
+    });
+
+    it('rejects trivia commands in a bingo session', () => {
+      createBingoSession();
+      join('c1', 'Alice');
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'A' });
+      controller.handleAdminCommand({ type: 'go_live' });
+      expect(recorder.toConnection('c1')).not.toContainEqual(expect.objectContaining({ type: 'answer_accepted' }));
+      expect(recorder.ofType('error').map((e) => e.event)).toContainEqual({ type: 'error', message: 'No trivia game configured' });
+    });
+
+    it('marks cells and tells the player when a line is claimable', () => {
+      createBingoSession();
+      join('c1', 'Alice');
+      controller.handleAdminCommand({ type: 'start_bingo' });
+      expect(recorder.ofType('bingo_started')[0]).toEqual({ audience: { to: 'everyone' }, event: { type: 'bingo_started', prize: 'line' } });
+
+      markTopRow('c1');
+      const marks = recorder.toConnection('c1').filter((e) => e.type === 'cell_marked');
+      expect(marks[3]).toEqual({ type: 'cell_marked', index: 3, marked: true, pattern: null });
+      expect(marks[4]).toEqual({ type: 'cell_marked', index: 4, marked: true, pattern: 'line' });
+    });
+
+    it('sends claims to the host and announces the verdict', () => {
+      createBingoSession();
+      const aliceId = join('c1', 'Alice');
+      controller.handleAdminCommand({ type: 'start_bingo' });
+      markTopRow('c1');
+      controller.handlePlayerCommand('c1', { type: 'claim_bingo' });
+
+      const claim = recorder.ofType('bingo_claimed')[0];
+      expect(claim.audience).toEqual({ to: 'everyone' });
+      expect(claim.event).toMatchObject({ playerId: aliceId, screenName: 'Alice', pattern: 'line' });
+      expect((claim.event as { markedWords: string[] }).markedWords).toHaveLength(5);
+
+      controller.handleAdminCommand({ type: 'verify_claim', playerId: aliceId, accept: true });
+      expect(recorder.ofType('claim_result')[0].event).toEqual({
+        type: 'claim_result', playerId: aliceId, screenName: 'Alice', pattern: 'line', accepted: true, prize: 'full_house',
+      });
+    });
+
+    it('ends the game on an accepted full house', () => {
+      createBingoSession();
+      const aliceId = join('c1', 'Alice');
+      controller.handleAdminCommand({ type: 'start_bingo' });
+      for (let index = 0; index < 25; index++) {
+        if (index !== 12) controller.handlePlayerCommand('c1', { type: 'mark_cell', index });
+      }
+      controller.handlePlayerCommand('c1', { type: 'claim_bingo' });
+      controller.handleAdminCommand({ type: 'verify_claim', playerId: aliceId, accept: true });
+      controller.handlePlayerCommand('c1', { type: 'claim_bingo' });
+
+      // The line is won first; a full house is then claimed separately
+      controller.handleAdminCommand({ type: 'verify_claim', playerId: aliceId, accept: true });
+      expect(recorder.ofType('game_over')[0].event).toEqual({ type: 'game_over', winners: ['Alice'] });
+    });
+
+    it('replays the card with its marks on resume', () => {
+      createBingoSession();
+      controller.handlePlayerCommand('c1', { type: 'join', screenName: 'Alice' });
+      const token = (recorder.toConnection('c1')[0] as { resumeToken: string }).resumeToken;
+      controller.handleAdminCommand({ type: 'start_bingo' });
+      controller.handlePlayerCommand('c1', { type: 'mark_cell', index: 0 });
+      controller.handlePlayerDisconnected('c1');
+
+      controller.handlePlayerCommand('c2', { type: 'resume', token });
+      const replay = recorder.toConnection('c2');
+      expect(replay.map((e) => e.type)).toEqual(['joined', 'card_dealt', 'bingo_started']);
+      expect((replay[1] as { marked: boolean[] }).marked[0]).toBe(true);
+    });
+  });
+
+  describe('player state', () => {
+    it('is empty without a session', () => {
+      expect(controller.playerState()).toEqual([]);
+    });
+
+    it('shows the join form, then the live question, then the game over screen', () => {
+      controller.handleAdminCommand({ type: 'create_session', questions: QUESTIONS, teams: ['Red', 'Blue'], teamScoring: 'majority' });
+      expect(controller.playerState()).toEqual([{ type: 'session_created', sessionId: expect.any(String), teams: ['Red', 'Blue'] }]);
+
+      join('c1', 'Alice');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 2 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      const deadline = Date.now() + 10000;
+      expect(controller.playerState().slice(1)).toEqual([
+        { type: 'question_live', text: 'Q3', options: ['A3', 'B3', 'C3', 'D3'], timeLimit: 10, deadline },
+      ]);
+
+      jest.advanceTimersByTime(4000);
+      controller.handleAdminCommand({ type: 'pause_question' });
+      expect(controller.playerState().slice(1)).toEqual([
+        { type: 'question_live', text: 'Q3', options: ['A3', 'B3', 'C3', 'D3'], timeLimit: 10, deadline },
+        { type: 'timer_paused', remainingMs: 6000 },
+      ]);
+    });
+
+    it('shows who is left between elimination questions', () => {
+      createSession();
+      join('c1', 'Alice');
+      join('c2', 'Bob');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'A' });
+      jest.advanceTimersByTime(10000);
+      expect(controller.playerState().slice(1)).toEqual([{ type: 'timer_expired' }]);
+
+      jest.advanceTimersByTime(2500);
+      expect(controller.playerState().slice(1)).toEqual([{ type: 'survivors_regrouped', survivorCount: 1 }]);
+    });
+
+    it('shows whether bingo has started', () => {
+      controller.handleAdminCommand({ type: 'create_session', gameMode: 'bingo' });
+      expect(controller.playerState().slice(1)).toEqual([]);
+      controller.handleAdminCommand({ type: 'start_bingo' });
+      expect(controller.playerState().slice(1)).toEqual([{ type: 'bingo_started', prize: 'line' }]);
+    });
+  });
+
+  describe('takeover', () => {
+    let standbyRecorder: ReturnType<typeof createRecorder>;
+    let standby: ReturnType<typeof createGameController>;
+
+    beforeEach(() => {
+      standbyRecorder = createRecorder();
+      standby = createGameController(standbyRecorder.sink);
+    });
+
+    /** Hands the primary's state to the standby the way the relay does: as JSON. */
+    function handOver(liveConnections: string[]): void {
+      standby.takeOver(JSON.parse(JSON.stringify(controller.snapshot())), liveConnections);
+    }
+
+    it('has no snapshot without a session', () => {
+      expect(controller.snapshot()).toBeNull();
+      standby.takeOver(null, []);
+      expect(standby.hasSession()).toBe(false);
+    });
+
+    it('carries on a live question to its original deadline', () => {
+      createSession();
+      join('c1', 'Alice');
+      join('c2', 'Bob');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      controller.handlePlayerCommand('c1', { type: 'submit_answer', answer: 'A' });
+      jest.advanceTimersByTime(4_000);
+
+      handOver(['c1', 'c2']);
+      controller.handleAdminCommand({ type: 'restart_game' });
+      expect(standbyRecorder.ofType('session_restored')[0]).toEqual({
+        audience: { to: 'admin' },
+        event: { type: 'session_restored', sessionId: expect.any(String), gameMode: 'trivia' },
+      });
+      expect(standby.getPlayerConnections().sort()).toEqual(['c1', 'c2']);
+
+      standby.handlePlayerCommand('c2', { type: 'submit_answer', answer: 'B' });
+      expect(standbyRecorder.toConnection('c2')).toContainEqual({ type: 'answer_accepted' });
+      jest.advanceTimersByTime(5_999);
+      expect(standbyRecorder.ofType('timer_expired')).toHaveLength(0);
+      jest.advanceTimersByTime(1);
+      expect(standbyRecorder.ofType('answer_breakdown')[0].event).toMatchObject({ totalAnswered: 2 });
+      jest.advanceTimersByTime(2_500);
+      expect(standbyRecorder.ofType('answer_revealed')[0].event).toMatchObject({ correct: 'A', survivors: [expect.any(String)] });
+    });
+
+    it('shows a question taken over while paused with its deadline, and resumes it', () => {
+      createSession();
+      join('c1', 'Alice');
+      controller.handleAdminCommand({ type: 'start_trivia_question', questionIndex: 0 });
+      controller.handleAdminCommand({ type: 'go_live' });
+      const deadline = Date.now() + 10_000;
+      jest.advanceTimersByTime(4_000);
+      controller.handleAdminCommand({ type: 'pause_question' });
+
+      handOver(['c1']);
+      controller.handleAdminCommand({ type: 'restart_game' });
+      expect(standby.playerState().slice(1)).toEqual([
+        { type: 'question_live', text: 'Q1', options: ['A1', 'B1', 'C1', 'D1'], timeLimit: 10, deadline },
+        { type: 'timer_paused', remainingMs: 6_000 },
+      ]);
+
+      standby.handleAdminCommand({ type: 'resume_question' });
+      expect(standbyRecorder.ofType('timer_resumed')[0].event).toEqual({ type: 'timer_resumed', deadline: Date.now() + 6_000, remainingMs: 6_000 });
+      jest.advanceTimersByTime(6_000);
+      expect(standbyRecorder.ofType('timer_expired')).toHaveLength(1);
+    });
+
+    it('honours resume tokens and gives players who dropped during the hand-over their grace period', () => {
+      createSession();
+      join('c1', 'Alice');
+      const bobId = join('c2', 'Bob');
+      const token = (recorder.toConnection('c2').find((e) => e.type === 'joined') as { resumeToken: string }).resumeToken;
+
+      handOver(['c1']);
+      standby.handlePlayerCommand('c9', { type: 'resume', token });
+      expect(standbyRecorder.toConnection('c9')[0]).toMatchObject({ type: 'joined', playerId: bobId, screenName: 'Bob' });
+
+      standby.handlePlayerDisconnected('c1');
+      jest.advanceTimersByTime(RESUME_GRACE_MS);
+      expect(standbyRecorder.ofType('player_left').map((e) => (e.event as { screenName: string }).screenName)).toEqual(['Alice']);
+    });
+
+    it('keeps bingo cards and pending claims', () => {
+      controller.handleAdminCommand({ type: 'create_session', gameMode: 'bingo' });
+      const aliceId = join('c1', 'Alice');
+      controller.handleAdminCommand({ type: 'start_bingo' });
+      [0, 1, 2, 3, 4].forEach((index) => controller.handlePlayerCommand('c1', { type: 'mark_cell', index }));
+      controller.handlePlayerCommand('c1', { type: 'claim_bingo' });
+
+      handOver(['c1']);
+      standby.handleAdminCommand({ type: 'verify_claim', playerId: aliceId, accept: true });
+      expect(standbyRecorder.ofType('claim_result')[0].event).toMatchObject({ screenName: 'Alice', accepted: true, prize: 'full_house' });
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { DEFAULT_GAME_MODE, GAME_MODES, findCommandSpec, getGameMode } from '../game-modes';
+import { isPlayerCommand, parseCommand } from '../protocol';
+
+describe('game-mode registry', () => {
+  it('registers every mode under its own id', () => {
+    for (const [id, mode] of Object.entries(GAME_MODES)) {
+      expect(mode.id).toBe(id);
+    }
+    expect(getGameMode(DEFAULT_GAME_MODE)).toBe(GAME_MODES.trivia);
+  });
+
+  it('returns null for unknown or non-string mode ids', () => {
+    expect(getGameMode('chess')).toBeNull();
+    expect(getGameMode('constructor')).toBeNull();
+    expect(getGameMode(42)).toBeNull();
+  });
+
+  it('finds the mode that owns each command', () => {
+    expect(findCommandSpec('go_live')).toMatchObject({ mode: 'trivia', spec: { role: 'admin' } });
+    expect(findCommandSpec('submit_answer')).toMatchObject({ mode: 'trivia', spec: { role: 'player' } });
+    expect(findCommandSpec('verify_claim')).toMatchObject({ mode: 'bingo', spec: { role: 'admin' } });
+    expect(findCommandSpec('mark_cell')).toMatchObject({ mode: 'bingo', spec: { role: 'player' } });
+  });
+
+  it('does not treat shared or inherited names as mode commands', () => {
+    expect(findCommandSpec('create_session')).toBeNull();
+    expect(findCommandSpec('join')).toBeNull();
+    expect(findCommandSpec('toString')).toBeNull();
+  });
+
+  it('gives each command type a single owner', () => {
+    const types = Object.values(GAME_MODES).flatMap((mode) => Object.keys(mode.commands));
+    expect(new Set(types).size).toBe(types.length);
+  });
+});
+
+describe('protocol dispatch through the registry', () => {
+  it('rejects create_session for an unregistered mode', () => {
+    expect(parseCommand(JSON.stringify({ type: 'create_session', gameMode: 'chess' }))).toBeNull();
+  });
+
+  it('rejects inherited property names as command types', () => {
+    expect(parseCommand('{"type":"toString"}')).toBeNull();
+    expect(parseCommand('{"type":"__proto__"}')).toBeNull();
+  });
+
+  it('classifies player commands by their declared role', () => {
+    expect(isPlayerCommand({ type: 'join', screenName: 'Alice' })).toBe(true);
+    expect(isPlayerCommand({ type: 'resume', token: 't' })).toBe(true);
+    expect(isPlayerCommand({ type: 'submit_answer', answer: 'A' })).toBe(true);
+    expect(isPlayerCommand({ type: 'claim_bingo' })).toBe(true);
+    expect(isPlayerCommand({ type: 'go_live' })).toBe(false);
+    expect(isPlayerCommand({ type: 'restart_game' })).toBe(false);
+  });
+});
@@ -1,10 +1,11 @@
 import * as http from 'http';
 import * as fs from 'fs';
-import { handleStaticRequest } from '../http-server';
+import { handleStaticRequest, MAX_MEDIA_BYTES } from '../http-server';
 
 jest.mock('fs');
 
 const mockReadFile = fs.readFile as unknown as jest.Mock;
+const mockStat = fs.stat as unknown as jest.Mock;
 
 const PUBLIC_DIR = '/fake/public';
 
@@ -25,6 +26,13 @@ function simulateReadFile(data: Buffer | null, err: NodeJS.ErrnoException | null
   });
 }
 
+function simulateStat(size: number | null, isFile = true) {
+  mockStat.mockImplementation((_path: string, cb: (err: NodeJS.ErrnoException | null, stats?: fs.Stats) => void) => {
+    if (size === null) cb(Object.assign(new Error('ENOENT'), { code: 'ENOENT' }));
+    else cb(null, { size, isFile: () => isFile } as fs.Stats);
+  });
+}
+
 beforeEach(() => {
   jest.clearAllMocks();
 });
@@ -89,22 +97,31 @@ describe('named routes — unified role', () => {
   });
 });
 
-describe('/admin/bingo removed', () => {
-  it('GET /admin/bingo → 404 with unified role', () => {
+describe('bingo routes', () => {
+  it('GET /admin/bingo → 200 serving admin/bingo.html with admin role', () => {
+    simulateReadFile(Buffer.from('<html>bingo</html>'));
     const req = makeReq('/admin/bingo');
     const res = makeRes();
-    handleStaticRequest(req, res, PUBLIC_DIR, 'unified');
-    expect(mockReadFile).not.toHaveBeenCalled();
-    expect(res.writeHead).toHaveBeenCalledWith(404, { 'Content-Type': 'text/plain' });
+    handleStaticRequest(req, res, PUBLIC_DIR, 'admin');
+    expect(mockReadFile).toHaveBeenCalledWith(expect.stringContaining('admin/bingo.html'), expect.any(Function));
+    expect(res.writeHead).toHaveBeenCalledWith(200, { 'Content-Type': 'text/html; charset=utf-8' });
   });
 
-  it('GET /admin/bingo → 404 with admin role', () => {
+  it('GET /admin/bingo → 404 with relay role', () => {
     const req = makeReq('/admin/bingo');
     const res = makeRes();
-    handleStaticRequest(req, res, PUBLIC_DIR, 'admin');
+    handleStaticRequest(req, res, PUBLIC_DIR, 'relay');
     expect(mockReadFile).not.toHaveBeenCalled();
     expect(res.writeHead).toHaveBeenCalledWith(404, { 'Content-Type': 'text/plain' });
   });
+
+  it('GET /broadcast/bingo → 200 serving broadcast/bingo.html with relay role', () => {
+    simulateReadFile(Buffer.from('<html>bingo</html>'));
+    const req = makeReq('/broadcast/bingo');
+    const res = makeRes();
+    handleStaticRequest(req, res, PUBLIC_DIR, 'relay');
+    expect(mockReadFile).toHaveBeenCalledWith(expect.stringContaining('broadcast/bingo.html'), expect.any(Function));
+  });
 });
 
 describe('named routes — role restrictions', () => {
@@ -346,6 +363,189 @@ describe('CSV fixture route', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Quiz schema and vendored packages
+// ---------------------------------------------------------------------------
+
+describe('quiz schema route', () => {
+  it.each(['unified', 'admin', 'relay'] as const)('GET /schemas/quiz-v1.schema.json → 200 application/json (%s)', (role) => {
+    const data = Buffer.from('{}');
+    simulateReadFile(data);
+    const res = makeRes();
+
+    handleStaticRequest(makeReq('/schemas/quiz-v1.schema.json'), res, PUBLIC_DIR, role);
+
+    expect(mockReadFile).toHaveBeenCalledWith(expect.stringContaining('schemas/quiz-v1.schema.json'), expect.any(Function));
+    expect(res.writeHead).toHaveBeenCalledWith(200, { 'Content-Type': 'application/json; charset=utf-8' });
+  });
+});
+
+describe('vendor route', () => {
+  it('GET /vendor/yaml/index.js → the package\'s browser build (admin role)', () => {
+    simulateReadFile(Buffer.from('export default {}'));
+    const res = makeRes();
+
+    handleStaticRequest(makeReq('/vendor/yaml/index.js'), res, PUBLIC_DIR, 'admin');
+
+    expect(mockReadFile).toHaveBeenCalledWith(expect.stringMatching(/node_modules[\\/]yaml[\\/]browser[\\/]index\.js$/), expect.any(Function));
+    expect(res.writeHead).toHaveBeenCalledWith(200, { 'Content-Type': 'application/javascript; charset=utf-8' });
+  });
+
+  it('does not serve packages to the relay', () => {
+    simulateReadFile(null, Object.assign(new Error('ENOENT'), { code: 'ENOENT' }));
+    const res = makeRes();
+
+    handleStaticRequest(makeReq('/vendor/yaml/index.js'), res, PUBLIC_DIR, 'relay');
+
+    expect(mockReadFile).not.toHaveBeenCalledWith(expect.stringContaining('node_modules'), expect.any(Function));
+    expect(res.writeHead).toHaveBeenCalledWith(404, { 'Content-Type': 'text/plain' });
+  });
+
+  it('path traversal out of the package → 404', () => {
+    const res = makeRes();
+
+    handleStaticRequest(makeReq('/vendor/yaml/../../ws/index.js'), res, PUBLIC_DIR, 'admin');
+
+    expect(mockReadFile).not.toHaveBeenCalled();
+    expect(res.writeHead).toHaveBeenCalledWith(404, { 'Content-Type': 'text/plain' });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Question images
+// ---------------------------------------------------------------------------
+
+describe('media route', () => {
+  it.each(['unified', 'admin', 'relay'] as const)('GET /media/desk.jpg → 200 image/jpeg from public/media (%s)', (role) => {
+    const data = Buffer.from('jpeg');
+    simulateStat(data.length);
+    simulateReadFile(data);
+    const res = makeRes();
+
+    handleStaticRequest(makeReq('/media/desk.jpg'), res, PUBLIC_DIR, role);
+
+    expect(mockReadFile).toHaveBeenCalledWith(expect.stringMatching(/public[\\/]media[\\/]desk\.jpg$/), expect.any(Function));
+    expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({ 'Content-Type': 'image/jpeg' }));
+    expect(res.end).toHaveBeenCalledWith(data);
+  });
+
+  it.each([
+    ['logo.png', 'image/png'],
+    ['chart.JPEG', 'image/jpeg'],
+    ['wave.gif', 'image/gif'],
+    ['team.webp', 'image/webp'],
+  ])('serves %s as %s', (file, contentType) => {
+    simulateStat(10);
+    simulateReadFile(Buffer.from('x'));
+    const res = makeRes();
+
+    handleStaticRequest(makeReq(`/media/${file}`), res, PUBLIC_DIR, 'unified');
+
+    expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({ 'Content-Type': contentType }));
+  });
+
+  it('serves SVG with a policy that keeps its scripts from running', () => {
+    simulateStat(10);
+    simulateReadFile(Buffer.from('<svg/>'));
+    const res = makeRes();
+
+    handleStaticRequest(makeReq('/media/org-chart.svg'), res, PUBLIC_DIR, 'unified');
+
+    expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({
+      'Content-Type': 'image/svg+xml',
+      'Content-Security-Policy': expect.stringContaining('sandbox'),
+    }));
+  });
+
+  it('lets phones cache images', () => {
+    simulateStat(10);
+    simulateReadFile(Buffer.from('x'));
+    const res = makeRes();
+
+    handleStaticRequest(makeReq('/media/logo.png'), res, PUBLIC_DIR, 'relay');
+
+    expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({
+      'Cache-Control': expect.stringContaining('max-age'),
+      'X-Content-Type-Options': 'nosniff',
+    }));
+  });
+
+  it('reads from the media directory it is given', () => {
+    simulateStat(10);
+    simulateReadFile(Buffer.from('x'));
+
+    handleStaticRequest(makeReq('/media/logo.png'), makeRes(), PUBLIC_DIR, 'unified', '/quizzes/friday');
+
+    expect(mockStat).toHaveBeenCalledWith(expect.stringMatching(/quizzes[\\/]friday[\\/]logo\.png$/), expect.any(Function));
+  });
+
+  it('decodes the file name', () => {
+    simulateStat(10);
+    simulateReadFile(Buffer.from('x'));
+
+    handleStaticRequest(makeReq('/media/whose%20desk.jpg'), makeRes(), PUBLIC_DIR, 'unified');
+
+    expect(mockStat).toHaveBeenCalledWith(expect.stringMatching(/whose desk\.jpg$/), expect.any(Function));
+  });
+
+  it('file over the size limit → 413 without reading it', () => {
+    simulateStat(MAX_MEDIA_BYTES + 1);
+    const res = makeRes();
+
+    handleStaticRequest(makeReq('/media/huge.png'), res, PUBLIC_DIR, 'unified');
+
+    expect(mockReadFile).not.toHaveBeenCalled();
+    expect(res.writeHead).toHaveBeenCalledWith(413, { 'Content-Type': 'text/plain' });
+  });
+
+  it('file at the size limit → 200', () => {
+    simulateStat(MAX_MEDIA_BYTES);
+    simulateReadFile(Buffer.from('x'));
+    const res = makeRes();
+
+    handleStaticRequest(makeReq('/media/big.png'), res, PUBLIC_DIR, 'unified');
+
+    expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({ 'Content-Type': 'image/png' }));
+  });
+
+  it('missing file → 404', () => {
+    simulateStat(null);
+    const res = makeRes();
+
+    handleStaticRequest(makeReq('/media/nope.png'), res, PUBLIC_DIR, 'unified');
+
+    expect(mockReadFile).not.toHaveBeenCalled();
+    expect(res.writeHead).toHaveBeenCalledWith(404, { 'Content-Type': 'text/plain' });
+  });
+
+  it('a directory named like an image → 404', () => {
+    simulateStat(0, false);
+    const res = makeRes();
+
+    handleStaticRequest(makeReq('/media/album.png'), res, PUBLIC_DIR, 'unified');
+
+    expect(res.writeHead).toHaveBeenCalledWith(404, { 'Content-Type': 'text/plain' });
+  });
+
+  it.each(['/media/README.md', '/media/notes.txt', '/media/clip.mp4', '/media/'])('GET %s → 404 (not an image)', (url) => {
+    const res = makeRes();
+
+    handleStaticRequest(makeReq(url), res, PUBLIC_DIR, 'unified');
+
+    expect(mockStat).not.toHaveBeenCalled();
+    expect(res.writeHead).toHaveBeenCalledWith(404, { 'Content-Type': 'text/plain' });
+  });
+
+  it.each(['/media/../admin/logo.png', '/media/%2e%2e/%2e%2e/secret.png', '/media/%E0%A4%A.png'])('GET %s → 404 (outside the media directory, or malformed)', (url) => {
+    const res = makeRes();
+
+    handleStaticRequest(makeReq(url), res, PUBLIC_DIR, 'unified');
+
+    expect(mockStat).not.toHaveBeenCalled();
+    expect(res.writeHead).toHaveBeenCalledWith(404, { 'Content-Type': 'text/plain' });
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Default 404 fallback
 // ---------------------------------------------------------------------------
@@ -1,4 +1,5 @@
 import { parseCommand, serializeEvent, type ServerEvent } from '../protocol';
+import type { CreateTriviaSessionCommand } from '../game-modes/trivia';
 
 describe('parseCommand', () => {
   it('returns null for invalid JSON', () => {
@@ -19,17 +20,116 @@ describe('parseCommand', () => {
     expect(parseCommand('{"type":"unknown"}')).toBeNull();
   });
 
+  describe('timer controls', () => {
+    it('parses pause, resume and close_now', () => {
+      expect(parseCommand('{"type":"pause_question"}')).toEqual({ type: 'pause_question' });
+      expect(parseCommand('{"type":"resume_question"}')).toEqual({ type: 'resume_question' });
+      expect(parseCommand('{"type":"close_now"}')).toEqual({ type: 'close_now' });
+    });
+
+    it('parses the manual reveal commands', () => {
+      expect(parseCommand('{"type":"reveal_answer"}')).toEqual({ type: 'reveal_answer' });
+      expect(parseCommand('{"type":"show_survivors"}')).toEqual({ type: 'show_survivors' });
+    });
+
+    it('parses accept_answer with the typed text', () => {
+      expect(parseCommand('{"type":"accept_answer","answer":"Apolo"}')).toEqual({ type: 'accept_answer', answer: 'Apolo' });
+      expect(parseCommand('{"type":"accept_answer","answer":""}')).toBeNull();
+      expect(parseCommand('{"type":"accept_answer"}')).toBeNull();
+    });
+
+    it('parses extend_timer with a whole number of seconds', () => {
+      expect(parseCommand('{"type":"extend_timer","seconds":10}')).toEqual({ type: 'extend_timer', seconds: 10 });
+      expect(parseCommand('{"type":"extend_timer","seconds":0}')).toBeNull();
+      expect(parseCommand('{"type":"extend_timer","seconds":2.5}')).toBeNull();
+      expect(parseCommand('{"type":"extend_timer"}')).toBeNull();
+    });
+  });
+
+  describe('clock_sync', () => {
+    it('parses a finite client time', () => {
+      expect(parseCommand('{"type":"clock_sync","clientTime":1700000000000}')).toEqual({ type: 'clock_sync', clientTime: 1700000000000 });
+      expect(parseCommand('{"type":"clock_sync","clientTime":"now"}')).toBeNull();
+      expect(parseCommand('{"type":"clock_sync"}')).toBeNull();
+    });
+  });
+
   describe('create_session', () => {
     const validQuestion = { question: 'Q?', a: 'A1', b: 'B1', c: 'C1', d: 'D1', correct: 'A' };
 
     it('parses valid create_session', () => {
       const cmd = parseCommand(JSON.stringify({ type: 'create_session', questions: [validQuestion] }));
-      expect(cmd).toEqual({ type: 'create_session', questions: [validQuestion], speed: false });
+      expect(cmd).toEqual({ type: 'create_session', questions: [validQuestion], speed: false, scoring: 'elimination' });
     });
 
     it('parses create_session with speed: true', () => {
       const cmd = parseCommand(JSON.stringify({ type: 'create_session', questions: [validQuestion], speed: true }));
-      expect(cmd).toEqual({ type: 'create_session', questions: [validQuestion], speed: true });
+      expect(cmd).toEqual({ type: 'create_session', questions: [validQuestion], speed: true, scoring: 'elimination' });
+    });
+
+    it('parses create_session with scoring: points', () => {
+      const cmd = parseCommand(JSON.stringify({ type: 'create_session', questions: [validQuestion], scoring: 'points' }));
+      expect(cmd).toMatchObject({ type: 'create_session', scoring: 'points' });
+    });
+
+    it('parses a default time limit, reveal delay and per-question limits', () => {
+      const timed = { ...validQuestion, timeLimit: 30 };
+      const cmd = parseCommand(JSON.stringify({ type: 'create_session', questions: [timed], timeLimit: 5, revealDelay: 1.5 }));
+      expect(cmd).toMatchObject({ questions: [timed], timeLimit: 5, revealDelay: 1.5 });
+    });
+
+    it('parses a reveal mode and rejects unknown ones', () => {
+      const make = (revealMode: unknown) => JSON.stringify({ type: 'create_session', questions: [validQuestion], revealMode });
+      expect(parseCommand(make('manual'))).toMatchObject({ revealMode: 'manual' });
+      expect(parseCommand(make('later'))).toBeNull();
+    });
+
+    it('parses pictures on phones, which are off unless asked for', () => {
+      const make = (phoneImages: unknown) => JSON.stringify({ type: 'create_session', questions: [validQuestion], phoneImages });
+      expect(parseCommand(make(true))).toMatchObject({ phoneImages: true });
+      expect(parseCommand(make('yes'))).not.toHaveProperty('phoneImages');
+    });
+
+    it('returns null for out-of-range timings', () => {
+      const make = (extra: object, question: object = validQuestion) =>
+        JSON.stringify({ type: 'create_session', questions: [question], ...extra });
+      expect(parseCommand(make({ timeLimit: 2 }))).toBeNull();
+      expect(parseCommand(make({ timeLimit: 121 }))).toBeNull();
+      expect(parseCommand(make({ timeLimit: 7.5 }))).toBeNull();
+      expect(parseCommand(make({ timeLimit: '10' }))).toBeNull();
+      expect(parseCommand(make({ revealDelay: -1 }))).toBeNull();
+      expect(parseCommand(make({ revealDelay: 31 }))).toBeNull();
+      expect(parseCommand(make({}, { ...validQuestion, timeLimit: 0 }))).toBeNull();
+    });
+
+    it('parses the optional question fields of an extended quiz', () => {
+      const rich = { ...validQuestion, round: 'Round 1', category: 'Science', points: 2000, explanation: 'Because.', image: '/media/q1.png' };
+      expect(parseCommand(JSON.stringify({ type: 'create_session', questions: [rich] }))).toMatchObject({ questions: [rich] });
+    });
+
+    it('returns null for malformed optional question fields', () => {
+      const make = (extra: object) => JSON.stringify({ type: 'create_session', questions: [{ ...validQuestion, ...extra }] });
+      expect(parseCommand(make({ points: 0 }))).toBeNull();
+      expect(parseCommand(make({ points: 1.5 }))).toBeNull();
+      expect(parseCommand(make({ round: 3 }))).toBeNull();
+      expect(parseCommand(make({ category: ' ' }))).toBeNull();
+    });
+
+    it('returns null for an unknown scoring mode', () => {
+      expect(parseCommand(JSON.stringify({ type: 'create_session', questions: [validQuestion], scoring: 'golf' }))).toBeNull();
+    });
+
+    it('parses teams with a default majority rule', () => {
+      const cmd = parseCommand(JSON.stringify({ type: 'create_session', questions: [validQuestion], teams: [' Red ', 'Blue'] }));
+      expect(cmd).toMatchObject({ teams: ['Red', 'Blue'], teamScoring: 'majority' });
+    });
+
+    it('returns null for invalid teams or team scoring', () => {
+      const create = (extra: object) => parseCommand(JSON.stringify({ type: 'create_session', questions: [validQuestion], ...extra }));
+      expect(create({ teams: ['Red'] })).toBeNull();
+      expect(create({ teams: ['Red', 'red'] })).toBeNull();
+      expect(create({ teams: ['Red', ''] })).toBeNull();
+      expect(create({ teams: ['Red', 'Blue'], teamScoring: 'loudest' })).toBeNull();
     });
 
     it('returns null if questions is missing', () => {
@@ -40,6 +140,104 @@ describe('parseCommand', () => {
       const bad = { ...validQuestion, correct: 'E' };
       expect(parseCommand(JSON.stringify({ type: 'create_session', questions: [bad] }))).toBeNull();
     });
+
+    describe('with a quiz document', () => {
+      const numbered = (n: number) => ({ ...validQuestion, question: `Question ${n}` });
+      const quiz = {
+        version: 1,
+        settings: { timeLimit: 25, scoring: 'points', revealMode: 'manual' },
+        rounds: [
+          { name: 'Warm-up', questions: [numbered(1), numbered(2)] },
+          { name: 'Final', questions: [numbered(3)] },
+        ],
+      };
+
+      it('plays its questions in order, each tagged with its round', () => {
+        const cmd = parseCommand(JSON.stringify({ type: 'create_session', quiz })) as CreateTriviaSessionCommand;
+        expect(cmd.questions).toEqual([
+          { ...numbered(1), round: 'Warm-up' },
+          { ...numbered(2), round: 'Warm-up' },
+          { ...numbered(3), round: 'Final' },
+        ]);
+        expect(cmd).not.toHaveProperty('quiz');
+      });
+
+      it('takes its settings as defaults that the command may override', () => {
+        expect(parseCommand(JSON.stringify({ type: 'create_session', quiz }))).toMatchObject({
+          timeLimit: 25, scoring: 'points', revealMode: 'manual', speed: false,
+        });
+        expect(parseCommand(JSON.stringify({ type: 'create_session', quiz, timeLimit: 10, scoring: 'elimination' }))).toMatchObject({
+          timeLimit: 10, scoring: 'elimination', revealMode: 'manual',
+        });
+      });
+
+      it('hosts any number of questions', () => {
+        const big = { version: 1, questions: Array.from({ length: 250 }, (_, i) => numbered(i + 1)) };
+        expect((parseCommand(JSON.stringify({ type: 'create_session', quiz: big })) as CreateTriviaSessionCommand).questions).toHaveLength(250);
+      });
+
+      it('returns null for an invalid document', () => {
+        expect(parseCommand(JSON.stringify({ type: 'create_session', quiz: { ...quiz, version: 2 } }))).toBeNull();
+        expect(parseCommand(JSON.stringify({ type: 'create_session', quiz: { version: 1, questions: [numbered(1), { ...numbered(2), correct: 'E' }, numbered(3)] } }))).toBeNull();
+      });
+    });
+  });
+
+  describe('create_session (bingo)', () => {
+    it('parses a bingo session with and without words', () => {
+      expect(parseCommand('{"type":"create_session","gameMode":"bingo"}')).toEqual({ type: 'create_session', gameMode: 'bingo' });
+      expect(parseCommand('{"type":"create_session","gameMode":"bingo","words":["synergy"]}')).toEqual({
+        type: 'create_session',
+        gameMode: 'bingo',
+        words: ['synergy'],
+      });
+    });
+
+    it('returns null for non-string words or an unknown game mode', () => {
+      expect(parseCommand('{"type":"create_session","gameMode":"bingo","words":[1]}')).toBeNull();
+      expect(parseCommand('{"type":"create_session","gameMode":"poker","questions":[]}')).toBeNull();
+    });
+  });
+
+  describe('bingo commands', () => {
+    it('parses start_bingo, mark_cell, claim_bingo and verify_claim', () => {
+      expect(parseCommand('{"type":"start_bingo"}')).toEqual({ type: 'start_bingo' });
+      expect(parseCommand('{"type":"mark_cell","index":7}')).toEqual({ type: 'mark_cell', index: 7 });
+      expect(parseCommand('{"type":"claim_bingo"}')).toEqual({ type: 'claim_bingo' });
+      expect(parseCommand('{"type":"verify_claim","playerId":"p1","accept":false}')).toEqual({
+        type: 'verify_claim',
+        playerId: 'p1',
+        accept: false,
+      });
+    });
+
+    it('returns null for a non-integer cell or a verdict that is not a boolean', () => {
+      expect(parseCommand('{"type":"mark_cell","index":1.5}')).toBeNull();
+      expect(parseCommand('{"type":"mark_cell"}')).toBeNull();
+      expect(parseCommand('{"type":"verify_claim","playerId":"p1","accept":"yes"}')).toBeNull();
+    });
+  });
+
+  describe('resume', () => {
+    it('parses valid resume', () => {
+      expect(parseCommand('{"type":"resume","token":"abc"}')).toEqual({ type: 'resume', token: 'abc' });
+    });
+
+    it('returns null if token is missing or empty', () => {
+      expect(parseCommand('{"type":"resume"}')).toBeNull();
+      expect(parseCommand('{"type":"resume","token":""}')).toBeNull();
+    });
+  });
+
+  describe('register_spectator', () => {
+    it('carries the screen key when one is sent', () => {
+      expect(parseCommand('{"type":"register_spectator"}')).toEqual({ type: 'register_spectator' });
+      expect(parseCommand('{"type":"register_spectator","screenKey":"k"}')).toEqual({ type: 'register_spectator', screenKey: 'k' });
+    });
+
+    it('returns null for a screen key that is not a string', () => {
+      expect(parseCommand('{"type":"register_spectator","screenKey":7}')).toBeNull();
+    });
   });
 
   describe('join', () => {
@@ -50,6 +248,18 @@ describe('parseCommand', () => {
       });
     });
 
+    it('parses join with a team', () => {
+      expect(parseCommand('{"type":"join","screenName":"Alice","team":"Red"}')).toEqual({
+        type: 'join',
+        screenName: 'Alice',
+        team: 'Red',
+      });
+    });
+
+    it('returns null if team is not a string', () => {
+      expect(parseCommand('{"type":"join","screenName":"Alice","team":7}')).toBeNull();
+    });
+
     it('returns null if screenName is missing', () => {
       expect(parseCommand('{"type":"join"}')).toBeNull();
     });
@@ -103,13 +313,40 @@ describe('parseCommand', () => {
       });
     });
 
-    it('returns null for invalid answer value E', () => {
-      expect(parseCommand('{"type":"submit_answer","answer":"E"}')).toBeNull();
+    it('reads other text as a typed answer, trimmed', () => {
+      expect(parseCommand('{"type":"submit_answer","answer":" Apollo 11 "}')).toEqual({
+        type: 'submit_answer',
+        answer: 'Apollo 11',
+      });
+    });
+
+    it('returns null for blank or overlong text', () => {
+      expect(parseCommand('{"type":"submit_answer","answer":"  "}')).toBeNull();
+      expect(parseCommand(JSON.stringify({ type: 'submit_answer', answer: 'x'.repeat(101) }))).toBeNull();
     });
 
     it('returns null if answer field is missing', () => {
       expect(parseCommand('{"type":"submit_answer"}')).toBeNull();
     });
+
+    it('parses a list of letters for a multi-select question', () => {
+      expect(parseCommand('{"type":"submit_answer","answer":["c","A"]}')).toEqual({
+        type: 'submit_answer',
+        answer: ['C', 'A'],
+      });
+    });
+
+    it('parses a number for a numeric question', () => {
+      expect(parseCommand('{"type":"submit_answer","answer":1969.5}')).toEqual({
+        type: 'submit_answer',
+        answer: 1969.5,
+      });
+    });
+
+    it('returns null for an empty list or one with a bad letter', () => {
+      expect(parseCommand('{"type":"submit_answer","answer":[]}')).toBeNull();
+      expect(parseCommand('{"type":"submit_answer","answer":["A","G"]}')).toBeNull();
+    });
   });
 });
 
@@ -146,12 +383,13 @@ describe('serializeEvent', () => {
       expect(p.text).toBe('Who?');
     });
 
-    it('serializes question_live with options and timeLimit', () => {
-      const e: ServerEvent = { type: 'question_live', text: 'Q?', options: ['A1','B1','C1','D1'], timeLimit: 10 };
+    it('serializes question_live with options, timeLimit and deadline', () => {
+      const e: ServerEvent = { type: 'question_live', text: 'Q?', options: ['A1','B1','C1','D1'], timeLimit: 10, deadline: 1_700_000_010_000 };
       const p = JSON.parse(serializeEvent(e));
       expect(p.type).toBe('question_live');
       expect(p.options).toHaveLength(4);
       expect(p.timeLimit).toBe(10);
+      expect(p.deadline).toBe(1_700_000_010_000);
     });
 
     it('serializes timer_expired', () => {
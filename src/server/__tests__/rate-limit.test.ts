@@ -0,0 +1,65 @@
+import { createMessageThrottle, createTokenBucket, messageBytes } from '../rate-limit';
+
+describe('createTokenBucket', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it('allows a full burst, then refuses', () => {
+    const bucket = createTokenBucket(3, 1, clock);
+    expect([bucket.take(), bucket.take(), bucket.take(), bucket.take()]).toEqual([true, true, true, false]);
+  });
+
+  it('refills at the sustained rate', () => {
+    const bucket = createTokenBucket(2, 4, clock);
+    bucket.take();
+    bucket.take();
+    now = 249;
+    expect(bucket.take()).toBe(false);
+    now = 500;
+    expect(bucket.take()).toBe(true);
+  });
+
+  it('never holds more than its capacity', () => {
+    const bucket = createTokenBucket(2, 10, clock);
+    now = 60_000;
+    expect([bucket.take(), bucket.take(), bucket.take()]).toEqual([true, true, false]);
+  });
+
+  it('says how long until the next token', () => {
+    const bucket = createTokenBucket(1, 5, clock);
+    expect(bucket.retryAfterMs()).toBe(0);
+    bucket.take();
+    expect(bucket.retryAfterMs()).toBe(200);
+    now = 150;
+    expect(bucket.retryAfterMs()).toBe(50);
+  });
+});
+
+describe('createMessageThrottle', () => {
+  it('reports each run of dropped messages once', () => {
+    let now = 0;
+    const onThrottled = jest.fn();
+    const allow = createMessageThrottle(onThrottled, createTokenBucket(1, 1, () => now));
+
+    expect([allow(), allow(), allow()]).toEqual([true, false, false]);
+    expect(onThrottled).toHaveBeenCalledTimes(1);
+    expect(onThrottled).toHaveBeenCalledWith(1000);
+
+    now = 1000;
+    expect(allow()).toBe(true);
+    expect(allow()).toBe(false);
+    expect(onThrottled).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('messageBytes', () => {
+  it('sizes a buffer, an array of fragments and an ArrayBuffer alike', () => {
+    expect(messageBytes(Buffer.alloc(10))).toBe(10);
+    expect(messageBytes([Buffer.alloc(4), Buffer.alloc(6)])).toBe(10);
+    expect(messageBytes(new ArrayBuffer(10))).toBe(10);
+  });
+});
@@ -1,4 +1,6 @@
 import { createWsHandler } from '../ws-handler';
+import { RESUME_GRACE_MS } from '../game-controller';
+import { MAX_PLAYER_MESSAGE_BYTES, PLAYER_MESSAGE_BURST } from '../rate-limit';
 import { EventEmitter } from 'events';
 import { TriviaGame } from '../../core/games/trivia';
 import { Session } from '../../core/session';
@@ -241,17 +243,133 @@ describe('WsHandler', () => {
   });
 
   describe('disconnect', () => {
-    it('removes player on close and broadcasts player_left', () => {
+    it('removes player once the resume grace period ends and broadcasts player_left', () => {
+      jest.useFakeTimers();
       connectAdmin();
       connectAndJoinPlayer('Alice');
       adminWs.clearSent();
 
       playerWs.simulateClose();
+      expect(adminWs.messagesOfType('player_left')).toHaveLength(0);
+      jest.advanceTimersByTime(RESUME_GRACE_MS);
 
       const leftMsg = adminWs.messagesOfType('player_left')[0];
       expect(leftMsg).toBeDefined();
       expect(leftMsg?.screenName).toBe('Alice');
       expect(leftMsg?.playerCount).toBe(0);
+      jest.useRealTimers();
+    });
+  });
+
+  describe('resume', () => {
+    it('rebinds a new socket to the existing player within the grace period', () => {
+      jest.useFakeTimers();
+      connectAdmin();
+      handler.handleConnection(playerWs as any);
+      playerWs.receive({ type: 'join', screenName: 'Alice' });
+      const joined = playerWs.messagesOfType('joined')[0];
+      playerWs.simulateClose();
+
+      const newWs = new MockWs();
+      handler.handleConnection(newWs as any);
+      newWs.receive({ type: 'resume', token: joined.resumeToken });
+      jest.advanceTimersByTime(RESUME_GRACE_MS);
+
+      const resumed = newWs.messagesOfType('joined')[0];
+      expect(resumed?.playerId).toBe(joined.playerId);
+      expect(resumed?.screenName).toBe('Alice');
+      expect(adminWs.messagesOfType('player_left')).toHaveLength(0);
+      jest.useRealTimers();
+    });
+
+    it('replays the live question to a resumed player', () => {
+      jest.useFakeTimers();
+      connectAdmin();
+      handler.handleConnection(playerWs as any);
+      playerWs.receive({ type: 'join', screenName: 'Alice' });
+      const joined = playerWs.messagesOfType('joined')[0];
+      adminWs.receive({ type: 'start_trivia_question', questionIndex: 0 });
+      adminWs.receive({ type: 'go_live' });
+      playerWs.receive({ type: 'submit_answer', answer: 'A' });
+      playerWs.simulateClose();
+      jest.advanceTimersByTime(4000);
+
+      const newWs = new MockWs();
+      handler.handleConnection(newWs as any);
+      newWs.clearSent(); // the screen every new connection gets; the replay follows the resume
+      newWs.receive({ type: 'resume', token: joined.resumeToken });
+
+      const live = newWs.messagesOfType('question_live')[0];
+      expect(live?.text).toBe('Q1?');
+      expect(live?.timeLimit).toBe(6);
+      expect(newWs.messagesOfType('answer_accepted')).toHaveLength(1);
+      jest.useRealTimers();
+    });
+
+    it('sends resume_failed when there is no session', () => {
+      handler.handleConnection(playerWs as any);
+      playerWs.receive({ type: 'resume', token: 'stale' });
+      expect(playerWs.lastMessage()?.type).toBe('resume_failed');
+    });
+  });
+
+  describe('clock_sync', () => {
+    it('answers any socket before a session exists', () => {
+      handler.handleConnection(playerWs as any);
+      playerWs.receive({ type: 'clock_sync', clientTime: 123 });
+      expect(playerWs.lastMessage()).toEqual({ type: 'clock_sync', clientTime: 123, serverTime: expect.any(Number) });
+    });
+
+    it('does not make a syncing player the admin of an injected session', () => {
+      const session = new Session();
+      const h = createWsHandler(new TriviaGame('test', makeQuestions()), session);
+      h.handleConnection(playerWs as any);
+      playerWs.receive({ type: 'clock_sync', clientTime: 1 });
+      playerWs.receive({ type: 'join', screenName: 'Alice' });
+      expect(playerWs.messagesOfType('joined')).toHaveLength(1);
+    });
+  });
+
+  describe('flood protection', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('throttles a player that floods the server', () => {
+      jest.useFakeTimers();
+      connectAdmin();
+      handler.handleConnection(playerWs as any);
+      for (let i = 0; i < PLAYER_MESSAGE_BURST + 10; i++) playerWs.receive({ type: 'clock_sync', clientTime: i });
+
+      expect(playerWs.messagesOfType('clock_sync')).toHaveLength(PLAYER_MESSAGE_BURST);
+      expect(playerWs.allMessages().filter((m) => m.code === 'rate_limited')).toHaveLength(1);
+    });
+
+    it('never throttles the host', () => {
+      jest.useFakeTimers();
+      connectAdmin();
+      adminWs.clearSent();
+      for (let i = 0; i < PLAYER_MESSAGE_BURST + 10; i++) adminWs.receive({ type: 'clock_sync', clientTime: i });
+
+      expect(adminWs.messagesOfType('clock_sync')).toHaveLength(PLAYER_MESSAGE_BURST + 10);
+    });
+
+    it('refuses an oversized message from a player who has joined', () => {
+      connectAdmin();
+      connectAndJoinPlayer();
+      adminWs.clearSent();
+
+      playerWs.receive({ type: 'answer', answer: 'x'.repeat(MAX_PLAYER_MESSAGE_BYTES) });
+      expect(playerWs.lastMessage()).toMatchObject({ type: 'error', code: 'message_too_large' });
+      expect(adminWs.sent).toHaveLength(0);
+    });
+
+    it('lets a new socket create a session larger than a player message', () => {
+      handler.handleConnection(adminWs as any);
+      const questions = makeQuestions(3).map((q) => ({ ...q, question: 'x'.repeat(MAX_PLAYER_MESSAGE_BYTES) }));
+      adminWs.receive({ type: 'create_session', questions });
+
+      expect(adminWs.messagesOfType('session_created')).toHaveLength(1);
     });
   });
 
@@ -503,7 +621,58 @@ describe('WsHandler', () => {
     });
   });
 
+  describe('late joiners', () => {
+    it('sends a new connection the current screen straight away', () => {
+      connectAdmin();
+      adminWs.receive({ type: 'start_trivia_question', questionIndex: 1 });
+
+      handler.handleConnection(playerWs as any);
+      expect(playerWs.allMessages()).toEqual([
+        expect.objectContaining({ type: 'session_created' }),
+        { type: 'question_preview', questionIndex: 1, text: 'Q2?' },
+      ]);
+    });
+
+    it('sends nothing before a session exists', () => {
+      handler.handleConnection(playerWs as any);
+      expect(playerWs.sent).toHaveLength(0);
+    });
+  });
+
   describe('spectator / broadcast screen', () => {
+    it('gets the answer map that players do not', () => {
+      jest.useFakeTimers();
+      connectAdmin();
+      const spectatorWs = new MockWs();
+      handler.handleConnection(spectatorWs as any);
+      spectatorWs.receive({ type: 'register_spectator' });
+      connectAndJoinPlayer();
+      adminWs.receive({ type: 'start_trivia_question', questionIndex: 0 });
+      adminWs.receive({ type: 'go_live' });
+      playerWs.receive({ type: 'submit_answer', answer: 'A' });
+      adminWs.receive({ type: 'close_now' });
+
+      expect(spectatorWs.messagesOfType('answer_breakdown')).toEqual([expect.objectContaining({ playerAnswers: expect.any(Object) })]);
+      expect(playerWs.messagesOfType('answer_breakdown')).toHaveLength(1);
+      expect(playerWs.messagesOfType('answer_breakdown')[0]).not.toHaveProperty('playerAnswers');
+      jest.useRealTimers();
+    });
+
+    it('refuses register_spectator from a socket that joined as a player', () => {
+      jest.useFakeTimers();
+      connectAdmin();
+      connectAndJoinPlayer();
+      playerWs.receive({ type: 'register_spectator' });
+      expect(playerWs.lastMessage()).toEqual({ type: 'error', message: 'A player cannot also be a broadcast screen' });
+
+      adminWs.receive({ type: 'start_trivia_question', questionIndex: 0 });
+      adminWs.receive({ type: 'go_live' });
+      playerWs.receive({ type: 'submit_answer', answer: 'A' });
+      adminWs.receive({ type: 'close_now' });
+      expect(playerWs.messagesOfType('answer_breakdown')[0]).not.toHaveProperty('playerAnswers');
+      jest.useRealTimers();
+    });
+
     it('receives player_joined after sending register_spectator', () => {
       connectAdmin();
 
@@ -535,7 +704,8 @@ describe('WsHandler', () => {
       expect(spectatorWs.messagesOfType('player_joined')).toHaveLength(0);
     });
 
-    it('receives player_left when a player disconnects', () => {
+    it('receives player_left when a disconnected player does not resume', () => {
+      jest.useFakeTimers();
       connectAdmin();
 
       const spectatorWs = new MockWs();
@@ -547,11 +717,13 @@ describe('WsHandler', () => {
       spectatorWs.clearSent();
 
       playerWs.simulateClose();
+      jest.advanceTimersByTime(RESUME_GRACE_MS);
 
       const msg = spectatorWs.messagesOfType('player_left')[0];
       expect(msg).toBeDefined();
       expect(msg?.screenName).toBe('Alice');
       expect(msg?.playerCount).toBe(0);
+      jest.useRealTimers();
     });
 
     it('receives question_live broadcast during trivia game', () => {
@@ -1,4 +1,5 @@
 import 'dotenv/config';
+import { createHmac, randomUUID } from 'crypto';
 import * as http from 'http';
 import * as path from 'path';
 import { WebSocketServer } from 'ws';
@@ -6,20 +7,44 @@ import { handleStaticRequest } from './http-server';
 import { createAdminWsHandler } from './admin-ws-handler';
 import { createAdminRelayClient } from './admin-relay-client';
 import { attachHeartbeat } from './heartbeat';
+import { GAME_MODES } from './game-modes';
 
 const PORT = parseInt(process.env.PORT ?? '3000', 10);
 const RELAY_URL = process.env.RELAY_URL ?? '';
 const RELAY_SECRET = process.env.RELAY_SECRET ?? '';
+// Optional fixed join code, e.g. for a recurring townhall; otherwise the relay assigns one
+const JOIN_CODE = process.env.JOIN_CODE || undefined;
+// Identifies this admin's session to the relay across reconnects. A standby
+// host is started with the primary's SESSION_ID and STANDBY_KEY, and RELAY_ROLE=standby.
+const SESSION_ID = process.env.SESSION_ID || randomUUID();
+const RELAY_ROLE = process.env.RELAY_ROLE === 'standby' ? 'standby' : 'primary';
+const STANDBY_KEY = process.env.STANDBY_KEY || undefined;
+
+if (RELAY_ROLE === 'standby' && !STANDBY_KEY) {
+  console.error('RELAY_ROLE=standby needs STANDBY_KEY, which the primary prints once it is connected');
+  process.exit(1);
+}
+// Broadcast screens open /broadcast/<mode>?session=CODE&screen=SCREEN_KEY. Derived rather
+// than random so a standby with the same SESSION_ID and RELAY_SECRET accepts the same links
+const SCREEN_KEY = RELAY_SECRET ? createHmac('sha256', RELAY_SECRET).update(`screen:${SESSION_ID}`).digest('base64url').slice(0, 22) : null;
 const PUBLIC_DIR = path.resolve(__dirname, '../../public');
+// Question images are served from MEDIA_DIR at /media/; by default, public/media
+const MEDIA_DIR = process.env.MEDIA_DIR ? path.resolve(process.env.MEDIA_DIR) : path.join(PUBLIC_DIR, 'media');
 
 const handler = createAdminWsHandler({
   sendToPlayer(connectionId, event) {
     relayClient.sendToPlayer(connectionId, event);
   },
-  broadcastToPlayers(event) {
-    relayClient.broadcastToPlayers(event);
+  broadcastToPlayers(event, except) {
+    relayClient.broadcastToPlayers(event, except);
   },
-});
+  sendStateSnapshot(snapshot) {
+    relayClient.sendStateSnapshot(snapshot);
+  },
+  sendPlayerState(events) {
+    relayClient.sendPlayerState(events);
+  },
+}, null, null, SCREEN_KEY);
 
 const relayClient = createAdminRelayClient({
   onPlayerCommand(connectionId, rawCommand) {
@@ -34,24 +59,46 @@ const relayClient = createAdminRelayClient({
   onPlayerRoster(connections) {
     console.log(`Relay roster: ${connections.length} player(s) connected`);
   },
+  onStateSnapshot(snapshot) {
+    handler.handleStateSnapshot(snapshot);
+  },
+  onPromoted(connections) {
+    console.log(`Primary admin gone — taking over session ${SESSION_ID} with ${connections.length} player(s) connected`);
+    handler.handlePromoted(connections);
+  },
   onStatusChange(status) {
     console.log(`Relay status: ${status}`);
+    if (status === 'connected') {
+      console.log(`Players join at ${RELAY_URL.replace(/^ws/, 'http')}/play?session=${relayClient.getJoinCode()}`);
+      // The game is picked after connecting, so list a screen link for each mode
+      for (const mode of Object.keys(GAME_MODES)) {
+        console.log(`Broadcast screens (${mode}) open ${RELAY_URL.replace(/^ws/, 'http')}/broadcast/${mode}?session=${relayClient.getJoinCode()}&screen=${SCREEN_KEY}`);
+      }
+      const standbyKey = relayClient.getStandbyKey();
+      if (relayClient.getRole() === 'primary' && standbyKey) {
+        console.log(`Standby hosts start with SESSION_ID=${SESSION_ID} STANDBY_KEY=${standbyKey} RELAY_ROLE=standby`);
+      }
+    }
     // Broadcast relay status to admin UI
     broadcastRelayStatus(status);
   },
 });
 
 const server = http.createServer((req, res) => {
-  handleStaticRequest(req, res, PUBLIC_DIR, 'admin');
+  handleStaticRequest(req, res, PUBLIC_DIR, 'admin', MEDIA_DIR);
 });
 
 const wss = new WebSocketServer({ server });
 let adminWs: import('ws').WebSocket | null = null;
 attachHeartbeat(wss);
 
+function relayStatus(status: string): string {
+  return JSON.stringify({ type: 'relay_status', status, joinCode: relayClient.getJoinCode(), role: relayClient.getRole(), screenKey: SCREEN_KEY });
+}
+
 function broadcastRelayStatus(status: string): void {
   if (adminWs && adminWs.readyState === adminWs.OPEN) {
-    adminWs.send(JSON.stringify({ type: 'relay_status', status }));
+    adminWs.send(relayStatus(status));
   }
 }
 
@@ -59,7 +106,7 @@ wss.on('connection', (ws) => {
   adminWs = ws;
   handler.handleAdminConnection(ws);
   // Send current relay status immediately
-  ws.send(JSON.stringify({ type: 'relay_status', status: relayClient.getStatus() }));
+  ws.send(relayStatus(relayClient.getStatus()));
   ws.on('close', () => {
     if (ws === adminWs) adminWs = null;
   });
@@ -70,9 +117,9 @@ server.listen(PORT, () => {
   console.log(`Admin page: http://localhost:${PORT}/admin`);
 
   if (RELAY_URL && RELAY_SECRET) {
-    console.log(`Connecting to relay at ${RELAY_URL}...`);
+    console.log(`Connecting to relay at ${RELAY_URL} as ${RELAY_ROLE} for session ${SESSION_ID}...`);
     // Use /admin path so relay knows this is the admin connection
-    relayClient.connect(`${RELAY_URL}/admin`, 'local-session', RELAY_SECRET);
+    relayClient.connect(`${RELAY_URL}/admin`, SESSION_ID, RELAY_SECRET, JOIN_CODE, RELAY_ROLE, STANDBY_KEY);
   } else {
     console.log('No RELAY_URL/RELAY_SECRET set — running in local-only mode');
   }
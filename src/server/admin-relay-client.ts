@@ -1,23 +1,76 @@
 import WebSocket from 'ws';
-import { parseRelayMessage, serializeRelayMessage } from '../relay/relay-protocol';
+import {
+  parseRelayMessage,
+  serializeRelayMessage,
+  type AdminRegisterMessage,
+  type AdminRole,
+  type BroadcastMessage,
+  type DownstreamMessage,
+  type RelayFraming,
+} from '../relay/relay-protocol';
 
 export type RelayStatus = 'disconnected' | 'connecting' | 'connected';
 
+/** Reconnect delays double from the base up to the cap. */
+export const RECONNECT_BASE_MS = 500;
+export const RECONNECT_MAX_MS = 30_000;
+/** Unacknowledged messages kept for replay; the oldest are dropped beyond this. */
+export const MAX_UNACKED_MESSAGES = 10_000;
+
+/**
+ * The wait before reconnect attempt `attempt` (0-based): exponential, with the
+ * lower half jittered so a relay restart is not met by every admin at once.
+ */
+export function reconnectDelayMs(attempt: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+  return ceiling / 2 + random() * (ceiling / 2);
+}
+
 export interface AdminRelayClientOptions {
   onPlayerCommand: (connectionId: string, rawCommand: string) => void;
   onPlayerConnected: (connectionId: string) => void;
   onPlayerDisconnected: (connectionId: string) => void;
   onPlayerRoster: (connections: string[]) => void;
   onStatusChange: (status: RelayStatus) => void;
+  /** A standby receives the primary's snapshots until it is promoted. */
+  onStateSnapshot: (snapshot: string) => void;
+  /** This admin now runs the session; `connections` are the players connected at the hand-over. */
+  onPromoted: (connections: string[]) => void;
   wsFactory?: (url: string) => WebSocket;
+  /** The framing offered to the relay for game traffic; defaults to compact. */
+  framing?: RelayFraming;
+  /** Source of randomness for reconnect jitter; injectable for tests. */
+  random?: () => number;
 }
 
 export interface AdminRelayClient {
-  connect(relayUrl: string, sessionId: string, secret: string): void;
+  /**
+   * `joinCode` requests a code; otherwise the relay picks one, which is kept for reconnects.
+   * A standby mirrors the primary registered under the same `sessionId`, and
+   * needs the `standbyKey` the relay gave that primary.
+   */
+  connect(relayUrl: string, sessionId: string, secret: string, joinCode?: string, role?: AdminRole, standbyKey?: string): void;
   disconnect(): void;
   getStatus(): RelayStatus;
+  /** Whether this admin runs the session or stands by; a promoted standby reports primary. */
+  getRole(): AdminRole;
+  /** The code players join with, once the relay has confirmed it. */
+  getJoinCode(): string | null;
+  /** What a standby host for this session registers with, once the relay has given it to this primary. */
+  getStandbyKey(): string | null;
+  /** Queued while the relay is unreachable and replayed, in order, once it has registered this admin again. */
   sendToPlayer(connectionId: string, event: string): void;
-  broadcastToPlayers(event: string): void;
+  /** `except` names connections that must not get this copy. */
+  broadcastToPlayers(event: string, except?: string[]): void;
+  sendStateSnapshot(snapshot: string): void;
+  /** Replaces what the relay sends each player as they connect; kept and sent again after a reconnect. */
+  sendPlayerState(events: string[]): void;
+}
+
+interface Outbound {
+  message: DownstreamMessage | BroadcastMessage;
+  /** Whether it went out on a registered socket, so the relay may already have delivered it. */
+  sent: boolean;
 }
 
 export function createAdminRelayClient(opts: AdminRelayClientOptions): AdminRelayClient {
@@ -26,8 +79,65 @@ export function createAdminRelayClient(opts: AdminRelayClientOptions): AdminRela
   let shouldReconnect = false;
   let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   let connectArgs: { relayUrl: string; sessionId: string; secret: string } | null = null;
+  let joinCode: string | null = null;
+  let role: AdminRole = 'primary';
+  let standbyKey: string | null = null;
+  // Session-scoped token from the relay, preferred over the secret when reconnecting
+  let token: { value: string; expiresAt: number } | null = null;
+  let reconnectAttempts = 0;
+  let lastSeq = 0;
+  const unacked: Outbound[] = [];
+  let playerState: string[] | null = null;
+  // What the relay agreed to at registration; JSON until then
+  let framing: RelayFraming = 'json';
 
+  // ws offers permessage-deflate by default, and the relay accepts it
   const createWs = opts.wsFactory ?? ((url: string) => new WebSocket(url));
+  const offeredFraming = opts.framing ?? 'compact';
+  const random = opts.random ?? Math.random;
+
+  function canSend(): boolean {
+    return status === 'connected' && ws !== null && ws.readyState === ws.OPEN;
+  }
+
+  function transmit(entry: Outbound): void {
+    entry.sent = true;
+    ws!.send(serializeRelayMessage(entry.message, framing));
+  }
+
+  function enqueue(message: DownstreamMessage | BroadcastMessage): void {
+    const entry: Outbound = { message: { ...message, seq: ++lastSeq }, sent: false };
+    unacked.push(entry);
+    if (unacked.length > MAX_UNACKED_MESSAGES) unacked.shift();
+    if (canSend()) transmit(entry);
+  }
+
+  function acknowledge(seq: number): void {
+    while (unacked.length > 0 && unacked[0].message.seq! <= seq) unacked.shift();
+  }
+
+  /** Sends the relay the latest player state; a standby's is not for players yet, and a closed socket gets it on reconnect. */
+  function publishPlayerState(): void {
+    if (playerState !== null && role === 'primary' && canSend()) {
+      ws!.send(serializeRelayMessage({ envelope: 'player_state', events: playerState }));
+    }
+  }
+
+  /**
+   * Replays what the relay has not delivered. Everything still queued comes after
+   * the relay's `deliveredSeq`, so it is renumbered from there: the relay may
+   * have seen higher numbers from another admin of the session.
+   */
+  function replay(deliveredSeq: number): void {
+    const pending = unacked.filter((entry) => !entry.sent || entry.message.seq! > deliveredSeq);
+    unacked.length = 0;
+    lastSeq = deliveredSeq;
+    for (const entry of pending) {
+      entry.message.seq = ++lastSeq;
+      unacked.push(entry);
+      transmit(entry);
+    }
+  }
 
   function setStatus(newStatus: RelayStatus): void {
     status = newStatus;
@@ -41,12 +151,19 @@ export function createAdminRelayClient(opts: AdminRelayClientOptions): AdminRela
 
     ws = createWs(relayUrl);
 
+    let sentToken = false;
+
     ws.on('open', () => {
-      ws!.send(serializeRelayMessage({
-        envelope: 'admin_register',
-        sessionId,
-        secret,
-      }));
+      sentToken = token !== null && token.expiresAt > Date.now();
+      const register: AdminRegisterMessage = sentToken
+        ? { envelope: 'admin_register', sessionId, token: token!.value }
+        : { envelope: 'admin_register', sessionId, secret };
+      if (!sentToken && role === 'standby' && standbyKey !== null) register.standbyKey = standbyKey;
+      // Asks for the same code again so links already handed out keep working
+      if (joinCode !== null) register.joinCode = joinCode;
+      if (role === 'standby') register.role = role;
+      if (offeredFraming === 'compact') register.framing = offeredFraming;
+      ws!.send(serializeRelayMessage(register));
     });
 
     ws.on('message', (data: WebSocket.RawData) => {
@@ -55,7 +172,37 @@ export function createAdminRelayClient(opts: AdminRelayClientOptions): AdminRela
 
       switch (msg.envelope) {
         case 'admin_registered':
+          joinCode = msg.joinCode;
+          role = msg.role;
+          token = { value: msg.token, expiresAt: msg.tokenExpiresAt };
+          framing = msg.framing ?? 'json';
+          if (msg.standbyKey !== undefined) standbyKey = msg.standbyKey;
+          reconnectAttempts = 0;
           setStatus('connected');
+          if (role === 'primary') {
+            replay(msg.lastSeq);
+            // A restarted relay has no cached state for this session
+            publishPlayerState();
+          }
+          break;
+        case 'ack':
+          acknowledge(msg.seq);
+          break;
+        case 'admin_token':
+          token = { value: msg.token, expiresAt: msg.expiresAt };
+          break;
+        case 'admin_error':
+          // A refused token (expired, or its secret rotated out) falls back to the secret next time
+          if (sentToken) token = null;
+          break;
+        case 'state_snapshot':
+          opts.onStateSnapshot(msg.snapshot);
+          break;
+        case 'admin_promoted':
+          role = 'primary';
+          setStatus('connected');
+          replay(msg.lastSeq);
+          opts.onPromoted(msg.connections);
           break;
         case 'upstream':
           opts.onPlayerCommand(msg.connectionId, msg.command);
@@ -79,13 +226,17 @@ export function createAdminRelayClient(opts: AdminRelayClientOptions): AdminRela
         const args = connectArgs;
         reconnectTimer = setTimeout(() => {
           doConnect(args.relayUrl, args.sessionId, args.secret);
-        }, 3000);
+        }, reconnectDelayMs(reconnectAttempts++, random));
       }
     });
   }
 
   return {
-    connect(relayUrl: string, sessionId: string, secret: string): void {
+    connect(relayUrl: string, sessionId: string, secret: string, requestedJoinCode?: string, requestedRole: AdminRole = 'primary', key?: string): void {
+      joinCode = requestedJoinCode ?? null;
+      role = requestedRole;
+      standbyKey = key ?? null;
+      token = null;
       doConnect(relayUrl, sessionId, secret);
     },
 
@@ -106,23 +257,36 @@ export function createAdminRelayClient(opts: AdminRelayClientOptions): AdminRela
       return status;
     },
 
+    getJoinCode(): string | null {
+      return joinCode;
+    },
+
+    getRole(): AdminRole {
+      return role;
+    },
+
+    getStandbyKey(): string | null {
+      return standbyKey;
+    },
+
     sendToPlayer(connectionId: string, event: string): void {
-      if (ws && ws.readyState === ws.OPEN) {
-        ws.send(serializeRelayMessage({
-          envelope: 'downstream',
-          target: connectionId,
-          event,
-        }));
-      }
+      enqueue({ envelope: 'downstream', target: connectionId, event });
     },
 
-    broadcastToPlayers(event: string): void {
-      if (ws && ws.readyState === ws.OPEN) {
-        ws.send(serializeRelayMessage({
-          envelope: 'broadcast',
-          event,
-        }));
+    broadcastToPlayers(event: string, except?: string[]): void {
+      enqueue(except && except.length > 0 ? { envelope: 'broadcast', event, except } : { envelope: 'broadcast', event });
+    },
+
+    sendStateSnapshot(snapshot: string): void {
+      // Only the primary's snapshots reach a standby
+      if (role === 'primary' && ws && ws.readyState === ws.OPEN) {
+        ws.send(serializeRelayMessage({ envelope: 'state_snapshot', snapshot }));
       }
     },
+
+    sendPlayerState(events: string[]): void {
+      playerState = events;
+      publishPlayerState();
+    },
   };
 }
@@ -1,17 +1,18 @@
+import { createHash, timingSafeEqual } from 'crypto';
 import type WebSocket from 'ws';
 import { Session } from '../core/session';
-import type { GameEvent } from '../core/types';
 import { parseCommand, serializeEvent, type ServerEvent } from './protocol';
 import { TriviaGame } from '../core/games/trivia';
-
-interface PlayerInfo {
-  playerId: string;
-  screenName: string;
-}
+import { createGameController, type Audience, type ControllerSnapshot } from './game-controller';
 
 export interface RelayTransport {
   sendToPlayer(connectionId: string, event: string): void;
-  broadcastToPlayers(event: string): void;
+  /** Sends to every player connection but those in `except`. */
+  broadcastToPlayers(event: string, except?: string[]): void;
+  /** Hands the relay the latest session snapshot for a standby host. */
+  sendStateSnapshot(snapshot: string): void;
+  /** Hands the relay the events that land a newly connected player on the current screen. */
+  sendPlayerState(events: string[]): void;
 }
 
 export interface AdminWsHandler {
@@ -19,15 +20,63 @@ export interface AdminWsHandler {
   handlePlayerCommand(connectionId: string, rawCommand: string): void;
   handlePlayerConnected(connectionId: string): void;
   handlePlayerDisconnected(connectionId: string): void;
+  /** On a standby host: keeps the primary's latest snapshot for a takeover. */
+  handleStateSnapshot(snapshot: string): void;
+  /** On a standby host: resumes the session from the last snapshot; `connections` are the players still connected. */
+  handlePromoted(connections: string[]): void;
+}
+
+/** How often, at most, a changed session is snapshotted to the relay. */
+export const SNAPSHOT_INTERVAL_MS = 1000;
+
+/** What a standby takes over: the session, and the broadcast screens only this handler knows about. */
+interface HostSnapshot extends ControllerSnapshot {
+  spectators?: string[];
+}
+
+/**
+ * `screenKey`, when set, is what a relayed connection must send with
+ * `register_spectator` to get the watchers' copy of events; see admin-main.
+ */
+function keysMatch(offered: string, expected: string): boolean {
+  const digest = (key: string) => createHash('sha256').update(key).digest();
+  return timingSafeEqual(digest(offered), digest(expected));
 }
 
-export function createAdminWsHandler(relay: RelayTransport, injectedTriviaGame: TriviaGame | null = null, injectedSession: Session | null = null): AdminWsHandler {
-  let triviaGame: TriviaGame | null = injectedTriviaGame;
-  let session: Session | null = injectedSession;
+export function createAdminWsHandler(
+  relay: RelayTransport,
+  injectedTriviaGame: TriviaGame | null = null,
+  injectedSession: Session | null = null,
+  screenKey: string | null = null,
+): AdminWsHandler {
   let adminSocket: WebSocket | null = null;
-  const connectionToPlayer = new Map<string, PlayerInfo>();
-  const playerToConnection = new Map<string, string>();
-  let timerHandle: ReturnType<typeof setTimeout> | null = null;
+  let snapshotTimer: ReturnType<typeof setTimeout> | null = null;
+  let standbySnapshot: string | null = null;
+  let publishedPlayerState = '';
+  /** Relay connections that registered as broadcast screens; they get the watchers' copy of events. */
+  const spectators = new Set<string>();
+
+  const controller = createGameController(deliver, injectedTriviaGame, injectedSession);
+
+  /** Batches changes so a round of answers costs one snapshot per interval, not one per answer. */
+  function scheduleSnapshot(): void {
+    if (snapshotTimer) return;
+    snapshotTimer = setTimeout(() => {
+      snapshotTimer = null;
+      const snapshot: HostSnapshot | null = controller.snapshot();
+      if (snapshot) snapshot.spectators = [...spectators];
+      relay.sendStateSnapshot(JSON.stringify(snapshot));
+    }, SNAPSHOT_INTERVAL_MS);
+  }
+
+  /** Sends the relay the current screen when it differs from the one it has; cheap enough to call on every broadcast. */
+  function publishPlayerState(): void {
+    const events = controller.playerState().map(serializeEvent);
+    const key = JSON.stringify(events);
+    if (key === publishedPlayerState) return;
+    publishedPlayerState = key;
+    relay.sendPlayerState(events);
+  }
 
   function sendToAdmin(event: ServerEvent): void {
     if (adminSocket) {
@@ -37,176 +86,54 @@ export function createAdminWsHandler(relay: RelayTransport, injectedTriviaGame:
     }
   }
 
-  function sendToPlayer(connectionId: string, event: ServerEvent): void {
-    relay.sendToPlayer(connectionId, serializeEvent(event));
-  }
-
-  function broadcastToAll(event: ServerEvent): void {
-    relay.broadcastToPlayers(serializeEvent(event));
-    sendToAdmin(event);
-  }
-
-  function handleSessionEvent(event: GameEvent): void {
-    switch (event.type) {
-      case 'player_joined': {
-        broadcastToAll({ type: 'player_joined', playerId: event.playerId, screenName: event.screenName, playerCount: session!.getPlayers().length });
+  function deliver(audience: Audience, event: ServerEvent): void {
+    // Every change to the session is announced, so an event means the snapshot is stale
+    scheduleSnapshot();
+    switch (audience.to) {
+      case 'everyone':
+        relay.broadcastToPlayers(serializeEvent(event));
+        sendToAdmin(event);
+        publishPlayerState();
         break;
-      }
-      case 'player_left': {
-        broadcastToAll({ type: 'player_left', playerId: event.playerId, screenName: event.screenName, playerCount: session!.getPlayers().length });
+      case 'non_admin':
+        relay.broadcastToPlayers(serializeEvent(event));
+        publishPlayerState();
+        break;
+      case 'admin':
+        sendToAdmin(event);
+        break;
+      case 'watchers':
+        sendToAdmin(event);
+        for (const connectionId of spectators) relay.sendToPlayer(connectionId, serializeEvent(event));
+        break;
+      case 'players':
+        relay.broadcastToPlayers(serializeEvent(event), [...spectators]);
+        break;
+      case 'connection':
+        relay.sendToPlayer(audience.connectionId, serializeEvent(event));
         break;
-      }
     }
   }
 
-  // ── Trivia auto-sequencing ───────────────────────────────────────────────
-
-  function onReveal(): void {
-    if (!triviaGame) return;
-    triviaGame.revealAnswer();
-    const round = triviaGame.getCurrentRound()!;
-    const result = round.getResult();
-
-    broadcastToAll({ type: 'answer_revealed', correct: result.correctAnswer, eliminated: result.eliminated, survivors: result.survivors });
-
-    for (const [connId, info] of connectionToPlayer) {
-      if (result.eliminated.includes(info.playerId)) {
-        sendToPlayer(connId, { type: 'you_are_eliminated', correctAnswer: result.correctAnswer, yourAnswer: null });
-      } else if (result.survivors.includes(info.playerId)) {
-        sendToPlayer(connId, { type: 'you_survived', survivorCount: result.survivors.length });
-      }
-    }
-
-    sendToAdmin({ type: 'question_result', correct: result.correctAnswer, eliminated: result.eliminated, survivors: result.survivors });
-
-    triviaGame.showSurvivors();
-
-    if (triviaGame.state === 'game_over') {
-      broadcastToAll({ type: 'game_over', winners: triviaGame.getWinners().map(w => w.screenName) });
-    } else {
-      const survivorIds = triviaGame.getSurvivors();
-      broadcastToAll({ type: 'survivors_regrouped', survivorCount: survivorIds.length, survivorNames: survivorIds });
-    }
+  function sendError(connectionId: string, message: string): void {
+    relay.sendToPlayer(connectionId, serializeEvent({ type: 'error', message }));
   }
 
-  function onTimerExpired(): void {
-    if (!triviaGame) return;
-    triviaGame.expireTimer();
-    const round = triviaGame.getCurrentRound()!;
-    const counts = round.getAnswerCounts();
-    const totalAnswered = counts.A + counts.B + counts.C + counts.D;
-    const totalPlayers = triviaGame.getSurvivors().length;
-    const playerAnswers = round.getPlayerAnswers();
-
-    broadcastToAll({ type: 'timer_expired' });
-    broadcastToAll({ type: 'answer_breakdown', counts, totalAnswered, totalPlayers, playerAnswers });
-
-    timerHandle = setTimeout(onReveal, TriviaGame.REVEAL_DELAY_MS);
+  /** A broadcast screen sees every player's answer, so only the host's link makes one, and never a phone that has joined. */
+  function registerSpectator(connectionId: string, offeredKey: string | undefined): void {
+    if (controller.isPlayerConnection(connectionId)) { sendError(connectionId, 'A player cannot also be a broadcast screen'); return; }
+    if (screenKey !== null && !keysMatch(offeredKey ?? '', screenKey)) {
+      sendError(connectionId, 'This broadcast screen link is missing its key — open the one shown on the host page');
+      return;
+    }
+    spectators.add(connectionId);
+    scheduleSnapshot();
   }
 
-  // ── Admin commands ───────────────────────────────────────────────────────
-
   function handleAdminCommand(raw: string): void {
     const command = parseCommand(raw);
     if (!command) { sendToAdmin({ type: 'error', message: 'Invalid command' }); return; }
-
-    try {
-      switch (command.type) {
-        case 'restart_game': {
-          if (!session) break;
-          if (timerHandle) { clearTimeout(timerHandle); timerHandle = null; }
-          relay.broadcastToPlayers(serializeEvent({ type: 'game_reset' }));
-          connectionToPlayer.clear();
-          playerToConnection.clear();
-          session = null;
-          triviaGame = null;
-          break;
-        }
-        case 'create_session': {
-          if (session) {
-            if (timerHandle) { clearTimeout(timerHandle); timerHandle = null; }
-            relay.broadcastToPlayers(serializeEvent({ type: 'game_reset' }));
-            connectionToPlayer.clear();
-            playerToConnection.clear();
-            session = null;
-            triviaGame = null;
-          }
-          session = new Session();
-          triviaGame = new TriviaGame(session.id, command.questions, { speedMode: command.speed });
-          session.addEventListener(handleSessionEvent);
-          sendToAdmin({ type: 'session_created', sessionId: session.id });
-          relay.broadcastToPlayers(serializeEvent({ type: 'session_created', sessionId: session.id }));
-          break;
-        }
-        case 'start_trivia_question': {
-          if (!triviaGame) { sendToAdmin({ type: 'error', message: 'No trivia game configured' }); return; }
-          triviaGame.previewQuestion(command.questionIndex);
-          const q = triviaGame.getCurrentQuestion()!;
-          broadcastToAll({ type: 'question_preview', questionIndex: command.questionIndex, text: q.question });
-          break;
-        }
-        case 'go_live': {
-          if (!triviaGame) { sendToAdmin({ type: 'error', message: 'No trivia game configured' }); return; }
-          if (triviaGame.getSurvivors().length === 0) {
-            const playerIds = [...connectionToPlayer.values()].map(info => info.playerId);
-            triviaGame.registerPlayers(playerIds);
-          }
-          triviaGame.goLive();
-          const q = triviaGame.getCurrentQuestion()!;
-          broadcastToAll({ type: 'question_live', text: q.question, options: [q.a, q.b, q.c, q.d], timeLimit: triviaGame.questionTimeLimitMs / 1000 });
-          timerHandle = setTimeout(onTimerExpired, triviaGame.questionTimeLimitMs);
-          break;
-        }
-        case 'advance_question': {
-          if (!triviaGame) { sendToAdmin({ type: 'error', message: 'No trivia game configured' }); return; }
-          const nextIndex = triviaGame.questions.indexOf(triviaGame.getCurrentQuestion()!) + 1;
-          triviaGame.previewQuestion(nextIndex);
-          const q = triviaGame.getCurrentQuestion()!;
-          broadcastToAll({ type: 'question_preview', questionIndex: nextIndex, text: q.question });
-          break;
-        }
-        default:
-          sendToAdmin({ type: 'error', message: 'Command not valid for trivia admin' });
-      }
-    } catch (err: unknown) {
-      sendToAdmin({ type: 'error', message: err instanceof Error ? err.message : 'Unknown error' });
-    }
-  }
-
-  // ── Player commands ──────────────────────────────────────────────────────
-
-  function handlePlayerCommand(connectionId: string, raw: string): void {
-    const command = parseCommand(raw);
-    if (!command) { sendToPlayer(connectionId, { type: 'error', message: 'Invalid command' }); return; }
-
-    try {
-      switch (command.type) {
-        case 'join': {
-          if (!session) { sendToPlayer(connectionId, { type: 'error', message: 'No session exists' }); return; }
-          const player = session.addPlayer(command.screenName);
-          connectionToPlayer.set(connectionId, { playerId: player.id, screenName: player.screenName });
-          playerToConnection.set(player.id, connectionId);
-          sendToPlayer(connectionId, { type: 'joined', playerId: player.id, screenName: player.screenName, gameStatus: session.getGameStatus(), round: session.getCurrentRound() });
-          break;
-        }
-        case 'submit_answer': {
-          if (!triviaGame || triviaGame.state !== 'question_live') return;
-          const info = connectionToPlayer.get(connectionId);
-          if (!info) { sendToPlayer(connectionId, { type: 'error', message: 'Not joined as a player' }); return; }
-          triviaGame.getCurrentRound()?.submitAnswer(info.playerId, command.answer);
-          sendToPlayer(connectionId, { type: 'answer_accepted' });
-          const counts = triviaGame.getCurrentRound()!.getAnswerCounts();
-          const answered = counts.A + counts.B + counts.C + counts.D;
-          const remaining = triviaGame.getSurvivors().length - answered;
-          sendToAdmin({ type: 'live_answer_stats', counts, answered, remaining });
-          break;
-        }
-        default:
-          sendToPlayer(connectionId, { type: 'error', message: 'Command not valid for trivia player' });
-      }
-    } catch (err: unknown) {
-      sendToPlayer(connectionId, { type: 'error', message: err instanceof Error ? err.message : 'Unknown error' });
-    }
+    controller.handleAdminCommand(command);
   }
 
   return {
@@ -219,24 +146,42 @@ export function createAdminWsHandler(relay: RelayTransport, injectedTriviaGame:
     },
 
     handlePlayerCommand(connectionId: string, rawCommand: string): void {
-      if (!session) {
-        sendToPlayer(connectionId, { type: 'error', message: 'No session exists' });
-        return;
-      }
-      handlePlayerCommand(connectionId, rawCommand);
+      const command = parseCommand(rawCommand);
+      if (!command) { sendError(connectionId, 'Invalid command'); return; }
+      if (command.type === 'register_spectator') { registerSpectator(connectionId, command.screenKey); return; }
+      // A screen that joins as a player goes back to the players' copy
+      if (command.type === 'join' && spectators.delete(connectionId)) scheduleSnapshot();
+      controller.handlePlayerCommand(connectionId, command);
     },
 
     handlePlayerConnected(_connectionId: string): void {
-      // No-op — player hasn't joined yet, just opened a WS
+      // The relay has already sent the player the cached player_state
     },
 
     handlePlayerDisconnected(connectionId: string): void {
-      const info = connectionToPlayer.get(connectionId);
-      if (info && session) {
-        session.removePlayer(info.playerId);
-        playerToConnection.delete(info.playerId);
-        connectionToPlayer.delete(connectionId);
+      spectators.delete(connectionId);
+      controller.handlePlayerDisconnected(connectionId);
+      scheduleSnapshot();
+    },
+
+    handleStateSnapshot(snapshot: string): void {
+      standbySnapshot = snapshot;
+    },
+
+    handlePromoted(connections: string[]): void {
+      let snapshot: HostSnapshot | null = null;
+      try {
+        snapshot = standbySnapshot !== null ? JSON.parse(standbySnapshot) as HostSnapshot | null : null;
+      } catch { /* a corrupt snapshot leaves the standby without a session */ }
+      standbySnapshot = null;
+      controller.takeOver(snapshot, connections);
+      // Screens only register when their socket opens, and the relay kept theirs open
+      const live = new Set(connections);
+      spectators.clear();
+      for (const connectionId of snapshot?.spectators ?? []) {
+        if (live.has(connectionId)) spectators.add(connectionId);
       }
+      publishPlayerState();
     },
   };
 }
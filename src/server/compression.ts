@@ -0,0 +1,16 @@
+import type { PerMessageDeflateOptions } from 'ws';
+
+/** Messages smaller than this go uncompressed; most game events are, and deflating them costs more than it saves. */
+export const COMPRESSION_THRESHOLD_BYTES = 1024;
+
+/**
+ * permessage-deflate for the player-facing WebSocketServers. Browsers and the
+ * admin's `ws` client offer it; anything that does not is sent plain frames.
+ * Context takeover is off so a 1,000-player room does not keep a compression
+ * window per socket between messages.
+ */
+export const PER_MESSAGE_DEFLATE: PerMessageDeflateOptions = {
+  threshold: COMPRESSION_THRESHOLD_BYTES,
+  serverNoContextTakeover: true,
+  clientNoContextTakeover: true,
+};
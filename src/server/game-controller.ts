@@ -0,0 +1,321 @@
+import { randomUUID } from 'crypto';
+import { Session, type SessionSnapshot } from '../core/session';
+import type { GameEvent, Player } from '../core/types';
+import { clockSyncReply, isPlayerCommand, type Command, type JoinedEvent, type ServerEvent } from './protocol';
+import type { TriviaGame } from '../core/games/trivia';
+import {
+  ADMIN,
+  EVERYONE,
+  NON_ADMIN,
+  createTriviaRuntime,
+  findCommandSpec,
+  getGameMode,
+  toConnection,
+  DEFAULT_GAME_MODE,
+  type EventSink,
+  type GameCommand,
+  type GameModeContext,
+  type GameModeRuntime,
+  type PlayerInfo,
+} from './game-modes';
+
+export type { Audience, EventSink } from './game-modes';
+
+export interface GameController {
+  handleAdminCommand(command: Command): void;
+  handlePlayerCommand(connectionId: string, command: Command): void;
+  handlePlayerDisconnected(connectionId: string): void;
+  hasSession(): boolean;
+  isPlayerConnection(connectionId: string): boolean;
+  getPlayerConnections(): string[];
+  /** What a connection that has not joined yet should be sent to land on the current screen. */
+  playerState(): ServerEvent[];
+  /** The whole session as plain JSON, or null when there is none; see `takeOver()`. */
+  snapshot(): ControllerSnapshot | null;
+  /**
+   * Replaces this controller's session with one snapshotted on another host.
+   * `liveConnections` are the connections still open; players bound to any
+   * other connection start their reconnection grace period.
+   */
+  takeOver(snapshot: ControllerSnapshot | null, liveConnections: string[]): void;
+}
+
+export interface ControllerSnapshot {
+  session: SessionSnapshot;
+  runtime: unknown;
+  /** connectionId → playerId for every connected player. */
+  connections: Record<string, string>;
+  /** resume token → playerId. */
+  resumeTokens: Record<string, string>;
+}
+
+/** How long a disconnected player keeps their place before being removed from the Session. */
+export const RESUME_GRACE_MS = 30_000;
+
+/**
+ * Transport-agnostic owner of the Session lifecycle: the roster, resume tokens
+ * and reconnection grace. The game itself is run by the runtime of the
+ * session's mode (see ./game-modes). Players are identified by an opaque
+ * connectionId chosen by the transport adapter.
+ */
+export function createGameController(emit: EventSink, injectedTriviaGame: TriviaGame | null = null, injectedSession: Session | null = null): GameController {
+  let session: Session | null = injectedSession;
+  let runtime: GameModeRuntime<GameCommand> | null = null;
+  const connectionToPlayer = new Map<string, PlayerInfo>();
+  const playerToConnection = new Map<string, string>();
+  const tokenToPlayer = new Map<string, string>();
+  const playerToToken = new Map<string, string>();
+  const graceTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  if (session) {
+    session.addEventListener(handleSessionEvent);
+    if (injectedTriviaGame) runtime = createTriviaRuntime(injectedTriviaGame, contextFor(session));
+  }
+
+  function errorMessage(err: unknown): string {
+    return err instanceof Error ? err.message : 'Unknown error';
+  }
+
+  function screenNameOf(playerId: string): string {
+    return session?.getPlayer(playerId)?.screenName ?? playerId;
+  }
+
+  function contextFor(target: Session): GameModeContext {
+    return {
+      session: target,
+      emit,
+      playerAt: (connectionId) => connectionToPlayer.get(connectionId),
+      connectedPlayers: () => connectionToPlayer.entries(),
+      screenNameOf,
+    };
+  }
+
+  function handleSessionEvent(event: GameEvent): void {
+    switch (event.type) {
+      case 'player_joined': {
+        emit(EVERYONE, { type: 'player_joined', playerId: event.playerId, screenName: event.screenName, playerCount: session!.getPlayers().length });
+        break;
+      }
+      case 'player_left': {
+        emit(EVERYONE, { type: 'player_left', playerId: event.playerId, screenName: event.screenName, playerCount: session!.getPlayers().length });
+        break;
+      }
+    }
+  }
+
+  function resetGame(): void {
+    runtime?.dispose();
+    for (const handle of graceTimers.values()) clearTimeout(handle);
+    graceTimers.clear();
+    connectionToPlayer.clear();
+    playerToConnection.clear();
+    tokenToPlayer.clear();
+    playerToToken.clear();
+    session = null;
+    runtime = null;
+    emit(NON_ADMIN, { type: 'game_reset' });
+  }
+
+  function sessionCreatedEvent(target: Session): ServerEvent {
+    const teams = target.getTeams();
+    return teams.length > 0
+      ? { type: 'session_created', sessionId: target.id, teams }
+      : { type: 'session_created', sessionId: target.id };
+  }
+
+  // ── Admin commands ───────────────────────────────────────────────────────
+
+  function handleAdminCommand(command: Command): void {
+    try {
+      switch (command.type) {
+        case 'clock_sync':
+          emit(ADMIN, clockSyncReply(command));
+          break;
+        case 'restart_game': {
+          if (!session) break;
+          resetGame();
+          break;
+        }
+        case 'create_session': {
+          const mode = getGameMode(command.gameMode ?? DEFAULT_GAME_MODE)!;
+          const next = new Session(mode.id);
+          // Builds the game first so a rejected setup leaves the current session running
+          const nextRuntime = mode.createRuntime(command, contextFor(next));
+          if (session) resetGame();
+          session = next;
+          runtime = nextRuntime;
+          session.addEventListener(handleSessionEvent);
+          const created = sessionCreatedEvent(session);
+          emit(ADMIN, created);
+          emit(NON_ADMIN, created);
+          break;
+        }
+        case 'join':
+        case 'resume':
+        case 'register_spectator':
+          emit(ADMIN, { type: 'error', message: `Command not valid for ${session?.gameMode ?? DEFAULT_GAME_MODE} admin` });
+          break;
+        default: {
+          const owner = findCommandSpec(command.type);
+          if (!runtime || !session || owner?.mode !== session.gameMode) {
+            emit(ADMIN, { type: 'error', message: `No ${owner?.mode ?? DEFAULT_GAME_MODE} game configured` });
+            return;
+          }
+          if (owner.spec.role !== 'admin') {
+            emit(ADMIN, { type: 'error', message: `Command not valid for ${session.gameMode} admin` });
+            return;
+          }
+          runtime.handleAdminCommand(command);
+        }
+      }
+    } catch (err: unknown) {
+      emit(ADMIN, { type: 'error', message: errorMessage(err) });
+    }
+  }
+
+  // ── Reconnection ─────────────────────────────────────────────────────────
+
+  function bindConnection(connectionId: string, playerId: string, screenName: string): void {
+    const previous = playerToConnection.get(playerId);
+    if (previous !== undefined) connectionToPlayer.delete(previous);
+    connectionToPlayer.set(connectionId, { playerId, screenName });
+    playerToConnection.set(playerId, connectionId);
+  }
+
+  function removeAfterGrace(playerId: string): void {
+    graceTimers.set(playerId, setTimeout(() => {
+      graceTimers.delete(playerId);
+      const token = playerToToken.get(playerId);
+      if (token !== undefined) tokenToPlayer.delete(token);
+      playerToToken.delete(playerId);
+      runtime?.onPlayerRemoved(playerId);
+      session?.removePlayer(playerId);
+    }, RESUME_GRACE_MS));
+  }
+
+  // ── Player commands ──────────────────────────────────────────────────────
+
+  function joinedEvent(player: Player, resumeToken: string): ServerEvent {
+    const event: JoinedEvent = { type: 'joined', playerId: player.id, screenName: player.screenName, gameStatus: session!.getGameStatus(), round: session!.getCurrentRound(), resumeToken };
+    if (player.team) event.team = player.team;
+    return event;
+  }
+
+  function handlePlayerCommand(connectionId: string, command: Command): void {
+    const reply = toConnection(connectionId);
+    if (command.type === 'resume') { handleResume(connectionId, command.token); return; }
+    // Answered here, not at a relay, because deadlines are set by this server's clock
+    if (command.type === 'clock_sync') { emit(reply, clockSyncReply(command)); return; }
+    if (!session) { emit(reply, { type: 'error', message: 'No session exists' }); return; }
+
+    try {
+      switch (command.type) {
+        case 'join': {
+          const player = session.addPlayer(command.screenName, command.team);
+          const resumeToken = randomUUID();
+          tokenToPlayer.set(resumeToken, player.id);
+          playerToToken.set(player.id, resumeToken);
+          bindConnection(connectionId, player.id, player.screenName);
+          emit(reply, joinedEvent(player, resumeToken));
+          runtime?.onPlayerJoined(connectionId, player.id);
+          break;
+        }
+        default: {
+          const owner = findCommandSpec(command.type);
+          if (!runtime || owner?.mode !== session.gameMode || !isPlayerCommand(command)) {
+            emit(reply, { type: 'error', message: `Command not valid for ${session.gameMode} player` });
+            return;
+          }
+          runtime.handlePlayerCommand(connectionId, command as GameCommand);
+        }
+      }
+    } catch (err: unknown) {
+      emit(reply, { type: 'error', message: errorMessage(err) });
+    }
+  }
+
+  function handleResume(connectionId: string, token: string): void {
+    const reply = toConnection(connectionId);
+    const playerId = tokenToPlayer.get(token);
+    const player = playerId !== undefined ? session?.getPlayer(playerId) : null;
+    if (!session || !player) {
+      emit(reply, { type: 'resume_failed', message: 'Your previous game has ended. Please join again.' });
+      return;
+    }
+
+    const graceTimer = graceTimers.get(player.id);
+    if (graceTimer) { clearTimeout(graceTimer); graceTimers.delete(player.id); }
+    bindConnection(connectionId, player.id, player.screenName);
+    emit(reply, joinedEvent(player, token));
+    runtime?.replay(connectionId, player.id);
+  }
+
+  return {
+    handleAdminCommand,
+    handlePlayerCommand,
+
+    handlePlayerDisconnected(connectionId: string): void {
+      const info = connectionToPlayer.get(connectionId);
+      if (info && session) {
+        playerToConnection.delete(info.playerId);
+        connectionToPlayer.delete(connectionId);
+        removeAfterGrace(info.playerId);
+      }
+    },
+
+    hasSession(): boolean {
+      return session !== null;
+    },
+
+    isPlayerConnection(connectionId: string): boolean {
+      return connectionToPlayer.has(connectionId);
+    },
+
+    getPlayerConnections(): string[] {
+      return [...connectionToPlayer.keys()];
+    },
+
+    playerState(): ServerEvent[] {
+      if (!session) return [];
+      // session_created fills in the join form's team choices
+      return [sessionCreatedEvent(session), ...(runtime?.publicState() ?? [])];
+    },
+
+    snapshot(): ControllerSnapshot | null {
+      if (!session || !runtime) return null;
+      return {
+        session: session.snapshot(),
+        runtime: runtime.snapshot(),
+        connections: Object.fromEntries([...connectionToPlayer].map(([connectionId, info]) => [connectionId, info.playerId])),
+        resumeTokens: Object.fromEntries(tokenToPlayer),
+      };
+    },
+
+    takeOver(snapshot: ControllerSnapshot | null, liveConnections: string[]): void {
+      if (session) resetGame();
+      if (!snapshot) return;
+
+      const restored = Session.restore(snapshot.session);
+      session = restored;
+      runtime = getGameMode(restored.gameMode)!.restoreRuntime(snapshot.runtime, contextFor(restored));
+      session.addEventListener(handleSessionEvent);
+      for (const [token, playerId] of Object.entries(snapshot.resumeTokens)) {
+        tokenToPlayer.set(token, playerId);
+        playerToToken.set(playerId, token);
+      }
+      const live = new Set(liveConnections);
+      const connected = new Map(Object.entries(snapshot.connections).map(([connectionId, playerId]) => [playerId, connectionId]));
+      for (const player of restored.getPlayers()) {
+        const connectionId = connected.get(player.id);
+        // Players already inside their grace period on the old host get a fresh one
+        if (connectionId !== undefined && live.has(connectionId)) bindConnection(connectionId, player.id, player.screenName);
+        else removeAfterGrace(player.id);
+      }
+
+      const teams = restored.getTeams();
+      emit(ADMIN, teams.length > 0
+        ? { type: 'session_restored', sessionId: restored.id, gameMode: restored.gameMode, teams }
+        : { type: 'session_restored', sessionId: restored.id, gameMode: restored.gameMode });
+    },
+  };
+}
@@ -0,0 +1,220 @@
+import { BingoGame, type BingoGameSnapshot } from '../../core/games/bingo';
+import type { WinPattern } from '../../core/types';
+import { BINGO_WORDS } from '../../fixtures/bingo-words';
+import type { ServerEvent } from '../protocol';
+import {
+  ADMIN,
+  EVERYONE,
+  toConnection,
+  type GameModeContext,
+  type GameModeDefinition,
+  type GameModeRuntime,
+} from './types';
+
+// ── Protocol ─────────────────────────────────────────────────────────────────
+
+export interface CreateBingoSessionCommand {
+  type: 'create_session';
+  gameMode: 'bingo';
+  /** Buzzwords to deal cards from; the built-in list is used when omitted. */
+  words?: string[];
+}
+
+export interface StartBingoCommand {
+  type: 'start_bingo';
+}
+
+export interface MarkCellCommand {
+  type: 'mark_cell';
+  index: number;
+}
+
+export interface ClaimBingoCommand {
+  type: 'claim_bingo';
+}
+
+export interface VerifyClaimCommand {
+  type: 'verify_claim';
+  playerId: string;
+  accept: boolean;
+}
+
+export type BingoCommand =
+  | StartBingoCommand
+  | MarkCellCommand
+  | ClaimBingoCommand
+  | VerifyClaimCommand;
+
+export interface CardDealtEvent {
+  type: 'card_dealt';
+  /** Row-major 5×5 words; the centre is the free space. */
+  words: string[];
+  marked: boolean[];
+}
+
+export interface BingoStartedEvent {
+  type: 'bingo_started';
+  prize: WinPattern;
+}
+
+export interface CellMarkedEvent {
+  type: 'cell_marked';
+  index: number;
+  marked: boolean;
+  /** The pattern the card now shows, so the player knows when they can claim. */
+  pattern: WinPattern | null;
+}
+
+export interface BingoClaimedEvent {
+  type: 'bingo_claimed';
+  playerId: string;
+  screenName: string;
+  pattern: WinPattern;
+  markedWords: string[];
+}
+
+export interface ClaimResultEvent {
+  type: 'claim_result';
+  playerId: string;
+  screenName: string;
+  pattern: WinPattern;
+  accepted: boolean;
+  /** What the next accepted claim wins. */
+  prize: WinPattern;
+}
+
+export type BingoEvent =
+  | CardDealtEvent
+  | BingoStartedEvent
+  | CellMarkedEvent
+  | BingoClaimedEvent
+  | ClaimResultEvent;
+
+function parseBingoSetup(obj: Record<string, unknown>): CreateBingoSessionCommand | null {
+  if (obj.words === undefined) return { type: 'create_session', gameMode: 'bingo' };
+  if (!Array.isArray(obj.words) || !obj.words.every(w => typeof w === 'string')) return null;
+  return { type: 'create_session', gameMode: 'bingo', words: obj.words as string[] };
+}
+
+// ── Runtime ──────────────────────────────────────────────────────────────────
+
+function createBingoRuntime(bingoGame: BingoGame, context: GameModeContext): GameModeRuntime<BingoCommand> {
+  const { session, emit, screenNameOf } = context;
+
+  function cardEventFor(playerId: string): ServerEvent {
+    const card = bingoGame.dealCard(playerId);
+    return { type: 'card_dealt', words: [...card.words], marked: card.getMarks() };
+  }
+
+  /** The full-house winners; line winners are announced as their claims are accepted. */
+  function winnerNames(): string[] {
+    return bingoGame.getWinners().filter(w => w.pattern === 'full_house').map(w => screenNameOf(w.playerId));
+  }
+
+  function onClaimVerified(playerId: string, accept: boolean): void {
+    const claim = bingoGame.verifyClaim(playerId, accept);
+    emit(EVERYONE, {
+      type: 'claim_result',
+      playerId,
+      screenName: screenNameOf(playerId),
+      pattern: claim.pattern,
+      accepted: accept,
+      prize: bingoGame.prize,
+    });
+    if (bingoGame.state === 'game_over') {
+      session.setGameStatus('finished');
+      emit(EVERYONE, { type: 'game_over', winners: winnerNames() });
+    }
+  }
+
+  return {
+    handleAdminCommand(command: BingoCommand): void {
+      switch (command.type) {
+        case 'start_bingo':
+          bingoGame.start();
+          session.setGameStatus('in_progress');
+          emit(EVERYONE, { type: 'bingo_started', prize: bingoGame.prize });
+          break;
+        case 'verify_claim':
+          onClaimVerified(command.playerId, command.accept);
+          break;
+      }
+    },
+
+    handlePlayerCommand(connectionId: string, command: BingoCommand): void {
+      const reply = toConnection(connectionId);
+      const info = context.playerAt(connectionId);
+      if (!info) { emit(reply, { type: 'error', message: 'Not playing bingo' }); return; }
+      switch (command.type) {
+        case 'mark_cell': {
+          const marked = bingoGame.mark(info.playerId, command.index);
+          const pattern = bingoGame.getCard(info.playerId)!.getPattern();
+          emit(reply, { type: 'cell_marked', index: command.index, marked, pattern });
+          break;
+        }
+        case 'claim_bingo': {
+          const claim = bingoGame.claim(info.playerId);
+          emit(EVERYONE, { type: 'bingo_claimed', playerId: info.playerId, screenName: info.screenName, pattern: claim.pattern, markedWords: claim.markedWords });
+          break;
+        }
+      }
+    },
+
+    onPlayerJoined(connectionId: string, playerId: string): void {
+      emit(toConnection(connectionId), cardEventFor(playerId));
+    },
+
+    replay(connectionId: string, playerId: string): void {
+      const reply = toConnection(connectionId);
+      emit(reply, cardEventFor(playerId));
+      if (bingoGame.state === 'playing') emit(reply, { type: 'bingo_started', prize: bingoGame.prize });
+      if (bingoGame.state === 'game_over') emit(reply, { type: 'game_over', winners: winnerNames() });
+    },
+
+    publicState(): ServerEvent[] {
+      if (bingoGame.state === 'playing') return [{ type: 'bingo_started', prize: bingoGame.prize }];
+      if (bingoGame.state === 'game_over') return [{ type: 'game_over', winners: winnerNames() }];
+      return [];
+    },
+
+    onPlayerRemoved(playerId: string): void {
+      bingoGame.removePlayer(playerId);
+    },
+
+    snapshot(): BingoGameSnapshot {
+      return bingoGame.snapshot();
+    },
+
+    dispose(): void {
+      // Bingo is driven entirely by the host and players; nothing to stop
+    },
+  };
+}
+
+export const bingoMode: GameModeDefinition<CreateBingoSessionCommand, BingoCommand> = {
+  id: 'bingo',
+  parseSetup: parseBingoSetup,
+  commands: {
+    start_bingo: { role: 'admin', parse: () => ({ type: 'start_bingo' }) },
+    verify_claim: {
+      role: 'admin',
+      parse: (obj) => typeof obj.playerId === 'string' && typeof obj.accept === 'boolean'
+        ? { type: 'verify_claim', playerId: obj.playerId, accept: obj.accept }
+        : null,
+    },
+    mark_cell: {
+      role: 'player',
+      parse: (obj) => typeof obj.index === 'number' && Number.isInteger(obj.index)
+        ? { type: 'mark_cell', index: obj.index }
+        : null,
+    },
+    claim_bingo: { role: 'player', parse: () => ({ type: 'claim_bingo' }) },
+  },
+  createRuntime(setup, context) {
+    // Throws on a short word list, before the controller tears down the current session
+    return createBingoRuntime(new BingoGame(context.session.id, setup.words ?? BINGO_WORDS), context);
+  },
+  restoreRuntime(snapshot, context) {
+    return createBingoRuntime(BingoGame.restore(snapshot as BingoGameSnapshot), context);
+  },
+};
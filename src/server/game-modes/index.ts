@@ -0,0 +1,42 @@
+import type { GameMode } from '../../core/types';
+import { bingoMode, type BingoCommand, type BingoEvent, type CreateBingoSessionCommand } from './bingo';
+import { triviaMode, type CreateTriviaSessionCommand, type TriviaCommand, type TriviaEvent } from './trivia';
+import type { CommandSpec, GameModeDefinition } from './types';
+
+export * from './types';
+export * from './trivia';
+export * from './bingo';
+
+/** Every mode's create_session payload. */
+export type GameSetup = CreateTriviaSessionCommand | CreateBingoSessionCommand;
+/** Every mode-specific command. */
+export type GameCommand = TriviaCommand | BingoCommand;
+/** Every mode-specific event. */
+export type GameModeEvent = TriviaEvent | BingoEvent;
+
+/**
+ * The registered game modes. Adding a mode means writing its definition
+ * alongside trivia and bingo, listing it here and adding it to `GameMode`.
+ */
+export const GAME_MODES: Record<GameMode, GameModeDefinition<GameSetup, GameCommand>> = {
+  trivia: triviaMode,
+  bingo: bingoMode,
+};
+
+/** Used when create_session names no mode. */
+export const DEFAULT_GAME_MODE: GameMode = 'trivia';
+
+export function getGameMode(id: unknown): GameModeDefinition<GameSetup, GameCommand> | null {
+  if (typeof id !== 'string' || !Object.prototype.hasOwnProperty.call(GAME_MODES, id)) return null;
+  return GAME_MODES[id as GameMode];
+}
+
+/** Finds the mode that owns a command type. */
+export function findCommandSpec(type: string): { mode: GameMode; spec: CommandSpec<GameCommand> } | null {
+  for (const mode of Object.values(GAME_MODES)) {
+    if (Object.prototype.hasOwnProperty.call(mode.commands, type)) {
+      return { mode: mode.id, spec: mode.commands[type] };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,923 @@
+import { TriviaGame, type TriviaGameSnapshot } from '../../core/games/trivia';
+import { pollShares, wordCloud } from '../../core/games/poll';
+import type {
+  AnswerCounts,
+  AnswerOption,
+  PlayerScore,
+  PollShare,
+  QuestionType,
+  RoundResult,
+  TeamScore,
+  TeamScoringRule,
+  TextAnswerGroup,
+  TriviaAnswer,
+  TriviaQuestion,
+  TriviaRevealMode,
+  TriviaScoringMode,
+  WordCloudEntry,
+} from '../../core/types';
+import type { ServerEvent } from '../protocol';
+import {
+  MAX_TEXT_ANSWER_LENGTH,
+  MAX_TIME_LIMIT_SECONDS,
+  isAnswerFor,
+  isOpinionType,
+  isValidRevealDelay,
+  isValidTimeLimit,
+  optionsOf,
+  readQuestion,
+} from '../../shared/question-rules';
+import { questionsOf, validateQuizDocument, type QuizDocument, type QuizSettings } from '../../shared/quiz-document';
+import {
+  ADMIN,
+  EVERYONE,
+  PLAYERS,
+  WATCHERS,
+  toConnection,
+  type GameModeContext,
+  type GameModeDefinition,
+  type GameModeRuntime,
+} from './types';
+
+// ── Protocol ─────────────────────────────────────────────────────────────────
+
+export interface CreateTriviaSessionCommand {
+  type: 'create_session';
+  gameMode?: 'trivia';
+  /**
+   * On the wire, a quiz document may stand in for `questions`; its settings
+   * then apply wherever the command leaves a setting out.
+   */
+  quiz?: QuizDocument;
+  questions: TriviaQuestion[];
+  speed?: boolean;
+  /** Default seconds per question; questions may set their own `timeLimit`. */
+  timeLimit?: number;
+  /** Seconds between the answer breakdown and the reveal. */
+  revealDelay?: number;
+  /** 'manual' leaves the reveal and the regroup to reveal_answer and show_survivors. */
+  revealMode?: TriviaRevealMode;
+  scoring?: TriviaScoringMode;
+  /** Team names; when present, players are grouped and rounds are resolved per team. */
+  teams?: string[];
+  teamScoring?: TeamScoringRule;
+  /** Shows question images on phones as well as broadcast screens. */
+  phoneImages?: boolean;
+}
+
+export interface StartTriviaQuestionCommand {
+  type: 'start_trivia_question';
+  questionIndex: number;
+}
+
+export interface GoLiveCommand {
+  type: 'go_live';
+}
+
+export interface AdvanceQuestionCommand {
+  type: 'advance_question';
+}
+
+export interface PauseQuestionCommand {
+  type: 'pause_question';
+}
+
+export interface ResumeQuestionCommand {
+  type: 'resume_question';
+}
+
+export interface ExtendTimerCommand {
+  type: 'extend_timer';
+  seconds: number;
+}
+
+/** Closes the live question before its timer runs out. */
+export interface CloseNowCommand {
+  type: 'close_now';
+}
+
+/** Manual reveal mode: reveals the answer once the breakdown is showing. */
+export interface RevealAnswerCommand {
+  type: 'reveal_answer';
+}
+
+/** Manual reveal mode: moves from the revealed answer to the survivors (or game over). */
+export interface ShowSurvivorsCommand {
+  type: 'show_survivors';
+}
+
+/** Free-text questions: counts a typed answer, and any that read the same, as right before the reveal. */
+export interface AcceptAnswerCommand {
+  type: 'accept_answer';
+  answer: string;
+}
+
+/** A letter, every letter picked for a multi-select, a number for a numeric question, or typed text. */
+export interface SubmitAnswerCommand {
+  type: 'submit_answer';
+  answer: TriviaAnswer;
+}
+
+export type TriviaCommand =
+  | StartTriviaQuestionCommand
+  | GoLiveCommand
+  | AdvanceQuestionCommand
+  | PauseQuestionCommand
+  | ResumeQuestionCommand
+  | ExtendTimerCommand
+  | CloseNowCommand
+  | RevealAnswerCommand
+  | ShowSurvivorsCommand
+  | AcceptAnswerCommand
+  | SubmitAnswerCommand;
+
+export interface QuestionPreviewEvent {
+  type: 'question_preview';
+  questionIndex: number;
+  text: string;
+  /** The question's named round and category, when the quiz gives them. */
+  round?: string;
+  category?: string;
+}
+
+export interface QuestionLiveEvent {
+  type: 'question_live';
+  text: string;
+  /** Left out for multiple choice. */
+  questionType?: QuestionType;
+  /** The answers to choose between, from A; empty for a numeric, free-text or word-cloud question. */
+  options: string[];
+  /** Seconds left when the event was sent. */
+  timeLimit: number;
+  /** Server time (epoch ms) at which the question closes. */
+  deadline: number;
+  /** The question's picture, for broadcast screens. */
+  image?: string;
+  /** Set when phones show the picture too. */
+  imageOnPhones?: true;
+}
+
+export interface TimerPausedEvent {
+  type: 'timer_paused';
+  remainingMs: number;
+}
+
+export interface TimerResumedEvent {
+  type: 'timer_resumed';
+  deadline: number;
+  remainingMs: number;
+}
+
+export interface TimerExtendedEvent {
+  type: 'timer_extended';
+  /** The new closing time; null while the question is paused. */
+  deadline: number | null;
+  remainingMs: number;
+}
+
+export interface TimerExpiredEvent {
+  type: 'timer_expired';
+}
+
+export interface AnswerBreakdownEvent {
+  type: 'answer_breakdown';
+  counts: AnswerCounts;
+  totalAnswered: number;
+  totalPlayers: number;
+  /** playerId → answer, for the admin and broadcast screens; left out of the players' copy. */
+  playerAnswers?: Record<string, TriviaAnswer>;
+}
+
+export interface AnswerRevealedEvent {
+  type: 'answer_revealed';
+  correct: TriviaAnswer;
+  /** Player IDs, for the admin and broadcast screens; players hear their own outcome instead. */
+  eliminated?: string[];
+  survivors?: string[];
+  /** The question's explanation, when the quiz gives one. */
+  explanation?: string;
+}
+
+export interface SurvivorsRegroupedEvent {
+  type: 'survivors_regrouped';
+  survivorCount: number;
+  /** For the admin and broadcast screens; left out of the players' copy. */
+  survivorNames?: string[];
+}
+
+export interface YouAreEliminatedEvent {
+  type: 'you_are_eliminated';
+  correctAnswer: TriviaAnswer;
+  yourAnswer: TriviaAnswer | null;
+}
+
+export interface YouSurvivedEvent {
+  type: 'you_survived';
+  survivorCount: number;
+}
+
+export interface YouScoredEvent {
+  type: 'you_scored';
+  correctAnswer: TriviaAnswer;
+  yourAnswer: TriviaAnswer | null;
+  points: number;
+  totalPoints: number;
+  rank: number;
+}
+
+export interface TeamResultEvent {
+  type: 'team_result';
+  team: string;
+  correctAnswer: TriviaAnswer;
+  /** The team's combined answer under majority scoring; null under percentage or on a tie. */
+  teamAnswer: TriviaAnswer | null;
+  correct: boolean;
+  points: number;
+  totalPoints: number;
+  rank: number;
+  eliminated: boolean;
+}
+
+export interface AnswerAcceptedEvent {
+  type: 'answer_accepted';
+}
+
+/**
+ * Sent instead of answer_accepted when an answer arrives after the deadline or
+ * during a pause, or from a player who joined an elimination game once it began.
+ */
+export interface AnswerRejectedEvent {
+  type: 'answer_rejected';
+  reason: 'too_late' | 'paused' | 'joined_late';
+}
+
+export interface LiveAnswerStatsEvent {
+  type: 'live_answer_stats';
+  counts: AnswerCounts;
+  answered: number;
+  remaining: number;
+}
+
+/** Free-text questions: what players typed, for the host to accept borderline answers before the reveal. */
+export interface TextAnswersEvent {
+  type: 'text_answers';
+  answers: TextAnswerGroup[];
+}
+
+/** Polls: each answer's share of the votes so far, and once more when the poll closes. */
+export interface PollResultsEvent {
+  type: 'poll_results';
+  shares: PollShare[];
+  totalAnswered: number;
+  /** Set on the copy sent when the poll closes. */
+  final?: boolean;
+}
+
+/** Word clouds: the responses so far, most common first, and once more when the question closes. */
+export interface WordCloudEvent {
+  type: 'word_cloud';
+  entries: WordCloudEntry[];
+  totalAnswered: number;
+  /** Set on the copy sent when the question closes. */
+  final?: boolean;
+}
+
+export interface QuestionResultEvent {
+  type: 'question_result';
+  correct: TriviaAnswer;
+  eliminated: string[];
+  survivors: string[];
+}
+
+export interface LeaderboardEvent {
+  type: 'leaderboard';
+  entries: PlayerScore[];
+}
+
+export interface TeamLeaderboardEvent {
+  type: 'team_leaderboard';
+  entries: TeamScore[];
+}
+
+export type TriviaEvent =
+  | QuestionPreviewEvent
+  | QuestionLiveEvent
+  | TimerPausedEvent
+  | TimerResumedEvent
+  | TimerExtendedEvent
+  | TimerExpiredEvent
+  | AnswerBreakdownEvent
+  | AnswerRevealedEvent
+  | SurvivorsRegroupedEvent
+  | YouAreEliminatedEvent
+  | YouSurvivedEvent
+  | YouScoredEvent
+  | TeamResultEvent
+  | AnswerAcceptedEvent
+  | AnswerRejectedEvent
+  | LiveAnswerStatsEvent
+  | TextAnswersEvent
+  | PollResultsEvent
+  | WordCloudEvent
+  | QuestionResultEvent
+  | LeaderboardEvent
+  | TeamLeaderboardEvent;
+
+const VALID_ANSWER_OPTIONS = new Set<string>(['A', 'B', 'C', 'D', 'E', 'F']);
+/** States in which the current question has closed to answers. */
+const CLOSED_STATES = new Set<string>(['breakdown', 'answer_revealed', 'survivors']);
+const VALID_SCORING_MODES = new Set<string>(['elimination', 'points']);
+const VALID_TEAM_SCORING_RULES = new Set<string>(['majority', 'percentage']);
+const VALID_REVEAL_MODES = new Set<string>(['auto', 'manual']);
+
+/** The question in its tidied form, or null when it breaks a rule. */
+function parseQuestion(value: unknown): TriviaQuestion | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+  return readQuestion(value as Record<string, unknown>).question;
+}
+
+function isValidTextAnswer(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '' && value.length <= MAX_TEXT_ANSWER_LENGTH;
+}
+
+/**
+ * Letters are upper-cased and other text is trimmed; whether the answer fits
+ * the live question is checked when it arrives.
+ */
+function parseAnswer(value: unknown): TriviaAnswer | null {
+  const letterOf = (v: unknown) => typeof v === 'string' && VALID_ANSWER_OPTIONS.has(v.toUpperCase())
+    ? v.toUpperCase() as AnswerOption
+    : null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string') return letterOf(value) ?? (isValidTextAnswer(value) ? value.trim() : null);
+  if (!Array.isArray(value)) return null;
+  const letters = value.map(letterOf);
+  return letters.length > 0 && !letters.includes(null) ? letters as AnswerOption[] : null;
+}
+
+function isValidTeamList(value: unknown): value is string[] {
+  if (!Array.isArray(value) || value.length < 2) return false;
+  if (!value.every(t => typeof t === 'string' && t.trim() !== '')) return false;
+  const names = value.map(t => (t as string).trim().toLowerCase());
+  return new Set(names).size === names.length;
+}
+
+function parseTriviaSetup(obj: Record<string, unknown>): CreateTriviaSessionCommand | null {
+  let questions: TriviaQuestion[];
+  let defaults: QuizSettings = {};
+  if (obj.quiz !== undefined) {
+    // The admin page applies the question ceiling; any size of show may be hosted
+    const { quiz } = validateQuizDocument(obj.quiz, { maxQuestions: Infinity });
+    if (!quiz) return null;
+    questions = questionsOf(quiz);
+    defaults = quiz.settings ?? {};
+  } else {
+    if (!Array.isArray(obj.questions)) return null;
+    const parsed = obj.questions.map(parseQuestion);
+    if (parsed.includes(null)) return null;
+    questions = parsed as TriviaQuestion[];
+  }
+  if (obj.timeLimit !== undefined && !isValidTimeLimit(obj.timeLimit)) return null;
+  if (obj.revealDelay !== undefined && !isValidRevealDelay(obj.revealDelay)) return null;
+  if (obj.scoring !== undefined && !VALID_SCORING_MODES.has(obj.scoring as string)) return null;
+  if (obj.revealMode !== undefined && !VALID_REVEAL_MODES.has(obj.revealMode as string)) return null;
+  const timeLimit = obj.timeLimit ?? defaults.timeLimit;
+  const revealDelay = obj.revealDelay ?? defaults.revealDelay;
+  const revealMode = (obj.revealMode as TriviaRevealMode | undefined) ?? defaults.revealMode;
+  const command: CreateTriviaSessionCommand = {
+    type: 'create_session',
+    questions,
+    speed: obj.speed === undefined ? defaults.speed === true : obj.speed === true,
+    scoring: (obj.scoring as TriviaScoringMode | undefined) ?? defaults.scoring ?? 'elimination',
+  };
+  if (timeLimit !== undefined) command.timeLimit = timeLimit;
+  if (revealDelay !== undefined) command.revealDelay = revealDelay;
+  if (revealMode !== undefined) command.revealMode = revealMode;
+  if (obj.phoneImages === true) command.phoneImages = true;
+  if (obj.teams !== undefined) {
+    if (!isValidTeamList(obj.teams)) return null;
+    if (obj.teamScoring !== undefined && !VALID_TEAM_SCORING_RULES.has(obj.teamScoring as string)) return null;
+    command.teams = obj.teams.map(t => t.trim());
+    command.teamScoring = (obj.teamScoring as TeamScoringRule | undefined) ?? 'majority';
+  }
+  return command;
+}
+
+// ── Runtime ──────────────────────────────────────────────────────────────────
+
+/** How the runtime presents questions, beyond what the game itself keeps. */
+export interface TriviaDisplayOptions {
+  phoneImages?: boolean;
+}
+
+export interface TriviaRuntimeSnapshot extends TriviaDisplayOptions {
+  game: TriviaGameSnapshot;
+  /** Server time (epoch ms) at which the live question closes. */
+  liveDeadline: number;
+  pausedRemainingMs: number;
+}
+
+/**
+ * Runs a TriviaGame for one session: the auto-sequencing timers
+ * (live → breakdown → reveal) and the per-player result events.
+ * `restored` carries the clock of a game taken over from another host.
+ */
+export function createTriviaRuntime(
+  triviaGame: TriviaGame,
+  context: GameModeContext,
+  display: TriviaDisplayOptions = {},
+  restored?: Omit<TriviaRuntimeSnapshot, 'game' | keyof TriviaDisplayOptions>,
+): GameModeRuntime<TriviaCommand> {
+  const { session, emit, screenNameOf } = context;
+  let timerHandle: ReturnType<typeof setTimeout> | null = null;
+  // Carried over too: a question taken over while paused still shows its deadline before it resumes
+  let liveDeadline = restored?.liveDeadline ?? 0;
+  let pausedRemainingMs = restored?.pausedRemainingMs ?? 0;
+
+  function clearTimer(): void {
+    if (timerHandle) { clearTimeout(timerHandle); timerHandle = null; }
+  }
+
+  /** Time left on the current question; frozen while it is paused. */
+  function remainingMs(): number {
+    if (triviaGame.state === 'question_paused') return pausedRemainingMs;
+    return Math.max(0, liveDeadline - Date.now());
+  }
+
+  function startClock(ms: number): void {
+    clearTimer();
+    liveDeadline = Date.now() + ms;
+    timerHandle = setTimeout(onTimerExpired, ms);
+  }
+
+  /** `question_live` for the current question, closing at `deadline` with `timeLimit` seconds on the clock. */
+  function liveEventFor(timeLimit: number, deadline: number): QuestionLiveEvent {
+    const q = triviaGame.getCurrentQuestion()!;
+    const event: QuestionLiveEvent = { type: 'question_live', text: q.question, options: optionsOf(q), timeLimit, deadline };
+    if (q.type !== undefined && q.type !== 'multiple_choice') event.questionType = q.type;
+    if (q.image !== undefined) {
+      event.image = q.image;
+      if (display.phoneImages) event.imageOnPhones = true;
+    }
+    return event;
+  }
+
+  function questionLiveEvent(): ServerEvent {
+    const ms = remainingMs();
+    return liveEventFor(Math.ceil(ms / 1000), Date.now() + ms);
+  }
+
+  /** Where a poll or word cloud stands, for the current round. */
+  function opinionEvent(final: boolean): ServerEvent {
+    const round = triviaGame.getCurrentRound()!;
+    const totalAnswered = round.getAnsweredCount();
+    const closed = final ? { final } : {};
+    return round.type === 'poll'
+      ? { type: 'poll_results', shares: pollShares(round.getAnswerCounts()), totalAnswered, ...closed }
+      : { type: 'word_cloud', entries: wordCloud(Object.values(round.getPlayerAnswers())), totalAnswered, ...closed };
+  }
+
+  /** Whether the current round is a poll or word cloud, which is never revealed or scored. */
+  function isOpinionRound(): boolean {
+    const round = triviaGame.getCurrentRound();
+    return round !== null && isOpinionType(round.type);
+  }
+
+  /** The revealed round's result; only questions with a right answer are revealed. */
+  function revealedResult(): RoundResult & { correctAnswer: TriviaAnswer } {
+    return triviaGame.getCurrentRound()!.getResult() as RoundResult & { correctAnswer: TriviaAnswer };
+  }
+
+  function onReveal(): void {
+    triviaGame.revealAnswer();
+    if (triviaGame.hasTeams) announceTeamReveal();
+    else announceReveal();
+    if (triviaGame.revealMode === 'auto') onShowSurvivors();
+  }
+
+  /** Full detail for the screens; phones get the answer, and why, and hear their own outcome separately. */
+  function emitAnswerRevealed(correct: TriviaAnswer, eliminated: string[], survivors: string[]): void {
+    const { explanation } = triviaGame.getCurrentQuestion()!;
+    const why = explanation !== undefined ? { explanation } : {};
+    emit(WATCHERS, { type: 'answer_revealed', correct, eliminated, survivors, ...why });
+    emit(PLAYERS, { type: 'answer_revealed', correct, ...why });
+  }
+
+  function announceReveal(): void {
+    const result = revealedResult();
+    const pointsMode = triviaGame.scoringMode === 'points';
+
+    if (pointsMode) {
+      for (const [playerId, points] of Object.entries(triviaGame.getRoundPoints())) {
+        session.awardPoints(playerId, points, result.questionIndex + 1);
+      }
+    }
+
+    // Nobody is knocked out in points mode, so the reveal carries no eliminations
+    const eliminated = pointsMode ? [] : result.eliminated;
+    const survivors = pointsMode ? triviaGame.getSurvivors() : result.survivors;
+    emitAnswerRevealed(result.correctAnswer, eliminated, survivors);
+
+    // Per-player individual events
+    for (const [connectionId, info] of context.connectedPlayers()) {
+      if (pointsMode) {
+        const scored = scoreEventFor(info.playerId);
+        if (scored) emit(toConnection(connectionId), scored);
+      } else if (result.eliminated.includes(info.playerId)) {
+        const yourAnswer = result.playerAnswers[info.playerId] ?? null;
+        emit(toConnection(connectionId), { type: 'you_are_eliminated', correctAnswer: result.correctAnswer, yourAnswer });
+      } else if (result.survivors.includes(info.playerId)) {
+        emit(toConnection(connectionId), { type: 'you_survived', survivorCount: result.survivors.length });
+      }
+    }
+
+    emit(ADMIN, { type: 'question_result', correct: result.correctAnswer, eliminated, survivors });
+  }
+
+  /** Team games resolve, eliminate and score whole teams, so players hear their team's outcome. */
+  function announceTeamReveal(): void {
+    const result = revealedResult();
+    for (const r of triviaGame.getTeamResults()) session.awardTeamPoints(r.team, r.points);
+
+    const survivors = triviaGame.getSurvivors();
+    // Everyone who answered this round but whose team has now fallen
+    const eliminated = [...result.survivors, ...result.eliminated].filter(id => !survivors.includes(id));
+    emitAnswerRevealed(result.correctAnswer, eliminated, survivors);
+
+    for (const [connectionId, info] of context.connectedPlayers()) {
+      const teamEvent = teamEventFor(info.playerId);
+      if (teamEvent) emit(toConnection(connectionId), teamEvent);
+    }
+
+    emit(ADMIN, { type: 'question_result', correct: result.correctAnswer, eliminated, survivors });
+  }
+
+  function onShowSurvivors(): void {
+    triviaGame.showSurvivors();
+    const pointsMode = triviaGame.scoringMode === 'points';
+
+    if (triviaGame.state === 'game_over') {
+      session.setGameStatus('finished');
+      const winners = triviaGame.hasTeams
+        ? triviaGame.getWinningTeams()
+        : triviaGame.getWinners().map(w => screenNameOf(w.playerId));
+      emit(EVERYONE, { type: 'game_over', winners });
+    } else if (isOpinionRound()) {
+      // Standings are unchanged, so the screens stay on the results
+      return;
+    } else if (!pointsMode && !triviaGame.hasTeams) {
+      const survivorNames = triviaGame.getSurvivors().map(screenNameOf);
+      emit(WATCHERS, { type: 'survivors_regrouped', survivorCount: survivorNames.length, survivorNames });
+      emit(PLAYERS, { type: 'survivors_regrouped', survivorCount: survivorNames.length });
+    }
+
+    // Sent after each round, which on the last question is also the final standings at game_over.
+    // Phones show their own rank, so the full board only goes to the screens that display it.
+    if (triviaGame.hasTeams) {
+      emit(WATCHERS, { type: 'team_leaderboard', entries: session.getTeamLeaderboard() });
+    } else if (pointsMode) {
+      emit(WATCHERS, { type: 'leaderboard', entries: session.getLeaderboard() });
+    }
+  }
+
+  /** The team outcome of the last revealed round, as seen by one of its members. */
+  function teamEventFor(playerId: string): ServerEvent | null {
+    const team = triviaGame.getTeamOf(playerId);
+    if (!team) return null;
+    const teamResult = triviaGame.getTeamResults().find(r => r.team === team);
+    const board = session.getTeamLeaderboard();
+    const entry = board.find(e => e.team === team)!;
+    return {
+      type: 'team_result',
+      team,
+      correctAnswer: revealedResult().correctAnswer,
+      teamAnswer: teamResult?.answer ?? null,
+      correct: teamResult?.correct ?? false,
+      points: teamResult?.points ?? 0,
+      totalPoints: entry.totalPoints,
+      rank: board.findIndex(e => e.totalPoints === entry.totalPoints) + 1,
+      eliminated: triviaGame.isTeamEliminated(team),
+    };
+  }
+
+  /** The per-player result of the last revealed round in points mode. */
+  function scoreEventFor(playerId: string): ServerEvent | null {
+    const result = revealedResult();
+    const board = session.getLeaderboard();
+    const entry = board.find(e => e.playerId === playerId);
+    if (!entry) return null;
+    return {
+      type: 'you_scored',
+      correctAnswer: result.correctAnswer,
+      yourAnswer: result.playerAnswers[playerId] ?? null,
+      points: triviaGame.getRoundPoints()[playerId] ?? 0,
+      totalPoints: entry.totalPoints,
+      rank: board.findIndex(e => e.totalPoints === entry.totalPoints) + 1,
+    };
+  }
+
+  function onTimerExpired(): void {
+    triviaGame.expireTimer();
+    // Closing early leaves the question's own timer pending
+    clearTimer();
+    const round = triviaGame.getCurrentRound()!;
+    const counts = round.getAnswerCounts();
+    const totalAnswered = round.getAnsweredCount();
+    const totalPlayers = triviaGame.getSurvivors().length;
+    const playerAnswers = round.getPlayerAnswers();
+
+    emit(EVERYONE, { type: 'timer_expired' });
+    emit(WATCHERS, { type: 'answer_breakdown', counts, totalAnswered, totalPlayers, playerAnswers });
+    emit(PLAYERS, { type: 'answer_breakdown', counts, totalAnswered, totalPlayers });
+    if (round.type === 'free_text') emit(ADMIN, { type: 'text_answers', answers: round.getTextAnswers() });
+
+    if (isOpinionRound()) {
+      // There is no answer to reveal, so the round ends as soon as it closes
+      emit(EVERYONE, opinionEvent(true));
+      triviaGame.revealAnswer();
+      onShowSurvivors();
+    } else if (triviaGame.revealMode === 'auto') {
+      timerHandle = setTimeout(onReveal, triviaGame.revealDelayMs);
+    }
+  }
+
+  function questionPreviewEvent(): ServerEvent {
+    const q = triviaGame.getCurrentQuestion()!;
+    const event: QuestionPreviewEvent = { type: 'question_preview', questionIndex: triviaGame.currentQuestionIndex, text: q.question };
+    if (q.round !== undefined) event.round = q.round;
+    if (q.category !== undefined) event.category = q.category;
+    return event;
+  }
+
+  function assertManualReveal(command: string): void {
+    if (triviaGame.revealMode !== 'manual') throw new Error(`${command} is only available when the reveal is manual`);
+  }
+
+  // A taken-over game picks up where its timers were: a live question keeps its
+  // deadline and a pending auto reveal waits the full delay again
+  if (restored && triviaGame.state === 'question_live') {
+    startClock(Math.max(0, restored.liveDeadline - Date.now()));
+  } else if (restored && triviaGame.state === 'breakdown' && triviaGame.revealMode === 'auto') {
+    timerHandle = setTimeout(onReveal, triviaGame.revealDelayMs);
+  }
+
+  return {
+    handleAdminCommand(command: TriviaCommand): void {
+      switch (command.type) {
+        case 'start_trivia_question': {
+          triviaGame.previewQuestion(command.questionIndex);
+          emit(EVERYONE, questionPreviewEvent());
+          break;
+        }
+        case 'go_live': {
+          if (triviaGame.getSurvivors().length === 0) {
+            // Includes players inside their reconnection grace period
+            const players = session.getPlayers();
+            const teams: Record<string, string> = {};
+            for (const p of players) if (p.team) teams[p.id] = p.team;
+            triviaGame.registerPlayers(players.map(p => p.id), teams);
+          }
+          triviaGame.goLive();
+          session.setGameStatus('in_progress');
+          startClock(triviaGame.currentTimeLimitMs);
+          emit(EVERYONE, questionLiveEvent());
+          break;
+        }
+        case 'pause_question': {
+          const ms = remainingMs();
+          triviaGame.pauseQuestion();
+          clearTimer();
+          pausedRemainingMs = ms;
+          emit(EVERYONE, { type: 'timer_paused', remainingMs: ms });
+          break;
+        }
+        case 'resume_question': {
+          triviaGame.resumeQuestion();
+          startClock(pausedRemainingMs);
+          emit(EVERYONE, { type: 'timer_resumed', deadline: liveDeadline, remainingMs: pausedRemainingMs });
+          break;
+        }
+        case 'extend_timer': {
+          const extraMs = command.seconds * 1000;
+          triviaGame.extendTimer(extraMs);
+          if (triviaGame.state === 'question_paused') {
+            pausedRemainingMs += extraMs;
+            emit(EVERYONE, { type: 'timer_extended', deadline: null, remainingMs: pausedRemainingMs });
+          } else {
+            startClock(remainingMs() + extraMs);
+            emit(EVERYONE, { type: 'timer_extended', deadline: liveDeadline, remainingMs: liveDeadline - Date.now() });
+          }
+          break;
+        }
+        case 'close_now':
+          onTimerExpired();
+          break;
+        case 'reveal_answer':
+          assertManualReveal(command.type);
+          onReveal();
+          break;
+        case 'show_survivors':
+          assertManualReveal(command.type);
+          onShowSurvivors();
+          break;
+        case 'accept_answer': {
+          triviaGame.acceptAnswer(command.answer);
+          emit(ADMIN, { type: 'text_answers', answers: triviaGame.getCurrentRound()!.getTextAnswers() });
+          break;
+        }
+        case 'advance_question': {
+          const nextIndex = triviaGame.questions.indexOf(triviaGame.getCurrentQuestion()!) + 1;
+          triviaGame.previewQuestion(nextIndex);
+          emit(EVERYONE, questionPreviewEvent());
+          break;
+        }
+      }
+    },
+
+    handlePlayerCommand(connectionId: string, command: TriviaCommand): void {
+      if (command.type !== 'submit_answer') return;
+      const state = triviaGame.state;
+      if (state !== 'question_live' && state !== 'question_paused' && !CLOSED_STATES.has(state)) return;
+      const reply = toConnection(connectionId);
+      const info = context.playerAt(connectionId);
+      if (!info) { emit(reply, { type: 'error', message: 'Not joined as a player' }); return; }
+      if (state === 'question_paused') { emit(reply, { type: 'answer_rejected', reason: 'paused' }); return; }
+      // The deadline is authoritative even if the expiry timer has not fired yet
+      if (state !== 'question_live' || remainingMs() === 0) { emit(reply, { type: 'answer_rejected', reason: 'too_late' }); return; }
+      if (!triviaGame.hasPlayer(info.playerId)) { emit(reply, { type: 'answer_rejected', reason: 'joined_late' }); return; }
+      if (!isAnswerFor(triviaGame.getCurrentQuestion()!, command.answer)) {
+        emit(reply, { type: 'error', message: 'That answer does not fit this question' });
+        return;
+      }
+      const round = triviaGame.getCurrentRound()!;
+      round.submitAnswer(info.playerId, command.answer, triviaGame.currentTimeLimitMs - remainingMs());
+      emit(reply, { type: 'answer_accepted' });
+      const counts = round.getAnswerCounts();
+      const answered = round.getAnsweredCount();
+      const remaining = triviaGame.getSurvivors().length - answered;
+      emit(ADMIN, { type: 'live_answer_stats', counts, answered, remaining });
+      if (isOpinionType(round.type)) emit(WATCHERS, opinionEvent(false));
+    },
+
+    onPlayerJoined(_connectionId: string, playerId: string): void {
+      // Players are registered together when the first question goes live; after
+      // that only a points game takes newcomers, who start on zero
+      if (triviaGame.getCurrentRound() === null || triviaGame.scoringMode !== 'points') return;
+      triviaGame.addPlayer(playerId, session.getPlayer(playerId)?.team);
+    },
+
+    replay(connectionId: string, playerId: string): void {
+      const reply = toConnection(connectionId);
+
+      switch (triviaGame.state) {
+        case 'question_preview':
+          emit(reply, questionPreviewEvent());
+          break;
+        case 'question_live':
+        case 'question_paused': {
+          emit(reply, questionLiveEvent());
+          if (triviaGame.state === 'question_paused') emit(reply, { type: 'timer_paused', remainingMs: pausedRemainingMs });
+          if (playerId in triviaGame.getCurrentRound()!.getPlayerAnswers()) {
+            emit(reply, { type: 'answer_accepted' });
+          }
+          break;
+        }
+        case 'breakdown':
+          emit(reply, { type: 'timer_expired' });
+          break;
+        case 'answer_revealed':
+        case 'survivors': {
+          if (isOpinionRound()) {
+            emit(reply, opinionEvent(true));
+            break;
+          }
+          const result = revealedResult();
+          const survivors = triviaGame.getSurvivors();
+          if (triviaGame.hasTeams) {
+            const teamEvent = teamEventFor(playerId);
+            if (teamEvent) emit(reply, teamEvent);
+            break;
+          }
+          if (triviaGame.scoringMode === 'points') {
+            const scored = scoreEventFor(playerId);
+            if (scored) emit(reply, scored);
+            break;
+          }
+          if (survivors.includes(playerId)) {
+            emit(reply, { type: 'you_survived', survivorCount: survivors.length });
+          } else {
+            emit(reply, { type: 'you_are_eliminated', correctAnswer: result.correctAnswer, yourAnswer: result.playerAnswers[playerId] ?? null });
+          }
+          if (triviaGame.state === 'survivors') {
+            emit(reply, { type: 'survivors_regrouped', survivorCount: survivors.length });
+          }
+          break;
+        }
+        case 'game_over': {
+          const winners = triviaGame.hasTeams
+            ? triviaGame.getWinningTeams()
+            : triviaGame.getWinners().map(w => screenNameOf(w.playerId));
+          emit(reply, { type: 'game_over', winners });
+          break;
+        }
+      }
+    },
+
+    publicState(): ServerEvent[] {
+      switch (triviaGame.state) {
+        case 'question_preview':
+          return [questionPreviewEvent()];
+        case 'question_live':
+        case 'question_paused': {
+          // Built from the deadline rather than the time left, so it only changes when the question does
+          const timeLimit = Math.ceil(triviaGame.timeLimitMsFor(triviaGame.currentQuestionIndex) / 1000);
+          const live = liveEventFor(timeLimit, liveDeadline);
+          return triviaGame.state === 'question_paused'
+            ? [live, { type: 'timer_paused', remainingMs: pausedRemainingMs }]
+            : [live];
+        }
+        case 'breakdown':
+          return [{ type: 'timer_expired' }];
+        case 'answer_revealed':
+        case 'survivors':
+          if (isOpinionRound()) return [opinionEvent(true)];
+          // Scores and team results are per player, so there is no shared screen to show
+          if (triviaGame.hasTeams || triviaGame.scoringMode === 'points') return [];
+          return [{ type: 'survivors_regrouped', survivorCount: triviaGame.getSurvivors().length }];
+        case 'game_over': {
+          const winners = triviaGame.hasTeams
+            ? triviaGame.getWinningTeams()
+            : triviaGame.getWinners().map(w => screenNameOf(w.playerId));
+          return [{ type: 'game_over', winners }];
+        }
+        case 'waiting':
+          return [];
+      }
+    },
+
+    onPlayerRemoved(): void {
+      // The game keeps a departed player's answers and score
+    },
+
+    snapshot(): TriviaRuntimeSnapshot {
+      return { game: triviaGame.snapshot(), liveDeadline, pausedRemainingMs, phoneImages: display.phoneImages };
+    },
+
+    dispose: clearTimer,
+  };
+}
+
+export const triviaMode: GameModeDefinition<CreateTriviaSessionCommand, TriviaCommand> = {
+  id: 'trivia',
+  parseSetup: parseTriviaSetup,
+  commands: {
+    start_trivia_question: {
+      role: 'admin',
+      parse: (obj) => typeof obj.questionIndex === 'number'
+        ? { type: 'start_trivia_question', questionIndex: obj.questionIndex }
+        : null,
+    },
+    go_live: { role: 'admin', parse: () => ({ type: 'go_live' }) },
+    advance_question: { role: 'admin', parse: () => ({ type: 'advance_question' }) },
+    pause_question: { role: 'admin', parse: () => ({ type: 'pause_question' }) },
+    resume_question: { role: 'admin', parse: () => ({ type: 'resume_question' }) },
+    extend_timer: {
+      role: 'admin',
+      parse: (obj) => typeof obj.seconds === 'number' && Number.isInteger(obj.seconds) &&
+        obj.seconds > 0 && obj.seconds <= MAX_TIME_LIMIT_SECONDS
+        ? { type: 'extend_timer', seconds: obj.seconds }
+        : null,
+    },
+    close_now: { role: 'admin', parse: () => ({ type: 'close_now' }) },
+    reveal_answer: { role: 'admin', parse: () => ({ type: 'reveal_answer' }) },
+    show_survivors: { role: 'admin', parse: () => ({ type: 'show_survivors' }) },
+    accept_answer: {
+      role: 'admin',
+      parse: (obj) => isValidTextAnswer(obj.answer) ? { type: 'accept_answer', answer: obj.answer } : null,
+    },
+    submit_answer: {
+      role: 'player',
+      parse: (obj) => {
+        const answer = parseAnswer(obj.answer);
+        return answer === null ? null : { type: 'submit_answer', answer };
+      },
+    },
+  },
+  createRuntime(setup, context) {
+    const { session } = context;
+    if (setup.teams) session.setTeams(setup.teams);
+    const game = new TriviaGame(session.id, setup.questions, {
+      speedMode: setup.speed,
+      timeLimitMs: setup.timeLimit !== undefined ? setup.timeLimit * 1000 : undefined,
+      revealDelayMs: setup.revealDelay !== undefined ? setup.revealDelay * 1000 : undefined,
+      revealMode: setup.revealMode,
+      scoring: setup.scoring,
+      teamScoring: setup.teamScoring,
+    });
+    return createTriviaRuntime(game, context, { phoneImages: setup.phoneImages });
+  },
+  restoreRuntime(snapshot, context) {
+    const { game, phoneImages, ...clock } = snapshot as TriviaRuntimeSnapshot;
+    return createTriviaRuntime(TriviaGame.restore(game), context, { phoneImages }, clock);
+  },
+};
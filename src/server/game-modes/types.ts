@@ -0,0 +1,90 @@
+import type { Session } from '../../core/session';
+import type { GameMode } from '../../core/types';
+import type { ServerEvent } from '../protocol';
+
+/**
+ * Who an event is addressed to. Transports decide how each audience maps
+ * onto their sockets or relay envelopes.
+ */
+export type Audience =
+  | { to: 'everyone' }                         // joined players, spectators and admin
+  | { to: 'non_admin' }                        // every client connection except the admin
+  | { to: 'admin' }
+  | { to: 'watchers' }                         // the admin and broadcast screens: the full detail
+  | { to: 'players' }                          // every client connection except the admin and broadcast screens
+  | { to: 'connection'; connectionId: string };
+
+export type EventSink = (audience: Audience, event: ServerEvent) => void;
+
+export const EVERYONE: Audience = { to: 'everyone' };
+export const NON_ADMIN: Audience = { to: 'non_admin' };
+export const ADMIN: Audience = { to: 'admin' };
+export const WATCHERS: Audience = { to: 'watchers' };
+export const PLAYERS: Audience = { to: 'players' };
+
+export function toConnection(connectionId: string): Audience {
+  return { to: 'connection', connectionId };
+}
+
+export interface PlayerInfo {
+  playerId: string;
+  screenName: string;
+}
+
+/** What the controller lends a running game mode. */
+export interface GameModeContext {
+  readonly session: Session;
+  emit: EventSink;
+  /** The player bound to a connection, if that connection has joined. */
+  playerAt(connectionId: string): PlayerInfo | undefined;
+  /** Every currently connected player, keyed by connectionId. */
+  connectedPlayers(): Iterable<[string, PlayerInfo]>;
+  screenNameOf(playerId: string): string;
+}
+
+/**
+ * One session's game. Handlers may throw; the controller reports the message
+ * to whoever sent the command.
+ */
+export interface GameModeRuntime<C> {
+  handleAdminCommand(command: C): void;
+  handlePlayerCommand(connectionId: string, command: C): void;
+  /** Called once a player has joined and received `joined`. */
+  onPlayerJoined(connectionId: string, playerId: string): void;
+  /** Sends a resumed player whatever they need to land on the current screen. */
+  replay(connectionId: string, playerId: string): void;
+  /**
+   * The screen the game is on, as events that hold nothing specific to any
+   * player, for a connection that has not joined or resumed yet.
+   */
+  publicState(): ServerEvent[];
+  /** Called when a player's reconnection grace period runs out. */
+  onPlayerRemoved(playerId: string): void;
+  /** The game's state as plain JSON, for `restoreRuntime()` on a standby host. */
+  snapshot(): unknown;
+  /** Stops any timers; the runtime is discarded afterwards. */
+  dispose(): void;
+}
+
+export interface CommandSpec<C> {
+  /** Which side of the game may send the command. */
+  role: 'admin' | 'player';
+  /** Validates a decoded JSON object; null rejects it. */
+  parse(obj: Record<string, unknown>): C | null;
+}
+
+/**
+ * A game mode: its create_session payload, its commands and how to run a
+ * session of it. Register new modes in ./index.ts.
+ */
+export interface GameModeDefinition<S, C> {
+  readonly id: GameMode;
+  /** Validates a create_session payload for this mode; null rejects it. */
+  parseSetup(obj: Record<string, unknown>): S | null;
+  /** The mode's commands, keyed by their `type`. */
+  readonly commands: Record<string, CommandSpec<C>>;
+  /** Builds the game for a new session; may configure the session and may throw to reject the setup. */
+  createRuntime(setup: S, context: GameModeContext): GameModeRuntime<C>;
+  /** Resumes a game from a runtime's `snapshot()`, restarting any timers it had running. */
+  restoreRuntime(snapshot: unknown, context: GameModeContext): GameModeRuntime<C>;
+}
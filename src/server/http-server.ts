@@ -9,8 +9,24 @@ const CONTENT_TYPES: Record<string, string> = {
   '.css':  'text/css; charset=utf-8',
   '.js':   'application/javascript; charset=utf-8',
   '.csv':  'text/csv; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
 };
 
+// Question images, served from the media directory under /media/
+const MEDIA_TYPES: Record<string, string> = {
+  '.png':  'image/png',
+  '.jpg':  'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif':  'image/gif',
+  '.webp': 'image/webp',
+  '.svg':  'image/svg+xml',
+};
+
+/** Larger files are refused rather than sent to every phone in the room. */
+export const MAX_MEDIA_BYTES = 5 * 1024 * 1024;
+/** Images rarely change mid-show, so phones joining late can use a cached copy. */
+const MEDIA_CACHE_CONTROL = 'public, max-age=3600';
+
 interface NamedRoute {
   file: string;
   roles: ServerRole[];
@@ -20,16 +36,89 @@ interface NamedRoute {
 const NAMED_ROUTES: Record<string, NamedRoute> = {
   '/admin':             { file: 'admin/index.html',    roles: ['unified', 'admin'] },
   '/admin/trivia':      { file: 'admin/trivia.html',   roles: ['unified', 'admin'] },
+  '/admin/bingo':       { file: 'admin/bingo.html',    roles: ['unified', 'admin'] },
   '/play':              { file: 'play/index.html',     roles: ['unified', 'relay'] },
   '/broadcast/trivia':  { file: 'broadcast/trivia.html', roles: ['unified', 'relay'] },
+  '/broadcast/bingo':   { file: 'broadcast/bingo.html', roles: ['unified', 'relay'] },
   '/style.css':         { file: 'style.css',           roles: ['unified', 'admin', 'relay'] },
+  '/schemas/quiz-v1.schema.json': { file: 'schemas/quiz-v1.schema.json', roles: ['unified', 'admin', 'relay'] },
 };
 
+// Browser builds of npm packages, which pages import by name through an import map
+const VENDOR_DIRS: Record<string, { dir: string; roles: ServerRole[] }> = {
+  '/vendor/yaml/': {
+    dir: path.join(path.dirname(require.resolve('yaml/package.json')), 'browser'),
+    roles: ['unified', 'admin'],
+  },
+};
+
+function notFound(res: http.ServerResponse): void {
+  res.writeHead(404, { 'Content-Type': 'text/plain' });
+  res.end('Not Found');
+}
+
+/** The file `relativePath` names under `rootDir`, or null when the path escapes it. */
+function resolveWithin(rootDir: string, relativePath: string): string | null {
+  const resolvedRoot = path.resolve(rootDir);
+  const filePath = path.resolve(path.join(rootDir, relativePath));
+  if (!filePath.startsWith(resolvedRoot + path.sep) && filePath !== resolvedRoot) return null;
+  return filePath;
+}
+
+/** Serves a file from under `rootDir`, or 404 when the path escapes it or the file is missing. */
+function serveWithin(res: http.ServerResponse, rootDir: string, relativePath: string, contentType: string): void {
+  const filePath = resolveWithin(rootDir, relativePath);
+  if (filePath === null) { notFound(res); return; }
+  fs.readFile(filePath, (err, data) => {
+    if (err) { notFound(res); return; }
+    res.writeHead(200, { 'Content-Type': contentType });
+    res.end(data);
+  });
+}
+
+/**
+ * Serves an image from under `mediaDir`: 404 for other file types, paths that
+ * escape it and missing files, and 413 for files over MAX_MEDIA_BYTES.
+ */
+function serveMedia(res: http.ServerResponse, mediaDir: string, relativePath: string): void {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(relativePath);
+  } catch {
+    notFound(res);
+    return;
+  }
+  const contentType = MEDIA_TYPES[path.extname(decoded).toLowerCase()];
+  const filePath = contentType ? resolveWithin(mediaDir, decoded) : null;
+  if (filePath === null) { notFound(res); return; }
+  fs.stat(filePath, (statErr, stats) => {
+    if (statErr || !stats.isFile()) { notFound(res); return; }
+    if (stats.size > MAX_MEDIA_BYTES) {
+      res.writeHead(413, { 'Content-Type': 'text/plain' });
+      res.end('Media file too large');
+      return;
+    }
+    fs.readFile(filePath, (err, data) => {
+      if (err) { notFound(res); return; }
+      const headers: http.OutgoingHttpHeaders = {
+        'Content-Type': contentType,
+        'Cache-Control': MEDIA_CACHE_CONTROL,
+        'X-Content-Type-Options': 'nosniff',
+      };
+      // An SVG opened on its own must not run script from this origin
+      if (contentType === 'image/svg+xml') headers['Content-Security-Policy'] = "default-src 'none'; style-src 'unsafe-inline'; sandbox";
+      res.writeHead(200, headers);
+      res.end(data);
+    });
+  });
+}
+
 export function handleStaticRequest(
   req: http.IncomingMessage,
   res: http.ServerResponse,
   publicDir: string,
   role: ServerRole = 'unified',
+  mediaDir: string = path.join(publicDir, 'media'),
 ): void {
   const rawUrl = req.url ?? '/';
   const pathname = rawUrl.split('?')[0] || '/';
@@ -37,11 +126,7 @@ export function handleStaticRequest(
   // Named HTML/CSS routes with role-based access control
   const route = NAMED_ROUTES[pathname];
   if (route) {
-    if (!route.roles.includes(role)) {
-      res.writeHead(404, { 'Content-Type': 'text/plain' });
-      res.end('Not Found');
-      return;
-    }
+    if (!route.roles.includes(role)) { notFound(res); return; }
     const filePath = path.join(publicDir, route.file);
     const ext = path.extname(route.file);
     const contentType = CONTENT_TYPES[ext] ?? 'text/plain';
@@ -57,49 +142,31 @@ export function handleStaticRequest(
     return;
   }
 
+  // Question images — every role, since phones and broadcast screens show them
+  if (pathname.startsWith('/media/')) {
+    serveMedia(res, mediaDir, pathname.slice('/media/'.length));
+    return;
+  }
+
   // CSV wildcard — fixture files; path must resolve within publicDir
   if (pathname.endsWith('.csv')) {
-    const resolvedPublic = path.resolve(publicDir);
-    const filePath = path.resolve(path.join(publicDir, pathname));
-    if (!filePath.startsWith(resolvedPublic + path.sep) && filePath !== resolvedPublic) {
-      res.writeHead(404, { 'Content-Type': 'text/plain' });
-      res.end('Not Found');
-      return;
-    }
-    fs.readFile(filePath, (err, data) => {
-      if (err) {
-        res.writeHead(404, { 'Content-Type': 'text/plain' });
-        res.end('Not Found');
-        return;
-      }
-      res.writeHead(200, { 'Content-Type': 'text/csv; charset=utf-8' });
-      res.end(data);
-    });
+    serveWithin(res, publicDir, pathname, 'text/csv; charset=utf-8');
+    return;
+  }
+
+  // Vendored packages — only for the pages that import them
+  const vendor = Object.keys(VENDOR_DIRS).find(prefix => pathname.startsWith(prefix));
+  if (vendor && pathname.endsWith('.js') && VENDOR_DIRS[vendor].roles.includes(role)) {
+    serveWithin(res, VENDOR_DIRS[vendor].dir, pathname.slice(vendor.length), 'application/javascript; charset=utf-8');
     return;
   }
 
   // JS wildcard — all roles allowed; path must resolve within publicDir
   if (pathname.endsWith('.js')) {
-    const resolvedPublic = path.resolve(publicDir);
-    const filePath = path.resolve(path.join(publicDir, pathname));
-    if (!filePath.startsWith(resolvedPublic + path.sep) && filePath !== resolvedPublic) {
-      res.writeHead(404, { 'Content-Type': 'text/plain' });
-      res.end('Not Found');
-      return;
-    }
-    fs.readFile(filePath, (err, data) => {
-      if (err) {
-        res.writeHead(404, { 'Content-Type': 'text/plain' });
-        res.end('Not Found');
-        return;
-      }
-      res.writeHead(200, { 'Content-Type': 'application/javascript; charset=utf-8' });
-      res.end(data);
-    });
+    serveWithin(res, publicDir, pathname, 'application/javascript; charset=utf-8');
     return;
   }
 
   // Everything else → 404
-  res.writeHead(404, { 'Content-Type': 'text/plain' });
-  res.end('Not Found');
+  notFound(res);
 }
@@ -4,19 +4,26 @@ import { WebSocketServer } from 'ws';
 import { handleStaticRequest } from './http-server';
 import { createWsHandler } from './ws-handler';
 import { attachHeartbeat } from './heartbeat';
+import { PER_MESSAGE_DEFLATE } from './compression';
+import { MAX_HOST_MESSAGE_BYTES } from './rate-limit';
 
 const PORT = parseInt(process.env.PORT ?? '3000', 10);
 const PUBLIC_DIR = path.resolve(__dirname, '../../public');
+// Question images are served from MEDIA_DIR at /media/; by default, public/media
+const MEDIA_DIR = process.env.MEDIA_DIR ? path.resolve(process.env.MEDIA_DIR) : path.join(PUBLIC_DIR, 'media');
 
 const server = http.createServer((req, res) => {
-  handleStaticRequest(req, res, PUBLIC_DIR);
+  handleStaticRequest(req, res, PUBLIC_DIR, 'unified', MEDIA_DIR);
 });
 
-const wss = new WebSocketServer({ server });
+// The host shares this server with the players, so the cap is the host's; ws-handler holds joined players to theirs
+const wss = new WebSocketServer({ server, perMessageDeflate: PER_MESSAGE_DEFLATE, maxPayload: MAX_HOST_MESSAGE_BYTES });
 const wsHandler = createWsHandler();
 attachHeartbeat(wss);
 
 wss.on('connection', (ws) => {
+  // ws closes the socket itself on an oversized frame (1009); unheard, the error would end the process
+  ws.on('error', () => {});
   wsHandler.handleConnection(ws);
 });
 
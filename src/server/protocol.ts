@@ -1,59 +1,64 @@
-import type { PlayerScore, AnswerOption, TriviaQuestion } from '../core/types';
+import type { GameMode } from '../core/types';
+import { findCommandSpec, getGameMode, DEFAULT_GAME_MODE, type GameCommand, type GameModeEvent, type GameSetup } from './game-modes';
 
 // Client → Server commands
+//
+// Game-specific commands and events are declared by their mode in ./game-modes;
+// only the commands every mode shares live here.
 
-export interface CreateSessionCommand {
-  type: 'create_session';
-  questions: TriviaQuestion[];
-  speed?: boolean;
-}
+/** A create_session command; its payload is validated by the chosen mode. */
+export type CreateSessionCommand = GameSetup;
 
 export interface JoinCommand {
   type: 'join';
   screenName: string;
+  team?: string;
 }
 
-export interface StartTriviaQuestionCommand {
-  type: 'start_trivia_question';
-  questionIndex: number;
-}
-
-export interface GoLiveCommand {
-  type: 'go_live';
-}
-
-export interface AdvanceQuestionCommand {
-  type: 'advance_question';
-}
-
-export interface SubmitAnswerCommand {
-  type: 'submit_answer';
-  answer: AnswerOption;
+export interface ResumeCommand {
+  type: 'resume';
+  token: string;
 }
 
 export interface RegisterSpectatorCommand {
   type: 'register_spectator';
+  /** The `?screen=` key from the host's broadcast link; a relayed host refuses screens without it. */
+  screenKey?: string;
 }
 
 export interface RestartGameCommand {
   type: 'restart_game';
 }
 
+/** One sample of the clock-offset handshake; any client may send it at any time. */
+export interface ClockSyncCommand {
+  type: 'clock_sync';
+  clientTime: number;
+}
+
 export type Command =
   | CreateSessionCommand
   | JoinCommand
-  | StartTriviaQuestionCommand
-  | GoLiveCommand
-  | AdvanceQuestionCommand
-  | SubmitAnswerCommand
+  | ResumeCommand
   | RegisterSpectatorCommand
-  | RestartGameCommand;
+  | RestartGameCommand
+  | ClockSyncCommand
+  | GameCommand;
 
 // Server → Client events
 
 export interface SessionCreatedEvent {
   type: 'session_created';
   sessionId: string;
+  teams?: string[];
+}
+
+/** Sent to the admin of a standby host once it has taken over a running session. */
+export interface SessionRestoredEvent {
+  type: 'session_restored';
+  sessionId: string;
+  gameMode: GameMode;
+  teams?: string[];
 }
 
 export interface JoinedEvent {
@@ -62,6 +67,13 @@ export interface JoinedEvent {
   screenName: string;
   gameStatus: string;
   round: number;
+  resumeToken: string;
+  team?: string;
+}
+
+export interface ResumeFailedEvent {
+  type: 'resume_failed';
+  message: string;
 }
 
 export interface PlayerJoinedEvent {
@@ -84,47 +96,15 @@ export interface GameStatusEvent {
   round: number;
 }
 
+/** Why a connection's messages were refused, for clients that react to more than the text. */
+export type ErrorCode = 'rate_limited' | 'message_too_large' | 'too_many_connections';
+
 export interface ErrorEvent {
   type: 'error';
   message: string;
-}
-
-export interface QuestionPreviewEvent {
-  type: 'question_preview';
-  questionIndex: number;
-  text: string;
-}
-
-export interface QuestionLiveEvent {
-  type: 'question_live';
-  text: string;
-  options: [string, string, string, string];
-  timeLimit: number;
-}
-
-export interface TimerExpiredEvent {
-  type: 'timer_expired';
-}
-
-export interface AnswerBreakdownEvent {
-  type: 'answer_breakdown';
-  counts: { A: number; B: number; C: number; D: number };
-  totalAnswered: number;
-  totalPlayers: number;
-  playerAnswers: Record<string, string>;
-}
-
-export interface AnswerRevealedEvent {
-  type: 'answer_revealed';
-  correct: AnswerOption;
-  eliminated: string[];
-  survivors: string[];
-}
-
-export interface SurvivorsRegroupedEvent {
-  type: 'survivors_regrouped';
-  survivorCount: number;
-  survivorNames: string[];
+  code?: ErrorCode;
+  /** With `rate_limited`: when the next message will be accepted. */
+  retryAfterMs?: number;
 }
 
 export interface GameOverEvent {
@@ -132,78 +112,30 @@ export interface GameOverEvent {
   winners: string[];
 }
 
-export interface YouAreEliminatedEvent {
-  type: 'you_are_eliminated';
-  correctAnswer: AnswerOption;
-  yourAnswer: AnswerOption | null;
-}
-
-export interface YouSurvivedEvent {
-  type: 'you_survived';
-  survivorCount: number;
-}
-
-export interface AnswerAcceptedEvent {
-  type: 'answer_accepted';
-}
-
-export interface LiveAnswerStatsEvent {
-  type: 'live_answer_stats';
-  counts: { A: number; B: number; C: number; D: number };
-  answered: number;
-  remaining: number;
-}
-
-export interface QuestionResultEvent {
-  type: 'question_result';
-  correct: AnswerOption;
-  eliminated: string[];
-  survivors: string[];
-}
-
-export interface LeaderboardEvent {
-  type: 'leaderboard';
-  entries: PlayerScore[];
-}
-
 export interface GameResetEvent {
   type: 'game_reset';
 }
 
+/** Echoes the client's send time with the server's, so the client can estimate its clock offset. */
+export interface ClockSyncEvent {
+  type: 'clock_sync';
+  clientTime: number;
+  serverTime: number;
+}
+
 export type ServerEvent =
   | SessionCreatedEvent
+  | SessionRestoredEvent
   | JoinedEvent
+  | ResumeFailedEvent
   | PlayerJoinedEvent
   | PlayerLeftEvent
   | GameStatusEvent
   | ErrorEvent
-  | QuestionPreviewEvent
-  | QuestionLiveEvent
-  | TimerExpiredEvent
-  | AnswerBreakdownEvent
-  | AnswerRevealedEvent
-  | SurvivorsRegroupedEvent
   | GameOverEvent
-  | YouAreEliminatedEvent
-  | YouSurvivedEvent
-  | AnswerAcceptedEvent
-  | LiveAnswerStatsEvent
-  | QuestionResultEvent
-  | LeaderboardEvent
-  | GameResetEvent;
-
-const VALID_ANSWER_OPTIONS = new Set<string>(['A', 'B', 'C', 'D']);
-
-const COMMAND_TYPES = new Set([
-  'create_session',
-  'join',
-  'start_trivia_question',
-  'go_live',
-  'advance_question',
-  'submit_answer',
-  'register_spectator',
-  'restart_game',
-]);
+  | GameResetEvent
+  | ClockSyncEvent
+  | GameModeEvent;
 
 export function parseCommand(raw: string): Command | null {
   let parsed: unknown;
@@ -216,59 +148,51 @@ export function parseCommand(raw: string): Command | null {
   if (typeof parsed !== 'object' || parsed === null) return null;
 
   const obj = parsed as Record<string, unknown>;
-  if (typeof obj.type !== 'string' || !COMMAND_TYPES.has(obj.type)) return null;
+  if (typeof obj.type !== 'string') return null;
 
   switch (obj.type) {
     case 'create_session': {
-      if (!Array.isArray(obj.questions)) return null;
-      const questions = obj.questions as Record<string, unknown>[];
-      const validQuestions = questions.every(
-        (q) =>
-          typeof q === 'object' && q !== null &&
-          typeof q.question === 'string' && q.question.trim() !== '' &&
-          typeof q.a === 'string' && typeof q.b === 'string' &&
-          typeof q.c === 'string' && typeof q.d === 'string' &&
-          VALID_ANSWER_OPTIONS.has(q.correct as string)
-      );
-      if (!validQuestions) return null;
-      return {
-        type: 'create_session',
-        questions: obj.questions as TriviaQuestion[],
-        speed: obj.speed === true,
-      };
+      const mode = getGameMode(obj.gameMode === undefined ? DEFAULT_GAME_MODE : obj.gameMode);
+      return mode ? mode.parseSetup(obj) : null;
     }
 
     case 'join':
       if (typeof obj.screenName !== 'string') return null;
-      return { type: 'join', screenName: obj.screenName };
-
-    case 'start_trivia_question':
-      if (typeof obj.questionIndex !== 'number') return null;
-      return { type: 'start_trivia_question', questionIndex: obj.questionIndex };
-
-    case 'go_live':
-      return { type: 'go_live' };
-
-    case 'advance_question':
-      return { type: 'advance_question' };
+      if (obj.team !== undefined && typeof obj.team !== 'string') return null;
+      return obj.team
+        ? { type: 'join', screenName: obj.screenName, team: obj.team }
+        : { type: 'join', screenName: obj.screenName };
 
-    case 'submit_answer': {
-      const answer = typeof obj.answer === 'string' ? obj.answer.toUpperCase() : null;
-      if (!answer || !VALID_ANSWER_OPTIONS.has(answer)) return null;
-      return { type: 'submit_answer', answer: answer as AnswerOption };
-    }
+    case 'resume':
+      if (typeof obj.token !== 'string' || obj.token === '') return null;
+      return { type: 'resume', token: obj.token };
 
     case 'register_spectator':
-      return { type: 'register_spectator' };
+      if (obj.screenKey !== undefined && typeof obj.screenKey !== 'string') return null;
+      return typeof obj.screenKey === 'string' ? { type: 'register_spectator', screenKey: obj.screenKey } : { type: 'register_spectator' };
 
     case 'restart_game':
       return { type: 'restart_game' };
 
+    case 'clock_sync':
+      if (typeof obj.clientTime !== 'number' || !Number.isFinite(obj.clientTime)) return null;
+      return { type: 'clock_sync', clientTime: obj.clientTime };
+
     default:
-      return null;
+      return findCommandSpec(obj.type)?.spec.parse(obj) ?? null;
   }
 }
 
+/** True for commands a player (rather than the admin) sends. */
+export function isPlayerCommand(command: Command): boolean {
+  if (command.type === 'join' || command.type === 'resume') return true;
+  return findCommandSpec(command.type)?.spec.role === 'player';
+}
+
+export function clockSyncReply(command: ClockSyncCommand): ClockSyncEvent {
+  return { type: 'clock_sync', clientTime: command.clientTime, serverTime: Date.now() };
+}
+
 export function serializeEvent(event: ServerEvent): string {
   return JSON.stringify(event);
 }
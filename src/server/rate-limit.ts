@@ -0,0 +1,82 @@
+/** Messages a player socket may send in a burst before it is throttled. */
+export const PLAYER_MESSAGE_BURST = 20;
+/** Sustained messages per second a player socket may send. */
+export const PLAYER_MESSAGES_PER_SECOND = 5;
+import type WebSocket from 'ws';
+
+/** Larger player messages are dropped unparsed; a join or an answer is a few hundred bytes. */
+export const MAX_PLAYER_MESSAGE_BYTES = 4096;
+/**
+ * The `maxPayload` for sockets a host may use: a question set, or the state
+ * snapshot a large room sends the relay, is far bigger than a player's answer.
+ * `ws` closes the socket (1009) on a bigger frame instead of buffering it.
+ */
+export const MAX_HOST_MESSAGE_BYTES = 8 * 1024 * 1024;
+/**
+ * Open player sockets the relay accepts from one address. A venue's Wi-Fi puts
+ * a whole room behind one address, so this only stops a single runaway client.
+ */
+export const MAX_CONNECTIONS_PER_SOURCE = 500;
+
+/** A received message's size in bytes, however `ws` chose to hand it over. */
+export function messageBytes(data: WebSocket.RawData): number {
+  return Array.isArray(data) ? data.reduce((sum, chunk) => sum + chunk.length, 0) : data.byteLength;
+}
+
+export interface TokenBucket {
+  /** Spends a token; false when none are left and the message should be dropped. */
+  take(): boolean;
+  /** How long until the next token. */
+  retryAfterMs(): number;
+}
+
+export function createTokenBucket(
+  capacity = PLAYER_MESSAGE_BURST,
+  perSecond = PLAYER_MESSAGES_PER_SECOND,
+  now: () => number = Date.now,
+): TokenBucket {
+  let tokens = capacity;
+  let refilledAt = now();
+
+  function refill(): void {
+    const t = now();
+    tokens = Math.min(capacity, tokens + ((t - refilledAt) / 1000) * perSecond);
+    refilledAt = t;
+  }
+
+  return {
+    take(): boolean {
+      refill();
+      if (tokens < 1) return false;
+      tokens -= 1;
+      return true;
+    },
+
+    retryAfterMs(): number {
+      refill();
+      return tokens >= 1 ? 0 : Math.ceil(((1 - tokens) / perSecond) * 1000);
+    },
+  };
+}
+
+/**
+ * Drops a socket's messages once its bucket is empty. `onThrottled` fires once
+ * per run of dropped messages, so the warning cannot itself become a flood.
+ */
+export function createMessageThrottle(
+  onThrottled: (retryAfterMs: number) => void,
+  bucket: TokenBucket = createTokenBucket(),
+): () => boolean {
+  let throttled = false;
+  return function allow(): boolean {
+    if (bucket.take()) {
+      throttled = false;
+      return true;
+    }
+    if (!throttled) {
+      throttled = true;
+      onThrottled(bucket.retryAfterMs());
+    }
+    return false;
+  };
+}
@@ -0,0 +1,110 @@
+import { columnLetter, createCsvReader, readCsv, type CsvRecord } from '../csv-reader';
+
+function cellsOf(text: string): string[][] {
+  return readCsv(text).records.map(r => r.cells);
+}
+
+describe('readCsv', () => {
+  it('splits plain fields and rows', () => {
+    expect(cellsOf('a,b,c\n1,2,3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('keeps commas, doubled quotes and line breaks inside quoted fields', () => {
+    expect(cellsOf('"Who said ""move fast""?","Paris, France","line one\nline two"')).toEqual([
+      ['Who said "move fast"?', 'Paris, France', 'line one\nline two'],
+    ]);
+  });
+
+  it('reads an empty quoted field as empty', () => {
+    expect(cellsOf('"",x,""')).toEqual([['', 'x', '']]);
+  });
+
+  it('accepts CRLF, LF and lone CR row endings', () => {
+    expect(cellsOf('a\r\nb\nc\rd')).toEqual([['a'], ['b'], ['c'], ['d']]);
+  });
+
+  it('does not add a row for a trailing line break', () => {
+    expect(cellsOf('a,b\r\n')).toEqual([['a', 'b']]);
+  });
+
+  it('keeps blank lines as rows so row numbers match the spreadsheet', () => {
+    const { records } = readCsv('a\n\nb');
+    expect(records).toEqual([
+      { row: 1, cells: ['a'] },
+      { row: 2, cells: [''] },
+      { row: 3, cells: ['b'] },
+    ]);
+  });
+
+  it('numbers rows by record, not by line', () => {
+    const { records } = readCsv('"multi\nline",x\nnext');
+    expect(records.map(r => r.row)).toEqual([1, 2]);
+  });
+
+  it('strips a byte order mark', () => {
+    expect(cellsOf('\uFEFFquestion,a')).toEqual([['question', 'a']]);
+  });
+
+  it('allows spaces around a quoted field', () => {
+    expect(cellsOf('a,  "b, c"  ,d')).toEqual([['a', 'b, c', 'd']]);
+  });
+
+  it('keeps a quote inside an unquoted field as text', () => {
+    expect(cellsOf('5" screen,b')).toEqual([['5" screen', 'b']]);
+  });
+
+  it('reports text after a closing quote with its row and column', () => {
+    const { records, issues } = readCsv('a,b\nx,"Who said "move fast"?",y');
+    expect(issues).toEqual([
+      { row: 2, column: 2, message: 'Row 2, column B: text after a closing quote — double any quotes inside a quoted field' },
+    ]);
+    expect(records[1].cells).toEqual(['x', 'Who said move fast"?"', 'y']);
+  });
+
+  it('reports a quoted field that is never closed where it opened', () => {
+    const { records, issues } = readCsv('a,b\nc,d\ne,"never closed\nf,g');
+    expect(issues).toEqual([
+      { row: 3, column: 2, message: 'Row 3, column B: quoted field is never closed — check for a missing closing quote' },
+    ]);
+    expect(records.map(r => r.row)).toEqual([1, 2]);
+  });
+});
+
+describe('createCsvReader', () => {
+  const TEXT = '\uFEFFq,"say ""hi"", then go"\r\n"two\r\nlines",x\r\nlast,row\r\n';
+
+  it('reads the same records however the input is split into chunks', () => {
+    const whole = readCsv(TEXT).records;
+    for (let split = 0; split <= TEXT.length; split++) {
+      const records: CsvRecord[] = [];
+      const reader = createCsvReader({ onRecord: r => records.push(r), onIssue: () => {} });
+      reader.write(TEXT.slice(0, split));
+      reader.write(TEXT.slice(split));
+      reader.end();
+      expect(records).toEqual(whole);
+    }
+  });
+
+  it('reads one character at a time', () => {
+    const records: CsvRecord[] = [];
+    const reader = createCsvReader({ onRecord: r => records.push(r), onIssue: () => {} });
+    for (const ch of TEXT) reader.write(ch);
+    reader.end();
+    expect(records.map(r => r.cells)).toEqual([['q', 'say "hi", then go'], ['two\r\nlines', 'x'], ['last', 'row']]);
+  });
+
+  it('hands over each record as soon as its row ends', () => {
+    const onRecord = jest.fn();
+    const reader = createCsvReader({ onRecord, onIssue: () => {} });
+    reader.write('a,b\nc');
+    expect(onRecord).toHaveBeenCalledTimes(1);
+    reader.end();
+    expect(onRecord).toHaveBeenLastCalledWith({ row: 2, cells: ['c'] });
+  });
+});
+
+describe('columnLetter', () => {
+  it('names columns the way a spreadsheet does', () => {
+    expect([1, 6, 26, 27, 52, 703].map(columnLetter)).toEqual(['A', 'F', 'Z', 'AA', 'AZ', 'AAA']);
+  });
+});
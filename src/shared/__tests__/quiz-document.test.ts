@@ -0,0 +1,337 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseCsv } from '../csv-parser';
+import {
+  formatQuiz,
+  questionsOf,
+  quizFormatOf,
+  quizFromCsv,
+  quizFromQuestions,
+  quizToCsv,
+  readQuiz,
+  validateQuizDocument,
+  type QuizDocument,
+} from '../quiz-document';
+
+const SCHEMA = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '../../../public/schemas/quiz-v1.schema.json'), 'utf8'),
+);
+
+const SHOW_YAML = `
+version: 1
+title: Friday night quiz
+settings:
+  timeLimit: 20
+  scoring: points
+rounds:
+  - name: Warm-up
+    questions:
+      - question: What is 2 + 2?
+        a: 3
+        b: 4
+        c: 5
+        d: 6
+        correct: B
+      - question: Which planet is known as the red planet?
+        a: Venus
+        b: Mars
+        c: Jupiter
+        d: Mercury
+        correct: B
+        explanation: Iron oxide on its surface makes it look red.
+  - name: History
+    questions:
+      - question: In which year did the Apollo 11 landing happen?
+        a: 1965
+        b: 1969
+        c: 1972
+        d: 1959
+        correct: B
+        points: 2000
+        timeLimit: 30
+`;
+
+function question(n: number, extra: object = {}) {
+  return { question: `Question ${n}`, a: 'A', b: 'B', c: 'C', d: 'D', correct: 'A', ...extra };
+}
+
+function messagesOf(value: unknown): string[] {
+  return validateQuizDocument(value).errors.map(e => e.message);
+}
+
+describe('readQuiz', () => {
+  it('reads a YAML show with rounds and settings', () => {
+    const { quiz, errors } = readQuiz(SHOW_YAML, 'yaml');
+    expect(errors).toEqual([]);
+    expect(quiz!.title).toBe('Friday night quiz');
+    expect(quiz!.settings).toEqual({ timeLimit: 20, scoring: 'points' });
+    expect(questionsOf(quiz!).map(q => q.round)).toEqual(['Warm-up', 'Warm-up', 'History']);
+  });
+
+  it('reads numeric YAML answers as text', () => {
+    const { quiz } = readQuiz(SHOW_YAML, 'yaml');
+    expect(questionsOf(quiz!)[2]).toMatchObject({ a: '1965', b: '1969', points: 2000, timeLimit: 30 });
+  });
+
+  it('reads the same show written as JSON', () => {
+    const yaml = readQuiz(SHOW_YAML, 'yaml').quiz!;
+    expect(readQuiz(formatQuiz(yaml, 'json'), 'json').quiz).toEqual(yaml);
+  });
+
+  it('survives a round trip through its own YAML', () => {
+    const quiz = readQuiz(SHOW_YAML, 'yaml').quiz!;
+    expect(readQuiz(formatQuiz(quiz, 'yaml'), 'yaml').quiz).toEqual(quiz);
+  });
+
+  it('places a YAML syntax error by line and column', () => {
+    const { quiz, errors } = readQuiz('version: 1\ntitle: Quiz night\ntitle: Again\n', 'yaml');
+    expect(quiz).toBeNull();
+    expect(errors).toEqual([{ line: 3, message: 'Line 3, column 1: Map keys must be unique' }]);
+  });
+
+  it('reports broken JSON', () => {
+    const { errors } = readQuiz('{ "version": 1,', 'json');
+    expect(errors[0].message).toMatch(/^Not valid JSON — /);
+  });
+
+  it('reads each question type in its natural YAML form', () => {
+    const yaml = `
+version: 1
+questions:
+  - question: The Moon has no gravity.
+    type: true_false
+    correct: false
+  - question: Which are primary colours?
+    type: multi_select
+    a: Red
+    b: Green
+    c: Blue
+    correct: [C, A]
+  - question: How many bones are in the adult human body?
+    type: numeric
+    correct: 206
+    tolerance: 10
+  - question: Which mission first landed on the Moon?
+    type: free_text
+    correct: [Apollo 11, Apollo]
+  - question: How confident are you about the strategy?
+    type: poll
+    a: Very
+    b: Not very
+  - question: One word for this quarter?
+    type: word_cloud
+`;
+    const { quiz, errors } = readQuiz(yaml, 'yaml');
+    expect(errors).toEqual([]);
+    expect(questionsOf(quiz!)).toEqual([
+      { question: 'The Moon has no gravity.', type: 'true_false', correct: 'B' },
+      { question: 'Which are primary colours?', type: 'multi_select', a: 'Red', b: 'Green', c: 'Blue', correct: ['A', 'C'] },
+      { question: 'How many bones are in the adult human body?', type: 'numeric', correct: 206, tolerance: 10 },
+      { question: 'Which mission first landed on the Moon?', type: 'free_text', correct: ['Apollo 11', 'Apollo'] },
+      { question: 'How confident are you about the strategy?', type: 'poll', a: 'Very', b: 'Not very' },
+      { question: 'One word for this quarter?', type: 'word_cloud' },
+    ]);
+  });
+
+  it('needs a correct answer except on polls and word clouds', () => {
+    const doc = JSON.stringify({ version: 1, questions: [
+      { question: 'Q1', a: 'A', b: 'B' },
+      { question: 'Q2', type: 'poll', a: 'A', b: 'B', correct: 'A' },
+      { question: 'Q3', type: 'word_cloud' },
+    ] });
+    expect(readQuiz(doc, 'json').errors.map(e => e.message)).toEqual([
+      'Question 1 (correct): must be filled in',
+      'Question 2 (correct): must be blank for poll questions — got "A"',
+    ]);
+  });
+
+  it('takes a configured question ceiling', () => {
+    const doc = JSON.stringify({ version: 1, questions: [1, 2, 3, 4].map(n => question(n)) });
+    expect(readQuiz(doc, 'json', { maxQuestions: 3 }).errors.map(e => e.message)).toEqual([
+      'Too many questions: maximum is 3, found 4',
+    ]);
+  });
+});
+
+describe('validateQuizDocument', () => {
+  it('accepts a flat question list', () => {
+    const { quiz } = validateQuizDocument({ version: 1, questions: [question(1), question(2), question(3)] });
+    expect(questionsOf(quiz!)).toHaveLength(3);
+    expect(questionsOf(quiz!)[0]).not.toHaveProperty('round');
+  });
+
+  it('names each broken field by round and question, in the same words as the CSV parser', () => {
+    const doc = {
+      version: 1,
+      rounds: [
+        { name: 'One', questions: [question(1), question(2)] },
+        { name: 'Two', questions: [question(3, { correct: 'E' }), question(4, { points: 0, image: 'ftp://x' })] },
+      ],
+    };
+    const { errors } = validateQuizDocument(doc);
+    expect(errors).toEqual([
+      { path: 'rounds[1].questions[0].correct', message: 'Round 2, question 1 (correct): must be A, B, C, or D — got "E"' },
+      { path: 'rounds[1].questions[1].points', message: 'Round 2, question 2 (points): must be a whole number from 1 to 10000 — got "0"' },
+      { path: 'rounds[1].questions[1].image', message: 'Round 2, question 2 (image): must be a file under /media/, e.g. /media/desk.jpg — got "ftp://x"' },
+    ]);
+
+    const csv = parseCsv('question,a,b,c,d,correct\nQ1,A,B,C,D,E\nQ2,A,B,C,D,A\nQ3,A,B,C,D,A');
+    expect(csv.errors[0].message.split(': ')[1]).toBe(errors[0].message.split(': ')[1]);
+  });
+
+  it('reports missing and unknown fields', () => {
+    expect(messagesOf({ version: 1, questions: [question(1), question(2), { question: 'Q3', a: 'A', b: 'B', d: 'D', corect: 'A' }] })).toEqual([
+      'Question 3 (corect): unknown field — use any of question, type, a, b, c, d, e, f, correct, tolerance, timeLimit, category, points, explanation, image',
+      'Question 3 (c): must be filled in',
+      'Question 3 (correct): must be filled in',
+    ]);
+  });
+
+  it('rejects duplicate questions across rounds and repeated round names', () => {
+    const doc = {
+      version: 1,
+      rounds: [
+        { name: 'Music', questions: [question(1), question(2)] },
+        { name: 'music', questions: [question(3), { ...question(1), question: 'QUESTION 1' }] },
+      ],
+    };
+    expect(messagesOf(doc)).toEqual([
+      'Round 2 (name): "music" is already round 1',
+      'Round 2, question 2 (question): duplicate question text — same as round 1, question 1',
+    ]);
+  });
+
+  it('checks the version, title and settings', () => {
+    const doc = {
+      version: 2,
+      title: '',
+      settings: { timeLimit: 1, revealDelay: 99, scoring: 'fastest', revealMode: 'auto', speed: 'yes', music: true },
+      questions: [question(1), question(2), question(3)],
+    };
+    expect(messagesOf(doc)).toEqual([
+      'Quiz (version): must be 1 — got "2"',
+      'Quiz (title): must be text — got ""',
+      'Settings (music): unknown field — use any of timeLimit, revealDelay, scoring, revealMode, speed',
+      'Settings (timeLimit): must be a whole number of seconds from 3 to 120 — got "1"',
+      'Settings (revealDelay): must be a number of seconds from 0 to 30 — got "99"',
+      'Settings (scoring): must be elimination or points — got "fastest"',
+      'Settings (speed): must be true or false — got "yes"',
+    ]);
+  });
+
+  it('needs rounds or questions, but not both', () => {
+    expect(messagesOf({ version: 1 })).toEqual([
+      'Quiz: must have "questions", or "rounds" of questions',
+      'Too few questions: minimum is 3, found 0',
+    ]);
+    expect(messagesOf({ version: 1, rounds: [{ questions: [question(1)] }], questions: [question(2)] })[0])
+      .toBe('Quiz (rounds): cannot be used with "questions" — put every question in a round, or leave rounds out');
+  });
+
+  it('rejects a round with no questions', () => {
+    expect(messagesOf({ version: 1, rounds: [{ name: 'Empty', questions: [] }, { questions: [1, 2, 3].map(n => question(n)) }] }))
+      .toEqual(['Round 1 (questions): must list at least one question']);
+  });
+
+  it('rejects anything but an object', () => {
+    expect(messagesOf([question(1)])).toEqual(['A quiz document must be an object with "version" and "questions" or "rounds"']);
+  });
+});
+
+describe('CSV import and export', () => {
+  const CSV = 'question,a,b,c,d,correct,round,explanation\r\n' +
+    '"Who said ""move fast""?",Zuckerberg,Jobs,Gates,Musk,A,Quotes,"Facebook\'s motto, until 2014"\r\n' +
+    'Capital of Australia?,"Sydney, NSW",Canberra,Melbourne,Perth,B,Geography,\r\n' +
+    'Longest river?,Nile,Amazon,Yangtze,Danube,A,Geography,\r\n';
+
+  it('groups CSV rows into rounds', () => {
+    const { quiz } = quizFromCsv(CSV, { title: 'Imported' });
+    expect(quiz!.title).toBe('Imported');
+    expect(quiz!.rounds!.map(r => [r.name, r.questions.length])).toEqual([['Quotes', 1], ['Geography', 2]]);
+    expect(quiz!.rounds![0].questions[0]).not.toHaveProperty('round');
+  });
+
+  it('passes CSV errors through unchanged', () => {
+    const { quiz, errors } = quizFromCsv('question,a,b,c,d,correct\nQ1,A,B,C,D,E\nQ2,A,B,C,D,A\nQ3,A,B,C,D,A');
+    expect(quiz).toBeNull();
+    expect(errors).toEqual(parseCsv('question,a,b,c,d,correct\nQ1,A,B,C,D,E\nQ2,A,B,C,D,A\nQ3,A,B,C,D,A').errors);
+  });
+
+  it('writes back the CSV it read', () => {
+    const { quiz } = quizFromCsv(CSV);
+    expect(quizToCsv(quiz!)).toBe(CSV);
+  });
+
+  it('writes only the optional columns in use', () => {
+    const quiz = quizFromQuestions([
+      { ...question(1), correct: 'A' },
+      { ...question(2), correct: 'A', timeLimit: 30 },
+      { ...question(3), correct: 'A' },
+    ]);
+    expect(quizToCsv(quiz)).toBe(
+      'question,a,b,c,d,correct,time_limit\r\nQuestion 1,A,B,C,D,A,\r\nQuestion 2,A,B,C,D,A,30\r\nQuestion 3,A,B,C,D,A,\r\n',
+    );
+  });
+
+  it('writes question types back in CSV form', () => {
+    const quiz = quizFromQuestions([
+      { question: 'Q1', type: 'true_false', correct: 'A' },
+      { question: 'Q2', type: 'multi_select', a: 'A', b: 'B', c: 'C', correct: ['A', 'C'] },
+      { question: 'Q3', type: 'numeric', correct: 1969, tolerance: 2 },
+      { question: 'Q4', type: 'free_text', correct: ['Apollo 11', 'Apollo'] },
+      { question: 'Q5', type: 'poll', a: 'Yes', b: 'No' },
+    ]);
+    const csv = quizToCsv(quiz);
+    expect(csv).toBe(
+      'question,a,b,c,d,correct,type,tolerance\r\n' +
+      'Q1,,,,,A,true_false,\r\n' +
+      'Q2,A,B,C,,"A,C",multi_select,\r\n' +
+      'Q3,,,,,1969,numeric,2\r\n' +
+      'Q4,,,,,Apollo 11|Apollo,free_text,\r\n' +
+      'Q5,Yes,No,,,,poll,\r\n',
+    );
+    expect(quizFromCsv(csv).quiz).toEqual(quiz);
+  });
+
+  it('keeps questions before the first named round in a round of their own', () => {
+    const quiz = quizFromQuestions([
+      { ...question(1), correct: 'A' },
+      { ...question(2), correct: 'A', round: 'Final' },
+    ]);
+    expect(quiz.rounds).toEqual([
+      { questions: [question(1)] },
+      { name: 'Final', questions: [question(2)] },
+    ]);
+  });
+});
+
+describe('quizFormatOf', () => {
+  it('goes by the file extension', () => {
+    expect(['show.csv', 'show.JSON', 'show.yaml', 'show.yml', 'show.txt'].map(quizFormatOf))
+      .toEqual(['csv', 'json', 'yaml', 'yaml', null]);
+  });
+});
+
+describe('published schema', () => {
+  it('allows the fields the validator allows', () => {
+    const quiz: QuizDocument = readQuiz(SHOW_YAML, 'yaml').quiz!;
+    expect(Object.keys(SCHEMA.properties)).toEqual(['$schema', 'version', 'title', 'settings', 'rounds', 'questions']);
+    expect(Object.keys(SCHEMA.$defs.settings.properties)).toEqual(['timeLimit', 'revealDelay', 'scoring', 'revealMode', 'speed']);
+    expect(Object.keys(SCHEMA.$defs.round.properties)).toEqual(['name', 'questions']);
+    expect(Object.keys(SCHEMA.$defs.question.properties)).toEqual(
+      ['question', 'type', 'a', 'b', 'c', 'd', 'e', 'f', 'correct', 'tolerance', 'timeLimit', 'category', 'points', 'explanation', 'image'],
+    );
+    expect(SCHEMA.properties.version.const).toBe(quiz.version);
+  });
+
+  it('states the same limits as the validator', () => {
+    const q = SCHEMA.$defs.question.properties;
+    expect([q.timeLimit.minimum, q.timeLimit.maximum, q.points.minimum, q.points.maximum]).toEqual([3, 120, 1, 10000]);
+    expect(q.type.enum).toEqual(['multiple_choice', 'true_false', 'multi_select', 'numeric', 'free_text', 'poll', 'word_cloud']);
+    expect(q.tolerance.minimum).toBe(0);
+    const s = SCHEMA.$defs.settings.properties;
+    expect([s.revealDelay.minimum, s.revealDelay.maximum]).toEqual([0, 30]);
+    expect(s.scoring.enum).toEqual(['elimination', 'points']);
+    expect(s.revealMode.enum).toEqual(['auto', 'manual']);
+  });
+});
@@ -0,0 +1,201 @@
+// Trivia question CSV validation, shared by the server's CsvParser and the
+// admin page, which checks a file before anything is sent.
+
+import { columnLetter, describeCell, readCsv, type CsvIssue, type CsvRecord } from './csv-reader.js';
+import {
+  DEFAULT_MAX_QUESTIONS,
+  MIN_QUESTIONS,
+  OPTION_FIELDS,
+  QUESTION_TYPES,
+  RULES,
+  got,
+  isOpinionType,
+  isValidImage,
+  isValidPoints,
+  isValidTimeLimit,
+  optionCountOf,
+  optionProblems,
+  readCorrect,
+  type QuestionType,
+  type QuizQuestion,
+} from './question-rules.js';
+
+export type { CsvIssue } from './csv-reader.js';
+
+const REQUIRED_HEADERS = ['question', 'a', 'b', 'c', 'd', 'correct'];
+/** May follow the required columns, in any order. */
+export const OPTIONAL_HEADERS = ['type', 'e', 'f', 'tolerance', 'time_limit', 'category', 'round', 'points', 'explanation', 'image'];
+
+export interface CsvParseOptions {
+  /** Most questions one file may hold; DEFAULT_MAX_QUESTIONS when omitted. */
+  maxQuestions?: number;
+}
+
+export interface CsvParseResult {
+  questions: QuizQuestion[];
+  /** Every problem found, in file order; the file is usable only when this is empty. */
+  errors: CsvIssue[];
+}
+
+function isBlank(record: CsvRecord): boolean {
+  return record.cells.every(c => c.trim() === '');
+}
+
+/** Parses a whole file, collecting every problem rather than stopping at the first. */
+export function parseCsv(csv: string, options: CsvParseOptions = {}): CsvParseResult {
+  const maxQuestions = options.maxQuestions ?? DEFAULT_MAX_QUESTIONS;
+  const { records, issues: errors } = readCsv(csv);
+
+  while (records.length > 0 && isBlank(records[records.length - 1])) records.pop();
+  if (records.length === 0) {
+    return { questions: [], errors: errors.length > 0 ? errors : [{ message: 'File is empty' }] };
+  }
+
+  // ── Header ──────────────────────────────────────────────────────────────────
+  // Spreadsheets often export empty columns past the last heading
+  const headings = records[0].cells.map(h => h.trim().toLowerCase());
+  while (headings.length > REQUIRED_HEADERS.length && headings[headings.length - 1] === '') headings.pop();
+
+  function headerIssue(column: number | undefined, message: string): void {
+    errors.push({ row: 1, column, message: `${column === undefined ? 'Row 1 (header)' : describeCell(1, column)}: ${message}` });
+  }
+
+  if (!REQUIRED_HEADERS.every((h, i) => headings[i] === h)) {
+    headerIssue(undefined, `must start with "${REQUIRED_HEADERS.join(',')}" — got "${records[0].cells.join(',').trim()}"`);
+  } else {
+    headings.slice(REQUIRED_HEADERS.length).forEach((h, i) => {
+      const column = REQUIRED_HEADERS.length + i + 1;
+      const first = headings.indexOf(h) + 1;
+      if (!OPTIONAL_HEADERS.includes(h)) {
+        headerIssue(column, `unknown column "${h}" — columns after "correct" may be any of ${OPTIONAL_HEADERS.join(', ')}`);
+      } else if (first !== column) {
+        headerIssue(column, `"${h}" is already column ${columnLetter(first)}`);
+      }
+    });
+  }
+  // Rows are still checked under a bad header, reading the required columns by position
+  const columnOf = new Map<string, number>(REQUIRED_HEADERS.map((h, i) => [h, i]));
+  headings.forEach((h, i) => {
+    if (i >= REQUIRED_HEADERS.length && OPTIONAL_HEADERS.includes(h) && !columnOf.has(h)) columnOf.set(h, i);
+  });
+
+  const dataRecords = records.slice(1).filter(r => !isBlank(r));
+
+  if (dataRecords.length < MIN_QUESTIONS) {
+    errors.push({ message: `Too few questions: minimum is ${MIN_QUESTIONS}, found ${dataRecords.length}` });
+  } else if (dataRecords.length > maxQuestions) {
+    errors.push({ message: `Too many questions: maximum is ${maxQuestions}, found ${dataRecords.length}` });
+  }
+
+  // ── Rows ────────────────────────────────────────────────────────────────────
+  const seenQuestions = new Map<string, number>(); // normalised text → first row number
+  const endedRounds = new Map<string, number>(); // round name → its last row
+  let currentRound: string | null = null;
+  let currentRoundLastRow = 0;
+  const questions: QuizQuestion[] = [];
+
+  for (const { row, cells: raw } of dataRecords) {
+    const cells = raw.map(c => c.trim());
+    const cell = (name: string) => {
+      const index = columnOf.get(name);
+      return index === undefined ? '' : cells[index] ?? '';
+    };
+    const rowIssue = (name: string, message: string) => {
+      const column = (columnOf.get(name) ?? 0) + 1;
+      errors.push({ row, column, message: `${describeCell(row, column, name)}: ${message}` });
+    };
+
+    // A stray comma in an unquoted answer pushes the rest of the row right
+    for (let i = headings.length; i < cells.length; i++) {
+      if (cells[i] !== '') {
+        errors.push({ row, column: i + 1, message: `${describeCell(row, i + 1)}: "${cells[i]}" has no column heading — quote any cell that contains a comma` });
+        break;
+      }
+    }
+
+    // A blank type cell means multiple choice
+    const typeRaw = cell('type').toLowerCase();
+    const type = (typeRaw === '' ? 'multiple_choice' : typeRaw) as QuestionType;
+    if (!QUESTION_TYPES.includes(type)) {
+      rowIssue('type', RULES.type + got(cell('type')));
+      continue;
+    }
+
+    // Which answer cells must be filled depends on the type
+    const options = Object.fromEntries(OPTION_FIELDS.map(f => [f, cell(f)]));
+    const blank = [
+      ...(cell('question') === '' ? [{ field: 'question', message: RULES.required }] : []),
+      ...optionProblems(type, options),
+      ...(cell('correct') === '' && !isOpinionType(type) ? [{ field: 'correct', message: RULES.required }] : []),
+    ];
+    if (blank.length > 0) {
+      for (const { field, message } of blank) rowIssue(field, message);
+      continue;
+    }
+
+    // Polls and word clouds leave correct blank
+    const read = cell('correct') === '' ? null : readCorrect(type, cell('correct'), optionCountOf(type, options));
+    if (read && 'problem' in read) rowIssue('correct', read.problem);
+
+    const toleranceRaw = cell('tolerance');
+    const tolerance = toleranceRaw === '' ? undefined : Number(toleranceRaw);
+    if (tolerance !== undefined && type !== 'numeric') {
+      rowIssue('tolerance', 'only applies to numeric questions' + got(toleranceRaw));
+    } else if (tolerance !== undefined && !(Number.isFinite(tolerance) && tolerance >= 0)) {
+      rowIssue('tolerance', RULES.tolerance + got(toleranceRaw));
+    }
+
+    // A blank time_limit cell falls back to the session default
+    const timeLimitRaw = cell('time_limit');
+    const timeLimit = timeLimitRaw === '' ? undefined : Number(timeLimitRaw);
+    if (timeLimit !== undefined && !isValidTimeLimit(timeLimit)) {
+      rowIssue('time_limit', RULES.timeLimit + got(timeLimitRaw));
+    }
+
+    const pointsRaw = cell('points');
+    const points = pointsRaw === '' ? undefined : Number(pointsRaw);
+    if (points !== undefined && !isValidPoints(points)) {
+      rowIssue('points', RULES.points + got(pointsRaw));
+    }
+
+    const image = cell('image');
+    if (image !== '' && !isValidImage(image)) {
+      rowIssue('image', RULES.image + got(image));
+    }
+
+    // A blank round cell continues the round above it
+    const roundName = cell('round');
+    if (roundName !== '' && roundName !== currentRound) {
+      if (currentRound !== null) endedRounds.set(currentRound, currentRoundLastRow);
+      if (endedRounds.has(roundName)) {
+        rowIssue('round', `"${roundName}" already ended at row ${endedRounds.get(roundName)} — keep each round's questions together`);
+      }
+      currentRound = roundName;
+    }
+    currentRoundLastRow = row;
+
+    const normalised = cell('question').toLowerCase();
+    if (seenQuestions.has(normalised)) {
+      rowIssue('question', `duplicate question text — same as row ${seenQuestions.get(normalised)}`);
+    } else {
+      seenQuestions.set(normalised, row);
+    }
+
+    const question = { question: cell('question') } as QuizQuestion;
+    if (typeRaw !== '') question.type = type;
+    for (const field of OPTION_FIELDS) {
+      if (cell(field) !== '') question[field] = cell(field);
+    }
+    if (read && 'correct' in read) question.correct = read.correct;
+    if (tolerance !== undefined) question.tolerance = tolerance;
+    if (timeLimit !== undefined) question.timeLimit = timeLimit;
+    if (currentRound !== null) question.round = currentRound;
+    if (cell('category') !== '') question.category = cell('category');
+    if (points !== undefined) question.points = points;
+    if (cell('explanation') !== '') question.explanation = cell('explanation');
+    if (image !== '') question.image = image;
+    questions.push(question);
+  }
+
+  return { questions, errors };
+}
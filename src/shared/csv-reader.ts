@@ -0,0 +1,176 @@
+// An RFC 4180 CSV reader that runs unchanged on the server and in the browser.
+// Quoted fields may hold commas, doubled quotes and line breaks; rows may end
+// in CRLF, LF or CR. Input can arrive in chunks split anywhere, even between
+// the two quotes of an escaped quote.
+
+/** One record; `row` counts records from 1, as a spreadsheet numbers its rows. */
+export interface CsvRecord {
+  row: number;
+  cells: string[];
+}
+
+/** A problem pinned to a row and, where there is one, a 1-based column. */
+export interface CsvIssue {
+  /** Absent for problems with the file as a whole. */
+  row?: number;
+  column?: number;
+  message: string;
+}
+
+export interface CsvReaderHandlers {
+  onRecord(record: CsvRecord): void;
+  onIssue(issue: CsvIssue): void;
+}
+
+export interface CsvReader {
+  write(chunk: string): void;
+  /** Flushes the last record; a quoted field still open is reported, and its record dropped. */
+  end(): void;
+}
+
+/** The spreadsheet letter for a 1-based column: 1 → A, 27 → AA. */
+export function columnLetter(column: number): string {
+  let letters = '';
+  for (let n = column; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/** `Row 3, column F (correct)`, or just `Row 3` without a column. */
+export function describeCell(row: number, column?: number, heading?: string): string {
+  if (column === undefined) return `Row ${row}`;
+  return `Row ${row}, column ${columnLetter(column)}${heading ? ` (${heading})` : ''}`;
+}
+
+type State =
+  | 'field_start' // nothing but spaces read in this field yet
+  | 'unquoted'
+  | 'quoted'
+  | 'quote_in_quoted' // a quote inside a quoted field: closing, or the first of a pair
+  | 'after_quoted';
+
+export function createCsvReader(handlers: CsvReaderHandlers): CsvReader {
+  let state: State = 'field_start';
+  let field = '';
+  let cells: string[] = [];
+  let row = 1;
+  let quotedFrom = { row: 1, column: 1 };
+  let started = false;
+  let skipLineFeed = false;
+  let strayReported = false;
+
+  function issue(column: number, message: string): void {
+    handlers.onIssue({ row, column, message: `${describeCell(row, column)}: ${message}` });
+  }
+
+  function endField(): void {
+    cells.push(field);
+    field = '';
+    state = 'field_start';
+    strayReported = false;
+  }
+
+  function endRecord(): void {
+    endField();
+    handlers.onRecord({ row, cells });
+    cells = [];
+    row++;
+  }
+
+  function read(ch: string): void {
+    switch (state) {
+      case 'quoted':
+        if (ch === '"') state = 'quote_in_quoted';
+        else field += ch;
+        return;
+
+      case 'quote_in_quoted':
+        if (ch === '"') {
+          field += '"';
+          state = 'quoted';
+          return;
+        }
+        state = 'after_quoted';
+        read(ch);
+        return;
+
+      case 'after_quoted':
+        if (ch === ' ' || ch === '\t') return;
+        if (ch === ',' || ch === '\n' || ch === '\r') break;
+        if (!strayReported) {
+          strayReported = true;
+          issue(cells.length + 1, 'text after a closing quote — double any quotes inside a quoted field');
+        }
+        state = 'unquoted';
+        break;
+
+      case 'field_start':
+        if (ch === '"' && field.trim() === '') {
+          field = '';
+          quotedFrom = { row, column: cells.length + 1 };
+          state = 'quoted';
+          return;
+        }
+        if (ch === ' ' || ch === '\t') {
+          field += ch;
+          return;
+        }
+        state = 'unquoted';
+        break;
+
+      case 'unquoted':
+        break;
+    }
+
+    if (ch === ',') endField();
+    else if (ch === '\n') endRecord();
+    else if (ch === '\r') {
+      endRecord();
+      skipLineFeed = true;
+    } else field += ch;
+  }
+
+  return {
+    write(chunk: string): void {
+      for (let i = 0; i < chunk.length; i++) {
+        const ch = chunk[i];
+        if (!started) {
+          started = true;
+          if (ch === '\uFEFF') continue;
+        }
+        if (skipLineFeed) {
+          skipLineFeed = false;
+          if (ch === '\n') continue;
+        }
+        read(ch);
+      }
+    },
+
+    end(): void {
+      if (state === 'quoted') {
+        handlers.onIssue({
+          ...quotedFrom,
+          message: `${describeCell(quotedFrom.row, quotedFrom.column)}: quoted field is never closed — check for a missing closing quote`,
+        });
+        return;
+      }
+      // Input ending in a line break has no record after it
+      if (state === 'field_start' && field === '' && cells.length === 0) return;
+      endRecord();
+    },
+  };
+}
+
+/** Reads a whole string at once. */
+export function readCsv(text: string): { records: CsvRecord[]; issues: CsvIssue[] } {
+  const records: CsvRecord[] = [];
+  const issues: CsvIssue[] = [];
+  const reader = createCsvReader({
+    onRecord: (record) => records.push(record),
+    onIssue: (issue) => issues.push(issue),
+  });
+  reader.write(text);
+  reader.end();
+  return { records, issues };
+}
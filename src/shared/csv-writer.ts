@@ -0,0 +1,12 @@
+// Writes CSV the way spreadsheets export it (RFC 4180): CRLF row endings, and
+// quotes only around cells that need them.
+
+const NEEDS_QUOTES = /[",\r\n]|^\s|\s$/;
+
+export function formatCsvCell(value: string): string {
+  return NEEDS_QUOTES.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatCsv(rows: string[][]): string {
+  return rows.map(cells => cells.map(formatCsvCell).join(',')).join('\r\n') + '\r\n';
+}
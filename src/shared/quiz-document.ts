@@ -0,0 +1,352 @@
+// Quiz documents: a versioned JSON or YAML file holding a whole show, with its
+// title, settings and questions, optionally grouped into named rounds.
+// public/schemas/quiz-v1.schema.json describes the same format for editors.
+
+import { parse as parseYaml, stringify as stringifyYaml, YAMLParseError } from 'yaml';
+import { OPTIONAL_HEADERS, parseCsv, type CsvParseOptions } from './csv-parser.js';
+import { formatCsv } from './csv-writer.js';
+import {
+  ACCEPTED_ANSWER_SEPARATOR,
+  DEFAULT_MAX_QUESTIONS,
+  MAX_REVEAL_DELAY_SECONDS,
+  MIN_QUESTIONS,
+  RULES,
+  got,
+  isFilledText,
+  isValidRevealDelay,
+  isValidTimeLimit,
+  readQuestion,
+  type ImportIssue,
+  type QuizQuestion,
+} from './question-rules.js';
+
+export const QUIZ_FORMAT_VERSION = 1;
+
+export type QuizFormat = 'json' | 'yaml';
+
+export interface QuizSettings {
+  /** Default seconds per question; questions may set their own `timeLimit`. */
+  timeLimit?: number;
+  /** Seconds between the answer breakdown and the reveal. */
+  revealDelay?: number;
+  scoring?: 'elimination' | 'points';
+  revealMode?: 'auto' | 'manual';
+  speed?: boolean;
+}
+
+/** A question as a document holds it; its round is the one it sits in. */
+export type QuizDocumentQuestion = Omit<QuizQuestion, 'round'>;
+
+export interface QuizRound {
+  name?: string;
+  questions: QuizDocumentQuestion[];
+}
+
+export interface QuizDocument {
+  $schema?: string;
+  version: typeof QUIZ_FORMAT_VERSION;
+  title?: string;
+  settings?: QuizSettings;
+  /** A document has rounds or questions, never both. */
+  rounds?: QuizRound[];
+  questions?: QuizDocumentQuestion[];
+}
+
+export interface QuizReadResult {
+  /** The document, tidied; null when there are errors. */
+  quiz: QuizDocument | null;
+  errors: ImportIssue[];
+}
+
+const DOCUMENT_KEYS = ['$schema', 'version', 'title', 'settings', 'rounds', 'questions'];
+const SETTINGS_KEYS = ['timeLimit', 'revealDelay', 'scoring', 'revealMode', 'speed'];
+const ROUND_KEYS = ['name', 'questions'];
+const QUESTION_KEYS = [
+  'question', 'type', 'a', 'b', 'c', 'd', 'e', 'f', 'correct', 'tolerance',
+  'timeLimit', 'category', 'points', 'explanation', 'image',
+];
+const SCORING_MODES = ['elimination', 'points'];
+const REVEAL_MODES = ['auto', 'manual'];
+
+/** CSV column → question field, for the optional columns. */
+const FIELD_OF_COLUMN: Record<string, keyof QuizQuestion> = {
+  type: 'type',
+  e: 'e',
+  f: 'f',
+  tolerance: 'tolerance',
+  time_limit: 'timeLimit',
+  category: 'category',
+  round: 'round',
+  points: 'points',
+  explanation: 'explanation',
+  image: 'image',
+};
+
+type Path = (string | number)[];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** `rounds[1].questions[0].correct` */
+function pathString(path: Path): string {
+  return path.map((p, i) => typeof p === 'number' ? `[${p}]` : i === 0 ? p : `.${p}`).join('');
+}
+
+/** `Round 2, question 1 (correct)`, numbering from 1 as a person would. */
+function describePath(path: Path): string {
+  const [head, index, next, inner, ...rest] = path;
+  if (head === 'rounds' && typeof index === 'number') {
+    if (next === 'questions' && typeof inner === 'number') {
+      return `Round ${index + 1}, question ${inner + 1}${rest.length > 0 ? ` (${rest[0]})` : ''}`;
+    }
+    return `Round ${index + 1}${next !== undefined ? ` (${next})` : ''}`;
+  }
+  if (head === 'questions' && typeof index === 'number') {
+    return `Question ${index + 1}${next !== undefined ? ` (${next})` : ''}`;
+  }
+  if (head === 'settings' && index !== undefined) return `Settings (${index})`;
+  return head === undefined ? 'Quiz' : `Quiz (${head})`;
+}
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+/**
+ * Checks a parsed document against the v1 format, collecting every problem.
+ * Numeric answer text is read as text, since YAML turns `a: 1969` into a number.
+ */
+export function validateQuizDocument(value: unknown, options: CsvParseOptions = {}): QuizReadResult {
+  const maxQuestions = options.maxQuestions ?? DEFAULT_MAX_QUESTIONS;
+  const errors: ImportIssue[] = [];
+  const issue = (path: Path, message: string): void => {
+    errors.push({ path: pathString(path), message: `${describePath(path)}: ${message}` });
+  };
+  const unknownKeys = (obj: Record<string, unknown>, allowed: string[], path: Path): void => {
+    for (const key of Object.keys(obj)) {
+      if (!allowed.includes(key)) issue([...path, key], `unknown field — use any of ${allowed.join(', ')}`);
+    }
+  };
+
+  if (!isRecord(value)) {
+    return { quiz: null, errors: [{ message: 'A quiz document must be an object with "version" and "questions" or "rounds"' }] };
+  }
+  unknownKeys(value, DOCUMENT_KEYS, []);
+
+  const quiz: QuizDocument = { version: QUIZ_FORMAT_VERSION };
+  if (value.$schema !== undefined) {
+    if (typeof value.$schema === 'string') quiz.$schema = value.$schema;
+    else issue(['$schema'], RULES.text + got(value.$schema));
+  }
+  if (value.version === undefined) issue(['version'], RULES.required);
+  else if (value.version !== QUIZ_FORMAT_VERSION) issue(['version'], `must be ${QUIZ_FORMAT_VERSION}` + got(value.version));
+  if (value.title !== undefined) {
+    if (isFilledText(value.title)) quiz.title = value.title;
+    else issue(['title'], RULES.text + got(value.title));
+  }
+
+  // ── Settings ──
+  if (value.settings !== undefined) {
+    const s = value.settings;
+    if (!isRecord(s)) {
+      issue(['settings'], 'must be an object');
+    } else {
+      unknownKeys(s, SETTINGS_KEYS, ['settings']);
+      const settings: QuizSettings = {};
+      if (s.timeLimit !== undefined) {
+        if (isValidTimeLimit(s.timeLimit)) settings.timeLimit = s.timeLimit;
+        else issue(['settings', 'timeLimit'], RULES.timeLimit + got(s.timeLimit));
+      }
+      if (s.revealDelay !== undefined) {
+        if (isValidRevealDelay(s.revealDelay)) settings.revealDelay = s.revealDelay;
+        else issue(['settings', 'revealDelay'], `must be a number of seconds from 0 to ${MAX_REVEAL_DELAY_SECONDS}` + got(s.revealDelay));
+      }
+      if (s.scoring !== undefined) {
+        if (SCORING_MODES.includes(s.scoring as string)) settings.scoring = s.scoring as QuizSettings['scoring'];
+        else issue(['settings', 'scoring'], `must be ${SCORING_MODES.join(' or ')}` + got(s.scoring));
+      }
+      if (s.revealMode !== undefined) {
+        if (REVEAL_MODES.includes(s.revealMode as string)) settings.revealMode = s.revealMode as QuizSettings['revealMode'];
+        else issue(['settings', 'revealMode'], `must be ${REVEAL_MODES.join(' or ')}` + got(s.revealMode));
+      }
+      if (s.speed !== undefined) {
+        if (typeof s.speed === 'boolean') settings.speed = s.speed;
+        else issue(['settings', 'speed'], 'must be true or false' + got(s.speed));
+      }
+      quiz.settings = settings;
+    }
+  }
+
+  // ── Questions ──
+  const seenQuestions = new Map<string, string>(); // normalised text → where it first appeared
+  let count = 0;
+
+  function readQuestions(list: unknown, path: Path): QuizDocumentQuestion[] {
+    if (!Array.isArray(list) || list.length === 0) {
+      issue(path, 'must list at least one question');
+      return [];
+    }
+    const questions: QuizDocumentQuestion[] = [];
+    list.forEach((raw, i) => {
+      const at = [...path, i];
+      count++;
+      if (!isRecord(raw)) {
+        issue(at, 'must be an object');
+        return;
+      }
+      unknownKeys(raw, QUESTION_KEYS, at);
+      const known = Object.fromEntries(QUESTION_KEYS.filter(k => raw[k] !== undefined).map(k => [k, raw[k]]));
+      const { question: q, problems } = readQuestion(known);
+      for (const { field, message } of problems) issue([...at, field], message);
+      if (!q) return;
+
+      const where = describePath(at);
+      const normalised = q.question.trim().toLowerCase();
+      const first = seenQuestions.get(normalised);
+      if (first) issue([...at, 'question'], `duplicate question text — same as ${first.toLowerCase()}`);
+      else seenQuestions.set(normalised, where);
+      questions.push(q);
+    });
+    return questions;
+  }
+
+  if (value.rounds !== undefined && value.questions !== undefined) {
+    issue(['rounds'], 'cannot be used with "questions" — put every question in a round, or leave rounds out');
+  } else if (value.rounds !== undefined) {
+    if (!Array.isArray(value.rounds) || value.rounds.length === 0) {
+      issue(['rounds'], 'must list at least one round');
+    } else {
+      const roundNames = new Map<string, number>(); // lower-cased name → round number
+      quiz.rounds = value.rounds.map((raw, r): QuizRound => {
+        if (!isRecord(raw)) {
+          issue(['rounds', r], 'must be an object');
+          return { questions: [] };
+        }
+        unknownKeys(raw, ROUND_KEYS, ['rounds', r]);
+        const round: QuizRound = { questions: [] };
+        if (raw.name !== undefined) {
+          if (!isFilledText(raw.name)) {
+            issue(['rounds', r, 'name'], RULES.text + got(raw.name));
+          } else if (roundNames.has(raw.name.trim().toLowerCase())) {
+            issue(['rounds', r, 'name'], `"${raw.name}" is already round ${roundNames.get(raw.name.trim().toLowerCase())}`);
+          } else {
+            roundNames.set(raw.name.trim().toLowerCase(), r + 1);
+            round.name = raw.name;
+          }
+        }
+        round.questions = readQuestions(raw.questions, ['rounds', r, 'questions']);
+        return round;
+      });
+    }
+  } else if (value.questions !== undefined) {
+    quiz.questions = readQuestions(value.questions, ['questions']);
+  } else {
+    issue([], 'must have "questions", or "rounds" of questions');
+  }
+
+  if (count < MIN_QUESTIONS) {
+    errors.push({ message: `Too few questions: minimum is ${MIN_QUESTIONS}, found ${count}` });
+  } else if (count > maxQuestions) {
+    errors.push({ message: `Too many questions: maximum is ${maxQuestions}, found ${count}` });
+  }
+
+  return { quiz: errors.length === 0 ? quiz : null, errors };
+}
+
+// ── Reading and writing ───────────────────────────────────────────────────────
+
+/** The format a file's name implies, or null for anything else. */
+export function quizFormatOf(fileName: string): QuizFormat | 'csv' | null {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'csv') return 'csv';
+  if (ext === 'json') return 'json';
+  if (ext === 'yaml' || ext === 'yml') return 'yaml';
+  return null;
+}
+
+function syntaxIssue(err: unknown, format: QuizFormat): ImportIssue {
+  if (err instanceof YAMLParseError && err.linePos) {
+    const { line, col } = err.linePos[0];
+    // The library appends the position and a code excerpt; the issue carries both already
+    const reason = err.message.split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+    return { line, message: `Line ${line}, column ${col}: ${reason}` };
+  }
+  const reason = err instanceof Error ? err.message : String(err);
+  return { message: `Not valid ${format === 'json' ? 'JSON' : 'YAML'} — ${reason}` };
+}
+
+/** Parses and checks a quiz document written as JSON or YAML. */
+export function readQuiz(text: string, format: QuizFormat, options: CsvParseOptions = {}): QuizReadResult {
+  let value: unknown;
+  try {
+    value = format === 'json' ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    return { quiz: null, errors: [syntaxIssue(err, format)] };
+  }
+  return validateQuizDocument(value, options);
+}
+
+export function formatQuiz(quiz: QuizDocument, format: QuizFormat): string {
+  return format === 'json' ? JSON.stringify(quiz, null, 2) + '\n' : stringifyYaml(quiz);
+}
+
+/** Every question in play order, each carrying the name of its round. */
+export function questionsOf(quiz: QuizDocument): QuizQuestion[] {
+  if (quiz.rounds) {
+    return quiz.rounds.flatMap(r => r.questions.map(q => r.name !== undefined ? { ...q, round: r.name } : { ...q }));
+  }
+  return (quiz.questions ?? []).map(q => ({ ...q }));
+}
+
+/** Builds a document from a question list, starting a round wherever the round name changes. */
+export function quizFromQuestions(
+  questions: QuizQuestion[],
+  details: { title?: string; settings?: QuizSettings } = {},
+): QuizDocument {
+  const quiz: QuizDocument = { version: QUIZ_FORMAT_VERSION };
+  if (details.title) quiz.title = details.title;
+  if (details.settings && Object.keys(details.settings).length > 0) quiz.settings = details.settings;
+
+  const strip = ({ round, ...question }: QuizQuestion): QuizDocumentQuestion => question;
+  if (!questions.some(q => q.round !== undefined)) {
+    quiz.questions = questions.map(strip);
+    return quiz;
+  }
+  const rounds: QuizRound[] = [];
+  for (const q of questions) {
+    const last = rounds[rounds.length - 1];
+    if (last && last.name === q.round) last.questions.push(strip(q));
+    else rounds.push(q.round !== undefined ? { name: q.round, questions: [strip(q)] } : { questions: [strip(q)] });
+  }
+  quiz.rounds = rounds;
+  return quiz;
+}
+
+/** Reads a question CSV into a document. */
+export function quizFromCsv(
+  csv: string,
+  details: { title?: string; settings?: QuizSettings } = {},
+  options: CsvParseOptions = {},
+): QuizReadResult {
+  const { questions, errors } = parseCsv(csv, options);
+  return { quiz: errors.length === 0 ? quizFromQuestions(questions, details) : null, errors };
+}
+
+/** A multi-select's letters share one cell, e.g. `A,C`, as do free-text answers, e.g. `Apollo|Apollo 11`. */
+function correctCell(q: QuizQuestion): string {
+  if (q.correct === undefined) return '';
+  if (!Array.isArray(q.correct)) return String(q.correct);
+  return q.correct.join(q.type === 'free_text' ? ACCEPTED_ANSWER_SEPARATOR : ',');
+}
+
+/** Writes a document as a question CSV. CSV has nowhere to keep the title or settings. */
+export function quizToCsv(quiz: QuizDocument): string {
+  const questions = questionsOf(quiz);
+  const columns = OPTIONAL_HEADERS.filter(h => questions.some(q => q[FIELD_OF_COLUMN[h]] !== undefined));
+  return formatCsv([
+    ['question', 'a', 'b', 'c', 'd', 'correct', ...columns],
+    ...questions.map(q => [
+      q.question, q.a ?? '', q.b ?? '', q.c ?? '', q.d ?? '', correctCell(q),
+      ...columns.map(h => String(q[FIELD_OF_COLUMN[h]] ?? '')),
+    ]),
+  ]);
+}